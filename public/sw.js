@@ -0,0 +1,226 @@
+/**
+ * Service worker - Offline app shell and daily reminders
+ *
+ * Production builds get a precache manifest prepended by vite-pwa.ts
+ * (self.__PRECACHE_MANIFEST: build version and every file in dist).
+ * The shell is served cache-first so the app opens offline; entries
+ * already live in IndexedDB. In development there is no manifest and
+ * requests go straight to the dev server.
+ *
+ * A new build waits until the page asks it to take over (after the
+ * user accepts the update prompt), so a tab never mixes two builds.
+ *
+ * Reminders: while the app is open it decides when to remind (it checks
+ * whether today has an entry) and calls registration.showNotification().
+ * Where the browser offers Periodic Background Sync, the app also
+ * registers a periodic check, and this worker does the same check with
+ * the app closed: it reads the reminder settings and today's entry
+ * straight from IndexedDB. Clicking a reminder brings the app forward.
+ */
+
+const MANIFEST = self.__PRECACHE_MANIFEST || { version: 'dev', urls: [] }
+const CACHE_PREFIX = 'gratefulness-jar-'
+const CACHE_NAME = `${CACHE_PREFIX}${MANIFEST.version}`
+
+/**
+ * Page served for navigations to routes that weren't precached
+ */
+const SHELL_URL = '/'
+
+/**
+ * Notification tag and periodic sync tag (the app uses the same one)
+ */
+const REMINDER_TAG = 'daily-reminder'
+
+/**
+ * Where the background check keeps its state between wake-ups
+ * (outside CACHE_PREFIX so a new build doesn't drop it)
+ */
+const REMINDER_CACHE = 'gratefulness-reminders'
+const REMINDER_STATE_URL = '/reminder-state.json'
+
+/**
+ * The app's database (see DB_NAME in src/lib/db/schema.ts)
+ */
+const DB_NAME = 'gratefulnessDB'
+
+self.addEventListener('install', (event) => {
+  if (MANIFEST.urls.length === 0) {
+    self.skipWaiting()
+    return
+  }
+  event.waitUntil(caches.open(CACHE_NAME).then((cache) => cache.addAll(MANIFEST.urls)))
+})
+
+// Drop caches from older builds
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter((name) => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME)
+            .map((name) => caches.delete(name))
+        )
+      )
+      .then(() => self.clients.claim())
+  )
+})
+
+self.addEventListener('message', (event) => {
+  if (!event.data) return
+  if (event.data.type === 'SKIP_WAITING') self.skipWaiting()
+  // The worker can't read the message catalogs, so the app hands over the text
+  if (event.data.type === 'REMINDER_TEXT') {
+    const { title, body } = event.data
+    event.waitUntil(
+      readReminderState().then((state) => writeReminderState({ ...state, title, body }))
+    )
+  }
+})
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (MANIFEST.urls.length === 0 || request.method !== 'GET') return
+
+  const url = new URL(request.url)
+  // Leave other origins and the sync API to the network
+  if (url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return
+
+  event.respondWith(
+    caches.open(CACHE_NAME).then(async (cache) => {
+      const cached = await cache.match(request, { ignoreSearch: request.mode === 'navigate' })
+      if (cached) return cached
+      try {
+        return await fetch(request)
+      } catch (error) {
+        // Offline: any route can be rendered by the app shell
+        if (request.mode === 'navigate') {
+          const shell = await cache.match(SHELL_URL)
+          if (shell) return shell
+        }
+        throw error
+      }
+    })
+  )
+})
+
+// Focus an open tab if there is one, otherwise open the app
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close()
+  const url = (event.notification.data && event.notification.data.url) || '/'
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      for (const client of clients) {
+        if ('focus' in client) return client.focus()
+      }
+      return self.clients.openWindow(url)
+    })
+  )
+})
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === REMINDER_TAG) event.waitUntil(checkReminder())
+})
+
+/**
+ * Remind if a reminder time has passed today and today has no entry
+ * Each reminder time is checked once. An open app runs its own check,
+ * so this one only runs while the app is closed
+ */
+async function checkReminder() {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+  if (windows.length > 0) return
+
+  const db = await openDatabase()
+  if (!db) return
+  try {
+    const now = new Date()
+    const today = toDateString(now)
+    const times = (await readSetting(db, 'reminderTimes')) || []
+    const quietDays = (await readSetting(db, 'reminderQuietDays')) || []
+    if (quietDays.includes(now.getDay())) return
+
+    const current = `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`
+    const passed = times.filter((time) => time <= current).sort()
+    if (passed.length === 0) return
+    const reminder = `${today} ${passed[passed.length - 1]}`
+
+    const state = await readReminderState()
+    if (state.lastReminder === reminder || !state.title) return
+    await writeReminderState({ ...state, lastReminder: reminder })
+
+    if (await hasLiveEntry(db, today)) return
+    await self.registration.showNotification(state.title, {
+      body: state.body,
+      tag: REMINDER_TAG,
+      data: { url: '/' },
+    })
+  } finally {
+    db.close()
+  }
+}
+
+/**
+ * Local date as YYYY-MM-DD, like the app's entry_date
+ */
+function toDateString(date) {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Open the app's database without creating or upgrading it
+ * @returns The database, or null if the app hasn't created it yet
+ */
+function openDatabase() {
+  return new Promise((resolve) => {
+    const request = indexedDB.open(DB_NAME)
+    request.onupgradeneeded = () => request.transaction.abort()
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => resolve(null)
+  })
+}
+
+/**
+ * Read one setting (stored by the app as { key, value })
+ */
+function readSetting(db, key) {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction('settings').objectStore('settings').get(key)
+    request.onsuccess = () => resolve(request.result ? request.result.value : undefined)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Check whether a day has an entry that isn't in the trash
+ */
+function hasLiveEntry(db, date) {
+  return new Promise((resolve, reject) => {
+    const request = db
+      .transaction('entries')
+      .objectStore('entries')
+      .index('entry_date')
+      .getAll(date)
+    request.onsuccess = () => resolve(request.result.some((entry) => !entry.deleted))
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Notification text and the last reminder checked
+ */
+async function readReminderState() {
+  const cache = await caches.open(REMINDER_CACHE)
+  const response = await cache.match(REMINDER_STATE_URL)
+  return response ? response.json() : {}
+}
+
+async function writeReminderState(state) {
+  const cache = await caches.open(REMINDER_CACHE)
+  await cache.put(REMINDER_STATE_URL, new Response(JSON.stringify(state)))
+}
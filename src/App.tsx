@@ -2,6 +2,12 @@ import { BrowserRouter, Routes, Route } from 'react-router-dom'
 import { Layout } from './components/layout/Layout'
 import { HomePage } from './pages/HomePage'
 import { HistoryPage } from './pages/HistoryPage'
+import { SearchPage } from './pages/SearchPage'
+import { TrendsPage } from './pages/TrendsPage'
+import { JarPage } from './pages/JarPage'
+import { SettingsPage } from './pages/SettingsPage'
+import { DataPage } from './pages/DataPage'
+import { TrashPage } from './pages/TrashPage'
 
 /**
  * App - Main application component
@@ -15,6 +21,12 @@ function App() {
         <Route path="/" element={<Layout />}>
           <Route index element={<HomePage />} />
           <Route path="history" element={<HistoryPage />} />
+          <Route path="search" element={<SearchPage />} />
+          <Route path="trends" element={<TrendsPage />} />
+          <Route path="jar" element={<JarPage />} />
+          <Route path="data" element={<DataPage />} />
+          <Route path="trash" element={<TrashPage />} />
+          <Route path="settings" element={<SettingsPage />} />
         </Route>
       </Routes>
     </BrowserRouter>
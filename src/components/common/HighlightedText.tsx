@@ -0,0 +1,40 @@
+import type { TextMatch } from '@/types'
+import { getHighlightSegments } from '@/lib/utils'
+
+interface HighlightedTextProps {
+  text: string
+  matches: TextMatch[]
+  maxLength?: number
+  className?: string
+}
+
+/**
+ * HighlightedText - Snippet of text with search hits marked
+ *
+ * Design: Soft amber highlight that stays readable in serif body text
+ */
+export function HighlightedText({
+  text,
+  matches,
+  maxLength,
+  className,
+}: HighlightedTextProps) {
+  const segments = getHighlightSegments(text, matches, maxLength)
+
+  return (
+    <p className={className}>
+      {segments.map((segment, i) =>
+        segment.highlighted ? (
+          <mark
+            key={i}
+            className="rounded-sm bg-amber-100 px-0.5 text-amber-950"
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        )
+      )}
+    </p>
+  )
+}
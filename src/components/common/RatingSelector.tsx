@@ -1,9 +1,11 @@
-import { Rating, RATING_LABELS, RATING_COLORS, getAllRatings } from '@/types'
+import { useTranslation } from '@/hooks/useTranslation'
+import { useRatingScale } from '@/hooks/useRatingScale'
 import { cn } from '@/lib/utils'
 
 interface RatingSelectorProps {
-  value: Rating | null
-  onChange: (rating: Rating) => void
+  /** Stored rating (1-7), shown as the nearest level of the scale */
+  value: number | null
+  onChange: (rating: number) => void
   disabled?: boolean
   className?: string
 }
@@ -13,6 +15,7 @@ interface RatingSelectorProps {
  *
  * Design: Horizontal button group with subtle colors and smooth interactions
  * No loud colors, no excessive rounding - refined and elegant
+ * Shows one button per level of the user's rating scale
  */
 export function RatingSelector({
   value,
@@ -20,23 +23,28 @@ export function RatingSelector({
   disabled = false,
   className,
 }: RatingSelectorProps) {
-  const ratings = getAllRatings()
+  const { t } = useTranslation()
+  const { levels, levelOf, ratingFor } = useRatingScale()
+  const selectedLevel = value === null ? null : levelOf(value)
 
   return (
     <div className={cn('space-y-2', className)}>
       <label className="text-sm font-medium text-stone-700">
-        How was your day?
+        {t('rating.question')}
       </label>
-      <div className="grid grid-cols-7 gap-1.5">
-        {ratings.map((rating) => {
-          const isSelected = value === rating
-          const color = RATING_COLORS[rating]
+      <div
+        className="grid gap-1.5"
+        style={{ gridTemplateColumns: `repeat(${levels.length}, minmax(0, 1fr))` }}
+      >
+        {levels.map(({ label, color }, index) => {
+          const level = index + 1
+          const isSelected = selectedLevel === level
 
           return (
             <button
-              key={rating}
+              key={level}
               type="button"
-              onClick={() => onChange(rating)}
+              onClick={() => onChange(ratingFor(level))}
               disabled={disabled}
               className={cn(
                 'flex flex-col items-center justify-center p-2 rounded-md',
@@ -52,7 +60,7 @@ export function RatingSelector({
               style={{
                 borderColor: isSelected ? color : undefined,
               }}
-              aria-label={RATING_LABELS[rating]}
+              aria-label={label}
               aria-pressed={isSelected}
             >
               {/* Color indicator */}
@@ -72,7 +80,7 @@ export function RatingSelector({
                   isSelected ? 'text-stone-900' : 'text-stone-600'
                 )}
               >
-                {RATING_LABELS[rating]}
+                {label}
               </span>
             </button>
           )
@@ -81,15 +89,15 @@ export function RatingSelector({
 
       {/* Mobile-friendly stacked version for very small screens */}
       <div className="md:hidden grid grid-cols-1 gap-2 sm:grid-cols-2">
-        {ratings.map((rating) => {
-          const isSelected = value === rating
-          const color = RATING_COLORS[rating]
+        {levels.map(({ label, color }, index) => {
+          const level = index + 1
+          const isSelected = selectedLevel === level
 
           return (
             <button
-              key={`mobile-${rating}`}
+              key={`mobile-${level}`}
               type="button"
-              onClick={() => onChange(rating)}
+              onClick={() => onChange(ratingFor(level))}
               disabled={disabled}
               className={cn(
                 'flex items-center gap-3 p-3 rounded-md',
@@ -105,7 +113,7 @@ export function RatingSelector({
               style={{
                 borderColor: isSelected ? color : undefined,
               }}
-              aria-label={RATING_LABELS[rating]}
+              aria-label={label}
               aria-pressed={isSelected}
             >
               {/* Color indicator */}
@@ -121,7 +129,7 @@ export function RatingSelector({
                   isSelected ? 'text-stone-900' : 'text-stone-600'
                 )}
               >
-                {RATING_LABELS[rating]}
+                {label}
               </span>
             </button>
           )
@@ -135,7 +143,8 @@ export function RatingSelector({
  * Compact rating display (for showing rating in cards/lists)
  */
 interface RatingBadgeProps {
-  rating: Rating
+  /** Stored rating (1-7) */
+  rating: number
   size?: 'sm' | 'md' | 'lg'
   showLabel?: boolean
   className?: string
@@ -147,8 +156,8 @@ export function RatingBadge({
   showLabel = true,
   className,
 }: RatingBadgeProps) {
-  const color = RATING_COLORS[rating]
-  const label = RATING_LABELS[rating]
+  const { getLevel } = useRatingScale()
+  const { color, label } = getLevel(rating)
 
   const sizeClasses = {
     sm: 'w-4 h-4',
@@ -0,0 +1,92 @@
+import { useState } from 'react'
+import { TagList } from './TagList'
+import { Input } from '../ui/input'
+import {
+  MAX_TAGS_PER_ENTRY,
+  normalizeTag,
+  validateTag,
+} from '@/lib/services/tagService'
+import { cn } from '@/lib/utils'
+import { useTranslation } from '@/hooks/useTranslation'
+
+interface TagInputProps {
+  value: string[]
+  onChange: (tags: string[]) => void
+  disabled?: boolean
+  className?: string
+}
+
+/**
+ * TagInput - Add and remove tags on an entry
+ *
+ * Enter or comma adds the typed tag, Backspace on an empty field
+ * removes the last one
+ */
+export function TagInput({ value, onChange, disabled = false, className }: TagInputProps) {
+  const [draft, setDraft] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const { t } = useTranslation()
+
+  const isFull = value.length >= MAX_TAGS_PER_ENTRY
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw)
+    if (!tag) return
+
+    const message = validateTag(tag)
+    if (message) {
+      setError(message)
+      return
+    }
+    if (isFull) {
+      setError(t('tags.tooMany', { max: MAX_TAGS_PER_ENTRY }))
+      return
+    }
+
+    setError(null)
+    setDraft('')
+    if (!value.includes(tag)) {
+      onChange([...value, tag])
+    }
+  }
+
+  const removeTag = (tag: string) => {
+    setError(null)
+    onChange(value.filter((other) => other !== tag))
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault()
+      addTag(draft)
+    } else if (e.key === 'Backspace' && draft === '' && value.length > 0) {
+      removeTag(value[value.length - 1])
+    }
+  }
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <label htmlFor="tag-input" className="text-sm font-medium text-stone-700">
+        {t('tags.label')} <span className="font-normal text-stone-500">{t('tags.optional')}</span>
+      </label>
+      <TagList tags={value} onRemove={disabled ? undefined : removeTag} />
+      <Input
+        id="tag-input"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => addTag(draft)}
+        placeholder={isFull ? t('tags.limitReached') : t('tags.placeholder')}
+        disabled={disabled || isFull}
+        aria-describedby="tag-hint"
+        aria-invalid={!!error}
+      />
+      <p
+        id="tag-hint"
+        className={cn('text-xs', error ? 'text-red-700' : 'text-stone-500')}
+      >
+        {error ?? t('tags.hint')}
+      </p>
+    </div>
+  )
+}
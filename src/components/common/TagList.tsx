@@ -0,0 +1,50 @@
+import { Badge } from '../ui/badge'
+import { X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useTranslation } from '@/hooks/useTranslation'
+
+interface TagListProps {
+  tags: string[]
+  onRemove?: (tag: string) => void
+  size?: 'sm' | 'md'
+  className?: string
+}
+
+/**
+ * TagList - Row of tag chips
+ *
+ * Design: Quiet outline chips; removable when onRemove is given
+ */
+export function TagList({ tags, onRemove, size = 'md', className }: TagListProps) {
+  const { t } = useTranslation()
+
+  if (tags.length === 0) return null
+
+  return (
+    <ul className={cn('flex flex-wrap gap-1.5', className)} aria-label={t('tags.label')}>
+      {tags.map((tag) => (
+        <li key={tag}>
+          <Badge
+            variant="outline"
+            className={cn(
+              'gap-1 border-stone-300 bg-white font-medium text-stone-600',
+              size === 'sm' && 'px-2 py-0 text-[10px]'
+            )}
+          >
+            #{tag}
+            {onRemove && (
+              <button
+                type="button"
+                onClick={() => onRemove(tag)}
+                className="-me-1 rounded-full p-0.5 hover:bg-stone-100 hover:text-stone-900"
+                aria-label={t('tags.remove', { tag })}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </Badge>
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,338 @@
+import { useEffect, useState } from 'react'
+import {
+  commitExternalImport,
+  EXTERNAL_SOURCE_LABELS,
+  getDefaultRatingMapping,
+  getExternalMoods,
+  parseExternalFile,
+  previewExternalImport,
+  type ExternalImportPreview,
+  type ExternalImportSummary,
+  type ExternalMood,
+  type ExternalRecord,
+  type ExternalSource,
+  type RatingMapping,
+} from '@/lib/services/externalImportService'
+import { useFormatDate } from '@/hooks/useSettings'
+import { useTranslation } from '@/hooks/useTranslation'
+import { useRatingScale } from '@/hooks/useRatingScale'
+import { RatingBadge } from '../common/RatingSelector'
+import { ReportCount } from './ReportCount'
+import { Button } from '../ui/button'
+import { Progress } from '../ui/progress'
+import { NativeSelect } from '../ui/native-select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog'
+import { Loader2, Upload } from 'lucide-react'
+import { truncateText } from '@/lib/utils'
+
+interface ExternalImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Called after entries were created so callers can reload entries */
+  onImported?: (summary: ExternalImportSummary) => void
+}
+
+type ExternalImportStep = 'select' | 'review' | 'importing' | 'done'
+
+const SOURCES = Object.keys(EXTERNAL_SOURCE_LABELS) as ExternalSource[]
+
+const FILE_TYPES: Record<ExternalSource, string> = {
+  daylio: 'text/csv,.csv',
+  dayone: 'application/json,.json',
+}
+
+/**
+ * Number of entries listed in the preview
+ */
+const PREVIEW_LIMIT = 20
+
+/**
+ * ExternalImportDialog - Import history from Daylio or Day One
+ *
+ * The user maps the app's moods onto our ratings and sees the resulting
+ * entries before anything is saved
+ */
+export function ExternalImportDialog({ open, onOpenChange, onImported }: ExternalImportDialogProps) {
+  const [step, setStep] = useState<ExternalImportStep>('select')
+  const { levels, levelOf, ratingFor } = useRatingScale()
+  const [source, setSource] = useState<ExternalSource>('daylio')
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [records, setRecords] = useState<ExternalRecord[]>([])
+  const [moods, setMoods] = useState<ExternalMood[]>([])
+  const [mapping, setMapping] = useState<RatingMapping>({})
+  const [preview, setPreview] = useState<ExternalImportPreview | null>(null)
+  const [summary, setSummary] = useState<ExternalImportSummary | null>(null)
+  const [progress, setProgress] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const formatDate = useFormatDate()
+  const { t } = useTranslation()
+
+  // Rebuild the preview whenever the mapping changes
+  useEffect(() => {
+    if (step !== 'review') return
+    let cancelled = false
+    previewExternalImport(records, mapping)
+      .then((next) => {
+        if (!cancelled) setPreview(next)
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : t('import.previewFailed'))
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [step, records, mapping])
+
+  const reset = () => {
+    setStep('select')
+    setFileName(null)
+    setRecords([])
+    setMoods([])
+    setMapping({})
+    setPreview(null)
+    setSummary(null)
+    setProgress(0)
+    setError(null)
+  }
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (step === 'importing') return
+    if (!nextOpen) reset()
+    onOpenChange(nextOpen)
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setError(null)
+    setFileName(file.name)
+    try {
+      const nextRecords = parseExternalFile(source, await file.text())
+      if (nextRecords.length === 0) {
+        throw new Error(t('import.noEntries'))
+      }
+      const nextMoods = getExternalMoods(source, nextRecords)
+      setRecords(nextRecords)
+      setMoods(nextMoods)
+      setMapping(getDefaultRatingMapping(source, nextMoods))
+      setStep('review')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('data.readFailed'))
+    }
+  }
+
+  const handleImport = async () => {
+    if (!preview) return
+    setStep('importing')
+    setError(null)
+    setProgress(0)
+    try {
+      const result = await commitExternalImport(preview.entries, (done, total) =>
+        setProgress((done / total) * 100)
+      )
+      setSummary(result)
+      setStep('done')
+      onImported?.(result)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('import.failed'))
+      setStep('review')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('import.externalTitle')}</DialogTitle>
+          <DialogDescription>
+            {step === 'select' && t('import.externalChoose')}
+            {(step === 'review' || step === 'importing') && fileName}
+            {step === 'done' && t('import.complete')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Step 1: pick the app and file */}
+        {step === 'select' && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <label htmlFor="external-source" className="text-sm font-medium text-stone-700">
+                {t('import.from')}
+              </label>
+              <NativeSelect
+                id="external-source"
+                value={source}
+                onChange={(e) => setSource(e.target.value as ExternalSource)}
+                className="w-56"
+              >
+                {SOURCES.map((s) => (
+                  <option key={s} value={s}>{t(EXTERNAL_SOURCE_LABELS[s])}</option>
+                ))}
+              </NativeSelect>
+            </div>
+            <label className="flex flex-col items-center gap-2 rounded-md border-2 border-dashed border-stone-200 p-8 text-sm text-stone-600 cursor-pointer hover:border-amber-600 hover:bg-amber-50/50">
+              <Upload className="w-6 h-6 text-stone-400" />
+              <span>{t('import.pick')}</span>
+              <input
+                key={source}
+                type="file"
+                accept={FILE_TYPES[source]}
+                className="sr-only"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </label>
+          </div>
+        )}
+
+        {/* Step 2: rating mapping and preview */}
+        {(step === 'review' || step === 'importing') && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium text-stone-700">{t('import.ratings')}</h3>
+              <ul className="divide-y divide-stone-100 rounded-md border border-stone-200">
+                {moods.map((mood) => (
+                  <li key={mood.key} className="flex items-center justify-between gap-4 p-2 ps-3">
+                    <span className="text-sm text-stone-900 capitalize">
+                      {mood.label}
+                      <span className="ms-2 text-xs text-stone-500">×{mood.count}</span>
+                    </span>
+                    <NativeSelect
+                      value={mood.key in mapping ? levelOf(mapping[mood.key]) : ''}
+                      onChange={(e) =>
+                        setMapping((current) => ({
+                          ...current,
+                          [mood.key]: ratingFor(Number(e.target.value)),
+                        }))
+                      }
+                      className="h-8 w-40 text-xs"
+                      aria-label={t('import.ratingFor', { mood: mood.label })}
+                      disabled={step === 'importing'}
+                    >
+                      {levels.map(({ label }, index) => (
+                        <option key={index} value={index + 1}>
+                          {index + 1} · {label}
+                        </option>
+                      ))}
+                    </NativeSelect>
+                  </li>
+                ))}
+              </ul>
+              <p className="text-xs text-stone-500">{t('import.sameDayNote')}</p>
+            </div>
+
+            {preview && (
+              <>
+                <div className="grid grid-cols-3 gap-2">
+                  <ReportCount label={t('import.new')} value={preview.entries.length} />
+                  <ReportCount label={t('import.alreadyInJar')} value={preview.existing.length} />
+                  <ReportCount label={t('restore.skipped')} value={preview.invalid.length} highlight={preview.invalid.length > 0} />
+                </div>
+
+                {preview.entries.length > 0 && (
+                  <ul className="divide-y divide-stone-100 rounded-md border border-stone-200">
+                    {preview.entries.slice(0, PREVIEW_LIMIT).map((entry) => (
+                      <li key={entry.entry_date} className="p-3 space-y-1">
+                        <div className="flex items-center justify-between gap-4">
+                          <span className="text-sm font-medium text-stone-900">
+                            {formatDate(entry.entry_date)}
+                          </span>
+                          <RatingBadge rating={entry.rating} size="sm" />
+                        </div>
+                        <p className="text-xs font-serif text-stone-700">
+                          {truncateText(entry.gratitude_text, 160)}
+                        </p>
+                      </li>
+                    ))}
+                    {preview.entries.length > PREVIEW_LIMIT && (
+                      <li className="p-3 text-xs text-stone-500">
+                        {t('import.andMore', { count: preview.entries.length - PREVIEW_LIMIT })}
+                      </li>
+                    )}
+                  </ul>
+                )}
+
+                {preview.invalid.length > 0 && (
+                  <details className="rounded-md border border-stone-200 p-3 text-xs text-stone-600">
+                    <summary className="cursor-pointer font-medium text-stone-700">
+                      {t('import.daysWillSkip', { count: preview.invalid.length })}
+                    </summary>
+                    <ul className="mt-2 space-y-1">
+                      {preview.invalid.map((item, index) => (
+                        <li key={index}>
+                          <span className="font-mono">{item.entry_date}</span>: {item.errors.join(t('common.listSeparator'))}
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {step === 'importing' && <Progress value={progress} />}
+
+        {/* Step 3: summary */}
+        {step === 'done' && summary && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              <ReportCount label={t('import.added')} value={summary.added} />
+              <ReportCount label={t('import.failedCount')} value={summary.failed.length} highlight={summary.failed.length > 0} />
+            </div>
+            {summary.failed.length > 0 && (
+              <ul className="space-y-1 text-xs text-stone-600">
+                {summary.failed.map((item) => (
+                  <li key={item.entry_date}>
+                    <span className="font-mono">{item.entry_date}</span>: {item.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="p-3 rounded-md bg-red-50 border border-red-200">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'done' ? (
+            <Button onClick={() => handleOpenChange(false)}>{t('common.done')}</Button>
+          ) : (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+                disabled={step === 'importing'}
+              >
+                {t('common.cancel')}
+              </Button>
+              {step !== 'select' && (
+                <Button
+                  onClick={handleImport}
+                  disabled={step === 'importing' || !preview || preview.entries.length === 0}
+                >
+                  {step === 'importing' ? (
+                    <>
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      {t('import.importing')}
+                    </>
+                  ) : (
+                    t('import.importEntries', { count: preview?.entries.length ?? 0 })
+                  )}
+                </Button>
+              )}
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,338 @@
+import { useState } from 'react'
+import {
+  analyzeCsvImport,
+  analyzeImport,
+  applyImport,
+  CONFLICT_STRATEGY_LABELS,
+  type ConflictStrategy,
+  type ImportPlan,
+  type ImportSummary,
+} from '@/lib/services/importService'
+import type { Entry } from '@/types'
+import { useFormatDate } from '@/hooks/useSettings'
+import { useTranslation } from '@/hooks/useTranslation'
+import { RatingBadge } from '../common/RatingSelector'
+import { isEncryptedBackup } from '@/lib/services/encryptionService'
+import { formatTimestamp } from '@/lib/services/dateService'
+import { ReportCount } from './ReportCount'
+import { UnlockBackupForm } from './UnlockBackupForm'
+import { Button } from '../ui/button'
+import { Progress } from '../ui/progress'
+import { NativeSelect } from '../ui/native-select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog'
+import { Loader2, Upload } from 'lucide-react'
+import { truncateText } from '@/lib/utils'
+
+interface ImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Called after a successful import so callers can reload entries */
+  onImported?: (summary: ImportSummary) => void
+}
+
+type ImportStep = 'select' | 'unlock' | 'review' | 'importing' | 'done'
+
+const STRATEGIES = Object.keys(CONFLICT_STRATEGY_LABELS) as ConflictStrategy[]
+
+function isCsvFile(file: File): boolean {
+  return file.type === 'text/csv' || file.name.toLowerCase().endsWith('.csv')
+}
+
+/**
+ * ImportDialog - Pick a JSON or CSV file, preview what would change, then import
+ *
+ * Nothing is written until the user confirms the dry-run report
+ */
+export function ImportDialog({ open, onOpenChange, onImported }: ImportDialogProps) {
+  const [step, setStep] = useState<ImportStep>('select')
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [encryptedData, setEncryptedData] = useState<string | null>(null)
+  const [plan, setPlan] = useState<ImportPlan | null>(null)
+  const [strategy, setStrategy] = useState<ConflictStrategy>('keep_newer')
+  const [overrides, setOverrides] = useState<Record<string, ConflictStrategy>>({})
+  const [summary, setSummary] = useState<ImportSummary | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [progress, setProgress] = useState(0)
+  const formatDate = useFormatDate()
+  const { t } = useTranslation()
+
+  const reset = () => {
+    setStep('select')
+    setFileName(null)
+    setEncryptedData(null)
+    setPlan(null)
+    setOverrides({})
+    setSummary(null)
+    setError(null)
+  }
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (step === 'importing') return
+    if (!nextOpen) reset()
+    onOpenChange(nextOpen)
+  }
+
+  const loadPlan = async (fileData: string) => {
+    setPlan(await analyzeImport(fileData))
+    setStep('review')
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setError(null)
+    setFileName(file.name)
+    try {
+      const fileData = await file.text()
+      if (isEncryptedBackup(fileData)) {
+        setEncryptedData(fileData)
+        setStep('unlock')
+        return
+      }
+      if (isCsvFile(file)) {
+        setPlan(await analyzeCsvImport(fileData))
+        setStep('review')
+        return
+      }
+      await loadPlan(fileData)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('data.readFailed'))
+    }
+  }
+
+  const handleImport = async () => {
+    if (!plan) return
+    setStep('importing')
+    setError(null)
+    setProgress(0)
+    try {
+      const result = await applyImport(plan, {
+        strategy,
+        overrides,
+        onProgress: (done, total) => setProgress((done / total) * 100),
+      })
+      setSummary(result)
+      setStep('done')
+      onImported?.(result)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('import.failed'))
+      setStep('review')
+    }
+  }
+
+  const writableCount = plan ? plan.newEntries.length + plan.conflicts.length : 0
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('import.title')}</DialogTitle>
+          <DialogDescription>
+            {step === 'select' && t('import.choose')}
+            {(step === 'unlock' || step === 'review' || step === 'importing') && fileName}
+            {step === 'done' && t('import.complete')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Step 1: pick a file */}
+        {step === 'select' && (
+          <label className="flex flex-col items-center gap-2 rounded-md border-2 border-dashed border-stone-200 p-8 text-sm text-stone-600 cursor-pointer hover:border-amber-600 hover:bg-amber-50/50">
+            <Upload className="w-6 h-6 text-stone-400" />
+            <span>{t('import.pick')}</span>
+            <input
+              type="file"
+              accept="application/json,.json,text/csv,.csv"
+              className="sr-only"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+        )}
+
+        {/* Encrypted backups need their passphrase first */}
+        {step === 'unlock' && encryptedData && (
+          <UnlockBackupForm fileData={encryptedData} onUnlocked={loadPlan} />
+        )}
+
+        {/* Step 2: dry-run report */}
+        {(step === 'review' || step === 'importing') && plan && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-4 gap-2">
+              <ReportCount label={t('import.new')} value={plan.newEntries.length} />
+              <ReportCount label={t('import.identical')} value={plan.identical.length} />
+              <ReportCount label={t('import.conflicts')} value={plan.conflicts.length} highlight={plan.conflicts.length > 0} />
+              <ReportCount label={t('restore.invalid')} value={plan.invalid.length} highlight={plan.invalid.length > 0} />
+            </div>
+
+            {plan.conflicts.length > 0 && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <label htmlFor="import-strategy" className="text-sm font-medium text-stone-700">
+                    {t('import.forConflicts')}
+                  </label>
+                  <NativeSelect
+                    id="import-strategy"
+                    value={strategy}
+                    onChange={(e) => setStrategy(e.target.value as ConflictStrategy)}
+                    className="w-48"
+                    disabled={step === 'importing'}
+                  >
+                    {STRATEGIES.map((s) => (
+                      <option key={s} value={s}>{t(CONFLICT_STRATEGY_LABELS[s])}</option>
+                    ))}
+                  </NativeSelect>
+                </div>
+
+                <ul className="divide-y divide-stone-100 rounded-md border border-stone-200">
+                  {plan.conflicts.map(({ local, imported, combineErrors }) => (
+                    <li key={local.entry_date} className="p-3 space-y-2">
+                      <div className="flex items-center justify-between gap-4">
+                        <span className="text-sm font-medium text-stone-900">
+                          {formatDate(local.entry_date)}
+                        </span>
+                        <NativeSelect
+                          value={overrides[local.entry_date] ?? ''}
+                          onChange={(e) => {
+                            const value = e.target.value as ConflictStrategy | ''
+                            setOverrides((current) => {
+                              const next = { ...current }
+                              if (value) next[local.entry_date] = value
+                              else delete next[local.entry_date]
+                              return next
+                            })
+                          }}
+                          className="h-8 w-44 text-xs"
+                          aria-label={t('import.strategyFor', { date: formatDate(local.entry_date) })}
+                          disabled={step === 'importing'}
+                        >
+                          <option value="">
+                            {t('import.defaultStrategy', {
+                              strategy: t(CONFLICT_STRATEGY_LABELS[strategy]),
+                            })}
+                          </option>
+                          {STRATEGIES.map((s) => (
+                            <option
+                              key={s}
+                              value={s}
+                              disabled={s === 'concatenate' && combineErrors.length > 0}
+                            >
+                              {t(CONFLICT_STRATEGY_LABELS[s])}
+                            </option>
+                          ))}
+                        </NativeSelect>
+                      </div>
+                      {combineErrors.length > 0 &&
+                        (overrides[local.entry_date] ?? strategy) === 'concatenate' && (
+                          <p className="text-xs text-amber-700">
+                            {t('import.cannotCombine', {
+                              reason: combineErrors.join(t('common.listSeparator')),
+                            })}
+                          </p>
+                        )}
+                      <div className="grid grid-cols-2 gap-3 text-xs">
+                        <ConflictSide label={t('import.local')} entry={local} />
+                        <ConflictSide label={t('import.imported')} entry={imported} />
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {plan.invalid.length > 0 && (
+              <details className="rounded-md border border-stone-200 p-3 text-xs text-stone-600">
+                <summary className="cursor-pointer font-medium text-stone-700">
+                  {t('import.willSkip', { count: plan.invalid.length })}
+                </summary>
+                <ul className="mt-2 space-y-1">
+                  {plan.invalid.map((record) => (
+                    <li key={record.index}>
+                      <span className="font-mono">#{record.index + 1}</span>
+                      {record.entry_date && <> ({record.entry_date})</>}: {record.errors.join(t('common.listSeparator'))}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+          </div>
+        )}
+
+        {step === 'importing' && <Progress value={progress} />}
+
+        {/* Step 3: summary */}
+        {step === 'done' && summary && (
+          <div className="grid grid-cols-4 gap-2">
+            <ReportCount label={t('import.added')} value={summary.added} />
+            <ReportCount label={t('import.updated')} value={summary.updated} />
+            <ReportCount label={t('import.unchanged')} value={summary.unchanged} />
+            <ReportCount label={t('restore.skipped')} value={summary.skipped} />
+          </div>
+        )}
+
+        {error && (
+          <div className="p-3 rounded-md bg-red-50 border border-red-200">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'done' ? (
+            <Button onClick={() => handleOpenChange(false)}>{t('common.done')}</Button>
+          ) : (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+                disabled={step === 'importing'}
+              >
+                {t('common.cancel')}
+              </Button>
+              {(step === 'review' || step === 'importing') && (
+                <Button
+                  onClick={handleImport}
+                  disabled={step === 'importing' || writableCount === 0}
+                >
+                  {step === 'importing' ? (
+                    <>
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      {t('import.importing')}
+                    </>
+                  ) : (
+                    t('import.import')
+                  )}
+                </Button>
+              )}
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface ConflictSideProps {
+  label: string
+  entry: Entry
+}
+
+function ConflictSide({ label, entry }: ConflictSideProps) {
+  const { t } = useTranslation()
+
+  return (
+    <div className="space-y-1 rounded bg-stone-50 p-2">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-stone-600">{label}</span>
+        <RatingBadge rating={entry.rating} size="sm" showLabel={false} />
+      </div>
+      <p className="font-serif text-stone-700">{truncateText(entry.gratitude_text, 120)}</p>
+      <p className="font-mono text-[10px] text-stone-400">
+        {t('import.updatedAt', { time: formatTimestamp(entry.updated_at) })}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,24 @@
+import { cn } from '@/lib/utils'
+
+interface ReportCountProps {
+  label: string
+  value: number
+  highlight?: boolean
+}
+
+/**
+ * ReportCount - Labelled number in import/restore reports
+ */
+export function ReportCount({ label, value, highlight = false }: ReportCountProps) {
+  return (
+    <div
+      className={cn(
+        'flex flex-col items-center gap-0.5 p-2 rounded-md border',
+        highlight ? 'border-amber-200 bg-amber-50' : 'border-stone-200 bg-stone-50'
+      )}
+    >
+      <div className="text-lg font-bold text-stone-900">{value}</div>
+      <div className="text-xs text-stone-600">{label}</div>
+    </div>
+  )
+}
@@ -0,0 +1,229 @@
+import { useState } from 'react'
+import { analyzeImport, getPlanEntries, type ImportPlan } from '@/lib/services/importService'
+import { restoreBackup, type RestoreSummary } from '@/lib/services/backupService'
+import { getEntryCount } from '@/lib/services/entryService'
+import { isEncryptedBackup } from '@/lib/services/encryptionService'
+import { formatTimestamp } from '@/lib/services/dateService'
+import { useTranslation } from '@/hooks/useTranslation'
+import { ReportCount } from './ReportCount'
+import { UnlockBackupForm } from './UnlockBackupForm'
+import { Button } from '../ui/button'
+import { Progress } from '../ui/progress'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog'
+import { AlertTriangle, Loader2, Upload } from 'lucide-react'
+
+interface RestoreDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Called after a successful restore so callers can reload entries */
+  onRestored?: (summary: RestoreSummary) => void
+}
+
+type RestoreStep = 'select' | 'unlock' | 'review' | 'confirm' | 'restoring' | 'done'
+
+/**
+ * RestoreDialog - Replace the whole jar with a backup file
+ *
+ * Shows what the backup contains, asks for explicit confirmation before
+ * deleting local entries, then restores with a progress bar
+ */
+export function RestoreDialog({ open, onOpenChange, onRestored }: RestoreDialogProps) {
+  const { t } = useTranslation()
+  const [step, setStep] = useState<RestoreStep>('select')
+  const [encryptedData, setEncryptedData] = useState<string | null>(null)
+  const [plan, setPlan] = useState<ImportPlan | null>(null)
+  const [localCount, setLocalCount] = useState(0)
+  const [progress, setProgress] = useState(0)
+  const [summary, setSummary] = useState<RestoreSummary | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const reset = () => {
+    setStep('select')
+    setEncryptedData(null)
+    setPlan(null)
+    setProgress(0)
+    setSummary(null)
+    setError(null)
+  }
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (step === 'restoring') return
+    if (!nextOpen) reset()
+    onOpenChange(nextOpen)
+  }
+
+  const loadPlan = async (fileData: string) => {
+    const [nextPlan, count] = await Promise.all([analyzeImport(fileData), getEntryCount()])
+    setPlan(nextPlan)
+    setLocalCount(count)
+    setStep('review')
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setError(null)
+    try {
+      const fileData = await file.text()
+      if (isEncryptedBackup(fileData)) {
+        setEncryptedData(fileData)
+        setStep('unlock')
+        return
+      }
+      await loadPlan(fileData)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('data.readFailed'))
+    }
+  }
+
+  const handleRestore = async () => {
+    if (!plan) return
+    setStep('restoring')
+    setError(null)
+    try {
+      const result = await restoreBackup(plan, (done, total) =>
+        setProgress((done / total) * 100)
+      )
+      setSummary(result)
+      setStep('done')
+      onRestored?.(result)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('restore.failed'))
+      setStep('review')
+    }
+  }
+
+  const backupCount = plan ? getPlanEntries(plan).length : 0
+  const info = plan?.backupInfo
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('restore.title')}</DialogTitle>
+          <DialogDescription>
+            {step === 'select' && t('restore.choose')}
+            {step === 'done' && t('restore.complete')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Step 1: pick a file */}
+        {step === 'select' && (
+          <label className="flex flex-col items-center gap-2 rounded-md border-2 border-dashed border-stone-200 p-8 text-sm text-stone-600 cursor-pointer hover:border-amber-600 hover:bg-amber-50/50">
+            <Upload className="w-6 h-6 text-stone-400" />
+            <span>{t('restore.pick')}</span>
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="sr-only"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+        )}
+
+        {/* Encrypted backups need their passphrase first */}
+        {step === 'unlock' && encryptedData && (
+          <UnlockBackupForm fileData={encryptedData} onUnlocked={loadPlan} />
+        )}
+
+        {/* Step 2: what the backup contains */}
+        {step === 'review' && plan && (
+          <div className="space-y-4">
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+              <dt className="text-stone-500">{t('restore.made')}</dt>
+              <dd className="text-stone-900">
+                {info ? formatTimestamp(info.exported_at) : t('common.unknown')}
+              </dd>
+              <dt className="text-stone-500">{t('restore.appVersion')}</dt>
+              <dd className="text-stone-900 font-mono">{info?.app_version ?? t('common.unknown')}</dd>
+              <dt className="text-stone-500">{t('restore.format')}</dt>
+              <dd className="text-stone-900 font-mono">
+                {info
+                  ? t('restore.formatVersion', { version: info.format_version })
+                  : t('restore.plainList')}
+              </dd>
+            </dl>
+            <div className="grid grid-cols-3 gap-2">
+              <ReportCount label={t('restore.inBackup')} value={backupCount} />
+              <ReportCount label={t('restore.inJar')} value={localCount} />
+              <ReportCount label={t('restore.invalid')} value={plan.invalid.length} highlight={plan.invalid.length > 0} />
+            </div>
+          </div>
+        )}
+
+        {/* Step 3: confirm the destructive part */}
+        {step === 'confirm' && (
+          <div className="flex gap-3 p-4 rounded-md bg-red-50 border border-red-200">
+            <AlertTriangle className="w-5 h-5 flex-shrink-0 text-red-700" />
+            <p className="text-sm text-red-800">
+              {t('restore.warning', { count: localCount, backupCount })}
+            </p>
+          </div>
+        )}
+
+        {step === 'restoring' && <Progress value={progress} />}
+
+        {/* Step 4: summary */}
+        {step === 'done' && summary && (
+          <div className="grid grid-cols-3 gap-2">
+            <ReportCount label={t('restore.removed')} value={summary.removed} />
+            <ReportCount label={t('restore.restored')} value={summary.added} />
+            <ReportCount label={t('restore.skipped')} value={summary.skipped} />
+          </div>
+        )}
+
+        {error && (
+          <div className="p-3 rounded-md bg-red-50 border border-red-200">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'done' ? (
+            <Button onClick={() => handleOpenChange(false)}>{t('common.done')}</Button>
+          ) : (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+                disabled={step === 'restoring'}
+              >
+                {t('common.cancel')}
+              </Button>
+              {step === 'review' && (
+                <Button
+                  onClick={() => (localCount > 0 ? setStep('confirm') : handleRestore())}
+                  disabled={backupCount === 0}
+                >
+                  {t('restore.restore')}
+                </Button>
+              )}
+              {(step === 'confirm' || step === 'restoring') && (
+                <Button
+                  variant="destructive"
+                  onClick={handleRestore}
+                  disabled={step === 'restoring'}
+                >
+                  {step === 'restoring' ? (
+                    <>
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      {t('restore.restoring')}
+                    </>
+                  ) : (
+                    t('restore.replace')
+                  )}
+                </Button>
+              )}
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
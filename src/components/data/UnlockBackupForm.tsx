@@ -0,0 +1,72 @@
+import { useState, type FormEvent } from 'react'
+import { decryptBackup } from '@/lib/services/encryptionService'
+import { useTranslation } from '@/hooks/useTranslation'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Loader2, Lock } from 'lucide-react'
+
+interface UnlockBackupFormProps {
+  /** Contents of the encrypted backup file */
+  fileData: string
+  /** Called with the decrypted backup JSON */
+  onUnlocked: (plainBackup: string) => Promise<void> | void
+}
+
+/**
+ * UnlockBackupForm - Ask for the passphrase of an encrypted backup
+ *
+ * A wrong passphrase can be retried; a damaged file shows why it can't be read
+ */
+export function UnlockBackupForm({ fileData, onUnlocked }: UnlockBackupFormProps) {
+  const { t } = useTranslation()
+  const [passphrase, setPassphrase] = useState('')
+  const [isUnlocking, setIsUnlocking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!passphrase) return
+    setIsUnlocking(true)
+    setError(null)
+    try {
+      await onUnlocked(await decryptBackup(fileData, passphrase))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('backup.unlockFailed'))
+    } finally {
+      setIsUnlocking(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="flex gap-3 p-4 rounded-md bg-amber-50 border border-amber-200">
+        <Lock className="w-5 h-5 flex-shrink-0 text-amber-700" />
+        <p className="text-sm text-amber-900">{t('backup.encryptedNotice')}</p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="unlock-passphrase">{t('data.passphrase')}</Label>
+        <Input
+          id="unlock-passphrase"
+          type="password"
+          autoComplete="off"
+          autoFocus
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          disabled={isUnlocking}
+        />
+      </div>
+      {error && <p className="text-sm text-red-800">{error}</p>}
+      <Button type="submit" disabled={!passphrase || isUnlocking}>
+        {isUnlocking ? (
+          <>
+            <Loader2 className="w-4 h-4 animate-spin" />
+            {t('backup.unlocking')}
+          </>
+        ) : (
+          t('backup.unlock')
+        )}
+      </Button>
+    </form>
+  )
+}
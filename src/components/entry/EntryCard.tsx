@@ -1,5 +1,7 @@
-import type { Entry } from '@/types'
+import type { Entry, TextMatch } from '@/types'
 import { RatingBadge } from '../common/RatingSelector'
+import { TagList } from '../common/TagList'
+import { HighlightedText } from '../common/HighlightedText'
 import { Card, CardContent } from '../ui/card'
 import { formatDateWithDay, getRelativeTime } from '@/lib/services/dateService'
 import { cn } from '@/lib/utils'
@@ -7,6 +9,8 @@ import { cn } from '@/lib/utils'
 interface EntryCardProps {
   entry: Entry
   onClick?: () => void
+  /** Search hits to highlight; shows a snippet around them instead of the clamped text */
+  matches?: TextMatch[]
   className?: string
 }
 
@@ -15,7 +19,7 @@ interface EntryCardProps {
  *
  * Design: Clean card with rating badge and truncated text
  */
-export function EntryCard({ entry, onClick, className }: EntryCardProps) {
+export function EntryCard({ entry, onClick, matches, className }: EntryCardProps) {
   const isClickable = !!onClick
 
   return (
@@ -42,9 +46,18 @@ export function EntryCard({ entry, onClick, className }: EntryCardProps) {
                 {getRelativeTime(entry.entry_date)}
               </span>
             </div>
-            <p className="text-sm text-stone-700 font-serif leading-relaxed line-clamp-2">
-              {entry.gratitude_text}
-            </p>
+            {matches && matches.length > 0 ? (
+              <HighlightedText
+                text={entry.gratitude_text}
+                matches={matches}
+                className="text-sm text-stone-700 font-serif leading-relaxed"
+              />
+            ) : (
+              <p className="text-sm text-stone-700 font-serif leading-relaxed line-clamp-2">
+                {entry.gratitude_text}
+              </p>
+            )}
+            <TagList tags={entry.tags ?? []} size="sm" className="mt-2" />
           </div>
         </div>
       </CardContent>
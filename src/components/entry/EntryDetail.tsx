@@ -1,7 +1,9 @@
 import { useState } from 'react'
-import type { Entry, UpdateEntryInput } from '@/types'
+import type { Entry, EntryRevision, UpdateEntryInput } from '@/types'
 import { RatingBadge } from '../common/RatingSelector'
+import { TagList } from '../common/TagList'
 import { EntryForm } from './EntryForm'
+import { EntryHistory } from './EntryHistory'
 import { Button } from '../ui/button'
 import {
   Dialog,
@@ -11,7 +13,9 @@ import {
   DialogHeader,
   DialogTitle,
 } from '../ui/dialog'
-import { formatDateWithDay, formatDateString } from '@/lib/services/dateService'
+import { formatDateWithDay, formatTimestamp } from '@/lib/services/dateService'
+import { useFormatDate, useSettings } from '@/hooks/useSettings'
+import { useTranslation } from '@/hooks/useTranslation'
 import { Edit2, Trash2 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 
@@ -36,12 +40,24 @@ export function EntryDetail({
   const [isEditing, setIsEditing] = useState(false)
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
+  const formatDate = useFormatDate()
+  const { settings } = useSettings()
+  const { t } = useTranslation()
 
   const handleUpdate = async (data: UpdateEntryInput) => {
     await onUpdate(entry.id, data)
     setIsEditing(false)
   }
 
+  // Reverting is an ordinary edit, so the current version lands in the history too
+  const handleRevert = async (revision: EntryRevision) => {
+    await onUpdate(entry.id, {
+      gratitude_text: revision.gratitude_text,
+      rating: revision.rating,
+      tags: revision.tags,
+    })
+  }
+
   const handleDelete = async () => {
     setIsDeleting(true)
     try {
@@ -73,7 +89,7 @@ export function EntryDetail({
             {formatDateWithDay(entry.entry_date)}
           </h2>
           <time className="text-sm text-stone-500 font-mono">
-            {formatDateString(entry.entry_date, 'EEEE, MMMM d, yyyy')}
+            {formatDate(entry.entry_date)}
           </time>
         </div>
 
@@ -84,7 +100,7 @@ export function EntryDetail({
             onClick={() => setIsEditing(true)}
           >
             <Edit2 className="w-4 h-4" />
-            Edit
+            {t('common.edit')}
           </Button>
           <Button
             variant="outline"
@@ -92,7 +108,7 @@ export function EntryDetail({
             onClick={() => setShowDeleteDialog(true)}
           >
             <Trash2 className="w-4 h-4" />
-            Delete
+            {t('common.delete')}
           </Button>
         </div>
       </div>
@@ -109,23 +125,31 @@ export function EntryDetail({
         </p>
       </div>
 
+      {/* Tags */}
+      <TagList tags={entry.tags ?? []} />
+
       {/* Metadata */}
       <div className="pt-4 border-t border-stone-200">
         <p className="text-xs text-stone-500 font-mono">
-          Created {new Date(entry.created_at).toLocaleString()}
+          {t(entry.backfilled ? 'entry.addedLater' : 'entry.created', {
+            time: formatTimestamp(entry.created_at),
+          })}
           {entry.updated_at !== entry.created_at && (
-            <> · Updated {new Date(entry.updated_at).toLocaleString()}</>
+            <> · {t('entry.updated', { time: formatTimestamp(entry.updated_at) })}</>
           )}
         </p>
+        {entry.updated_at !== entry.created_at && (
+          <EntryHistory entry={entry} onRevert={handleRevert} className="mt-3 -ms-3" />
+        )}
       </div>
 
       {/* Delete confirmation dialog */}
       <Dialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Delete entry?</DialogTitle>
+            <DialogTitle>{t('entry.deleteTitle')}</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete this entry? This action cannot be undone.
+              {t('entry.deleteBody', { count: settings.trashRetentionDays })}
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
@@ -134,14 +158,14 @@ export function EntryDetail({
               onClick={() => setShowDeleteDialog(false)}
               disabled={isDeleting}
             >
-              Cancel
+              {t('common.cancel')}
             </Button>
             <Button
               variant="destructive"
               onClick={handleDelete}
               disabled={isDeleting}
             >
-              {isDeleting ? 'Deleting...' : 'Delete'}
+              {isDeleting ? t('entry.deleting') : t('common.delete')}
             </Button>
           </DialogFooter>
         </DialogContent>
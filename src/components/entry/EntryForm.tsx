@@ -1,6 +1,10 @@
 import { useState, useEffect } from 'react'
-import type { Entry, Rating, CreateEntryInput, UpdateEntryInput } from '@/types'
+import type { Entry, CreateEntryInput, UpdateEntryInput } from '@/types'
 import { RatingSelector } from '../common/RatingSelector'
+import { TagInput } from '../common/TagInput'
+import { useSetting } from '@/store/settingsStore'
+import { useTranslation } from '@/hooks/useTranslation'
+import { getTodayDateString } from '@/lib/services/dateService'
 import { Textarea } from '../ui/textarea'
 import { Button } from '../ui/button'
 import { Label } from '../ui/label'
@@ -31,12 +35,17 @@ export function EntryForm({
   className,
 }: EntryFormProps) {
   const [gratitudeText, setGratitudeText] = useState(entry?.gratitude_text || '')
-  const [rating, setRating] = useState<Rating | null>(entry?.rating || null)
+  const [rating, setRating] = useState<number | null>(entry?.rating || null)
+  const [tags, setTags] = useState<string[]>(entry?.tags ?? [])
   const [error, setError] = useState<string | null>(null)
   const [isSaving, setIsSaving] = useState(false)
   const [saveSuccess, setSaveSuccess] = useState(false)
 
+  const maxTextLength = useSetting('maxTextLength')
+  const { t } = useTranslation()
+
   const isEdit = !!entry
+  const isPastDay = !isEdit && !!dateString && dateString < getTodayDateString()
   const charCount = gratitudeText.length
   const isValid = gratitudeText.trim().length > 0 && rating !== null
 
@@ -45,6 +54,7 @@ export function EntryForm({
     if (entry) {
       setGratitudeText(entry.gratitude_text)
       setRating(entry.rating)
+      setTags(entry.tags ?? [])
     }
   }, [entry])
 
@@ -53,7 +63,7 @@ export function EntryForm({
     setError(null)
 
     if (!isValid) {
-      setError('Please write something you\'re grateful for and rate your day')
+      setError(t('entry.incomplete'))
       return
     }
 
@@ -65,6 +75,7 @@ export function EntryForm({
         await onSave({
           gratitude_text: gratitudeText,
           rating: rating!,
+          tags,
         } as UpdateEntryInput)
       } else {
         // Create new entry
@@ -72,6 +83,7 @@ export function EntryForm({
           entry_date: dateString || '',
           gratitude_text: gratitudeText,
           rating: rating!,
+          tags,
         } as CreateEntryInput)
       }
 
@@ -83,9 +95,10 @@ export function EntryForm({
       if (!isEdit) {
         setGratitudeText('')
         setRating(null)
+        setTags([])
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to save entry')
+      setError(err instanceof Error ? err.message : t('entry.saveFailed'))
     } finally {
       setIsSaving(false)
     }
@@ -99,30 +112,30 @@ export function EntryForm({
       {/* Gratitude text input */}
       <div className="space-y-2">
         <Label htmlFor="gratitude-text" className="text-base font-medium text-stone-900">
-          What are you grateful for today?
+          {isPastDay ? t('entry.promptPast') : t('entry.promptToday')}
         </Label>
         <Textarea
           id="gratitude-text"
           value={gratitudeText}
           onChange={(e) => setGratitudeText(e.target.value)}
-          placeholder="Something that made you smile, a small victory, or a moment of peace..."
+          placeholder={t('entry.placeholder')}
           className="min-h-[120px] text-base resize-none"
           disabled={isSaving || isSubmitting}
-          maxLength={1000}
+          maxLength={maxTextLength}
           aria-describedby="char-count"
         />
         <div className="flex justify-between items-center">
           <p className="text-xs text-stone-500">
-            Keep it simple. One sentence is enough.
+            {t('entry.hint')}
           </p>
           <p
             id="char-count"
             className={cn(
               'text-xs font-mono',
-              charCount > 900 ? 'text-amber-600' : 'text-stone-400'
+              charCount > maxTextLength * 0.9 ? 'text-amber-600' : 'text-stone-400'
             )}
           >
-            {charCount}/1000
+            {charCount}/{maxTextLength}
           </p>
         </div>
       </div>
@@ -134,6 +147,13 @@ export function EntryForm({
         disabled={isSaving || isSubmitting}
       />
 
+      {/* Tags */}
+      <TagInput
+        value={tags}
+        onChange={setTags}
+        disabled={isSaving || isSubmitting}
+      />
+
       {/* Error message */}
       {error && (
         <div className="p-3 rounded-md bg-red-50 border border-red-200">
@@ -151,17 +171,17 @@ export function EntryForm({
           {isSaving || isSubmitting ? (
             <>
               <Loader2 className="w-4 h-4 animate-spin" />
-              Saving...
+              {t('entry.saving')}
             </>
           ) : saveSuccess ? (
             <>
               <Check className="w-4 h-4" />
-              Saved!
+              {t('entry.saved')}
             </>
           ) : isEdit ? (
-            'Update Entry'
+            t('entry.update')
           ) : (
-            'Save Entry'
+            t('entry.save')
           )}
         </Button>
 
@@ -172,7 +192,7 @@ export function EntryForm({
             onClick={onCancel}
             disabled={isSaving || isSubmitting}
           >
-            Cancel
+            {t('common.cancel')}
           </Button>
         )}
       </div>
@@ -0,0 +1,157 @@
+import { useEffect, useState } from 'react'
+import type { DiffPart, Entry, EntryRevision } from '@/types'
+import { diffWords, getRevisions } from '@/lib/services/revisionService'
+import { formatTimestamp } from '@/lib/services/dateService'
+import { useTranslation } from '@/hooks/useTranslation'
+import { RatingBadge } from '../common/RatingSelector'
+import { TagList } from '../common/TagList'
+import { Button } from '../ui/button'
+import { ChevronDown, ChevronUp, History, Loader2, RotateCcw } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+interface EntryHistoryProps {
+  entry: Entry
+  onRevert: (revision: EntryRevision) => Promise<void>
+  className?: string
+}
+
+/**
+ * EntryHistory - Earlier versions of an entry
+ *
+ * Design: Collapsed by default; each revision shows what the next edit
+ * changed as a word diff (removed words struck through, added words
+ * highlighted) and can be restored with one click
+ */
+export function EntryHistory({ entry, onRevert, className }: EntryHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [revisions, setRevisions] = useState<EntryRevision[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [revertingId, setRevertingId] = useState<string | null>(null)
+  const { t } = useTranslation()
+
+  // Reload whenever the entry changes (including after a revert)
+  useEffect(() => {
+    if (!isOpen) return
+    let cancelled = false
+    setError(null)
+    getRevisions(entry.id)
+      .then((loaded) => {
+        if (!cancelled) setRevisions(loaded)
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : t('entry.historyFailed'))
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen, entry.id, entry.updated_at])
+
+  const handleRevert = async (revision: EntryRevision) => {
+    setRevertingId(revision.id)
+    setError(null)
+    try {
+      await onRevert(revision)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('entry.revertFailed'))
+    } finally {
+      setRevertingId(null)
+    }
+  }
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <Button variant="ghost" size="sm" onClick={() => setIsOpen(!isOpen)}>
+        <History className="w-4 h-4" />
+        {t('entry.history')}
+        {isOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </Button>
+
+      {isOpen && (
+        <div className="space-y-3">
+          {error && <p className="text-sm text-red-800">{error}</p>}
+
+          {revisions === null && !error && (
+            <div className="flex justify-center py-4 text-stone-500">
+              <Loader2 className="w-4 h-4 animate-spin" />
+            </div>
+          )}
+
+          {revisions?.length === 0 && (
+            <p className="text-sm text-stone-500">{t('entry.neverEdited')}</p>
+          )}
+
+          {revisions?.map((revision, index) => {
+            // The version that replaced this one
+            const next = index === 0 ? entry : revisions[index - 1]
+            return (
+              <div
+                key={revision.id}
+                className="rounded-lg border border-stone-200 bg-white p-4 space-y-3"
+              >
+                <div className="flex items-center justify-between gap-3">
+                  <div className="space-y-0.5">
+                    <p className="text-sm font-medium text-stone-900">
+                      {t('entry.versionFrom', { time: formatTimestamp(revision.edited_at) })}
+                    </p>
+                    <p className="text-xs text-stone-500">
+                      {t('entry.replacedAt', { time: formatTimestamp(revision.revised_at) })}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRevert(revision)}
+                    disabled={revertingId !== null}
+                  >
+                    {revertingId === revision.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <RotateCcw className="w-4 h-4" />
+                    )}
+                    {t('entry.revert')}
+                  </Button>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <RatingBadge rating={revision.rating} size="sm" />
+                  {revision.rating !== next.rating && (
+                    <span className="text-xs text-stone-500">
+                      {t('entry.ratingChangedTo')} <RatingBadge rating={next.rating} size="sm" showLabel={false} />
+                    </span>
+                  )}
+                </div>
+
+                <DiffText parts={diffWords(revision.gratitude_text, next.gratitude_text)} />
+
+                {revision.tags.length > 0 && <TagList tags={revision.tags} />}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Render a word diff inline
+ */
+function DiffText({ parts }: { parts: DiffPart[] }) {
+  return (
+    <p className="text-sm font-serif leading-relaxed text-stone-700 whitespace-pre-wrap">
+      {parts.map((part, index) =>
+        part.type === 'same' ? (
+          <span key={index}>{part.text}</span>
+        ) : part.type === 'removed' ? (
+          <del key={index} className="bg-red-50 text-red-800 decoration-red-400">
+            {part.text}
+          </del>
+        ) : (
+          <ins key={index} className="bg-green-50 text-green-800 no-underline">
+            {part.text}
+          </ins>
+        )
+      )}
+    </p>
+  )
+}
@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react'
+import {
+  formatMonthsAgo,
+  getOnThisDayMemories,
+  type OnThisDayMemory,
+} from '@/lib/services/onThisDayService'
+import { getTodayDateString } from '@/lib/services/dateService'
+import { useSettings, useFormatDate } from '@/hooks/useSettings'
+import { useTranslation } from '@/hooks/useTranslation'
+import { RatingBadge } from '../common/RatingSelector'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Button } from '../ui/button'
+import { History, X } from 'lucide-react'
+
+/**
+ * OnThisDayCard - Entries from this date in past months and years
+ *
+ * Design: One block per look-back, most recent first. Can be hidden for
+ * the rest of the day; it comes back tomorrow
+ */
+export function OnThisDayCard() {
+  const { settings, updateSettings } = useSettings()
+  const formatDate = useFormatDate()
+  const { t } = useTranslation()
+  const [memories, setMemories] = useState<OnThisDayMemory[]>([])
+  const today = getTodayDateString()
+  const isHidden = settings.onThisDayHiddenOn === today
+
+  useEffect(() => {
+    if (isHidden) return
+    getOnThisDayMemories(today)
+      .then(setMemories)
+      .catch(() => setMemories([]))
+  }, [today, isHidden])
+
+  if (isHidden || memories.length === 0) return null
+
+  const handleHide = async () => {
+    try {
+      await updateSettings({ onThisDayHiddenOn: today })
+    } catch (error) {
+      console.error('Failed to hide on this day card:', error)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <History className="w-5 h-5 text-amber-600" />
+          {t('onThisDay.title')}
+        </CardTitle>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={handleHide}
+          title={t('onThisDay.hide')}
+          aria-label={t('onThisDay.hide')}
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {memories.map((memory) => (
+          <div key={memory.monthsAgo} className="space-y-2">
+            <p className="text-xs font-medium text-stone-600 uppercase tracking-wide">
+              {formatMonthsAgo(memory.monthsAgo)}
+            </p>
+            {memory.entries.map((entry) => (
+              <div key={entry.id} className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <time className="text-sm font-medium text-stone-700">
+                    {formatDate(entry.entry_date)}
+                  </time>
+                  <RatingBadge rating={entry.rating} size="sm" showLabel={false} />
+                </div>
+                <p className="text-sm font-serif leading-relaxed text-stone-700 line-clamp-3">
+                  {entry.gratitude_text}
+                </p>
+              </div>
+            ))}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
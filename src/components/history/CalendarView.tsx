@@ -1,8 +1,18 @@
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useEffect } from 'react'
 import type { Entry } from '@/types'
-import { RATING_COLORS, RATING_LABELS } from '@/types'
-import { getDatesInMonth, formatDateWithDay, getTodayDateString, parseEntryDate } from '@/lib/services/dateService'
-import { getRatingEmoji } from '@/lib/services/calendarService'
+import {
+  getDatesInMonth,
+  formatDateWithDay,
+  formatMonthYear,
+  getDateString,
+  getTodayDateString,
+  getWeekdayNames,
+  parseEntryDate,
+} from '@/lib/services/dateService'
+import { entryMatchesTags } from '@/lib/services/tagService'
+import { useSetting } from '@/store/settingsStore'
+import { useTranslation } from '@/hooks/useTranslation'
+import { useRatingScale } from '@/hooks/useRatingScale'
 import { Button } from '../ui/button'
 import {
   HoverCard,
@@ -11,6 +21,7 @@ import {
 } from '../ui/hover-card'
 import { EntryPreviewCard } from './EntryPreviewCard'
 import { MonthStats } from './MonthStats'
+import { TagStats } from './TagStats'
 import { ChevronLeft, ChevronRight, Plus } from 'lucide-react'
 import { cn } from '@/lib/utils'
 
@@ -18,6 +29,10 @@ interface CalendarViewProps {
   entries: Entry[]
   onSelectDate: (dateString: string) => void
   selectedDate?: string | null
+  /** Dim days whose entry has none of these tags (empty = no filter) */
+  filterTags?: string[]
+  /** Whether an entry can be added for an empty day (shows the "+") */
+  canAddDate?: (dateString: string) => boolean
   className?: string
 }
 
@@ -30,9 +45,19 @@ export function CalendarView({
   entries,
   onSelectDate,
   selectedDate,
+  filterTags = [],
+  canAddDate = () => false,
   className,
 }: CalendarViewProps) {
   const [currentDate, setCurrentDate] = useState(new Date())
+  const weekStartsOn = useSetting('weekStartsOn')
+  const { t } = useTranslation()
+  const { getLevel } = useRatingScale()
+
+  // Follow the selected day into its month (e.g. after picking it in the year view)
+  useEffect(() => {
+    if (selectedDate) setCurrentDate(parseEntryDate(selectedDate))
+  }, [selectedDate])
 
   const year = currentDate.getFullYear()
   const month = currentDate.getMonth() + 1 // 1-12
@@ -52,8 +77,15 @@ export function CalendarView({
   // Get first day of month (0 = Sunday, 6 = Saturday)
   const firstDayOfMonth = new Date(year, month - 1, 1).getDay()
 
-  // Calculate padding days
-  const paddingDays = firstDayOfMonth
+  // Calculate padding days relative to the configured week start
+  const paddingDays = (firstDayOfMonth - weekStartsOn + 7) % 7
+
+  // Weekday headers, rotated to start on the configured day
+  const weekdayNames = getWeekdayNames()
+  const weekdayLabels = [
+    ...weekdayNames.slice(weekStartsOn),
+    ...weekdayNames.slice(0, weekStartsOn),
+  ]
 
   // Navigate months
   const goToPreviousMonth = () => {
@@ -76,22 +108,29 @@ export function CalendarView({
       {/* Month navigation */}
       <div className="flex items-center justify-between">
         <h2 className="text-xl font-semibold text-stone-900">
-          {currentDate.toLocaleDateString('en-US', {
-            month: 'long',
-            year: 'numeric',
-          })}
+          {formatMonthYear(getDateString(currentDate))}
         </h2>
         <div className="flex items-center gap-2">
           {!isCurrentMonth && (
             <Button variant="outline" size="sm" onClick={goToToday}>
-              Today
+              {t('common.today')}
             </Button>
           )}
-          <Button variant="outline" size="icon" onClick={goToPreviousMonth}>
-            <ChevronLeft className="w-4 h-4" />
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={goToPreviousMonth}
+            aria-label={t('calendar.previousMonth')}
+          >
+            <ChevronLeft className="w-4 h-4 rtl:-scale-x-100" />
           </Button>
-          <Button variant="outline" size="icon" onClick={goToNextMonth}>
-            <ChevronRight className="w-4 h-4" />
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={goToNextMonth}
+            aria-label={t('calendar.nextMonth')}
+          >
+            <ChevronRight className="w-4 h-4 rtl:-scale-x-100" />
           </Button>
         </div>
       </div>
@@ -100,7 +139,7 @@ export function CalendarView({
       <div className="border border-stone-200 rounded-lg overflow-hidden bg-white">
         {/* Day headers */}
         <div className="grid grid-cols-7 border-b border-stone-200 bg-stone-50">
-          {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((day) => (
+          {weekdayLabels.map((day) => (
             <div
               key={day}
               className="text-center py-2 text-xs font-medium text-stone-600"
@@ -114,7 +153,7 @@ export function CalendarView({
         <div className="grid grid-cols-7">
           {/* Padding days */}
           {Array.from({ length: paddingDays }).map((_, i) => (
-            <div key={`padding-${i}`} className="aspect-square border-b border-r border-stone-100" />
+            <div key={`padding-${i}`} className="aspect-square border-b border-e border-stone-100" />
           ))}
 
           {/* Month days */}
@@ -124,6 +163,8 @@ export function CalendarView({
             const isToday = dateString === getTodayDateString()
 
             const day = parseEntryDate(dateString).getDate()
+            const isDimmed =
+              filterTags.length > 0 && (!entry || !entryMatchesTags(entry, filterTags))
 
             // If entry exists, wrap in HoverCard for preview
             if (entry) {
@@ -133,36 +174,45 @@ export function CalendarView({
                     <button
                       onClick={() => onSelectDate(dateString)}
                       className={cn(
-                        'aspect-square border-b border-r border-stone-100',
+                        'aspect-square border-b border-e border-stone-100',
                         'relative p-1.5 sm:p-2',
                         'transition-all duration-200',
                         'hover:bg-stone-50',
                         'focus:outline-none focus:ring-2 focus:ring-amber-600 focus:ring-inset',
                         'focus:z-10',
                         isSelected && 'ring-2 ring-amber-600 ring-inset bg-amber-50',
-                        isToday && 'font-semibold'
+                        isToday && 'font-semibold',
+                        isDimmed && 'opacity-25'
                       )}
-                      aria-label={`${formatDateWithDay(dateString)}, ${RATING_LABELS[entry.rating]}`}
+                      aria-label={`${formatDateWithDay(dateString)}, ${getLevel(entry.rating).label}`}
                     >
                       {/* Day number */}
                       <div className="text-sm text-white relative z-10">
                         {day}
                       </div>
 
+                      {/* Backfilled indicator (hollow dot) */}
+                      {entry.backfilled && (
+                        <div
+                          className="absolute bottom-1 end-1 w-1.5 h-1.5 rounded-full border border-white/80 z-10"
+                          title={t('calendar.addedLater')}
+                        />
+                      )}
+
                       {/* Rating emoji indicator */}
-                      <div className="absolute top-1 right-1 text-xs opacity-80 z-10">
-                        {getRatingEmoji(entry.rating)}
+                      <div className="absolute top-1 end-1 text-xs opacity-80 z-10">
+                        {getLevel(entry.rating).emoji}
                       </div>
 
                       {/* Entry indicator (color background) */}
                       <div
                         className="absolute inset-0 opacity-90"
-                        style={{ backgroundColor: RATING_COLORS[entry.rating] }}
+                        style={{ backgroundColor: getLevel(entry.rating).color }}
                       />
 
                       {/* Today indicator (white dot on colored background) */}
                       {isToday && (
-                        <div className="absolute bottom-1 left-1 w-1.5 h-1.5 rounded-full bg-white/80 z-10" />
+                        <div className="absolute bottom-1 start-1 w-1.5 h-1.5 rounded-full bg-white/80 z-10" />
                       )}
                     </button>
                   </HoverCardTrigger>
@@ -179,7 +229,7 @@ export function CalendarView({
                 key={dateString}
                 onClick={() => onSelectDate(dateString)}
                 className={cn(
-                  'aspect-square border-b border-r border-stone-100',
+                  'aspect-square border-b border-e border-stone-100',
                   'relative p-1.5 sm:p-2',
                   'transition-all duration-200',
                   'group',
@@ -187,7 +237,8 @@ export function CalendarView({
                   'focus:outline-none focus:ring-2 focus:ring-amber-600 focus:ring-inset',
                   'focus:z-10',
                   isSelected && 'ring-2 ring-amber-600 ring-inset bg-amber-50',
-                  isToday && 'font-semibold'
+                  isToday && 'font-semibold',
+                  isDimmed && 'opacity-40'
                 )}
                 aria-label={formatDateWithDay(dateString)}
               >
@@ -201,10 +252,12 @@ export function CalendarView({
                   {day}
                 </div>
 
-                {/* "+" indicator on hover for empty dates */}
-                <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-30 transition-opacity pointer-events-none">
-                  <Plus className="w-4 h-4 text-stone-400" />
-                </div>
+                {/* "+" indicator on hover for days that can still be filled in */}
+                {canAddDate(dateString) && (
+                  <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-30 transition-opacity pointer-events-none">
+                    <Plus className="w-4 h-4 text-stone-400" />
+                  </div>
+                )}
 
                 {/* Today indicator */}
                 {isToday && (
@@ -220,18 +273,22 @@ export function CalendarView({
       <div className="flex flex-wrap gap-x-6 gap-y-2 text-xs text-stone-600 items-center">
         <div className="flex items-center gap-1.5">
           <div className="w-3 h-3 rounded-full bg-amber-600" />
-          <span>Today</span>
+          <span>{t('common.today')}</span>
         </div>
         <div className="flex items-center gap-1.5">
           <div className="w-3 h-3 border-2 border-amber-600 rounded" />
-          <span>Selected</span>
+          <span>{t('calendar.selected')}</span>
         </div>
         <div className="flex items-center gap-1.5">
           <div className="w-3 h-3 bg-gradient-to-r from-stone-400 to-teal-600 rounded" />
-          <span>Rated entry (hover to preview)</span>
+          <span>{t('calendar.ratedEntry')}</span>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <div className="w-2 h-2 rounded-full border border-stone-500" />
+          <span>{t('calendar.addedLater')}</span>
         </div>
         <div className="text-stone-500 italic">
-          Click any date to add or view entry
+          {t('calendar.clickHint')}
         </div>
       </div>
 
@@ -243,9 +300,16 @@ export function CalendarView({
         className="mt-2"
       />
 
+      {/* Per-tag Statistics */}
+      <TagStats
+        entries={entries}
+        year={year}
+        month={month}
+      />
+
       {/* Screen reader hint */}
       <div id="calendar-hint" className="sr-only">
-        Hover to preview entry, click to view full details
+        {t('calendar.screenReaderHint')}
       </div>
     </div>
   )
@@ -2,8 +2,9 @@ import type { Entry } from '@/types/entry'
 import { RatingBadge } from '@/components/common/RatingSelector'
 import { formatDateWithDay } from '@/lib/services/dateService'
 import { truncateText } from '@/lib/utils'
-import { getRatingEmoji } from '@/lib/services/calendarService'
+import { useRatingScale } from '@/hooks/useRatingScale'
 import { ArrowRight } from 'lucide-react'
+import { useTranslation } from '@/hooks/useTranslation'
 
 interface EntryPreviewCardProps {
   entry: Entry
@@ -19,6 +20,9 @@ interface EntryPreviewCardProps {
  * - "Click to view" hint
  */
 export function EntryPreviewCard({ entry }: EntryPreviewCardProps) {
+  const { getLevel } = useRatingScale()
+  const { t } = useTranslation()
+
   return (
     <div className="space-y-3">
       {/* Date header */}
@@ -29,7 +33,7 @@ export function EntryPreviewCard({ entry }: EntryPreviewCardProps) {
       {/* Rating section */}
       <div className="flex items-center gap-2">
         <RatingBadge rating={entry.rating} size="sm" showLabel={true} />
-        <span className="text-sm opacity-70">{getRatingEmoji(entry.rating)}</span>
+        <span className="text-sm opacity-70">{getLevel(entry.rating).emoji}</span>
       </div>
 
       {/* Preview text */}
@@ -39,8 +43,8 @@ export function EntryPreviewCard({ entry }: EntryPreviewCardProps) {
 
       {/* Footer hint */}
       <div className="flex items-center gap-1 text-xs text-stone-400 pt-1">
-        <span>Click to view full entry</span>
-        <ArrowRight className="w-3 h-3" />
+        <span>{t('calendar.clickToView')}</span>
+        <ArrowRight className="w-3 h-3 rtl:-scale-x-100" />
       </div>
     </div>
   )
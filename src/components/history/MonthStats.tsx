@@ -1,8 +1,9 @@
 import { useMemo } from 'react'
 import type { Entry } from '@/types/entry'
 import { calculateMonthStats } from '@/lib/services/calendarService'
-import { RATING_LABELS } from '@/types/rating'
+import { useRatingScale } from '@/hooks/useRatingScale'
 import { formatDateCompact } from '@/lib/services/dateService'
+import { useTranslation } from '@/hooks/useTranslation'
 import { Calendar, Star, Trophy, Percent } from 'lucide-react'
 import { cn } from '@/lib/utils'
 
@@ -17,15 +18,17 @@ interface MonthStatsProps {
  * MonthStats - Display statistics for a given month
  *
  * Shows:
- * - Total entries
- * - Average rating
+ * - Total entries (and how many were added later)
+ * - Average rating (on the user's rating scale)
  * - Best day
  * - Completion rate
  */
 export function MonthStats({ entries, year, month, className }: MonthStatsProps) {
+  const { getLevel, levelCount } = useRatingScale()
+  const { t } = useTranslation()
   const stats = useMemo(
-    () => calculateMonthStats(entries, year, month),
-    [entries, year, month]
+    () => calculateMonthStats(entries, year, month, levelCount),
+    [entries, year, month, levelCount]
   )
 
   // Empty state
@@ -33,7 +36,7 @@ export function MonthStats({ entries, year, month, className }: MonthStatsProps)
     return (
       <div className={cn('text-center py-4', className)}>
         <p className="text-sm text-stone-500 italic">
-          No entries yet this month. Start writing to see your stats!
+          {t('history.monthEmpty')}
         </p>
       </div>
     )
@@ -45,14 +48,18 @@ export function MonthStats({ entries, year, month, className }: MonthStatsProps)
       <StatCard
         icon={<Calendar className="w-4 h-4" />}
         value={stats.totalEntries.toString()}
-        label="Entries"
+        label={
+          stats.backfilledEntries > 0
+            ? t('history.statEntriesBackfilled', { count: stats.backfilledEntries })
+            : t('history.statEntries')
+        }
       />
 
       {/* Average Rating */}
       <StatCard
         icon={<Star className="w-4 h-4" />}
-        value={stats.averageRating?.toFixed(1) || '-'}
-        label="Avg Rating"
+        value={stats.averageRating !== null ? `${stats.averageRating.toFixed(1)} / ${levelCount}` : '-'}
+        label={t('history.statAverage')}
       />
 
       {/* Best Day */}
@@ -65,8 +72,8 @@ export function MonthStats({ entries, year, month, className }: MonthStatsProps)
         }
         label={
           stats.bestDay
-            ? RATING_LABELS[stats.bestDay.rating]
-            : 'Best Day'
+            ? getLevel(stats.bestDay.rating).label
+            : t('history.statBestDay')
         }
       />
 
@@ -74,7 +81,7 @@ export function MonthStats({ entries, year, month, className }: MonthStatsProps)
       <StatCard
         icon={<Percent className="w-4 h-4" />}
         value={`${stats.completionRate}%`}
-        label="Complete"
+        label={t('history.statComplete')}
       />
     </div>
   )
@@ -0,0 +1,200 @@
+import { useMemo } from 'react'
+import type { Entry } from '@/types/entry'
+import { calculateRatingInsights, type RatingAverage } from '@/lib/services/insightsService'
+import { getMonthNames, getWeekdayNames } from '@/lib/services/dateService'
+import { useSetting } from '@/store/settingsStore'
+import { useRatingScale } from '@/hooks/useRatingScale'
+import { useTranslation } from '@/hooks/useTranslation'
+import { cn } from '@/lib/utils'
+
+interface RatingInsightsProps {
+  entries: Entry[]
+  className?: string
+}
+
+/**
+ * Bar length for an average (1 = empty, 7 = full)
+ */
+function averagePercent(average: number): number {
+  return Math.max(4, ((average - 1) / 6) * 100)
+}
+
+/**
+ * RatingInsights - Rating patterns by weekday, month and weekend
+ *
+ * Displays:
+ * - Average by day of the week (in the user's week order)
+ * - Average by month of the year, across all years
+ * - Weekends vs. weekdays
+ * - Spread across the levels of the rating scale
+ *
+ * Averages are shown on the user's scale; the colour is the nearest level's
+ */
+export function RatingInsights({ entries, className }: RatingInsightsProps) {
+  const weekStartsOn = useSetting('weekStartsOn')
+  const { levels, levelCount, getLevel, scaleAverage } = useRatingScale()
+  const { t } = useTranslation()
+  const insights = useMemo(
+    () => calculateRatingInsights(entries, levelCount),
+    [entries, levelCount]
+  )
+
+  if (insights.totalEntries === 0) return null
+
+  const weekdayLabels = getWeekdayNames()
+  const monthInitials = getMonthNames('narrow')
+
+  const weekdays = [
+    ...insights.byWeekday.slice(weekStartsOn),
+    ...insights.byWeekday.slice(0, weekStartsOn),
+  ]
+  const weekendDifference =
+    insights.weekend.average !== null && insights.weekdays.average !== null
+      ? scaleAverage(insights.weekend.average) - scaleAverage(insights.weekdays.average)
+      : null
+
+  return (
+    <div className={cn('grid gap-3 sm:grid-cols-2 lg:grid-cols-4', className)}>
+      {/* By weekday */}
+      <InsightCard title={t('history.byWeekday')}>
+        <div className="space-y-1.5">
+          {weekdays.map(({ weekday, average, count }) => (
+            <div key={weekday} className="flex items-center gap-2 text-xs">
+              <span className="w-8 text-stone-600">{weekdayLabels[weekday]}</span>
+              <div className="flex-1 h-2 rounded-full bg-stone-100 overflow-hidden">
+                {average !== null && (
+                  <div
+                    className="h-full rounded-full"
+                    style={{ width: `${averagePercent(average)}%`, backgroundColor: getLevel(average).color }}
+                  />
+                )}
+              </div>
+              <span
+                className="w-7 text-end font-mono text-stone-700"
+                title={t('entries.count', { count })}
+              >
+                {average !== null ? scaleAverage(average).toFixed(1) : '-'}
+              </span>
+            </div>
+          ))}
+        </div>
+      </InsightCard>
+
+      {/* By month of the year */}
+      <InsightCard title={t('history.byMonth')}>
+        <div className="flex items-end justify-between gap-1 h-24">
+          {insights.byMonth.map(({ month, average, count }) => (
+            <div
+              key={month}
+              className="flex-1 h-full flex flex-col items-center justify-end gap-1"
+              title={
+                average !== null
+                  ? t('history.averageFrom', {
+                      average: scaleAverage(average).toFixed(1),
+                      entries: t('entries.count', { count }),
+                    })
+                  : t('history.noEntriesShort')
+              }
+            >
+              <div className="w-full flex-1 flex items-end">
+                <div
+                  className={cn('w-full rounded-sm', average === null && 'bg-stone-100')}
+                  style={
+                    average !== null
+                      ? { height: `${averagePercent(average)}%`, backgroundColor: getLevel(average).color }
+                      : { height: '4%' }
+                  }
+                />
+              </div>
+              <span className="text-[10px] text-stone-500">{monthInitials[month - 1].toLocaleUpperCase()}</span>
+            </div>
+          ))}
+        </div>
+      </InsightCard>
+
+      {/* Weekends vs. weekdays */}
+      <InsightCard title={t('history.weekendsVsWeekdays')}>
+        <div className="grid grid-cols-2 gap-2">
+          <AverageFigure
+            label={`${weekdayLabels[6]}–${weekdayLabels[0]}`}
+            value={insights.weekend}
+            toScale={scaleAverage}
+          />
+          <AverageFigure
+            label={`${weekdayLabels[1]}–${weekdayLabels[5]}`}
+            value={insights.weekdays}
+            toScale={scaleAverage}
+          />
+        </div>
+        {weekendDifference !== null && (
+          <p className="mt-3 text-xs text-stone-600">
+            {Math.abs(weekendDifference) < 0.05
+              ? t('history.aboutTheSame')
+              : t(weekendDifference > 0 ? 'history.weekendsHigher' : 'history.weekendsLower', {
+                  difference: Math.abs(weekendDifference).toFixed(1),
+                })}
+          </p>
+        )}
+      </InsightCard>
+
+      {/* Rating distribution */}
+      <InsightCard title={t('history.distribution')}>
+        <div className="flex h-3 rounded-full overflow-hidden bg-stone-100">
+          {insights.distribution.map(({ level, count }) =>
+            count > 0 ? (
+              <div
+                key={level}
+                style={{ flexGrow: count, backgroundColor: levels[level - 1].color }}
+                title={`${levels[level - 1].label}: ${count}`}
+              />
+            ) : null
+          )}
+        </div>
+        <div className="mt-3 space-y-1">
+          {[...insights.distribution].reverse().map(({ level, count, percentage }) => (
+            <div key={level} className="flex items-center gap-2 text-xs">
+              <div className="w-2 h-2 rounded-full" style={{ backgroundColor: levels[level - 1].color }} />
+              <span className="flex-1 text-stone-600">{levels[level - 1].label}</span>
+              <span className="font-mono text-stone-700">
+                {count > 0 ? `${percentage}%` : '-'}
+              </span>
+            </div>
+          ))}
+        </div>
+      </InsightCard>
+    </div>
+  )
+}
+
+interface InsightCardProps {
+  title: string
+  children: React.ReactNode
+}
+
+function InsightCard({ title, children }: InsightCardProps) {
+  return (
+    <div className="p-3 rounded-md border border-stone-200 bg-white">
+      <h3 className="text-xs font-medium uppercase tracking-wide text-stone-500 mb-3">{title}</h3>
+      {children}
+    </div>
+  )
+}
+
+interface AverageFigureProps {
+  label: string
+  value: RatingAverage
+  /** Places a stored average on the rating scale */
+  toScale: (average: number) => number
+}
+
+function AverageFigure({ label, value, toScale }: AverageFigureProps) {
+  const { t } = useTranslation()
+
+  return (
+    <div className="flex flex-col items-center gap-1 p-2 rounded-md bg-stone-50">
+      <div className="text-lg font-bold text-stone-900">{value.average !== null ? toScale(value.average).toFixed(1) : '-'}</div>
+      <div className="text-xs text-stone-600">{label}</div>
+      <div className="text-[10px] text-stone-500">{t('entries.count', { count: value.count })}</div>
+    </div>
+  )
+}
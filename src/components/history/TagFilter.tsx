@@ -0,0 +1,72 @@
+import { useMemo } from 'react'
+import type { Entry } from '@/types/entry'
+import { getTagCounts } from '@/lib/services/tagService'
+import { useTranslation } from '@/hooks/useTranslation'
+import { Tag, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+interface TagFilterProps {
+  entries: Entry[]
+  selectedTags: string[]
+  onChange: (tags: string[]) => void
+  className?: string
+}
+
+/**
+ * TagFilter - Toggle tags to narrow down the history view
+ *
+ * Entries matching any selected tag stay highlighted
+ */
+export function TagFilter({ entries, selectedTags, onChange, className }: TagFilterProps) {
+  const tagCounts = useMemo(() => getTagCounts(entries), [entries])
+  const { t } = useTranslation()
+
+  if (tagCounts.length === 0) return null
+
+  const toggleTag = (tag: string) => {
+    onChange(
+      selectedTags.includes(tag)
+        ? selectedTags.filter((other) => other !== tag)
+        : [...selectedTags, tag]
+    )
+  }
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-2', className)}>
+      <span className="flex items-center gap-1 text-xs font-medium text-stone-600 uppercase tracking-wide">
+        <Tag className="w-3.5 h-3.5" />
+        {t('history.filter')}
+      </span>
+      {tagCounts.map(({ tag, count }) => {
+        const isSelected = selectedTags.includes(tag)
+        return (
+          <button
+            key={tag}
+            type="button"
+            onClick={() => toggleTag(tag)}
+            className={cn(
+              'px-2.5 py-1 rounded-full border text-xs font-medium transition-colors',
+              'focus:outline-none focus:ring-2 focus:ring-amber-600 focus:ring-offset-1',
+              isSelected
+                ? 'bg-amber-50 border-amber-600 text-amber-900'
+                : 'bg-white border-stone-200 text-stone-600 hover:border-stone-300 hover:text-stone-900'
+            )}
+            aria-pressed={isSelected}
+          >
+            #{tag} <span className="font-mono text-stone-400">{count}</span>
+          </button>
+        )
+      })}
+      {selectedTags.length > 0 && (
+        <button
+          type="button"
+          onClick={() => onChange([])}
+          className="flex items-center gap-1 text-xs text-stone-500 hover:text-stone-900"
+        >
+          <X className="w-3 h-3" />
+          {t('common.clear')}
+        </button>
+      )}
+    </div>
+  )
+}
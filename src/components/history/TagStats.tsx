@@ -0,0 +1,54 @@
+import { useMemo } from 'react'
+import type { Entry } from '@/types/entry'
+import { calculateTagStats } from '@/lib/services/tagService'
+import { useRatingScale } from '@/hooks/useRatingScale'
+import { useTranslation } from '@/hooks/useTranslation'
+import { cn } from '@/lib/utils'
+
+interface TagStatsProps {
+  entries: Entry[]
+  year: number
+  month: number
+  className?: string
+}
+
+/**
+ * TagStats - Per-tag entry counts and average ratings for a month
+ *
+ * Sits below MonthStats; hidden when no entries that month are tagged
+ */
+export function TagStats({ entries, year, month, className }: TagStatsProps) {
+  const { getLevel, scaleAverage } = useRatingScale()
+  const { t } = useTranslation()
+  const stats = useMemo(
+    () => calculateTagStats(entries, year, month),
+    [entries, year, month]
+  )
+
+  if (stats.length === 0) return null
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <h3 className="text-xs font-medium text-stone-600 uppercase tracking-wide">
+        {t('history.byTag')}
+      </h3>
+      <ul className="divide-y divide-stone-100 rounded-md border border-stone-200 bg-stone-50">
+        {stats.map((stat) => (
+          <li key={stat.tag} className="flex items-center justify-between px-3 py-2 text-sm">
+            <span className="font-medium text-stone-800">#{stat.tag}</span>
+            <span className="flex items-center gap-3 text-xs text-stone-600">
+              <span>{t('entries.count', { count: stat.totalEntries })}</span>
+              <span className="flex items-center gap-1.5 font-mono">
+                <span
+                  className="w-2.5 h-2.5 rounded-full"
+                  style={{ backgroundColor: getLevel(stat.averageRating).color }}
+                />
+                {scaleAverage(stat.averageRating).toFixed(1)}
+              </span>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,197 @@
+import { useEffect, useMemo, useState } from 'react'
+import type { Entry } from '@/types'
+import {
+  formatDateWithDay,
+  getMonthNames,
+  getTodayDateString,
+  getWeekdayNames,
+  parseEntryDate,
+} from '@/lib/services/dateService'
+import { getYearWeeks } from '@/lib/services/calendarService'
+import { entryMatchesTags } from '@/lib/services/tagService'
+import { useSetting } from '@/store/settingsStore'
+import { useTranslation } from '@/hooks/useTranslation'
+import { useRatingScale } from '@/hooks/useRatingScale'
+import { Button } from '../ui/button'
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '../ui/hover-card'
+import { EntryPreviewCard } from './EntryPreviewCard'
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+interface YearHeatmapProps {
+  entries: Entry[]
+  onSelectDate: (dateString: string) => void
+  selectedDate?: string | null
+  /** Dim days whose entry has none of these tags (empty = no filter) */
+  filterTags?: string[]
+  className?: string
+}
+
+/**
+ * YearHeatmap - Whole year of ratings, one square per day
+ *
+ * Design: Contribution-graph layout (weeks as columns, weekdays as rows)
+ * so seasonal patterns stand out; scrolls sideways on narrow screens
+ */
+export function YearHeatmap({
+  entries,
+  onSelectDate,
+  selectedDate,
+  filterTags = [],
+  className,
+}: YearHeatmapProps) {
+  const currentYear = new Date().getFullYear()
+  const [year, setYear] = useState(currentYear)
+  const weekStartsOn = useSetting('weekStartsOn')
+  const today = getTodayDateString()
+  const { t } = useTranslation()
+  const { levels, getLevel } = useRatingScale()
+  const monthLabels = getMonthNames('short')
+
+  // Follow the selected day into its year
+  useEffect(() => {
+    if (selectedDate) setYear(parseEntryDate(selectedDate).getFullYear())
+  }, [selectedDate])
+
+  const entryMap = useMemo(() => {
+    const map = new Map<string, Entry>()
+    entries.forEach((entry) => map.set(entry.entry_date, entry))
+    return map
+  }, [entries])
+
+  const weeks = useMemo(() => getYearWeeks(year, weekStartsOn), [year, weekStartsOn])
+
+  const yearEntryCount = useMemo(
+    () => entries.filter((entry) => entry.entry_date.startsWith(`${year}-`)).length,
+    [entries, year]
+  )
+
+  const weekdayNames = getWeekdayNames()
+  const weekdayLabels = [
+    ...weekdayNames.slice(weekStartsOn),
+    ...weekdayNames.slice(0, weekStartsOn),
+  ]
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      {/* Year navigation */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-stone-900">{year}</h2>
+          <p className="text-xs text-stone-500">
+            {t('entries.count', { count: yearEntryCount })}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {year !== currentYear && (
+            <Button variant="outline" size="sm" onClick={() => setYear(currentYear)}>
+              {t('calendar.thisYear')}
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setYear(year - 1)}
+            aria-label={t('calendar.previousYear')}
+          >
+            <ChevronLeft className="w-4 h-4 rtl:-scale-x-100" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setYear(year + 1)}
+            disabled={year >= currentYear}
+            aria-label={t('calendar.nextYear')}
+          >
+            <ChevronRight className="w-4 h-4 rtl:-scale-x-100" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Heatmap grid */}
+      <div className="border border-stone-200 rounded-lg bg-white p-3 overflow-x-auto">
+        <div className="inline-flex gap-2">
+          {/* Weekday labels (every other row, to keep it quiet) */}
+          <div className="grid grid-rows-[auto_repeat(7,0.75rem)] gap-[3px] text-[10px] text-stone-500">
+            <div className="h-3" />
+            {weekdayLabels.map((label, index) => (
+              <div key={label} className="leading-3">
+                {index % 2 === 1 ? label : ''}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-[3px]">
+            {weeks.map((week, weekIndex) => (
+              <div key={weekIndex} className="grid grid-rows-[auto_repeat(7,0.75rem)] gap-[3px]">
+                <div className="w-3 h-3 text-[10px] leading-3 text-stone-500 whitespace-nowrap overflow-visible">
+                  {week.monthStart ? monthLabels[week.monthStart - 1] : ''}
+                </div>
+
+                {week.days.map((dateString, dayIndex) => {
+                  if (!dateString) {
+                    return <div key={dayIndex} className="w-3 h-3" />
+                  }
+
+                  const entry = entryMap.get(dateString)
+                  const isSelected = selectedDate === dateString
+                  const isDimmed =
+                    filterTags.length > 0 && (!entry || !entryMatchesTags(entry, filterTags))
+                  const cellClass = cn(
+                    'w-3 h-3 rounded-sm',
+                    'focus:outline-none focus:ring-2 focus:ring-amber-600 focus:ring-offset-1',
+                    isSelected && 'ring-2 ring-amber-600 ring-offset-1',
+                    dateString === today && !isSelected && 'ring-1 ring-amber-600',
+                    isDimmed && 'opacity-25'
+                  )
+
+                  if (!entry) {
+                    return (
+                      <button
+                        key={dateString}
+                        onClick={() => onSelectDate(dateString)}
+                        disabled={dateString > today}
+                        className={cn(cellClass, 'bg-stone-100 hover:bg-stone-200 disabled:hover:bg-stone-100')}
+                        aria-label={formatDateWithDay(dateString)}
+                      />
+                    )
+                  }
+
+                  return (
+                    <HoverCard key={dateString} openDelay={300} closeDelay={100}>
+                      <HoverCardTrigger asChild>
+                        <button
+                          onClick={() => onSelectDate(dateString)}
+                          className={cellClass}
+                          style={{ backgroundColor: getLevel(entry.rating).color }}
+                          aria-label={`${formatDateWithDay(dateString)}, ${getLevel(entry.rating).label}`}
+                        />
+                      </HoverCardTrigger>
+                      <HoverCardContent side="top" align="center" className="w-80 bg-white shadow-lg border-stone-300">
+                        <EntryPreviewCard entry={entry} />
+                      </HoverCardContent>
+                    </HoverCard>
+                  )
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-stone-600">
+        <div className="flex items-center gap-1.5">
+          <div className="w-3 h-3 rounded-sm bg-stone-100 border border-stone-200" />
+          <span>{t('calendar.noEntry')}</span>
+        </div>
+        {levels.map(({ label, color }, index) => (
+          <div key={index} className="flex items-center gap-1.5">
+            <div className="w-3 h-3 rounded-sm" style={{ backgroundColor: color }} />
+            <span>{label}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
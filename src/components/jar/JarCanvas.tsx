@@ -0,0 +1,425 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import type { Entry } from '@/types'
+import { useRatingScale } from '@/hooks/useRatingScale'
+import { useTranslation } from '@/hooks/useTranslation'
+import { cn } from '@/lib/utils'
+
+interface JarCanvasProps {
+  /** Entries to show, oldest first (they fill the jar from the bottom) */
+  entries: Entry[]
+  selectedId?: string | null
+  onSelectEntry: (entry: Entry) => void
+  /** Clicked on the jar but not on a marble */
+  onShake: () => void
+  /** Increase to play the shake animation */
+  shakeCount?: number
+  className?: string
+}
+
+/**
+ * Jar height as a multiple of its width
+ */
+const ASPECT_RATIO = 1.2
+
+/**
+ * Largest marble radius (CSS pixels), so a near-empty jar still looks like a jar
+ */
+const MAX_RADIUS = 14
+
+/**
+ * Marble drop: each marble falls for DROP_MS, starting within DROP_SPREAD_MS
+ */
+const DROP_MS = 500
+const DROP_SPREAD_MS = 900
+
+const SHAKE_MS = 600
+
+/**
+ * Device acceleration (m/s², gravity excluded) that counts as shaking the
+ * phone, and the pause before another shake counts
+ */
+const SHAKE_ACCELERATION = 15
+const SHAKE_COOLDOWN_MS = 1500
+
+interface Marble {
+  entry: Entry
+  x: number
+  y: number
+}
+
+interface JarGeometry {
+  width: number
+  height: number
+  body: { left: number; right: number; top: number; bottom: number; corner: number }
+  neck: { left: number; right: number; top: number }
+  radius: number
+  marbles: Marble[]
+}
+
+/**
+ * Small stable number in [-0.5, 0.5) from an id, to keep marbles from
+ * lining up too perfectly
+ */
+function jitter(id: string, salt: number): number {
+  let hash = salt
+  for (let i = 0; i < id.length; i++) {
+    hash = (hash * 31 + id.charCodeAt(i)) | 0
+  }
+  return ((hash >>> 0) % 1000) / 1000 - 0.5
+}
+
+/**
+ * Marbles per row and rows that fit for a radius (rows are offset by
+ * half a marble, hexagonal packing)
+ */
+function capacity(radius: number, width: number, height: number) {
+  const perRow = Math.max(1, Math.floor((width / radius - 1) / 2))
+  const rows = Math.max(1, Math.floor((height - 2 * radius) / (Math.sqrt(3) * radius)) + 1)
+  return { perRow, rows, total: perRow * rows }
+}
+
+/**
+ * Lay out the jar and every marble for a canvas width
+ */
+function layoutJar(entries: Entry[], width: number): JarGeometry {
+  const height = width * ASPECT_RATIO
+  const body = {
+    left: width * 0.1,
+    right: width * 0.9,
+    top: height * 0.22,
+    bottom: height * 0.97,
+    corner: width * 0.12,
+  }
+  const neck = { left: width * 0.26, right: width * 0.74, top: height * 0.08 }
+
+  // Marbles fill the body; keep clear of the rounded bottom corners
+  const pad = body.corner * 0.25
+  const innerWidth = body.right - body.left - 2 * pad
+  const innerHeight = body.bottom - body.top - pad
+
+  // Largest radius that fits everything (shrinks as the jar fills)
+  let low = 0.5
+  let high = MAX_RADIUS
+  if (capacity(high, innerWidth, innerHeight).total < entries.length) {
+    for (let i = 0; i < 30; i++) {
+      const mid = (low + high) / 2
+      if (capacity(mid, innerWidth, innerHeight).total >= entries.length) low = mid
+      else high = mid
+    }
+  } else {
+    low = high
+  }
+  const radius = low
+  const { perRow } = capacity(radius, innerWidth, innerHeight)
+  const rowWidth = (2 * perRow + 1) * radius
+  const startX = body.left + pad + (innerWidth - rowWidth) / 2 + radius
+  const rowHeight = Math.sqrt(3) * radius
+
+  const marbles = entries.map((entry, i) => {
+    const row = Math.floor(i / perRow)
+    const col = i % perRow
+    return {
+      entry,
+      x: startX + col * 2 * radius + (row % 2 === 1 ? radius : 0) + jitter(entry.id, 1) * radius * 0.3,
+      y: body.bottom - pad - radius - row * rowHeight + jitter(entry.id, 2) * radius * 0.2,
+    }
+  })
+
+  return { width, height, body, neck, radius, marbles }
+}
+
+/**
+ * Pre-rendered marble images, one per colour
+ */
+function createMarbleSprites(
+  radius: number,
+  scale: number,
+  colors: string[]
+): Map<string, HTMLCanvasElement> {
+  const sprites = new Map<string, HTMLCanvasElement>()
+  const size = Math.ceil(2 * radius * scale) + 2
+  for (const color of new Set(colors)) {
+    const canvas = document.createElement('canvas')
+    canvas.width = size
+    canvas.height = size
+    const ctx = canvas.getContext('2d')
+    if (!ctx) continue
+    const center = size / 2
+    const r = radius * scale
+
+    ctx.beginPath()
+    ctx.arc(center, center, r, 0, Math.PI * 2)
+    ctx.fillStyle = color
+    ctx.fill()
+
+    const shine = ctx.createRadialGradient(
+      center - r * 0.35, center - r * 0.35, 0,
+      center - r * 0.35, center - r * 0.35, r
+    )
+    shine.addColorStop(0, 'rgba(255, 255, 255, 0.55)')
+    shine.addColorStop(1, 'rgba(255, 255, 255, 0)')
+    ctx.fillStyle = shine
+    ctx.fill()
+
+    ctx.lineWidth = Math.max(0.5, scale * 0.5)
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.15)'
+    ctx.stroke()
+    sprites.set(color, canvas)
+  }
+  return sprites
+}
+
+/**
+ * Outline of the jar (body, shoulders and neck) as a path
+ */
+function traceJar(ctx: CanvasRenderingContext2D, { body, neck }: JarGeometry) {
+  const shoulder = body.top - (body.top - neck.top) * 0.35
+  ctx.beginPath()
+  ctx.moveTo(neck.left, neck.top)
+  ctx.lineTo(neck.left, shoulder)
+  ctx.quadraticCurveTo(body.left, shoulder, body.left, body.top)
+  ctx.lineTo(body.left, body.bottom - body.corner)
+  ctx.quadraticCurveTo(body.left, body.bottom, body.left + body.corner, body.bottom)
+  ctx.lineTo(body.right - body.corner, body.bottom)
+  ctx.quadraticCurveTo(body.right, body.bottom, body.right, body.bottom - body.corner)
+  ctx.lineTo(body.right, body.top)
+  ctx.quadraticCurveTo(body.right, shoulder, neck.right, shoulder)
+  ctx.lineTo(neck.right, neck.top)
+}
+
+const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3)
+
+/**
+ * JarCanvas - Every entry as a marble in a glass jar
+ *
+ * Design: Drawn on a canvas (one image blit per marble) so thousands of
+ * entries stay smooth. New marbles drop in; the jar wobbles when shaken.
+ * Honours prefers-reduced-motion
+ */
+export function JarCanvas({
+  entries,
+  selectedId,
+  onSelectEntry,
+  onShake,
+  shakeCount = 0,
+  className,
+}: JarCanvasProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [width, setWidth] = useState(0)
+  const [hoverId, setHoverId] = useState<string | null>(null)
+  const { t } = useTranslation()
+
+  // Animation bookkeeping (not state: changes every frame)
+  const dropStartsRef = useRef(new Map<string, number>())
+  const seenIdsRef = useRef(new Set<string>())
+  const shakeStartRef = useRef(-Infinity)
+  const frameRef = useRef(0)
+
+  const reducedMotion = useMemo(
+    () => window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false,
+    []
+  )
+
+  // Follow the container's width
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const observer = new ResizeObserver(([item]) => setWidth(Math.floor(item.contentRect.width)))
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  const geometry = useMemo(() => (width > 0 ? layoutJar(entries, width) : null), [entries, width])
+  const scale = window.devicePixelRatio || 1
+  const { levels, getLevel } = useRatingScale()
+  const sprites = useMemo(
+    () =>
+      geometry
+        ? createMarbleSprites(
+            geometry.radius,
+            scale,
+            levels.map((level) => level.color)
+          )
+        : null,
+    [geometry?.radius, scale, levels]
+  )
+
+  // Marbles not seen before drop in, staggered from the bottom up
+  useEffect(() => {
+    const now = performance.now()
+    const added = entries.filter((entry) => !seenIdsRef.current.has(entry.id))
+    const spread = Math.min(DROP_SPREAD_MS, added.length * 20)
+    added.forEach((entry, i) => {
+      if (!reducedMotion) {
+        dropStartsRef.current.set(entry.id, now + (added.length > 1 ? (i / (added.length - 1)) * spread : 0))
+      }
+    })
+    seenIdsRef.current = new Set(entries.map((entry) => entry.id))
+  }, [entries, reducedMotion])
+
+  useEffect(() => {
+    if (shakeCount > 0 && !reducedMotion) shakeStartRef.current = performance.now()
+  }, [shakeCount, reducedMotion])
+
+  // Shaking the phone shakes the jar
+  const onShakeRef = useRef(onShake)
+  onShakeRef.current = onShake
+  useEffect(() => {
+    let lastShake = 0
+    const handleMotion = (event: DeviceMotionEvent) => {
+      const { x, y, z } = event.acceleration ?? {}
+      const magnitude = Math.hypot(x ?? 0, y ?? 0, z ?? 0)
+      if (magnitude > SHAKE_ACCELERATION && event.timeStamp - lastShake > SHAKE_COOLDOWN_MS) {
+        lastShake = event.timeStamp
+        onShakeRef.current()
+      }
+    }
+    window.addEventListener('devicemotion', handleMotion)
+    return () => window.removeEventListener('devicemotion', handleMotion)
+  }, [])
+
+  const render = useCallback(
+    (now: number): boolean => {
+      const canvas = canvasRef.current
+      const ctx = canvas?.getContext('2d')
+      if (!canvas || !ctx || !geometry || !sprites) return false
+
+      const canvasWidth = Math.round(geometry.width * scale)
+      const canvasHeight = Math.round(geometry.height * scale)
+      if (canvas.width !== canvasWidth) canvas.width = canvasWidth
+      if (canvas.height !== canvasHeight) canvas.height = canvasHeight
+      ctx.setTransform(scale, 0, 0, scale, 0, 0)
+      ctx.clearRect(0, 0, geometry.width, geometry.height)
+
+      let animating = false
+
+      // Shake: a decaying side-to-side wobble of the whole jar
+      const shakeProgress = (now - shakeStartRef.current) / SHAKE_MS
+      if (shakeProgress >= 0 && shakeProgress < 1) {
+        const offset = Math.sin(shakeProgress * Math.PI * 8) * (1 - shakeProgress) * geometry.width * 0.03
+        ctx.translate(offset, 0)
+        animating = true
+      }
+
+      // Glass
+      traceJar(ctx, geometry)
+      ctx.fillStyle = 'rgba(250, 250, 249, 0.9)'
+      ctx.fill()
+
+      // Marbles
+      const { radius, body } = geometry
+      const spriteSize = Math.ceil(2 * radius * scale) + 2
+      const drawSize = spriteSize / scale
+      for (const marble of geometry.marbles) {
+        let y = marble.y
+        const dropStart = dropStartsRef.current.get(marble.entry.id)
+        if (dropStart !== undefined) {
+          const progress = (now - dropStart) / DROP_MS
+          if (progress >= 1) {
+            dropStartsRef.current.delete(marble.entry.id)
+          } else {
+            animating = true
+            if (progress < 0) continue
+            const from = geometry.neck.top - radius
+            y = from + (marble.y - from) * easeOutCubic(progress)
+          }
+        }
+        const sprite = sprites.get(getLevel(marble.entry.rating).color)
+        if (sprite) ctx.drawImage(sprite, marble.x - drawSize / 2, y - drawSize / 2, drawSize, drawSize)
+      }
+
+      // Selected and hovered marbles get a ring
+      for (const marble of geometry.marbles) {
+        const id = marble.entry.id
+        if (id !== selectedId && id !== hoverId) continue
+        if (dropStartsRef.current.has(id)) continue
+        ctx.beginPath()
+        ctx.arc(marble.x, marble.y, Math.max(radius, 4) + 2, 0, Math.PI * 2)
+        ctx.lineWidth = id === selectedId ? 2.5 : 1.5
+        ctx.strokeStyle = id === selectedId ? '#d97706' : '#78716c'
+        ctx.stroke()
+      }
+
+      // Glass outline, highlight and lid
+      traceJar(ctx, geometry)
+      ctx.lineWidth = 2
+      ctx.strokeStyle = '#a8a29e'
+      ctx.stroke()
+
+      ctx.beginPath()
+      ctx.moveTo(body.left + geometry.width * 0.05, body.top + geometry.height * 0.04)
+      ctx.lineTo(body.left + geometry.width * 0.05, body.bottom - body.corner * 1.5)
+      ctx.lineWidth = geometry.width * 0.025
+      ctx.lineCap = 'round'
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)'
+      ctx.stroke()
+
+      const { neck } = geometry
+      const lidHeight = geometry.height * 0.05
+      ctx.fillStyle = '#b45309'
+      ctx.beginPath()
+      ctx.roundRect(neck.left - 6, neck.top - lidHeight, neck.right - neck.left + 12, lidHeight, 4)
+      ctx.fill()
+
+      return animating
+    },
+    [geometry, sprites, scale, selectedId, hoverId, getLevel]
+  )
+
+  // Redraw on every change; keep going while something is moving
+  useEffect(() => {
+    const tick = (now: number) => {
+      frameRef.current = render(now) ? requestAnimationFrame(tick) : 0
+    }
+    frameRef.current = requestAnimationFrame(tick)
+    return () => cancelAnimationFrame(frameRef.current)
+  }, [render, shakeCount, entries])
+
+  /**
+   * Marble under a point (CSS pixels), with some slack for tiny marbles
+   */
+  const marbleAt = (clientX: number, clientY: number): Marble | null => {
+    const rect = canvasRef.current?.getBoundingClientRect()
+    if (!rect || !geometry) return null
+    const x = clientX - rect.left
+    const y = clientY - rect.top
+    const reach = Math.max(geometry.radius, 6)
+    let nearest: Marble | null = null
+    let nearestDistance = reach * reach
+    for (const marble of geometry.marbles) {
+      const distance = (marble.x - x) ** 2 + (marble.y - y) ** 2
+      if (distance <= nearestDistance) {
+        nearest = marble
+        nearestDistance = distance
+      }
+    }
+    return nearest
+  }
+
+  const handleClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const marble = marbleAt(event.clientX, event.clientY)
+    if (marble) onSelectEntry(marble.entry)
+    else onShake()
+  }
+
+  const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const id = marbleAt(event.clientX, event.clientY)?.entry.id ?? null
+    if (id !== hoverId) setHoverId(id)
+  }
+
+  return (
+    <div ref={containerRef} className={cn('w-full', className)}>
+      <canvas
+        ref={canvasRef}
+        onClick={handleClick}
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoverId(null)}
+        className={cn('block w-full', hoverId ? 'cursor-pointer' : 'cursor-grab')}
+        style={geometry ? { height: geometry.height } : undefined}
+        role="img"
+        aria-label={t('jar.canvasLabel', { count: entries.length })}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import type { JarDraw, JarDrawOptions } from '@/types'
+import { drawFromJar } from '@/lib/services/jarService'
+import { getTagCounts } from '@/lib/services/tagService'
+import { useEntryStore } from '@/store/entryStore'
+import { useFormatDate } from '@/hooks/useSettings'
+import { useTranslation } from '@/hooks/useTranslation'
+import { RatingBadge } from '../common/RatingSelector'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Button } from '../ui/button'
+import { JarOptionsPanel } from './JarOptionsPanel'
+import { SlidersHorizontal, Sparkles } from 'lucide-react'
+
+/**
+ * JarCard - A past entry drawn from the jar
+ *
+ * Design: One entry at a time; "Pull another" draws again without
+ * repeats until every matching entry has come up. The options narrow
+ * or weight the draw
+ */
+export function JarCard() {
+  const entries = useEntryStore((state) => state.entries)
+  const formatDate = useFormatDate()
+  const { t } = useTranslation()
+  const [options, setOptions] = useState<JarDrawOptions>({})
+  const [showOptions, setShowOptions] = useState(false)
+  const [draw, setDraw] = useState<JarDraw | null>(null)
+
+  const tags = useMemo(() => getTagCounts(entries).map(({ tag }) => tag), [entries])
+  const hasOptions = Object.values(options).some((value) => value !== undefined)
+
+  const pull = useCallback(async () => {
+    try {
+      setDraw(await drawFromJar(options))
+    } catch {
+      setDraw(null)
+    }
+  }, [options])
+
+  // Draw on open and whenever the options change
+  useEffect(() => {
+    pull()
+  }, [pull])
+
+  // Nothing in the jar yet
+  if (!draw || (!draw.entry && !hasOptions && !showOptions)) return null
+
+  const { entry } = draw
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Sparkles className="w-5 h-5 text-amber-600" />
+          {t('jar.fromTheJar')}
+        </CardTitle>
+        <Button
+          variant={showOptions || hasOptions ? 'secondary' : 'ghost'}
+          size="icon"
+          onClick={() => setShowOptions(!showOptions)}
+          title={t('jar.drawOptions')}
+          aria-label={t('jar.drawOptions')}
+          aria-expanded={showOptions}
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {showOptions && (
+          <JarOptionsPanel
+            options={options}
+            onChange={setOptions}
+            tags={tags}
+            className="pb-3 border-b border-stone-200"
+          />
+        )}
+
+        {entry ? (
+          <>
+            <div className="flex items-center justify-between">
+              <time className="text-sm font-medium text-stone-700">
+                {formatDate(entry.entry_date)}
+              </time>
+              <RatingBadge rating={entry.rating} size="sm" showLabel={false} />
+            </div>
+            <p className="text-sm font-serif leading-relaxed text-stone-700">
+              {entry.gratitude_text}
+            </p>
+            <div className="flex items-center justify-between gap-2">
+              <button
+                onClick={pull}
+                className="text-xs text-amber-600 hover:text-amber-700 font-medium"
+              >
+                {t('jar.pullAnother')}
+              </button>
+              {draw.total > 1 && (
+                <span className="text-xs text-stone-500">
+                  {draw.remaining === 0
+                    ? t('jar.lastThisRound')
+                    : t('jar.leftThisRound', { remaining: draw.remaining, total: draw.total })}
+                </span>
+              )}
+            </div>
+          </>
+        ) : (
+          <p className="text-sm text-stone-500">{t('jar.noMatches')}</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
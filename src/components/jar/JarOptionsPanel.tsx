@@ -0,0 +1,133 @@
+import type { JarDrawOptions, JarWeighting } from '@/types'
+import { JAR_WEIGHTING_LABELS } from '@/lib/services/jarService'
+import { useTranslation } from '@/hooks/useTranslation'
+import { useRatingScale } from '@/hooks/useRatingScale'
+import { Input } from '../ui/input'
+import { NativeSelect } from '../ui/native-select'
+import { Label } from '../ui/label'
+import { X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+interface JarOptionsPanelProps {
+  options: JarDrawOptions
+  onChange: (options: JarDrawOptions) => void
+  /** Tags offered in the tag filter */
+  tags: string[]
+  className?: string
+}
+
+/**
+ * JarOptionsPanel - Which entries the jar draws from, and how
+ *
+ * Design: Same compact native controls as the search filters
+ */
+export function JarOptionsPanel({ options, onChange, tags, className }: JarOptionsPanelProps) {
+  const hasOptions = Object.values(options).some((value) => value !== undefined)
+  const { t } = useTranslation()
+  const { levels, levelOf, levelRange } = useRatingScale()
+
+  const update = (changes: Partial<JarDrawOptions>) => {
+    onChange({ ...options, ...changes })
+  }
+
+  // Offered as levels of the user's scale; stored as the lowest rating the level covers
+  const parseLevel = (value: string): number | undefined =>
+    value ? levelRange(Number(value)).min : undefined
+
+  return (
+    <div className={cn('grid grid-cols-2 gap-3', className)}>
+      <div className="space-y-1.5">
+        <Label htmlFor="jar-min-rating" className="text-xs text-stone-600">
+          {t('jar.daysRated')}
+        </Label>
+        <NativeSelect
+          id="jar-min-rating"
+          value={options.minRating !== undefined ? levelOf(options.minRating) : ''}
+          onChange={(e) => update({ minRating: parseLevel(e.target.value) })}
+        >
+          <option value="">{t('common.any')}</option>
+          {levels.slice(1).map(({ label }, index) => (
+            <option key={index} value={index + 2}>
+              {t('jar.ratingOrBetter', { rating: label })}
+            </option>
+          ))}
+        </NativeSelect>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label htmlFor="jar-tag" className="text-xs text-stone-600">
+          {t('common.tag')}
+        </Label>
+        <NativeSelect
+          id="jar-tag"
+          value={options.tag ?? ''}
+          onChange={(e) => update({ tag: e.target.value || undefined })}
+        >
+          <option value="">{t('common.any')}</option>
+          {tags.map((tag) => (
+            <option key={tag} value={tag}>
+              {tag}
+            </option>
+          ))}
+        </NativeSelect>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label htmlFor="jar-start-date" className="text-xs text-stone-600">
+          {t('common.from')}
+        </Label>
+        <Input
+          id="jar-start-date"
+          type="date"
+          value={options.startDate ?? ''}
+          max={options.endDate}
+          onChange={(e) => update({ startDate: e.target.value || undefined })}
+        />
+      </div>
+
+      <div className="space-y-1.5">
+        <Label htmlFor="jar-end-date" className="text-xs text-stone-600">
+          {t('common.to')}
+        </Label>
+        <Input
+          id="jar-end-date"
+          type="date"
+          value={options.endDate ?? ''}
+          min={options.startDate}
+          onChange={(e) => update({ endDate: e.target.value || undefined })}
+        />
+      </div>
+
+      <div className="col-span-2 space-y-1.5">
+        <Label htmlFor="jar-weighting" className="text-xs text-stone-600">
+          {t('jar.draw')}
+        </Label>
+        <NativeSelect
+          id="jar-weighting"
+          value={options.weighting ?? 'none'}
+          onChange={(e) => {
+            const weighting = e.target.value as JarWeighting
+            update({ weighting: weighting === 'none' ? undefined : weighting })
+          }}
+        >
+          {(Object.keys(JAR_WEIGHTING_LABELS) as JarWeighting[]).map((weighting) => (
+            <option key={weighting} value={weighting}>
+              {t(JAR_WEIGHTING_LABELS[weighting])}
+            </option>
+          ))}
+        </NativeSelect>
+      </div>
+
+      {hasOptions && (
+        <button
+          type="button"
+          onClick={() => onChange({})}
+          className="col-span-2 flex items-center gap-1 justify-self-start text-xs text-stone-500 hover:text-stone-900"
+        >
+          <X className="w-3 h-3" />
+          {t('jar.drawFromWholeJar')}
+        </button>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,10 @@
 import { Link, useLocation } from 'react-router-dom'
 import { useEntryCount } from '@/store/entryStore'
-import { Sparkles } from 'lucide-react'
+import { useStreaks } from '@/hooks/useStreaks'
+import { useTranslation } from '@/hooks/useTranslation'
+import { Flame, Sparkles } from 'lucide-react'
+import { SyncIndicator } from './SyncIndicator'
+import { OfflineIndicator } from './OfflineIndicator'
 import { cn } from '@/lib/utils'
 
 /**
@@ -11,10 +15,17 @@ import { cn } from '@/lib/utils'
 export function Header() {
   const location = useLocation()
   const entryCount = useEntryCount()
+  const { current: currentStreak, loggedToday } = useStreaks()
+  const { t } = useTranslation()
 
   const navItems = [
-    { path: '/', label: 'Today' },
-    { path: '/history', label: 'History' },
+    { path: '/', label: t('nav.today') },
+    { path: '/history', label: t('nav.history') },
+    { path: '/search', label: t('nav.search') },
+    { path: '/trends', label: t('nav.trends') },
+    { path: '/jar', label: t('nav.jar') },
+    { path: '/data', label: t('nav.data') },
+    { path: '/settings', label: t('nav.settings') },
   ]
 
   return (
@@ -27,7 +38,7 @@ export function Header() {
             className="flex items-center gap-2 text-stone-900 hover:text-amber-600 transition-colors"
           >
             <Sparkles className="w-5 h-5 text-amber-600" />
-            <span className="text-lg font-semibold">Gratefulness Jar</span>
+            <span className="text-lg font-semibold">{t('app.name')}</span>
           </Link>
 
           {/* Navigation */}
@@ -54,12 +65,31 @@ export function Header() {
             })}
           </nav>
 
-          {/* Entry count (subtle) */}
-          {entryCount > 0 && (
-            <div className="hidden sm:block text-xs text-stone-500 font-mono">
-              {entryCount} {entryCount === 1 ? 'entry' : 'entries'}
-            </div>
-          )}
+          <div className="flex items-center gap-3">
+            {/* Entry count (subtle) */}
+            {entryCount > 0 && (
+              <div className="hidden sm:block text-xs text-stone-500 font-mono">
+                {t('entries.count', { count: entryCount })}
+              </div>
+            )}
+            {/* Current streak, dimmed until today's entry is written */}
+            {currentStreak && currentStreak.length > 1 && (
+              <div
+                className={cn(
+                  'hidden sm:flex items-center gap-1 text-xs font-mono',
+                  loggedToday ? 'text-amber-700' : 'text-stone-400'
+                )}
+                title={t(loggedToday ? 'header.streak' : 'header.streakPending', {
+                  count: currentStreak.length,
+                })}
+              >
+                <Flame className="w-3.5 h-3.5" />
+                {currentStreak.length}
+              </div>
+            )}
+            <OfflineIndicator />
+            <SyncIndicator />
+          </div>
         </div>
       </div>
     </header>
@@ -1,28 +1,151 @@
-import { Outlet } from 'react-router-dom'
+import { Outlet, useLocation, useNavigate } from 'react-router-dom'
 import { Header } from './Header'
-import { useEffect } from 'react'
+import { ReminderBanner } from './ReminderBanner'
+import { UpdatePrompt } from './UpdatePrompt'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import { initDatabase } from '@/lib/db/schema'
+import { useSettingsStore } from '@/store/settingsStore'
+import { useAutoSync } from '@/hooks/useSync'
+import { useReminderScheduler } from '@/hooks/useReminders'
+import { useServiceWorker } from '@/hooks/usePwa'
+import { useDocumentLocale, useTranslation } from '@/hooks/useTranslation'
+import { getLatestBackup, type MigrationBackup } from '@/lib/db/backups'
+import { purgeExpiredTrash } from '@/lib/services/trashService'
+import { formatTimestamp } from '@/lib/services/dateService'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { AlertTriangle, Download, Loader2, RotateCcw } from 'lucide-react'
+import { downloadFile } from '@/lib/utils'
+
+type DatabaseStatus = 'initializing' | 'ready' | 'error'
 
 /**
  * Layout - Main application layout
  *
  * Design: Simple wrapper with header and content area
  * Cream/off-white background for warmth
+ * Pages only render once the database is open, so no query can race
+ * ahead of a pending schema upgrade
  */
 export function Layout() {
+  const [dbStatus, setDbStatus] = useState<DatabaseStatus>('initializing')
+  const [dbError, setDbError] = useState<string | null>(null)
+  const loadSettings = useSettingsStore((state) => state.loadSettings)
+  const { t } = useTranslation()
+  const location = useLocation()
+  const navigate = useNavigate()
+  const initialPath = useRef(location.pathname)
+  // navigate changes on every route change; keep init from re-running
+  const navigateRef = useRef(navigate)
+  navigateRef.current = navigate
+
+  const openDatabase = useCallback(() => {
+    setDbStatus('initializing')
+    setDbError(null)
+    initDatabase()
+      .then(() => loadSettings())
+      .then(() => {
+        // Honour the default landing page when the app is opened at "/"
+        const { defaultLandingPage, trashRetentionDays } = useSettingsStore.getState().settings
+        // Housekeeping only: a failed purge is retried on the next start
+        purgeExpiredTrash(trashRetentionDays).catch(() => {})
+        if (initialPath.current === '/' && defaultLandingPage !== '/') {
+          navigateRef.current(defaultLandingPage, { replace: true })
+        }
+        setDbStatus('ready')
+      })
+      .catch((error) => {
+        console.error('Failed to initialize database:', error)
+        setDbError(error instanceof Error ? error.message : t('app.openFailed'))
+        setDbStatus('error')
+      })
+  }, [loadSettings, t])
+
   // Initialize database on mount
   useEffect(() => {
-    initDatabase().catch((error) => {
-      console.error('Failed to initialize database:', error)
-    })
-  }, [])
+    openDatabase()
+  }, [openDatabase])
+
+  useAutoSync(dbStatus === 'ready')
+  useReminderScheduler(dbStatus === 'ready')
+  useServiceWorker()
+  useDocumentLocale()
 
   return (
     <div className="min-h-screen bg-stone-50 flex flex-col">
       <Header />
+      {dbStatus === 'ready' && <ReminderBanner />}
       <main className="flex-1">
-        <Outlet />
+        {dbStatus === 'ready' && <Outlet />}
+        {dbStatus === 'initializing' && (
+          <div className="flex items-center justify-center py-24 text-stone-500">
+            <Loader2 className="w-5 h-5 animate-spin" />
+          </div>
+        )}
+        {dbStatus === 'error' && (
+          <DatabaseErrorState message={dbError} onRetry={openDatabase} />
+        )}
       </main>
+      <UpdatePrompt />
+    </div>
+  )
+}
+
+interface DatabaseErrorStateProps {
+  message: string | null
+  onRetry: () => void
+}
+
+/**
+ * Shown when the database fails to open or upgrade
+ * Offers the automatic pre-upgrade backup for download
+ */
+function DatabaseErrorState({ message, onRetry }: DatabaseErrorStateProps) {
+  const [backup, setBackup] = useState<MigrationBackup | null>(null)
+  const { t } = useTranslation()
+
+  useEffect(() => {
+    getLatestBackup().then(setBackup)
+  }, [])
+
+  const handleDownloadBackup = () => {
+    if (!backup) return
+    downloadFile(
+      `gratefulness-jar-backup-v${backup.from_version}-${backup.created_at}.json`,
+      JSON.stringify(backup.tables.entries ?? [], null, 2)
+    )
+  }
+
+  return (
+    <div className="max-w-xl mx-auto px-4 py-16">
+      <Card className="border-red-200">
+        <CardContent className="p-8 space-y-4 text-center">
+          <div className="w-12 h-12 mx-auto rounded-full bg-red-50 flex items-center justify-center">
+            <AlertTriangle className="w-6 h-6 text-red-700" />
+          </div>
+          <div className="space-y-2">
+            <h2 className="text-lg font-semibold text-stone-900">{t('app.openErrorTitle')}</h2>
+            <p className="text-sm text-stone-600">{message || t('app.openErrorFallback')}</p>
+            {backup && (
+              <p className="text-sm text-stone-600">
+                {t('app.autoBackupNote', { time: formatTimestamp(backup.created_at) })}
+              </p>
+            )}
+          </div>
+          <div className="flex justify-center gap-3 pt-2">
+            <Button onClick={onRetry}>
+              <RotateCcw className="w-4 h-4" />
+              {t('app.tryAgain')}
+            </Button>
+            {backup && (
+              <Button variant="outline" onClick={handleDownloadBackup}>
+                <Download className="w-4 h-4" />
+                {t('data.downloadBackup')}
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
     </div>
   )
 }
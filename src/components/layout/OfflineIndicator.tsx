@@ -0,0 +1,26 @@
+import { usePwa } from '@/hooks/usePwa'
+import { useTranslation } from '@/hooks/useTranslation'
+import { WifiOff } from 'lucide-react'
+
+/**
+ * OfflineIndicator - Shown in the header while there is no connection
+ *
+ * Entries are stored on the device, so writing keeps working offline
+ */
+export function OfflineIndicator() {
+  const { isOnline } = usePwa()
+  const { t } = useTranslation()
+
+  if (isOnline) return null
+
+  return (
+    <div
+      className="flex items-center gap-1 rounded-full border border-stone-200 bg-stone-100 px-2 py-0.5 text-xs text-stone-600"
+      title={t('offline.hint')}
+      role="status"
+    >
+      <WifiOff className="w-3.5 h-3.5" />
+      {t('offline.label')}
+    </div>
+  )
+}
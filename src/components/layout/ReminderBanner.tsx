@@ -0,0 +1,46 @@
+import { Link, useLocation } from 'react-router-dom'
+import { useReminders } from '@/hooks/useReminders'
+import { useTranslation } from '@/hooks/useTranslation'
+import { useEntryStore } from '@/store/entryStore'
+import { getTodayDateString } from '@/lib/services/dateService'
+import { Button } from '../ui/button'
+import { Bell, X } from 'lucide-react'
+
+/**
+ * ReminderBanner - In-app reminder when notifications can't be shown
+ *
+ * Design: Slim amber strip under the header; hidden once today has an
+ * entry, on the Today page itself, or when dismissed
+ */
+export function ReminderBanner() {
+  const { permission, bannerDate, requestPermission, dismissBanner } = useReminders()
+  const todayEntry = useEntryStore((state) => state.todayEntry)
+  const location = useLocation()
+  const { t } = useTranslation()
+
+  if (bannerDate !== getTodayDateString() || todayEntry || location.pathname === '/') {
+    return null
+  }
+
+  return (
+    <div className="bg-amber-50 border-b border-amber-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center gap-3">
+        <Bell className="w-4 h-4 text-amber-700 shrink-0" />
+        <p className="flex-1 text-sm text-amber-900">
+          {t('reminder.notWritten')}{' '}
+          <Link to="/" onClick={dismissBanner} className="font-medium underline hover:text-amber-700">
+            {t('reminder.addEntry')}
+          </Link>
+        </p>
+        {permission === 'default' && (
+          <Button variant="ghost" size="sm" onClick={() => requestPermission()}>
+            {t('reminder.turnOnNotifications')}
+          </Button>
+        )}
+        <Button variant="ghost" size="icon" onClick={dismissBanner} aria-label={t('reminder.dismiss')}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,57 @@
+import { useSync } from '@/hooks/useSync'
+import type { SyncStatus } from '@/types'
+import { formatTimestamp } from '@/lib/services/dateService'
+import { useTranslation } from '@/hooks/useTranslation'
+import type { MessageKey } from '@/lib/i18n'
+import { AlertTriangle, Cloud, CloudOff, RefreshCw, type LucideIcon } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+const STATUS_DISPLAY: Record<Exclude<SyncStatus, 'disabled'>, { icon: LucideIcon; label: MessageKey; className: string }> = {
+  idle: { icon: Cloud, label: 'sync.synced', className: 'text-stone-500' },
+  syncing: { icon: RefreshCw, label: 'sync.syncing', className: 'text-amber-600' },
+  offline: { icon: CloudOff, label: 'sync.offline', className: 'text-stone-400' },
+  error: { icon: AlertTriangle, label: 'sync.failed', className: 'text-red-700' },
+}
+
+/**
+ * SyncIndicator - Sync status in the header
+ *
+ * Hidden while sync is off; clicking syncs now
+ */
+export function SyncIndicator() {
+  const { status, lastSyncedAt, pendingCount, error, sync } = useSync()
+  const { t } = useTranslation()
+
+  if (status === 'disabled') return null
+
+  const { icon: Icon, className } = STATUS_DISPLAY[status]
+  const label = t(STATUS_DISPLAY[status].label)
+  const detail =
+    status === 'error' || status === 'offline'
+      ? error
+      : pendingCount > 0
+        ? t('sync.pending', { count: pendingCount })
+        : lastSyncedAt
+          ? t('sync.lastSynced', { time: formatTimestamp(lastSyncedAt) })
+          : t('sync.notYet')
+
+  return (
+    <button
+      type="button"
+      onClick={() => sync()}
+      disabled={status === 'syncing'}
+      title={detail ? `${label}. ${detail}` : label}
+      aria-label={t('sync.statusAction', { status: label })}
+      className={cn(
+        'relative p-2 rounded-md transition-colors hover:bg-stone-100',
+        'focus:outline-none focus:ring-2 focus:ring-amber-600 focus:ring-offset-2',
+        className
+      )}
+    >
+      <Icon className={cn('w-4 h-4', status === 'syncing' && 'animate-spin')} />
+      {status === 'idle' && pendingCount > 0 && (
+        <span className="absolute top-1.5 end-1.5 w-1.5 h-1.5 rounded-full bg-amber-600" />
+      )}
+    </button>
+  )
+}
@@ -0,0 +1,32 @@
+import { usePwa } from '@/hooks/usePwa'
+import { useTranslation } from '@/hooks/useTranslation'
+import { Button } from '../ui/button'
+import { RefreshCw, X } from 'lucide-react'
+
+/**
+ * UpdatePrompt - Offers to reload when a new version has been installed
+ *
+ * Design: Small card in the bottom corner, so it never covers the editor
+ */
+export function UpdatePrompt() {
+  const { updateAvailable, applyUpdate, dismissUpdate } = usePwa()
+  const { t } = useTranslation()
+
+  if (!updateAvailable) return null
+
+  return (
+    <div
+      className="fixed bottom-4 end-4 z-20 flex items-center gap-3 rounded-lg border border-stone-200 bg-white px-4 py-3 shadow-lg"
+      role="status"
+    >
+      <p className="text-sm text-stone-700">{t('update.ready')}</p>
+      <Button size="sm" onClick={applyUpdate}>
+        <RefreshCw className="w-4 h-4" />
+        {t('update.reload')}
+      </Button>
+      <Button variant="ghost" size="icon" onClick={dismissUpdate} aria-label={t('update.dismiss')}>
+        <X className="w-4 h-4" />
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,118 @@
+import type { SearchFilters } from '@/types'
+import { useRatingScale } from '@/hooks/useRatingScale'
+import { useTranslation } from '@/hooks/useTranslation'
+import { Input } from '../ui/input'
+import { NativeSelect } from '../ui/native-select'
+import { Label } from '../ui/label'
+import { X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+interface SearchFilterPanelProps {
+  filters: SearchFilters
+  onChange: (filters: SearchFilters) => void
+  className?: string
+}
+
+/**
+ * SearchFilterPanel - Rating and date range filters for search
+ *
+ * Design: Compact row of native controls; clears back to "any"
+ * Rating bounds are picked as levels of the user's scale and stored as
+ * the range of stored ratings those levels cover
+ */
+export function SearchFilterPanel({ filters, onChange, className }: SearchFilterPanelProps) {
+  const { levels, levelOf, levelRange } = useRatingScale()
+  const { t } = useTranslation()
+  const minLevel = filters.minRating !== undefined ? levelOf(filters.minRating) : undefined
+  const maxLevel = filters.maxRating !== undefined ? levelOf(filters.maxRating) : undefined
+  const hasFilters = Object.values(filters).some((value) => value !== undefined)
+
+  const update = (changes: Partial<SearchFilters>) => {
+    onChange({ ...filters, ...changes })
+  }
+
+  const parseLevel = (value: string): number | undefined => (value ? Number(value) : undefined)
+
+  return (
+    <div className={cn('grid grid-cols-2 gap-3 sm:grid-cols-4', className)}>
+      <div className="space-y-1.5">
+        <Label htmlFor="filter-min-rating" className="text-xs text-stone-600">
+          {t('search.ratingFrom')}
+        </Label>
+        <NativeSelect
+          id="filter-min-rating"
+          value={minLevel ?? ''}
+          onChange={(e) => {
+            const level = parseLevel(e.target.value)
+            update({ minRating: level !== undefined ? levelRange(level).min : undefined })
+          }}
+        >
+          <option value="">{t('common.any')}</option>
+          {levels.map(({ label }, index) => (
+            <option key={index} value={index + 1} disabled={maxLevel !== undefined && index + 1 > maxLevel}>
+              {label}
+            </option>
+          ))}
+        </NativeSelect>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label htmlFor="filter-max-rating" className="text-xs text-stone-600">
+          {t('search.ratingTo')}
+        </Label>
+        <NativeSelect
+          id="filter-max-rating"
+          value={maxLevel ?? ''}
+          onChange={(e) => {
+            const level = parseLevel(e.target.value)
+            update({ maxRating: level !== undefined ? levelRange(level).max : undefined })
+          }}
+        >
+          <option value="">{t('common.any')}</option>
+          {levels.map(({ label }, index) => (
+            <option key={index} value={index + 1} disabled={minLevel !== undefined && index + 1 < minLevel}>
+              {label}
+            </option>
+          ))}
+        </NativeSelect>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label htmlFor="filter-start-date" className="text-xs text-stone-600">
+          {t('common.from')}
+        </Label>
+        <Input
+          id="filter-start-date"
+          type="date"
+          value={filters.startDate ?? ''}
+          max={filters.endDate}
+          onChange={(e) => update({ startDate: e.target.value || undefined })}
+        />
+      </div>
+
+      <div className="space-y-1.5">
+        <Label htmlFor="filter-end-date" className="text-xs text-stone-600">
+          {t('common.to')}
+        </Label>
+        <Input
+          id="filter-end-date"
+          type="date"
+          value={filters.endDate ?? ''}
+          min={filters.startDate}
+          onChange={(e) => update({ endDate: e.target.value || undefined })}
+        />
+      </div>
+
+      {hasFilters && (
+        <button
+          type="button"
+          onClick={() => onChange({})}
+          className="col-span-2 sm:col-span-4 flex items-center gap-1 justify-self-start text-xs text-stone-500 hover:text-stone-900"
+        >
+          <X className="w-3 h-3" />
+          {t('search.clearFilters')}
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,263 @@
+import { useMemo, useRef, useState } from 'react'
+import type { RatingTrend } from '@/lib/services/analyticsService'
+import { useTranslation } from '@/hooks/useTranslation'
+import { useRatingScale } from '@/hooks/useRatingScale'
+import { formatDateString } from '@/lib/services/dateService'
+import { cn } from '@/lib/utils'
+
+interface RatingTrendChartProps {
+  trend: RatingTrend
+  className?: string
+}
+
+/**
+ * Chart geometry in SVG units (the SVG scales to its container)
+ */
+const WIDTH = 800
+const HEIGHT = 280
+const MARGIN = { top: 16, right: 16, bottom: 28, left: 72 }
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom
+
+/**
+ * Line colours for the moving averages
+ */
+const AVERAGE_7_COLOR = '#d97706'
+const AVERAGE_30_COLOR = '#0f766e'
+
+/**
+ * Most month labels shown along the x axis
+ */
+const MAX_X_TICKS = 12
+
+/**
+ * Horizontal position of the i-th of count days
+ */
+function scaleX(i: number, count: number): number {
+  return MARGIN.left + (count > 1 ? (i / (count - 1)) * PLOT_WIDTH : PLOT_WIDTH / 2)
+}
+
+/**
+ * Vertical position of a stored rating (1 at the bottom, 7 at the top)
+ */
+function scaleY(rating: number): number {
+  return MARGIN.top + ((7 - rating) / 6) * PLOT_HEIGHT
+}
+
+/**
+ * Build an SVG path through a series, lifting the pen over missing values
+ */
+function buildPath(values: (number | null)[]): string {
+  let path = ''
+  let penDown = false
+  values.forEach((value, i) => {
+    if (value === null) {
+      penDown = false
+      return
+    }
+    path += `${penDown ? 'L' : 'M'}${scaleX(i, values.length).toFixed(1)},${scaleY(value).toFixed(1)}`
+    penDown = true
+  })
+  return path
+}
+
+/**
+ * RatingTrendChart - Daily ratings with 7- and 30-day moving averages
+ *
+ * Design: Hand-drawn SVG (no chart library). Days without an entry leave
+ * a gap in the daily line; best and worst days are ringed. Gridlines
+ * mark the levels of the user's rating scale
+ */
+export function RatingTrendChart({ trend, className }: RatingTrendChartProps) {
+  const svgRef = useRef<SVGSVGElement>(null)
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null)
+  const { points, best, worst } = trend
+  const { t } = useTranslation()
+  const { levels, getLevel, ratingFor, scaleAverage } = useRatingScale()
+
+  const x = (i: number) => scaleX(i, points.length)
+
+  const paths = useMemo(
+    () => ({
+      daily: buildPath(points.map((p) => p.rating)),
+      average7: buildPath(points.map((p) => p.average7)),
+      average30: buildPath(points.map((p) => p.average30)),
+    }),
+    [points]
+  )
+
+  // Label the first of each month, thinned out for long ranges
+  const xTicks = useMemo(() => {
+    const monthStarts = points
+      .map((point, i) => ({ date: point.date, i }))
+      .filter(({ date }) => date.endsWith('-01'))
+    const step = Math.ceil(monthStarts.length / MAX_X_TICKS)
+    return monthStarts.filter((_, index) => index % step === 0)
+  }, [points])
+
+  const dotRadius = points.length > 120 ? 1.5 : points.length > 45 ? 2.5 : 3.5
+  const hovered = hoverIndex !== null ? points[hoverIndex] : null
+  const bestIndex = best ? points.findIndex((p) => p.date === best.date) : -1
+  const worstIndex = worst ? points.findIndex((p) => p.date === worst.date) : -1
+
+  const handleMouseMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    const rect = svgRef.current?.getBoundingClientRect()
+    if (!rect || points.length === 0) return
+    const svgX = ((event.clientX - rect.left) / rect.width) * WIDTH
+    const ratio = (svgX - MARGIN.left) / PLOT_WIDTH
+    setHoverIndex(Math.min(points.length - 1, Math.max(0, Math.round(ratio * (points.length - 1)))))
+  }
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      {/* Hover readout (fixed height so the chart doesn't jump) */}
+      <div className="h-5 text-xs text-stone-600 font-mono">
+        {hovered && (
+          <>
+            {formatDateString(hovered.date, t('date.shortWithDay'))} ·{' '}
+            {hovered.rating !== null ? getLevel(hovered.rating).label : t('calendar.noEntry')}
+            {hovered.average7 !== null && (
+              <> · {t('trends.average7Value', { value: scaleAverage(hovered.average7).toFixed(1) })}</>
+            )}
+            {hovered.average30 !== null && (
+              <> · {t('trends.average30Value', { value: scaleAverage(hovered.average30).toFixed(1) })}</>
+            )}
+          </>
+        )}
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto select-none"
+        role="img"
+        aria-label={t('trends.chartLabel')}
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoverIndex(null)}
+      >
+        {/* Rating gridlines, one per level of the scale */}
+        {levels.map(({ label }, index) => {
+          const rating = ratingFor(index + 1)
+          return (
+            <g key={index}>
+              <line
+                x1={MARGIN.left}
+                x2={WIDTH - MARGIN.right}
+                y1={scaleY(rating)}
+                y2={scaleY(rating)}
+                stroke="#e7e5e4"
+                strokeDasharray={rating === 4 ? undefined : '2 4'}
+              />
+              <text
+                x={MARGIN.left - 8}
+                y={scaleY(rating)}
+                textAnchor="end"
+                dominantBaseline="middle"
+                className="fill-stone-500 text-[11px]"
+              >
+                {label}
+              </text>
+            </g>
+          )
+        })}
+
+        {/* Month labels */}
+        {xTicks.map(({ date, i }) => (
+          <text
+            key={date}
+            x={x(i)}
+            y={HEIGHT - 8}
+            textAnchor="middle"
+            className="fill-stone-500 text-[11px]"
+          >
+            {formatDateString(date, date.endsWith('-01-01') ? 'yyyy' : 'MMM')}
+          </text>
+        ))}
+
+        {/* Hover guide */}
+        {hoverIndex !== null && (
+          <line
+            x1={x(hoverIndex)}
+            x2={x(hoverIndex)}
+            y1={MARGIN.top}
+            y2={MARGIN.top + PLOT_HEIGHT}
+            stroke="#a8a29e"
+            strokeWidth={1}
+          />
+        )}
+
+        {/* Daily ratings: thin line broken at missing days, coloured dots */}
+        <path d={paths.daily} fill="none" stroke="#d6d3d1" strokeWidth={1} />
+        {points.map((point, i) =>
+          point.rating === null ? null : (
+            <circle
+              key={point.date}
+              cx={x(i)}
+              cy={scaleY(point.rating)}
+              r={dotRadius}
+              fill={getLevel(point.rating).color}
+            />
+          )
+        )}
+
+        {/* Moving averages */}
+        <path d={paths.average30} fill="none" stroke={AVERAGE_30_COLOR} strokeWidth={2.5} strokeLinejoin="round" />
+        <path d={paths.average7} fill="none" stroke={AVERAGE_7_COLOR} strokeWidth={2} strokeLinejoin="round" />
+
+        {/* Best and worst days */}
+        {best && bestIndex !== -1 && (
+          <ExtremeMarker x={x(bestIndex)} y={scaleY(best.rating)} radius={dotRadius + 4} color={getLevel(best.rating).color} label={t('trends.best')} />
+        )}
+        {worst && worstIndex !== -1 && worstIndex !== bestIndex && (
+          <ExtremeMarker x={x(worstIndex)} y={scaleY(worst.rating)} radius={dotRadius + 4} color={getLevel(worst.rating).color} label={t('trends.worst')} />
+        )}
+      </svg>
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-x-6 gap-y-2 text-xs text-stone-600">
+        <div className="flex items-center gap-1.5">
+          <div className="w-2.5 h-2.5 rounded-full bg-stone-400" />
+          <span>{t('trends.dailyRating')}</span>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <div className="w-4 h-0.5" style={{ backgroundColor: AVERAGE_7_COLOR }} />
+          <span>{t('trends.average7')}</span>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <div className="w-4 h-0.5" style={{ backgroundColor: AVERAGE_30_COLOR }} />
+          <span>{t('trends.average30')}</span>
+        </div>
+        <div className="text-stone-500 italic">{t('trends.gaps')}</div>
+      </div>
+    </div>
+  )
+}
+
+interface ExtremeMarkerProps {
+  x: number
+  y: number
+  radius: number
+  color: string
+  label: string
+}
+
+/**
+ * Ring around a day with a label on the side that has room
+ */
+function ExtremeMarker({ x, y, radius, color, label }: ExtremeMarkerProps) {
+  const labelOnLeft = x > MARGIN.left + PLOT_WIDTH / 2
+  return (
+    <g>
+      <circle cx={x} cy={y} r={radius} fill="none" stroke={color} strokeWidth={2} />
+      <text
+        x={labelOnLeft ? x - radius - 4 : x + radius + 4}
+        y={y}
+        textAnchor={labelOnLeft ? 'end' : 'start'}
+        dominantBaseline="middle"
+        className="fill-stone-700 text-[11px] font-medium"
+      >
+        {label}
+      </text>
+    </g>
+  )
+}
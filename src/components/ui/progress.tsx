@@ -0,0 +1,36 @@
+import * as React from "react"
+
+import { cn } from "@/lib/utils"
+
+export interface ProgressProps extends React.HTMLAttributes<HTMLDivElement> {
+  /** Completion from 0 to 100 */
+  value: number
+}
+
+const Progress = React.forwardRef<HTMLDivElement, ProgressProps>(
+  ({ className, value, ...props }, ref) => {
+    const clamped = Math.min(100, Math.max(0, value))
+    return (
+      <div
+        ref={ref}
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(clamped)}
+        className={cn(
+          "relative h-2 w-full overflow-hidden rounded-full bg-stone-100",
+          className
+        )}
+        {...props}
+      >
+        <div
+          className="h-full bg-amber-600 transition-all duration-200"
+          style={{ width: `${clamped}%` }}
+        />
+      </div>
+    )
+  }
+)
+Progress.displayName = "Progress"
+
+export { Progress }
@@ -0,0 +1,48 @@
+import { useEffect } from 'react'
+import { usePwaStore } from '@/store/pwaStore'
+import { registerServiceWorker, watchForUpdates } from '@/lib/services/pwaService'
+
+/**
+ * Custom hook for the installable app
+ *
+ * Provides connectivity, the update prompt state and actions
+ */
+export function usePwa() {
+  const { isOnline, pendingUpdate, updateDismissed, applyUpdate, dismissUpdate } = usePwaStore()
+
+  return {
+    isOnline,
+    updateAvailable: pendingUpdate !== null && !updateDismissed,
+    applyUpdate,
+    dismissUpdate,
+  }
+}
+
+/**
+ * Register the service worker and track connectivity
+ * Call once, from the layout
+ */
+export function useServiceWorker() {
+  useEffect(() => {
+    const { setOnline, setPendingUpdate } = usePwaStore.getState()
+    let stopWatching: (() => void) | null = null
+    let cancelled = false
+
+    registerServiceWorker().then((registration) => {
+      if (!registration || cancelled) return
+      stopWatching = watchForUpdates(registration, setPendingUpdate)
+    })
+
+    const handleOnline = () => setOnline(true)
+    const handleOffline = () => setOnline(false)
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+
+    return () => {
+      cancelled = true
+      stopWatching?.()
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }, [])
+}
@@ -0,0 +1,43 @@
+import { useMemo } from 'react'
+import { useSetting } from '@/store/settingsStore'
+import {
+  getLevelRange,
+  levelToRating,
+  ratingToLevel,
+  resolveRatingScale,
+  toScaleAverage,
+} from '@/lib/services/ratingScaleService'
+
+/**
+ * Custom hook for the rating scale
+ *
+ * Provides the levels to rate with and converts between levels and
+ * stored ratings. Re-renders the component when the scale or the
+ * language changes
+ */
+export function useRatingScale() {
+  const custom = useSetting('ratingScale')
+  const locale = useSetting('language')
+
+  return useMemo(() => {
+    const levels = resolveRatingScale(custom, locale)
+    const levelCount = levels.length
+    const levelOf = (rating: number) => ratingToLevel(rating, levelCount)
+
+    return {
+      levels,
+      levelCount,
+      isCustom: custom.length > 0,
+      /** Level (1 = lowest) a stored rating shows as */
+      levelOf,
+      /** Label, color and emoji for a stored rating */
+      getLevel: (rating: number) => levels[levelOf(rating) - 1],
+      /** Stored rating for a level */
+      ratingFor: (level: number) => levelToRating(level, levelCount),
+      /** Stored ratings (inclusive) that show as a level, for filters */
+      levelRange: (level: number) => getLevelRange(level, levelCount),
+      /** Average of stored ratings, from 1 to levelCount */
+      scaleAverage: (average: number) => toScaleAverage(average, levelCount),
+    }
+  }, [custom, locale])
+}
@@ -0,0 +1,57 @@
+import { useEffect } from 'react'
+import { useReminderStore } from '@/store/reminderStore'
+import { useSettingsStore } from '@/store/settingsStore'
+import { startReminderScheduler } from '@/lib/services/reminderService'
+
+/**
+ * Custom hook for reminders
+ *
+ * Provides the notification permission, the banner state and actions
+ */
+export function useReminders() {
+  const { permission, backgroundChecks, bannerDate, requestPermission, refreshPermission, dismissBanner } =
+    useReminderStore()
+
+  return {
+    permission,
+    backgroundChecks,
+    bannerDate,
+    requestPermission,
+    refreshPermission,
+    dismissBanner,
+  }
+}
+
+/**
+ * Run reminders while the app is open, and keep the service worker's
+ * background check in step with the settings
+ * Restarts whenever the reminder settings change
+ * @param enabled Whether the database is ready
+ */
+export function useReminderScheduler(enabled: boolean) {
+  const reminderTimes = useSettingsStore((state) => state.settings.reminderTimes)
+  const reminderQuietDays = useSettingsStore((state) => state.settings.reminderQuietDays)
+  const language = useSettingsStore((state) => state.settings.language)
+  const permission = useReminderStore((state) => state.permission)
+
+  // The worker reads times and quiet days itself; it gets the text in the current language
+  useEffect(() => {
+    if (enabled) useReminderStore.getState().updateBackgroundChecks()
+  }, [enabled, reminderTimes, language, permission])
+
+  useEffect(() => {
+    if (!enabled || reminderTimes.length === 0) return
+    const { refreshPermission, handleOutcome, checkMissedReminder } = useReminderStore.getState()
+
+    checkMissedReminder()
+    const stop = startReminderScheduler(handleOutcome)
+
+    // Permission can be changed from the browser while the app is open
+    window.addEventListener('focus', refreshPermission)
+
+    return () => {
+      stop()
+      window.removeEventListener('focus', refreshPermission)
+    }
+  }, [enabled, reminderTimes, reminderQuietDays])
+}
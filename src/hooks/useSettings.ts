@@ -0,0 +1,33 @@
+import { useCallback } from 'react'
+import { useSettingsStore } from '@/store/settingsStore'
+import { formatDateForDisplay } from '@/lib/services/dateService'
+
+/**
+ * Custom hook for settings
+ *
+ * Provides the current settings and actions to change them
+ */
+export function useSettings() {
+  const { settings, isLoaded, error, updateSettings, resetSettings } = useSettingsStore()
+
+  return {
+    settings,
+    isLoaded,
+    error,
+    updateSettings,
+    resetSettings,
+  }
+}
+
+/**
+ * Hook returning a formatter for full dates in the user's chosen format and language
+ */
+export function useFormatDate() {
+  const dateFormat = useSettingsStore((state) => state.settings.dateFormat)
+  const language = useSettingsStore((state) => state.settings.language)
+
+  return useCallback(
+    (dateString: string) => formatDateForDisplay(dateString, dateFormat, language),
+    [dateFormat, language]
+  )
+}
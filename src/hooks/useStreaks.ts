@@ -0,0 +1,20 @@
+import { useMemo } from 'react'
+import { useEntryStore } from '@/store/entryStore'
+import { useSettingsStore } from '@/store/settingsStore'
+import { calculateStreaks } from '@/lib/services/streakService'
+import type { StreakSummary } from '@/types'
+
+/**
+ * Hook for streak statistics
+ *
+ * Derived from the entry store, so it updates whenever entries change
+ */
+export function useStreaks(): StreakSummary {
+  const entries = useEntryStore((state) => state.entries)
+  const graceDays = useSettingsStore((state) => state.settings.streakGraceDays)
+
+  return useMemo(
+    () => calculateStreaks(entries.map((entry) => entry.entry_date), graceDays),
+    [entries, graceDays]
+  )
+}
@@ -0,0 +1,72 @@
+import { useEffect } from 'react'
+import { useSyncStore } from '@/store/syncStore'
+import { useSettingsStore } from '@/store/settingsStore'
+import { useEntryStore } from '@/store/entryStore'
+
+/**
+ * How often to sync in the background
+ */
+const SYNC_INTERVAL_MS = 5 * 60 * 1000
+
+/**
+ * Wait after a local change before syncing, so quick edits go out together
+ */
+const CHANGE_DEBOUNCE_MS = 3000
+
+/**
+ * Custom hook for sync status
+ *
+ * Provides the sync status and an action to sync now
+ */
+export function useSync() {
+  const { status, lastSyncedAt, pendingCount, lastResult, error, sync } = useSyncStore()
+
+  return {
+    status,
+    lastSyncedAt,
+    pendingCount,
+    lastResult,
+    error,
+    sync,
+  }
+}
+
+/**
+ * Keep the jar in sync while the app is open
+ * Syncs on start, on an interval, when the browser comes back online and
+ * shortly after local changes
+ * @param enabled Whether the database is ready
+ */
+export function useAutoSync(enabled: boolean) {
+  const syncServerUrl = useSettingsStore((state) => state.settings.syncServerUrl)
+
+  useEffect(() => {
+    if (!enabled) return
+    const { sync, refresh } = useSyncStore.getState()
+
+    refresh()
+    if (!syncServerUrl) return
+    sync()
+
+    const interval = window.setInterval(sync, SYNC_INTERVAL_MS)
+    window.addEventListener('online', sync)
+
+    // Entries changed in this tab: push if anything is pending
+    let timeout: number | undefined
+    const unsubscribe = useEntryStore.subscribe((state, previous) => {
+      if (state.entries === previous.entries) return
+      window.clearTimeout(timeout)
+      timeout = window.setTimeout(async () => {
+        await refresh()
+        if (useSyncStore.getState().pendingCount > 0) sync()
+      }, CHANGE_DEBOUNCE_MS)
+    })
+
+    return () => {
+      window.clearInterval(interval)
+      window.removeEventListener('online', sync)
+      window.clearTimeout(timeout)
+      unsubscribe()
+    }
+  }, [enabled, syncServerUrl])
+}
@@ -0,0 +1,41 @@
+import { useCallback, useEffect } from 'react'
+import { useSetting } from '@/store/settingsStore'
+import {
+  getTextDirection,
+  translate,
+  type MessageKey,
+  type MessageParams,
+} from '@/lib/i18n'
+
+/**
+ * Custom hook for translated text
+ *
+ * Re-renders the component when the language changes
+ */
+export function useTranslation() {
+  const locale = useSetting('language')
+
+  const t = useCallback(
+    (key: MessageKey, params?: MessageParams) => translate(key, params, locale),
+    [locale]
+  )
+
+  return {
+    locale,
+    dir: getTextDirection(locale),
+    t,
+  }
+}
+
+/**
+ * Keep the page's lang and dir attributes in step with the language
+ * Call once, from the layout
+ */
+export function useDocumentLocale() {
+  const { locale, dir } = useTranslation()
+
+  useEffect(() => {
+    document.documentElement.lang = locale
+    document.documentElement.dir = dir
+  }, [locale, dir])
+}
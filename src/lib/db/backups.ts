@@ -0,0 +1,113 @@
+import Dexie, { Table } from 'dexie'
+
+/**
+ * Automatic backup taken before a schema upgrade
+ */
+export interface MigrationBackup {
+  /** Auto-incremented ID */
+  id?: number
+  /** When the backup was taken (Unix milliseconds) */
+  created_at: number
+  /** Schema version the data was read from */
+  from_version: number
+  /** Schema version the app was about to upgrade to */
+  to_version: number
+  /** Raw rows of every table, keyed by table name */
+  tables: Record<string, unknown[]>
+}
+
+/**
+ * Number of automatic backups kept before the oldest is discarded
+ */
+const MAX_BACKUPS = 3
+
+/**
+ * GratefulnessBackupDB - Separate IndexedDB database for upgrade backups
+ *
+ * Lives outside the main database so a failed upgrade of the main
+ * database can never take its own backup down with it
+ */
+class GratefulnessBackupDB extends Dexie {
+  backups!: Table<MigrationBackup, number>
+
+  constructor() {
+    super('gratefulnessDB-backups')
+
+    this.version(1).stores({
+      backups: '++id, created_at',
+    })
+  }
+}
+
+const backupDb = new GratefulnessBackupDB()
+
+/**
+ * Back up a database if its installed version is older than the target
+ * Opens the database without a declared schema so no upgrade is triggered
+ * @param dbName Name of the database to back up
+ * @param targetVersion Schema version about to be opened
+ * @returns The stored backup, or null if no backup was needed
+ */
+export async function backupBeforeUpgrade(
+  dbName: string,
+  targetVersion: number
+): Promise<MigrationBackup | null> {
+  if (!(await Dexie.exists(dbName))) {
+    return null
+  }
+
+  const probe = new Dexie(dbName)
+  try {
+    await probe.open()
+    if (probe.verno >= targetVersion) {
+      return null
+    }
+
+    const tables: Record<string, unknown[]> = {}
+    for (const table of probe.tables) {
+      tables[table.name] = await table.toArray()
+    }
+
+    const backup: MigrationBackup = {
+      created_at: Date.now(),
+      from_version: probe.verno,
+      to_version: targetVersion,
+      tables,
+    }
+    backup.id = await backupDb.backups.add(backup)
+    await pruneBackups()
+
+    console.log(`Backed up database before upgrading v${probe.verno} → v${targetVersion}`)
+    return backup
+  } finally {
+    probe.close()
+  }
+}
+
+/**
+ * Get the most recent automatic backup
+ * @returns Backup or null if none exist
+ */
+export async function getLatestBackup(): Promise<MigrationBackup | null> {
+  try {
+    const backup = await backupDb.backups.orderBy('created_at').last()
+    return backup || null
+  } catch (error) {
+    console.error('Failed to load latest backup:', error)
+    return null
+  }
+}
+
+/**
+ * Keep only the newest MAX_BACKUPS backups
+ */
+async function pruneBackups(): Promise<void> {
+  const count = await backupDb.backups.count()
+  if (count <= MAX_BACKUPS) return
+
+  const oldest = await backupDb.backups
+    .orderBy('created_at')
+    .limit(count - MAX_BACKUPS)
+    .primaryKeys()
+  await backupDb.backups.bulkDelete(oldest)
+}
@@ -0,0 +1,189 @@
+import type { Transaction } from 'dexie'
+import type { Entry } from '@/types'
+import { buildPostings } from '@/lib/services/textAnalysis'
+
+/**
+ * Migrations - Numbered schema versions for GratefulnessDB
+ *
+ * Each migration declares the full store definitions for its version
+ * (Dexie diffs them against the previous version) and an optional upgrade
+ * function that rewrites existing rows. Never edit a migration that has
+ * shipped - add a new one with the next version number instead.
+ */
+
+/**
+ * A single schema migration
+ */
+export interface Migration {
+  /** Schema version (positive integer, strictly increasing) */
+  version: number
+  /** Short human-readable summary of what changed */
+  description: string
+  /** Dexie store definitions for this version (null deletes a table) */
+  stores: Record<string, string | null>
+  /** Transforms existing data; runs inside the versionchange transaction */
+  upgrade?: (tx: Transaction) => Promise<void> | void
+}
+
+/**
+ * Row stored in the migrations table for every migration that has run
+ */
+export interface MigrationRecord {
+  /** Migration version */
+  version: number
+  /** Migration description at the time it ran */
+  description: string
+  /** When the migration was applied (Unix milliseconds) */
+  applied_at: number
+}
+
+/**
+ * Name of the table that records applied migrations
+ */
+export const MIGRATIONS_TABLE = 'migrations'
+
+/**
+ * All migrations, in order
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Initial schema',
+    stores: {
+      // Primary key: id (auto-indexed)
+      // Unique index: &entry_date (& prefix means unique)
+      // Additional indexes: created_at, updated_at for sorting
+      entries: 'id, &entry_date, created_at, updated_at, rating',
+    },
+  },
+  {
+    version: 2,
+    description: 'Track applied migrations',
+    stores: {
+      [MIGRATIONS_TABLE]: 'version, applied_at',
+    },
+  },
+  {
+    version: 3,
+    description: 'Add tags to entries',
+    stores: {
+      // *tags is a multi-entry index: one index row per tag
+      entries: 'id, &entry_date, created_at, updated_at, rating, *tags',
+    },
+    upgrade: async (tx) => {
+      await tx.table('entries').toCollection().modify((entry) => {
+        if (!Array.isArray(entry.tags)) {
+          entry.tags = []
+        }
+      })
+    },
+  },
+  {
+    version: 4,
+    description: 'Add full-text search index',
+    stores: {
+      // One row per (term, entry); term supports prefix lookups,
+      // stem matches other word forms, entry_id allows re-indexing
+      searchIndex: '[term+entry_id], term, stem, entry_id',
+    },
+    upgrade: async (tx) => {
+      const entries: Entry[] = await tx.table('entries').toArray()
+      await tx.table('searchIndex').bulkPut(entries.flatMap(buildPostings))
+    },
+  },
+  {
+    version: 5,
+    description: 'Add settings',
+    stores: {
+      // One row per setting, keyed by setting name
+      settings: 'key',
+    },
+  },
+  {
+    version: 6,
+    description: 'Add sync bookkeeping',
+    stores: {
+      // Deletions waiting to be pushed, keyed by entry id
+      syncTombstones: 'id, deleted_at',
+      // Cursor and server of the last sync, one row per field
+      syncState: 'key',
+    },
+  },
+  {
+    version: 7,
+    description: 'Move deleted entries to the trash',
+    stores: {
+      // entry_date is no longer unique: a trashed entry and a new entry
+      // can share a day, so uniqueness among live entries is enforced in
+      // entryService. deleted_at is only set on trashed entries, so its
+      // index lists exactly the trash
+      entries: 'id, entry_date, created_at, updated_at, rating, *tags, deleted_at',
+    },
+  },
+  {
+    version: 8,
+    description: 'Add revision history for edited entries',
+    stores: {
+      revisions: 'id, entry_id, revised_at',
+    },
+  },
+  {
+    version: 9,
+    description: 'Add jar draw history',
+    stores: {
+      jarDraws: 'entry_id, last_drawn_at',
+    },
+  },
+]
+
+/**
+ * Latest schema version known to this build
+ */
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+/**
+ * Record a migration (and any earlier ones missing from the table) as applied
+ * No-op for versions that predate the migrations table
+ * @param tx Versionchange transaction
+ * @param version Highest version that has been applied
+ */
+export async function recordMigrations(
+  tx: Transaction,
+  version: number
+): Promise<void> {
+  if (!tx.storeNames.includes(MIGRATIONS_TABLE)) {
+    return
+  }
+
+  const table = tx.table<MigrationRecord, number>(MIGRATIONS_TABLE)
+  const now = Date.now()
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version > version) break
+
+    const existing = await table.get(migration.version)
+    if (!existing) {
+      await table.put({
+        version: migration.version,
+        description: migration.description,
+        applied_at: now,
+      })
+    }
+  }
+}
+
+/**
+ * Check that migration versions are positive and strictly increasing
+ * @throws Error if the migration list is malformed
+ */
+export function assertValidMigrations(migrations: Migration[] = MIGRATIONS): void {
+  let previous = 0
+  for (const migration of migrations) {
+    if (!Number.isInteger(migration.version) || migration.version <= previous) {
+      throw new Error(
+        `Invalid migration version ${migration.version} (must be an integer greater than ${previous})`
+      )
+    }
+    previous = migration.version
+  }
+}
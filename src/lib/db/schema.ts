@@ -1,25 +1,67 @@
 import Dexie, { Table } from 'dexie'
-import { Entry } from '@/types'
+import { BACKUP_FORMAT, BACKUP_FORMAT_VERSION, isLiveEntry } from '@/types'
+import { translate } from '@/lib/i18n'
+import type {
+  BackupFile,
+  Entry,
+  EntryRevision,
+  JarDrawRecord,
+  SearchPosting,
+  SettingRecord,
+  SyncStateRecord,
+  SyncTombstone,
+} from '@/types'
+import {
+  MIGRATIONS,
+  LATEST_SCHEMA_VERSION,
+  MigrationRecord,
+  assertValidMigrations,
+  recordMigrations,
+} from './migrations'
+import { backupBeforeUpgrade } from './backups'
+
+/**
+ * Name of the IndexedDB database
+ */
+export const DB_NAME = 'gratefulnessDB'
 
 /**
  * GratefulnessDB - IndexedDB database for offline-first storage
  *
  * Uses Dexie.js as a type-safe wrapper around IndexedDB
+ * Schema versions are declared in ./migrations.ts
  */
 export class GratefulnessDB extends Dexie {
   // Declare tables
   entries!: Table<Entry, string>
+  migrations!: Table<MigrationRecord, number>
+  searchIndex!: Table<SearchPosting, [string, string]>
+  settings!: Table<SettingRecord, string>
+  syncTombstones!: Table<SyncTombstone, string>
+  syncState!: Table<SyncStateRecord, string>
+  revisions!: Table<EntryRevision, string>
+  jarDraws!: Table<JarDrawRecord, string>
 
   constructor() {
-    super('gratefulnessDB')
+    super(DB_NAME)
 
-    // Define schema version 1
-    this.version(1).stores({
-      // Primary key: id (auto-indexed)
-      // Unique index: &entry_date (& prefix means unique)
-      // Additional indexes: created_at, updated_at for sorting
-      entries: 'id, &entry_date, created_at, updated_at, rating',
-    })
+    assertValidMigrations()
+
+    // Register every migration; Dexie runs the upgrade functions in order
+    // for versions newer than the one installed on this device
+    for (const migration of MIGRATIONS) {
+      this.version(migration.version)
+        .stores(migration.stores)
+        .upgrade(async (tx) => {
+          if (migration.upgrade) {
+            await migration.upgrade(tx)
+          }
+          await recordMigrations(tx, migration.version)
+        })
+    }
+
+    // Fresh installs skip upgrade functions, so record everything up front
+    this.on('populate', (tx) => recordMigrations(tx, LATEST_SCHEMA_VERSION))
   }
 }
 
@@ -28,76 +70,107 @@ export class GratefulnessDB extends Dexie {
  */
 export const db = new GratefulnessDB()
 
+let initPromise: Promise<void> | null = null
+
 /**
  * Initialize database and handle any setup
- * Call this once when the app starts
+ * Call this once when the app starts, before any other query, so the
+ * pre-upgrade backup is taken before Dexie auto-opens the database
+ * Safe to call repeatedly; a failed attempt can be retried
  */
-export async function initDatabase(): Promise<void> {
+export function initDatabase(): Promise<void> {
+  if (!initPromise) {
+    initPromise = openDatabase().catch((error) => {
+      initPromise = null
+      throw error
+    })
+  }
+  return initPromise
+}
+
+async function openDatabase(): Promise<void> {
   try {
-    // Open the database
+    // Back up existing data if this build is about to upgrade it
+    await backupBeforeUpgrade(DB_NAME, LATEST_SCHEMA_VERSION)
+
+    // Open the database (runs pending migrations)
     await db.open()
-    console.log('Database initialized successfully')
+    console.log(`Database initialized successfully (v${db.verno})`)
   } catch (error) {
     console.error('Failed to initialize database:', error)
-    throw error
+    if (error instanceof Dexie.VersionError) {
+      throw new Error(translate('app.newerVersion'))
+    }
+    throw new Error(
+      error instanceof Error
+        ? translate('app.openFailedWithReason', { reason: error.message })
+        : translate('app.openFailed')
+    )
   }
 }
 
 /**
- * Clear all data from the database (useful for testing/development)
- * WARNING: This will delete all entries permanently!
+ * Get the list of migrations that have been applied, oldest first
  */
-export async function clearDatabase(): Promise<void> {
+export async function getAppliedMigrations(): Promise<MigrationRecord[]> {
   try {
-    await db.entries.clear()
-    console.log('Database cleared successfully')
+    return await db.migrations.orderBy('version').toArray()
   } catch (error) {
-    console.error('Failed to clear database:', error)
-    throw error
+    console.error('Failed to load migration history:', error)
+    return []
   }
 }
 
 /**
- * Export all entries as JSON (for backup)
+ * Count entries that are not in the trash
+ * Uses the primary key and deleted_at indexes, so no entry is read
  */
-export async function exportDatabase(): Promise<string> {
+export async function countLiveEntries(): Promise<number> {
+  const [total, trashed] = await Promise.all([
+    db.entries.count(),
+    db.entries.where('deleted_at').above(0).count(),
+  ])
+  return total - trashed
+}
+
+/**
+ * Clear all data from the database (useful for testing/development)
+ * Sync bookkeeping goes too, so the next sync starts over as a new device
+ * WARNING: This will delete all entries permanently!
+ */
+export async function clearDatabase(): Promise<void> {
   try {
-    const entries = await db.entries.toArray()
-    return JSON.stringify(entries, null, 2)
+    const tables = [db.entries, db.searchIndex, db.revisions, db.jarDraws, db.syncTombstones, db.syncState]
+    await db.transaction('rw', tables, async () => {
+      await Promise.all(tables.map((table) => table.clear()))
+    })
+    console.log('Database cleared successfully')
   } catch (error) {
-    console.error('Failed to export database:', error)
+    console.error('Failed to clear database:', error)
     throw error
   }
 }
 
 /**
- * Import entries from JSON (for restore)
- * Note: This will merge with existing entries, not replace
+ * Export all entries as a versioned backup file (JSON)
+ * Entries in the trash are left out
+ * The header records the format version, app version and entry count
  */
-export async function importDatabase(jsonData: string): Promise<number> {
+export async function exportDatabase(): Promise<string> {
   try {
-    const entries: Entry[] = JSON.parse(jsonData)
-
-    // Validate entries
-    if (!Array.isArray(entries)) {
-      throw new Error('Invalid import data: expected array of entries')
+    const entries = await db.entries.orderBy('entry_date').filter(isLiveEntry).toArray()
+    const backup: BackupFile = {
+      format: BACKUP_FORMAT,
+      format_version: BACKUP_FORMAT_VERSION,
+      app_version: __APP_VERSION__,
+      schema_version: db.verno,
+      exported_at: Date.now(),
+      entry_count: entries.length,
+      entries,
     }
-
-    // Add entries (will skip duplicates due to unique entry_date)
-    let imported = 0
-    for (const entry of entries) {
-      try {
-        await db.entries.add(entry)
-        imported++
-      } catch (error) {
-        // Skip duplicates or invalid entries
-        console.warn('Skipped entry:', entry.id, error)
-      }
-    }
-
-    return imported
+    return JSON.stringify(backup, null, 2)
   } catch (error) {
-    console.error('Failed to import database:', error)
+    console.error('Failed to export database:', error)
     throw error
   }
 }
@@ -0,0 +1,108 @@
+import { ar as arDateLocale, enUS, es as esDateLocale, type Locale as DateLocale } from 'date-fns/locale'
+import type { Locale, Message, Rating, TextDirection } from '@/types'
+import { RTL_LOCALES } from '@/types'
+import { en } from './messages/en'
+import { es } from './messages/es'
+import { ar } from './messages/ar'
+
+/**
+ * i18n - Message catalogs and the active language
+ *
+ * English is the source catalog; the others must have the same keys
+ * (the compiler checks). The active locale follows the `language`
+ * setting, so synchronous code like dateService can format without
+ * being passed a language
+ */
+
+export type MessageKey = keyof typeof en
+
+export type Catalog = Record<MessageKey, Message>
+
+/**
+ * Values for a message's `{name}` placeholders
+ * `count` also picks the plural form
+ */
+export type MessageParams = Record<string, string | number>
+
+const CATALOGS: Record<Locale, Catalog> = { en, es, ar }
+
+const DATE_LOCALES: Record<Locale, DateLocale> = {
+  en: enUS,
+  es: esDateLocale,
+  ar: arDateLocale,
+}
+
+let activeLocale: Locale = 'en'
+
+const pluralRules = new Map<Locale, Intl.PluralRules>()
+
+/**
+ * Language currently shown
+ */
+export function getActiveLocale(): Locale {
+  return activeLocale
+}
+
+/**
+ * Switch the language (called by settingsService when settings change)
+ */
+export function setActiveLocale(locale: Locale): void {
+  activeLocale = locale
+}
+
+/**
+ * Writing direction of a language
+ */
+export function getTextDirection(locale: Locale = activeLocale): TextDirection {
+  return RTL_LOCALES.includes(locale) ? 'rtl' : 'ltr'
+}
+
+/**
+ * date-fns locale for a language
+ */
+export function getDateLocale(locale: Locale = activeLocale): DateLocale {
+  return DATE_LOCALES[locale]
+}
+
+/**
+ * Plural category of a number in a language
+ */
+function getPluralCategory(count: number, locale: Locale): Intl.LDMLPluralRule {
+  let rules = pluralRules.get(locale)
+  if (!rules) {
+    rules = new Intl.PluralRules(locale)
+    pluralRules.set(locale, rules)
+  }
+  return rules.select(count)
+}
+
+/**
+ * Translate a message
+ * @param key Message key
+ * @param params Placeholder values; `count` picks the plural form
+ * @param locale Language (defaults to the active one)
+ * @returns Translated text
+ * @example translate('entries.count', { count: 3 }) // "3 entries"
+ */
+export function translate(
+  key: MessageKey,
+  params: MessageParams = {},
+  locale: Locale = activeLocale
+): string {
+  const message = CATALOGS[locale][key]
+  const template =
+    typeof message === 'string'
+      ? message
+      : (message[getPluralCategory(Number(params.count ?? 0), locale)] ?? message.other)
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  )
+}
+
+/**
+ * Rating label in a language
+ */
+export function getRatingLabel(rating: Rating, locale: Locale = activeLocale): string {
+  return translate(`rating.${rating}`, {}, locale)
+}
@@ -0,0 +1,741 @@
+import type { Catalog } from '@/lib/i18n'
+
+/**
+ * Arabic messages (written right to left)
+ */
+export const ar: Catalog = {
+  // App shell
+  'app.name': 'جرة الامتنان',
+  'app.openFailed': 'تعذر فتح جرتك',
+  'app.openFailedWithReason': 'تعذر فتح جرتك: {reason}',
+  'app.newerVersion': 'حُفظت جرتك بإصدار أحدث من التطبيق. أعد تحميل الصفحة للتحديث.',
+  'app.openErrorTitle': 'لم نتمكن من فتح جرتك',
+  'app.openErrorFallback': 'حدث خطأ أثناء تحميل تدويناتك.',
+  'app.autoBackupNote': 'نُسخت تدويناتك احتياطيًا تلقائيًا في {time}.',
+  'app.tryAgain': 'حاول مرة أخرى',
+  'nav.today': 'اليوم',
+  'nav.history': 'السجل',
+  'nav.search': 'البحث',
+  'nav.trends': 'الاتجاهات',
+  'nav.jar': 'الجرة',
+  'nav.data': 'البيانات',
+  'nav.settings': 'الإعدادات',
+  'header.streak': {
+    one: 'سلسلة يوم واحد',
+    two: 'سلسلة يومين',
+    few: 'سلسلة {count} أيام',
+    many: 'سلسلة {count} يومًا',
+    other: 'سلسلة {count} يوم',
+  },
+  'header.streakPending': {
+    one: 'سلسلة يوم واحد. اكتب تدوينة اليوم لتستمر',
+    two: 'سلسلة يومين. اكتب تدوينة اليوم لتستمر',
+    few: 'سلسلة {count} أيام. اكتب تدوينة اليوم لتستمر',
+    many: 'سلسلة {count} يومًا. اكتب تدوينة اليوم لتستمر',
+    other: 'سلسلة {count} يوم. اكتب تدوينة اليوم لتستمر',
+  },
+  'offline.label': 'غير متصل',
+  'offline.hint': 'أنت غير متصل. تُحفظ التدوينات على هذا الجهاز.',
+  'update.ready': 'يتوفر إصدار جديد من الجرة.',
+  'update.reload': 'إعادة التحميل',
+  'update.dismiss': 'تجاهل التحديث',
+  'reminder.notWritten': 'لم تكتب شيئًا اليوم بعد.',
+  'reminder.addEntry': 'أضف تدوينة اليوم',
+  'reminder.turnOnNotifications': 'تفعيل الإشعارات',
+  'reminder.dismiss': 'تجاهل التذكير',
+  'reminder.notificationBody': 'ما الذي سار على ما يرام اليوم؟ ما زال هناك وقت لإضافته إلى جرتك.',
+
+  // Shared
+  'common.today': 'اليوم',
+  'common.cancel': 'إلغاء',
+  'common.edit': 'تعديل',
+  'common.delete': 'حذف',
+  'common.saved': 'تم الحفظ',
+  'common.listSeparator': '، ',
+  'common.any': 'أي',
+  'common.from': 'من',
+  'common.to': 'إلى',
+  'common.tag': 'الوسم',
+  'common.clear': 'مسح',
+  'common.close': 'إغلاق',
+  'common.done': 'تم',
+  'common.unknown': 'غير معروف',
+  'entries.count': {
+    zero: 'لا توجد تدوينات',
+    one: 'تدوينة واحدة',
+    two: 'تدوينتان',
+    few: '{count} تدوينات',
+    many: '{count} تدوينة',
+    other: '{count} تدوينة',
+  },
+  'days.count': {
+    zero: '{count} يوم',
+    one: 'يوم واحد',
+    two: 'يومان',
+    few: '{count} أيام',
+    many: '{count} يومًا',
+    other: '{count} يوم',
+  },
+
+  // Ratings
+  'rating.question': 'كيف كان يومك؟',
+  'rating.1': 'كابوس',
+  'rating.2': 'فظيع',
+  'rating.3': 'سيئ',
+  'rating.4': 'عادي',
+  'rating.5': 'جيد',
+  'rating.6': 'رائع',
+  'rating.7': 'الأفضل',
+
+  // Dates
+  'date.long': 'd MMMM yyyy',
+  'date.medium': 'd MMM yyyy',
+  'date.compact': 'd MMM',
+  'date.withDay': 'EEEE، d MMMM',
+  'date.monthYear': 'MMMM yyyy',
+  'date.shortWithDay': 'EEE، d MMM yyyy',
+  'relative.today': 'اليوم',
+  'relative.yesterday': 'أمس',
+  'relative.tomorrow': 'غدًا',
+  'relative.inDays': {
+    one: 'بعد يوم واحد',
+    two: 'بعد يومين',
+    few: 'بعد {count} أيام',
+    many: 'بعد {count} يومًا',
+    other: 'بعد {count} يوم',
+  },
+  'relative.daysAgo': {
+    one: 'قبل يوم واحد',
+    two: 'قبل يومين',
+    few: 'قبل {count} أيام',
+    many: 'قبل {count} يومًا',
+    other: 'قبل {count} يوم',
+  },
+  'relative.weeksAgo': {
+    one: 'قبل أسبوع',
+    two: 'قبل أسبوعين',
+    few: 'قبل {count} أسابيع',
+    many: 'قبل {count} أسبوعًا',
+    other: 'قبل {count} أسبوع',
+  },
+  'relative.monthsAgo': {
+    one: 'قبل شهر',
+    two: 'قبل شهرين',
+    few: 'قبل {count} أشهر',
+    many: 'قبل {count} شهرًا',
+    other: 'قبل {count} شهر',
+  },
+  'relative.yearsAgo': {
+    one: 'قبل سنة',
+    two: 'قبل سنتين',
+    few: 'قبل {count} سنوات',
+    many: 'قبل {count} سنة',
+    other: 'قبل {count} سنة',
+  },
+
+  // Today
+  'home.todaysEntry': 'تدوينة اليوم',
+  'home.streak': 'السلسلة',
+  'home.streakCurrent': 'الحالية',
+  'home.streakLongest': 'الأطول',
+  'home.streakDone': 'انتهيت من اليوم. نراك غدًا.',
+  'home.streakKeepGoing': 'اكتب اليوم لتستمر سلسلتك.',
+  'home.streakGraceLeft': {
+    one: 'اكتب اليوم لتستمر سلسلتك. بقي لك يوم سماح واحد.',
+    two: 'اكتب اليوم لتستمر سلسلتك. بقي لك يوما سماح.',
+    few: 'اكتب اليوم لتستمر سلسلتك. بقيت لك {count} أيام سماح.',
+    many: 'اكتب اليوم لتستمر سلسلتك. بقي لك {count} يوم سماح.',
+    other: 'اكتب اليوم لتستمر سلسلتك. بقي لك {count} يوم سماح.',
+  },
+  'home.streakStart': 'اكتب اليوم لتبدأ سلسلة جديدة.',
+  'home.pastStreaks': 'السلاسل السابقة',
+  'home.reflection': 'تأمل',
+  'home.reflectionLead': 'اللحظات الصغيرة مهمة.',
+  'home.reflectionBody': 'الامتنان لا يعني الكمال، بل أن تلاحظ ما هو جميل، حتى في الأيام الصعبة.',
+  'home.ideasTitle': 'أفكار تلهمك الامتنان:',
+  'home.idea1': 'كلمة طيبة من أحدهم',
+  'home.idea2': 'لحظة هدوء في يوم مزدحم',
+  'home.idea3': 'شيء أضحكك',
+  'home.idea4': 'تقدم في شيء تعمل عليه',
+  'home.welcomeTitle': 'أهلًا بك في جرة الامتنان!',
+  'home.welcomeBody':
+    'خصص ثلاثين ثانية كل يوم لتدوين شيء واحد تشعر بالامتنان له. مع الوقت ستجمع لحظات تستحق أن تتذكرها.',
+
+  // Entries
+  'entry.promptToday': 'على ماذا أنت ممتن اليوم؟',
+  'entry.promptPast': 'على ماذا كنت ممتنًا في ذلك اليوم؟',
+  'entry.placeholder': 'شيء جعلك تبتسم، أو انتصار صغير، أو لحظة سكينة...',
+  'entry.hint': 'اجعلها بسيطة. جملة واحدة تكفي.',
+  'entry.incomplete': 'اكتب شيئًا تشعر بالامتنان له وقيّم يومك',
+  'entry.saveFailed': 'تعذر حفظ التدوينة',
+  'entry.saving': 'جارٍ الحفظ...',
+  'entry.saved': 'تم الحفظ!',
+  'entry.update': 'تحديث التدوينة',
+  'entry.save': 'حفظ التدوينة',
+  'entry.created': 'أُنشئت في {time}',
+  'entry.addedLater': 'أُضيفت لاحقًا في {time}',
+  'entry.updated': 'حُدّثت في {time}',
+  'entry.deleteTitle': 'حذف التدوينة؟',
+  'entry.deleteBody': {
+    one: 'ستُنقل التدوينة إلى سلة المهملات. يمكنك استعادتها من بياناتك خلال يوم واحد.',
+    two: 'ستُنقل التدوينة إلى سلة المهملات. يمكنك استعادتها من بياناتك خلال يومين.',
+    few: 'ستُنقل التدوينة إلى سلة المهملات. يمكنك استعادتها من بياناتك خلال {count} أيام.',
+    many: 'ستُنقل التدوينة إلى سلة المهملات. يمكنك استعادتها من بياناتك خلال {count} يومًا.',
+    other: 'ستُنقل التدوينة إلى سلة المهملات. يمكنك استعادتها من بياناتك خلال {count} يوم.',
+  },
+  'entry.deleting': 'جارٍ الحذف...',
+  'entry.textRequired': 'نص الامتنان مطلوب',
+  'entry.textTooLong': 'يجب ألا يتجاوز نص الامتنان {max} حرفًا',
+  'entry.ratingRequired': 'التقييم مطلوب',
+  'entry.ratingInvalid': 'يجب أن يكون التقييم رقمًا بين {min} و{max}',
+  'entry.invalidDate': 'تنسيق التاريخ غير صالح (استخدم YYYY-MM-DD)',
+  'entry.futureDate': 'لا يمكن إنشاء تدوينات لتواريخ مستقبلية',
+  'entry.unreadableDate': 'تعذرت قراءة التاريخ "{date}"',
+  'entry.duplicate': 'توجد تدوينة بالفعل بتاريخ {date}. عدّل التدوينة الموجودة بدلًا من ذلك.',
+  'entry.notFound': 'لم يتم العثور على التدوينة',
+  'entry.loadFailed': 'تعذر تحميل التدوينات',
+  'entry.loadTodayFailed': 'تعذر تحميل تدوينة اليوم',
+  'entry.loadDateFailed': 'تعذر تحميل تدوينة {date}',
+  'entry.loadOneFailed': 'تعذر تحميل التدوينة',
+  'entry.loadTaggedFailed': 'تعذر تحميل التدوينات الموسومة بـ "{tag}"',
+  'entry.updateFailed': 'تعذر تحديث التدوينة',
+  'entry.deleteFailed': 'تعذر حذف التدوينة',
+  'entry.history': 'السجل',
+  'entry.historyFailed': 'تعذر تحميل السجل',
+  'entry.revertFailed': 'تعذرت استعادة النسخة',
+  'entry.neverEdited': 'لم يتم تعديل هذه التدوينة.',
+  'entry.versionFrom': 'نسخة من {time}',
+  'entry.replacedAt': 'استُبدلت في {time}',
+  'entry.revert': 'استعادة',
+  'entry.ratingChangedTo': 'تغيّر إلى',
+
+  // Tags
+  'tags.label': 'الوسوم',
+  'tags.optional': '(اختياري)',
+  'tags.placeholder': 'العائلة، العمل، الصحة...',
+  'tags.limitReached': 'تم بلوغ الحد الأقصى للوسوم',
+  'tags.hint': 'اضغط Enter أو فاصلة لإضافة وسم.',
+  'tags.remove': 'إزالة الوسم {tag}',
+  'tags.notList': 'يجب أن تكون الوسوم قائمة',
+  'tags.tooMany': 'يمكن أن تحتوي التدوينة على {max} وسوم كحد أقصى',
+  'tags.empty': 'لا يمكن أن تكون الوسوم فارغة',
+  'tags.tooLong': 'يجب ألا يتجاوز الوسم {max} حرفًا',
+  'tags.invalid': 'لا يمكن أن يحتوي الوسم "{tag}" إلا على حروف وأرقام ومسافات وشرطات وشرطات سفلية',
+
+  // On this day
+  'onThisDay.title': 'في مثل هذا اليوم',
+  'onThisDay.hide': 'إخفاء لليوم',
+  'onThisDay.monthsAgo': {
+    zero: 'هذا الشهر',
+    one: 'قبل شهر',
+    two: 'قبل شهرين',
+    few: 'قبل {count} أشهر',
+    many: 'قبل {count} شهرًا',
+    other: 'قبل {count} شهر',
+  },
+  'onThisDay.yearsAgo': {
+    zero: 'هذه السنة',
+    one: 'قبل سنة',
+    two: 'قبل سنتين',
+    few: 'قبل {count} سنوات',
+    many: 'قبل {count} سنة',
+    other: 'قبل {count} سنة',
+  },
+  'onThisDay.loadFailed': 'تعذر تحميل تدوينات هذا اليوم',
+
+  // Calendar and year views
+  'calendar.previousMonth': 'الشهر السابق',
+  'calendar.nextMonth': 'الشهر التالي',
+  'calendar.selected': 'المحدد',
+  'calendar.ratedEntry': 'تدوينة مقيّمة (مرّر المؤشر للمعاينة)',
+  'calendar.addedLater': 'أُضيفت لاحقًا',
+  'calendar.clickHint': 'انقر على يوم لعرض تدوينته أو لإكمال يوم فاتك',
+  'calendar.screenReaderHint': 'مرّر المؤشر لمعاينة التدوينة، وانقر لعرض التفاصيل كاملة',
+  'calendar.thisYear': 'هذه السنة',
+  'calendar.previousYear': 'السنة السابقة',
+  'calendar.nextYear': 'السنة التالية',
+  'calendar.noEntry': 'لا توجد تدوينة',
+  'calendar.clickToView': 'انقر لعرض التدوينة كاملة',
+  // History
+  'history.title': 'السجل',
+  'history.recorded': {
+    zero: 'لا توجد تدوينات مسجلة',
+    one: 'تدوينة واحدة مسجلة',
+    two: 'تدوينتان مسجلتان',
+    few: '{count} تدوينات مسجلة',
+    many: '{count} تدوينة مسجلة',
+    other: '{count} تدوينة مسجلة',
+  },
+  'history.noEntries': 'لا توجد تدوينات بعد',
+  'history.calendarView': 'عرض التقويم',
+  'history.listView': 'عرض القائمة',
+  'history.monthView': 'شهر',
+  'history.yearView': 'سنة',
+  'history.emptyTitle': 'رحلة امتنانك تبدأ اليوم',
+  'history.emptyBody': 'اكتب تدوينة كل يوم لتجمع لحظات الامتنان. ستظهر هنا كخط زمني مرئي.',
+  'history.emptyBackfill': 'فاتك يوم مؤخرًا؟ اختره من التقويم لتملأه.',
+  'history.writeFirst': 'اكتب أول تدوينة',
+  'history.selectDay': 'اختر يومًا لعرض تدوينته',
+  'history.allEntries': 'كل التدوينات',
+  'history.insights': 'رؤى',
+  'history.noEntryFor': 'لا توجد تدوينة بتاريخ {date}',
+  'history.backfillLimit': {
+    zero: 'لا يمكن إكمال الأيام الفائتة.',
+    one: 'يمكن إكمال الأيام الفائتة حتى يوم واحد مضى.',
+    two: 'يمكن إكمال الأيام الفائتة حتى يومين مضيا.',
+    few: 'يمكن إكمال الأيام الفائتة حتى {count} أيام مضت.',
+    many: 'يمكن إكمال الأيام الفائتة حتى {count} يومًا مضت.',
+    other: 'يمكن إكمال الأيام الفائتة حتى {count} يوم مضت.',
+  },
+  'history.changeInSettings': 'التغيير من الإعدادات',
+  'history.filter': 'تصفية',
+  'history.byTag': 'حسب الوسم',
+  'history.monthEmpty': 'لا توجد تدوينات هذا الشهر بعد. ابدأ الكتابة لترى إحصاءاتك!',
+  'history.statEntries': 'التدوينات',
+  'history.statEntriesBackfilled': 'التدوينات ({count} أُضيفت لاحقًا)',
+  'history.statAverage': 'متوسط التقييم',
+  'history.statBestDay': 'أفضل يوم',
+  'history.statComplete': 'الاكتمال',
+  'history.byWeekday': 'حسب أيام الأسبوع',
+  'history.byMonth': 'حسب الشهر',
+  'history.averageFrom': 'متوسط {average} من {entries}',
+  'history.noEntriesShort': 'لا توجد تدوينات',
+  'history.weekendsVsWeekdays': 'عطلة نهاية الأسبوع مقابل أيام الأسبوع',
+  'history.aboutTheSame': 'متقاربة في الحالتين',
+  'history.weekendsHigher': 'عطلات نهاية الأسبوع أعلى بمقدار {difference} في المتوسط',
+  'history.weekendsLower': 'عطلات نهاية الأسبوع أقل بمقدار {difference} في المتوسط',
+  'history.distribution': 'التوزيع',
+  // Search
+  'search.title': 'البحث',
+  'search.found': {
+    zero: 'لم يتم العثور على تدوينات',
+    one: 'تم العثور على تدوينة واحدة',
+    two: 'تم العثور على تدوينتين',
+    few: 'تم العثور على {count} تدوينات',
+    many: 'تم العثور على {count} تدوينة',
+    other: 'تم العثور على {count} تدوينة',
+  },
+  'search.subtitle': 'ابحث عن لحظاتك بالكلمات أو التقييم أو التاريخ',
+  'search.placeholder': 'ابحث في تدويناتك...',
+  'search.label': 'البحث في التدوينات',
+  'search.prompt': 'اكتب كلمة أو اختر عامل تصفية لبدء البحث.',
+  'search.noMatches': 'لا توجد تدوينات تطابق بحثك.',
+  'search.ratingFrom': 'التقييم من',
+  'search.ratingTo': 'التقييم إلى',
+  'search.clearFilters': 'مسح عوامل التصفية',
+  'search.rebuildFailed': 'تعذرت إعادة بناء فهرس البحث',
+
+  // Trends
+  'trends.title': 'الاتجاهات',
+  'trends.subtitle': 'هل أيامك تتحسن؟ المتوسطات المتحركة تخفف التقلبات.',
+  'trends.range.30d': '30 يومًا',
+  'trends.range.90d': '90 يومًا',
+  'trends.range.1y': 'سنة',
+  'trends.range.all': 'كل الوقت',
+  'trends.entries': 'التدوينات',
+  'trends.average': 'المتوسط',
+  'trends.bestOn': 'الأفضل · {date}',
+  'trends.bestDay': 'أفضل يوم',
+  'trends.worstOn': 'الأسوأ · {date}',
+  'trends.worstDay': 'أسوأ يوم',
+  'trends.dailyRatings': 'التقييمات اليومية',
+  'trends.noEntries': 'لا توجد تدوينات في هذه الفترة بعد.',
+  'trends.chartLabel': 'التقييمات اليومية مع متوسطين متحركين لـ 7 و30 يومًا',
+  'trends.average7Value': '7 أيام {value}',
+  'trends.average30Value': '30 يومًا {value}',
+  'trends.best': 'الأفضل',
+  'trends.worst': 'الأسوأ',
+  'trends.dailyRating': 'التقييم اليومي',
+  'trends.average7': 'متوسط 7 أيام',
+  'trends.average30': 'متوسط 30 يومًا',
+  'trends.gaps': 'الفجوات أيام بلا تدوينة',
+  // Your data
+  'data.title': 'بياناتك',
+  'data.subtitle': 'تُحفظ التدوينات على هذا الجهاز فقط. احتفظ بنسخة احتياطية في مكان آمن.',
+  'data.downloadBackup': 'تنزيل نسخة احتياطية',
+  'data.backupDescription': {
+    zero: 'يحفظ تدويناتك في ملف JSON مؤرخ. لا يمكن فتح النسخ المشفرة إلا بعبارة المرور الخاصة بها.',
+    one: 'يحفظ تدوينتك الوحيدة في ملف JSON مؤرخ. لا يمكن فتح النسخ المشفرة إلا بعبارة المرور الخاصة بها.',
+    two: 'يحفظ تدوينتيك في ملف JSON مؤرخ. لا يمكن فتح النسخ المشفرة إلا بعبارة المرور الخاصة بها.',
+    few: 'يحفظ تدويناتك الـ {count} في ملف JSON مؤرخ. لا يمكن فتح النسخ المشفرة إلا بعبارة المرور الخاصة بها.',
+    many: 'يحفظ تدويناتك الـ {count} في ملف JSON مؤرخ. لا يمكن فتح النسخ المشفرة إلا بعبارة المرور الخاصة بها.',
+    other: 'يحفظ تدويناتك الـ {count} في ملف JSON مؤرخ. لا يمكن فتح النسخ المشفرة إلا بعبارة المرور الخاصة بها.',
+  },
+  'data.encrypt': 'التشفير بعبارة مرور',
+  'data.passphrase': 'عبارة المرور',
+  'data.confirmPassphrase': 'تأكيد عبارة المرور',
+  'data.passphraseTooShort': 'استخدم {count} أحرف على الأقل',
+  'data.passphraseMismatch': 'عبارتا المرور غير متطابقتين',
+  'data.passphraseWarning': 'لا توجد طريقة لاستعادة النسخة إذا نسيت عبارة المرور.',
+  'data.encrypting': 'جارٍ التشفير...',
+  'data.preparing': 'جارٍ التحضير...',
+  'data.backupFailed': 'تعذر إنشاء النسخة الاحتياطية',
+  'data.exportTitle': 'تصدير للقراءة',
+  'data.exportDescription': 'ملف CSV لجداول البيانات، أو يوميات Markdown مجمّعة حسب الشهر. يمكن استيراد ملفات CSV مرة أخرى أدناه.',
+  'data.exportCsv': 'جدول بيانات CSV',
+  'data.exportMarkdown': 'يوميات Markdown',
+  'data.exportFailed': 'تعذر تصدير التدوينات',
+  'data.restoreTitle': 'الاستعادة من ملف',
+  'data.restoreDescription': 'يستبدل كل ما في جرتك بمحتويات نسخة احتياطية.',
+  'data.importTitle': 'استيراد التدوينات',
+  'data.importDescription': 'يضيف تدوينات من نسخة JSON احتياطية أو ملف CSV إلى جرتك. أنت تختار ما يحدث عندما يكون لليوم تدوينة بالفعل.',
+  'data.externalTitle': 'الاستيراد من تطبيق آخر',
+  'data.externalDescription': 'انقل سجلك من Daylio أو Day One. تبقى الأيام التي لها تدوينة كما هي.',
+  'data.trashTitle': 'سلة المحذوفات',
+  'data.trashDescription': 'تُحفظ التدوينات المحذوفة هنا لفترة حتى تتمكن من استعادتها.',
+  'data.openTrash': 'فتح سلة المحذوفات',
+  // Trash
+  'trash.backToData': 'بياناتك',
+  'trash.retention': {
+    zero: 'تُحذف التدوينات المحذوفة نهائيًا فورًا.',
+    one: 'تُحذف التدوينات المحذوفة نهائيًا بعد يوم واحد.',
+    two: 'تُحذف التدوينات المحذوفة نهائيًا بعد يومين.',
+    few: 'تُحذف التدوينات المحذوفة نهائيًا بعد {count} أيام.',
+    many: 'تُحذف التدوينات المحذوفة نهائيًا بعد {count} يومًا.',
+    other: 'تُحذف التدوينات المحذوفة نهائيًا بعد {count} يوم.',
+  },
+  'trash.empty': 'إفراغ سلة المحذوفات',
+  'trash.isEmpty': 'سلة المحذوفات فارغة.',
+  'trash.purgeOn': 'ستُحذف نهائيًا في {date}',
+  'trash.restore': 'استعادة',
+  'trash.deleteForever': 'حذف نهائي',
+  'trash.confirmEmpty': 'إفراغ سلة المحذوفات؟',
+  'trash.confirmDelete': 'حذف نهائيًا؟',
+  'trash.emptyWarning': {
+    zero: 'سيتم حذف كل التدوينات في سلة المحذوفات. لا يمكن التراجع عن هذا الإجراء.',
+    one: 'سيتم حذف التدوينة الوحيدة في سلة المحذوفات. لا يمكن التراجع عن هذا الإجراء.',
+    two: 'سيتم حذف التدوينتين في سلة المحذوفات. لا يمكن التراجع عن هذا الإجراء.',
+    few: 'سيتم حذف كل التدوينات الـ {count} في سلة المحذوفات. لا يمكن التراجع عن هذا الإجراء.',
+    many: 'سيتم حذف كل التدوينات الـ {count} في سلة المحذوفات. لا يمكن التراجع عن هذا الإجراء.',
+    other: 'سيتم حذف كل التدوينات الـ {count} في سلة المحذوفات. لا يمكن التراجع عن هذا الإجراء.',
+  },
+  'trash.deleteWarning': 'سيتم حذف هذه التدوينة. لا يمكن التراجع عن هذا الإجراء.',
+  'trash.deleting': 'جارٍ الحذف...',
+  'trash.loadFailed': 'تعذر تحميل سلة المحذوفات',
+  'trash.notFound': 'لم يتم العثور على التدوينة في سلة المحذوفات',
+  'trash.restoreConflict': 'يوجد بالفعل تدوينة في {date}. احذفها أولًا لاستعادة هذه.',
+  'trash.restoreFailed': 'تعذرت استعادة التدوينة',
+  'trash.emptyFailed': 'تعذر إفراغ سلة المحذوفات',
+  'trash.purgeFailed': 'تعذر تنظيف سلة المحذوفات',
+  'data.readFailed': 'تعذرت قراءة الملف',
+
+  // Encrypted backups
+  'backup.passphraseTooShort': 'يجب ألا تقل عبارة المرور عن {count} أحرف',
+  'backup.wrongPassphrase': 'عبارة المرور خاطئة. تحقق منها وحاول مرة أخرى.',
+  'backup.damaged': 'هذه النسخة المشفرة تالفة ولا يمكن قراءتها.',
+  'backup.newerVersion': 'أُنشئت هذه النسخة بإصدار أحدث من التطبيق. حدّث التطبيق قبل استعادتها.',
+  'backup.unsupported': 'تستخدم هذه النسخة المشفرة إعدادات غير مدعومة ولا يمكن قراءتها.',
+  'backup.tampered': 'تم تعديل هذه النسخة أو أنها تالفة ولا يمكن استعادتها.',
+  'backup.encryptedNotice': 'هذه النسخة مشفرة. أدخل عبارة المرور التي حُفظت بها.',
+  'backup.unlock': 'فتح',
+  'backup.unlocking': 'جارٍ الفتح...',
+  'backup.unlockFailed': 'تعذر فتح النسخة الاحتياطية',
+
+  // Restore
+  'restore.title': 'الاستعادة من نسخة احتياطية',
+  'restore.choose': 'اختر ملف نسخة احتياطية. سيتم استبدال جرتك بمحتوياته.',
+  'restore.complete': 'اكتملت الاستعادة.',
+  'restore.pick': 'انقر لاختيار نسخة احتياطية',
+  'restore.made': 'تاريخ النسخة',
+  'restore.appVersion': 'إصدار التطبيق',
+  'restore.format': 'التنسيق',
+  'restore.formatVersion': 'v{version}',
+  'restore.plainList': 'قائمة تدوينات بسيطة',
+  'restore.inBackup': 'في النسخة',
+  'restore.inJar': 'في جرتك',
+  'restore.invalid': 'غير صالحة',
+  'restore.warning': {
+    zero: 'سيتم استبدال جرتك بـ {backupCount} من النسخة الاحتياطية.',
+    one: 'سيتم حذف التدوينة الوحيدة في جرتك نهائيًا واستبدالها بـ {backupCount} من النسخة الاحتياطية. نزّل نسخة احتياطية أولًا إن كنت قد ترغب في استعادتها.',
+    two: 'سيتم حذف التدوينتين في جرتك نهائيًا واستبدالهما بـ {backupCount} من النسخة الاحتياطية. نزّل نسخة احتياطية أولًا إن كنت قد ترغب في استعادتهما.',
+    few: 'سيتم حذف {count} تدوينات في جرتك نهائيًا واستبدالها بـ {backupCount} من النسخة الاحتياطية. نزّل نسخة احتياطية أولًا إن كنت قد ترغب في استعادتها.',
+    many: 'سيتم حذف {count} تدوينة في جرتك نهائيًا واستبدالها بـ {backupCount} من النسخة الاحتياطية. نزّل نسخة احتياطية أولًا إن كنت قد ترغب في استعادتها.',
+    other: 'سيتم حذف {count} تدوينة في جرتك نهائيًا واستبدالها بـ {backupCount} من النسخة الاحتياطية. نزّل نسخة احتياطية أولًا إن كنت قد ترغب في استعادتها.',
+  },
+  'restore.removed': 'المحذوفة',
+  'restore.restored': 'المستعادة',
+  'restore.skipped': 'المتخطاة',
+  'restore.restore': 'استعادة',
+  'restore.restoring': 'جارٍ الاستعادة...',
+  'restore.replace': 'استبدال جرتي',
+  'restore.failed': 'فشلت الاستعادة',
+  'restore.failedNoChanges': 'فشلت الاستعادة، ولم يتم إجراء أي تغييرات.',
+  // Importing
+  'import.title': 'استيراد التدوينات',
+  'import.choose': 'اختر نسخة JSON احتياطية أو ملف CSV. سترى ما سيتغير قبل حفظ أي شيء.',
+  'import.complete': 'اكتمل الاستيراد.',
+  'import.pick': 'انقر لاختيار ملف',
+  'import.new': 'جديدة',
+  'import.identical': 'متطابقة',
+  'import.conflicts': 'تعارضات',
+  'import.forConflicts': 'عند التعارض',
+  'import.strategyFor': 'طريقة الحل لـ {date}',
+  'import.defaultStrategy': 'الافتراضي ({strategy})',
+  'import.local': 'المحلية',
+  'import.imported': 'المستوردة',
+  'import.cannotCombine': 'لا يمكن الدمج: {reason}. سيتم الاحتفاظ بالمدخلة المحلية.',
+  'import.updatedAt': 'حُدّثت {time}',
+  'import.willSkip': {
+    zero: 'لن يتم تخطي أي سجل',
+    one: 'سيتم تخطي سجل واحد',
+    two: 'سيتم تخطي سجلين',
+    few: 'سيتم تخطي {count} سجلات',
+    many: 'سيتم تخطي {count} سجلًا',
+    other: 'سيتم تخطي {count} سجل',
+  },
+  'import.added': 'المضافة',
+  'import.updated': 'المحدّثة',
+  'import.unchanged': 'بلا تغيير',
+  'import.import': 'استيراد',
+  'import.importing': 'جارٍ الاستيراد...',
+  'import.failed': 'فشل الاستيراد',
+  'import.failedNoChanges': 'فشل الاستيراد، ولم يتم إجراء أي تغييرات.',
+  'import.strategy.keep_local': 'الإبقاء على المحلية',
+  'import.strategy.keep_imported': 'الإبقاء على المستوردة',
+  'import.strategy.keep_newer': 'الإبقاء على الأحدث',
+  'import.strategy.concatenate': 'دمج الاثنتين',
+  'import.invalidJson': 'ملف استيراد غير صالح: ليس JSON صالحًا',
+  'import.encrypted': 'هذه النسخة مشفرة. افتحها بعبارة المرور الخاصة بها أولًا.',
+  'import.notAList': 'ملف استيراد غير صالح: كان متوقعًا قائمة تدوينات',
+  'import.notAnObject': 'السجل ليس كائنًا',
+  'import.dateRequired': 'تاريخ التدوينة مطلوب',
+  'import.textNotText': 'يجب أن يكون نص الامتنان نصًا',
+  'import.ratingNotNumber': 'يجب أن يكون التقييم رقمًا',
+  'import.duplicateDate': 'يوجد سجل آخر في الملف بالتاريخ {date} أيضًا',
+  'import.csvUnclosedQuote': 'ملف CSV غير صالح: توجد قيمة بين علامتي اقتباس لم تُغلق',
+  'import.csvEmpty': 'ملف CSV غير صالح: الملف فارغ',
+  'import.csvMissingColumns': {
+    zero: 'ملف CSV غير صالح: أعمدة مفقودة',
+    one: 'ملف CSV غير صالح: العمود {columns} مفقود',
+    two: 'ملف CSV غير صالح: العمودان {columns} مفقودان',
+    few: 'ملف CSV غير صالح: الأعمدة {columns} مفقودة',
+    many: 'ملف CSV غير صالح: الأعمدة {columns} مفقودة',
+    other: 'ملف CSV غير صالح: الأعمدة {columns} مفقودة',
+  },
+  'import.csvBadRating': 'التقييم "{value}" ليس رقمًا بين 1 و7',
+  'import.csvUnknownRating': 'تسمية تقييم غير معروفة "{label}"',
+  'import.csvBadCreatedAt': 'تاريخ الإنشاء "{value}" ليس تاريخًا ووقتًا صالحين',
+  'import.csvBadUpdatedAt': 'تاريخ التحديث "{value}" ليس تاريخًا ووقتًا صالحين',
+
+  // Jar
+  'jar.title': 'الجرة',
+  'jar.collected': {
+    zero: 'لا توجد لحظات بعد',
+    one: 'لحظة واحدة محفوظة',
+    two: 'لحظتان محفوظتان',
+    few: '{count} لحظات محفوظة',
+    many: '{count} لحظة محفوظة',
+    other: '{count} لحظة محفوظة',
+  },
+  'jar.collectedIn': {
+    zero: 'لا توجد لحظات في {period}',
+    one: 'لحظة واحدة محفوظة في {period}',
+    two: 'لحظتان محفوظتان في {period}',
+    few: '{count} لحظات محفوظة في {period}',
+    many: '{count} لحظة محفوظة في {period}',
+    other: '{count} لحظة محفوظة في {period}',
+  },
+  'jar.year': 'السنة',
+  'jar.month': 'الشهر',
+  'jar.allYears': 'كل السنوات',
+  'jar.allMonths': 'كل الشهور',
+  'jar.hint': 'انقر على كرة لقراءتها، أو هزّ الجرة لمفاجأة.',
+  'jar.shake': 'هزّ الجرة',
+  'jar.nothingToDraw': 'لا يوجد ما يُسحب هنا بعد.',
+  'jar.drawFailed': 'تعذر السحب من الجرة',
+  'jar.eachMarble': 'كل كرة يوم شعرت فيه بالامتنان',
+  'jar.ratingOrBetter': '{rating} أو أفضل',
+  'jar.empty': 'جرتك فارغة. اكتب أول تدوينة لتضيف كرة.',
+  'jar.canvasLabel': {
+    zero: 'جرة بلا تدوينات',
+    one: 'جرة فيها تدوينة واحدة',
+    two: 'جرة فيها تدوينتان',
+    few: 'جرة فيها {count} تدوينات',
+    many: 'جرة فيها {count} تدوينة',
+    other: 'جرة فيها {count} تدوينة',
+  },
+  'jar.resetFailed': 'تعذرت إعادة تعيين سجل الجرة',
+  'jar.fromTheJar': 'من الجرة',
+  'jar.drawOptions': 'خيارات السحب',
+  'jar.pullAnother': 'اسحب أخرى ←',
+  'jar.lastThisRound': 'الأخيرة في هذه الجولة',
+  'jar.leftThisRound': 'المتبقي في هذه الجولة: {remaining} من {total}',
+  'jar.noMatches': 'لا توجد تدوينات تطابق هذه الخيارات.',
+  'jar.daysRated': 'الأيام المقيّمة',
+  'jar.draw': 'السحب',
+  'jar.weighting.none': 'بالتساوي',
+  'jar.weighting.older': 'تفضيل التدوينات الأقدم',
+  'jar.weighting.unseen': 'تفضيل الأقل سحبًا',
+  'jar.drawFromWholeJar': 'السحب من الجرة كلها',
+
+  // Importing from other apps
+  'import.moodOnlyNote': 'المزاج: {mood}',
+  'import.moodOnlyNoteWithActivities': 'المزاج: {mood}. الأنشطة: {activities}',
+  'import.externalTitle': 'الاستيراد من تطبيق آخر',
+  'import.externalChoose': 'اختر التطبيق وملف التصدير الخاص به. لن يُحفظ شيء حتى تؤكد.',
+  'import.from': 'الاستيراد من',
+  'import.ratings': 'التقييمات',
+  'import.ratingFor': 'تقييم {mood}',
+  'import.sameDayNote': 'تُدمج التدوينات المتعددة في اليوم نفسه ويُحسب متوسط تقييماتها.',
+  'import.alreadyInJar': 'موجودة في الجرة',
+  'import.andMore': 'و{count} أخرى',
+  'import.daysWillSkip': {
+    zero: 'لن يتم تخطي أي يوم',
+    one: 'سيتم تخطي يوم واحد',
+    two: 'سيتم تخطي يومين',
+    few: 'سيتم تخطي {count} أيام',
+    many: 'سيتم تخطي {count} يومًا',
+    other: 'سيتم تخطي {count} يوم',
+  },
+  'import.failedCount': 'الفاشلة',
+  'import.importEntries': {
+    zero: 'استيراد التدوينات',
+    one: 'استيراد تدوينة واحدة',
+    two: 'استيراد تدوينتين',
+    few: 'استيراد {count} تدوينات',
+    many: 'استيراد {count} تدوينة',
+    other: 'استيراد {count} تدوينة',
+  },
+  'import.previewFailed': 'تعذر إنشاء المعاينة',
+  'import.noEntries': 'لا يحتوي الملف على تدوينات',
+  'import.source.daylio': 'Daylio (تصدير CSV)',
+  'import.source.dayone': 'Day One (تصدير JSON)',
+  'import.dayoneStarred': 'التدوينات المميزة بنجمة',
+  'import.dayoneOther': 'تدوينات أخرى',
+  'import.noMood': '(بلا مزاج)',
+  'import.unknownDate': 'تاريخ غير معروف',
+  'import.invalidDate': 'التاريخ مفقود أو غير صالح',
+  'import.noNote': 'لا توجد ملاحظة للاستيراد',
+  'import.saveFailed': 'تعذر حفظ التدوينة',
+  'import.notDaylio': 'لا يبدو هذا تصديرًا من Daylio (العمود full_date أو mood مفقود)',
+  'import.notDayOneJson': 'لا يبدو هذا تصديرًا من Day One (ليس JSON صالحًا)',
+  'import.notDayOneList': 'لا يبدو هذا تصديرًا من Day One (لا توجد قائمة تدوينات)',
+
+  // Settings
+  'settings.languageAndDates': 'اللغة والتواريخ',
+  'settings.languageAndDatesDescription': 'لغة التطبيق وطريقة عرض التواريخ',
+  'settings.language': 'اللغة',
+  'settings.languageHint': 'تتبع التواريخ والتقييمات وصفحة اليوم هذه اللغة',
+  'settings.weekStartsOn': 'يبدأ الأسبوع يوم',
+  'settings.dateFormat': 'تنسيق التاريخ',
+  'settings.reminders': 'التذكيرات',
+  'settings.remindersDescription': 'تنبيه عندما لا يحتوي اليوم على تدوينة بعد',
+  'settings.remindersOpenOnly':
+    'لا يتم التحقق من التذكيرات إلا أثناء فتح التطبيق، في علامة تبويب أو كتطبيق مثبّت. لا يستطيع هذا المتصفح التحقق في الخلفية، لذلك لا يظهر أي تذكير عند إغلاقه.',
+  'settings.remindersInBackground':
+    'يتم التحقق من التذكيرات أيضًا أثناء إغلاق التطبيق. يحدد المتصفح التوقيت بدقة، لذلك قد يصل التذكير متأخرًا قليلًا.',
+  'settings.remindAt': 'ذكّرني في',
+  'settings.remindAtHint': {
+    zero: 'لا تذكيرات',
+    one: 'مرة واحدة في اليوم كحد أقصى',
+    two: 'مرتان في اليوم كحد أقصى',
+    few: 'حتى {count} مرات في اليوم',
+    many: 'حتى {count} مرة في اليوم',
+    other: 'حتى {count} مرة في اليوم',
+  },
+  'settings.reminderTime': 'التذكير {number}',
+  'settings.removeReminder': 'إزالة التذكير في {time}',
+  'settings.turnOnReminders': 'تفعيل التذكيرات',
+  'settings.addReminderTime': 'إضافة وقت',
+  'settings.quietDays': 'أيام الهدوء',
+  'settings.quietDaysHint': 'لا تذكيرات في هذه الأيام',
+  'settings.notificationsOn': 'الإشعارات مفعّلة.',
+  'settings.notificationsAsk': 'اسمح بالإشعارات لتصلك التذكيرات أثناء عمل التطبيق في الخلفية.',
+  'settings.notificationsBlocked': 'المتصفح يحظر الإشعارات، لذا تظهر التذكيرات كشريط داخل التطبيق.',
+  'settings.notificationsUnsupported': 'لا يستطيع هذا المتصفح عرض الإشعارات، لذا تظهر التذكيرات كشريط داخل التطبيق.',
+  'settings.allowNotifications': 'السماح بالإشعارات',
+  'settings.tryReminder': 'جرّب التذكير التالي الآن',
+  'settings.reminderTestResult': 'التذكير التالي ({time}): {outcome}',
+  'settings.reminderOutcome.notified': 'ظهر إشعار',
+  'settings.reminderOutcome.banner': 'الإشعارات متوقفة، لذا ظهر الشريط داخل التطبيق',
+  'settings.reminderOutcome.written': 'لذلك اليوم تدوينة بالفعل، لذا لم يظهر شيء',
+  'settings.reminderOutcome.quiet': 'ذلك يوم هدوء، لذا لم يظهر شيء',
+  'settings.reminderOutcome.failed': 'فشل التحقق',
+  'settings.noReminderComing': 'لا يوجد تذكير قادم',
+  'settings.reminderCheckFailed': 'فشل التحقق من التذكير',
+  'settings.title': 'الإعدادات',
+  'settings.subtitle': 'تُحفظ التغييرات على هذا الجهاز تلقائيًا',
+  'settings.writing': 'الكتابة',
+  'settings.writingDescription': 'حدود التدوينات وطريقة احتساب السلاسل',
+  'settings.maxLength': 'الحد الأقصى لطول التدوينة',
+  'settings.maxLengthHint': '{min}–{max} حرفًا. تبقى التدوينات الأطول الموجودة كما هي.',
+  'settings.backfill': 'إكمال الأيام الفائتة',
+  'settings.backfillHint': 'إلى أي مدى في الماضي يمكنك إضافة تدوينة من تقويم السجل',
+  'settings.backfillAny': 'أي يوم سابق',
+  'settings.backfillDays': {
+    zero: 'اليوم فقط',
+    one: 'حتى يوم واحد للخلف',
+    two: 'حتى يومين للخلف',
+    few: 'حتى {count} أيام للخلف',
+    many: 'حتى {count} يومًا للخلف',
+    other: 'حتى {count} يوم للخلف',
+  },
+  'settings.graceDays': 'أيام السماح',
+  'settings.graceDaysHint': 'الأيام المتتالية التي يمكنك تفويتها دون أن تنقطع سلسلتك',
+  'settings.graceNone': 'لا شيء',
+  'settings.ratingScale': 'مقياس التقييم',
+  'settings.ratingScaleDescription': 'المستويات التي تقيّم بها أيامك، من الأدنى إلى الأعلى',
+  'settings.levels': 'المستويات',
+  'settings.levelsHint': 'تحتفظ التدوينات السابقة بتقييمها: تظهر كل منها في أقرب مستوى، وتبقى المتوسطات كما هي',
+  'settings.levelCount': {
+    zero: 'لا مستويات',
+    one: 'مستوى واحد',
+    two: 'مستويان',
+    few: '{count} مستويات',
+    many: '{count} مستوى',
+    other: '{count} مستوى',
+  },
+  'settings.levelCountBuiltIn': '{levels} (المدمج)',
+  'settings.levelColor': 'لون المستوى {number}',
+  'settings.levelEmoji': 'رمز تعبيري للمستوى {number}',
+  'settings.levelLabel': 'تسمية المستوى {number}',
+  'settings.customScaleNote': 'مقياسك الخاص. تبقى تسمياته كما هي في كل اللغات.',
+  'settings.builtInScaleNote': 'تتبع التسميات المدمجة لغة التطبيق. تغيير أي مستوى يحفظ نسختك الخاصة.',
+  'settings.useBuiltInScale': 'استخدام المقياس المدمج',
+  'settings.sync': 'المزامنة',
+  'settings.syncDescription': 'أبقِ تدويناتك متطابقة بين الأجهزة عبر خادم مزامنة',
+  'settings.syncServer': 'خادم المزامنة',
+  'settings.syncServerHint': 'اتركه فارغًا لإبقاء كل شيء على هذا الجهاز فقط.',
+  'settings.general': 'عام',
+  'settings.landingPage': 'فتح التطبيق على',
+  'settings.trashRetention': 'الاحتفاظ بالتدوينات المحذوفة لمدة',
+  'settings.trashRetentionHint': 'تُحذف التدوينات في سلة المحذوفات نهائيًا بعد هذه المدة',
+  'settings.restoreDefaults': 'استعادة الإعدادات الافتراضية',
+  'settings.saveFailed': 'تعذر حفظ الإعدادات',
+  'settings.resetFailed': 'تعذرت إعادة تعيين الإعدادات',
+  'settings.invalid.language': 'لغة غير معروفة',
+  'settings.invalid.weekStartsOn': 'يجب أن يبدأ الأسبوع يوم الأحد أو الاثنين أو السبت',
+  'settings.invalid.dateFormat': 'تنسيق تاريخ غير معروف',
+  'settings.invalid.landingPage': 'صفحة بداية غير معروفة',
+  'settings.invalid.maxTextLength': 'يجب أن يكون حد النص بين {min} و{max} حرفًا',
+  'settings.invalid.syncServerUrl': 'يجب أن يكون خادم المزامنة عنوان http(s) أو مسارًا مثل /api/sync',
+  'settings.invalid.trashRetention': 'يجب أن تكون مدة الاحتفاظ في سلة المحذوفات إحدى القيم {options} يومًا',
+  'settings.invalid.graceDays': 'يجب أن تكون أيام السماح بين 0 و{max}',
+  'settings.invalid.backfillWindow': 'يجب أن تكون مدة إكمال الأيام إحدى القيم {options} يومًا',
+  'settings.invalid.hiddenOn': 'يجب أن يكون تاريخ الإخفاء بالصيغة YYYY-MM-DD',
+  'settings.invalid.reminderTimes': 'تحتاج التذكيرات إلى {max} أوقات مختلفة كحد أقصى مثل 20:30',
+  'settings.invalid.quietDays': 'يجب أن تكون الأيام الهادئة من أيام الأسبوع',
+  'settings.invalid.ratingScale':
+    'يحتاج مقياس التقييم إلى {min} إلى {max} مستويات، لكل منها تسمية حتى {labelLength} حرفًا ولون',
+  'settings.invalid.unknown': 'إعداد غير معروف',
+
+  // Sync
+  'sync.synced': 'تمت المزامنة',
+  'sync.syncing': 'جارٍ المزامنة',
+  'sync.offline': 'غير متصل',
+  'sync.failed': 'فشلت المزامنة',
+  'sync.lastSynced': 'آخر مزامنة {time}',
+  'sync.notYet': 'لم تتم المزامنة بعد',
+  'sync.pending': {
+    zero: 'لا توجد تغييرات بانتظار المزامنة',
+    one: 'تغيير واحد بانتظار المزامنة',
+    two: 'تغييران بانتظار المزامنة',
+    few: '{count} تغييرات بانتظار المزامنة',
+    many: '{count} تغييرًا بانتظار المزامنة',
+    other: '{count} تغيير بانتظار المزامنة',
+  },
+  'sync.syncNow': 'المزامنة الآن',
+  'sync.statusAction': '{status}. المزامنة الآن',
+  'sync.unreachable': 'تعذر الوصول إلى خادم المزامنة',
+  'sync.serverError': 'خطأ في خادم المزامنة ({status})',
+}
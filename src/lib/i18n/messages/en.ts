@@ -0,0 +1,577 @@
+import type { Message } from '@/types'
+
+/**
+ * English messages (the source catalog; every other language has the same keys)
+ */
+export const en = {
+  // App shell
+  'app.name': 'Gratefulness Jar',
+  'app.openFailed': 'Failed to open your jar',
+  'app.openFailedWithReason': 'Failed to open your jar: {reason}',
+  'app.newerVersion': 'Your jar was saved by a newer version of the app. Please reload to update.',
+  'app.openErrorTitle': "We couldn't open your jar",
+  'app.openErrorFallback': 'Something went wrong while loading your entries.',
+  'app.autoBackupNote': 'Your entries were backed up automatically on {time}.',
+  'app.tryAgain': 'Try again',
+  'nav.today': 'Today',
+  'nav.history': 'History',
+  'nav.search': 'Search',
+  'nav.trends': 'Trends',
+  'nav.jar': 'Jar',
+  'nav.data': 'Data',
+  'nav.settings': 'Settings',
+  'header.streak': '{count}-day streak',
+  'header.streakPending': "{count}-day streak. Write today's entry to keep it going",
+  'offline.label': 'Offline',
+  'offline.hint': "You're offline. Entries are saved on this device.",
+  'update.ready': 'A new version of the jar is ready.',
+  'update.reload': 'Reload',
+  'update.dismiss': 'Dismiss update',
+  'reminder.notWritten': "You haven't written today yet.",
+  'reminder.addEntry': "Add today's entry",
+  'reminder.turnOnNotifications': 'Turn on notifications',
+  'reminder.dismiss': 'Dismiss reminder',
+  'reminder.notificationBody': "What went well today? There's still time to add it to your jar.",
+
+  // Shared
+  'common.today': 'Today',
+  'common.cancel': 'Cancel',
+  'common.edit': 'Edit',
+  'common.delete': 'Delete',
+  'common.saved': 'Saved',
+  'common.listSeparator': ', ',
+  'common.any': 'Any',
+  'common.from': 'From',
+  'common.to': 'To',
+  'common.tag': 'Tag',
+  'common.clear': 'Clear',
+  'common.close': 'Close',
+  'common.done': 'Done',
+  'common.unknown': 'Unknown',
+  'entries.count': { one: '{count} entry', other: '{count} entries' },
+  'days.count': { one: '{count} day', other: '{count} days' },
+
+  // Ratings
+  'rating.question': 'How was your day?',
+  'rating.1': 'Nightmare',
+  'rating.2': 'Terrible',
+  'rating.3': 'Bad',
+  'rating.4': 'OK',
+  'rating.5': 'Good',
+  'rating.6': 'Great',
+  'rating.7': 'The Best',
+
+  // Dates (date-fns patterns; quote literal words like 'de')
+  'date.long': 'MMMM d, yyyy',
+  'date.medium': 'MMM d, yyyy',
+  'date.compact': 'MMM d',
+  'date.withDay': 'EEEE, MMMM d',
+  'date.monthYear': 'MMMM yyyy',
+  'date.shortWithDay': 'EEE, MMM d, yyyy',
+  'relative.today': 'Today',
+  'relative.yesterday': 'Yesterday',
+  'relative.tomorrow': 'Tomorrow',
+  'relative.inDays': { one: 'In {count} day', other: 'In {count} days' },
+  'relative.daysAgo': { one: '{count} day ago', other: '{count} days ago' },
+  'relative.weeksAgo': { one: '{count} week ago', other: '{count} weeks ago' },
+  'relative.monthsAgo': { one: '{count} month ago', other: '{count} months ago' },
+  'relative.yearsAgo': { one: '{count} year ago', other: '{count} years ago' },
+
+  // Today
+  'home.todaysEntry': "Today's Entry",
+  'home.streak': 'Streak',
+  'home.streakCurrent': { one: 'day current', other: 'days current' },
+  'home.streakLongest': { one: 'day longest', other: 'days longest' },
+  'home.streakDone': 'Today is done. See you tomorrow.',
+  'home.streakKeepGoing': 'Write today to keep your streak going.',
+  'home.streakGraceLeft': {
+    one: 'Write today to keep your streak going. {count} grace day left.',
+    other: 'Write today to keep your streak going. {count} grace days left.',
+  },
+  'home.streakStart': 'Write today to start a new streak.',
+  'home.pastStreaks': 'Past streaks',
+  'home.reflection': 'Reflection',
+  'home.reflectionLead': 'Small moments matter.',
+  'home.reflectionBody':
+    "Gratitude isn't about perfection—it's about noticing what's good, even on difficult days.",
+  'home.ideasTitle': 'Ideas to spark gratitude:',
+  'home.idea1': 'A kind word from someone',
+  'home.idea2': 'A moment of calm in a busy day',
+  'home.idea3': 'Something that made you laugh',
+  'home.idea4': "Progress on something you're working on",
+  'home.welcomeTitle': 'Welcome to your Gratefulness Jar!',
+  'home.welcomeBody':
+    "Take 30 seconds each day to capture one thing you're grateful for. Over time, you'll build a collection of moments worth remembering.",
+
+  // Entries
+  'entry.promptToday': 'What are you grateful for today?',
+  'entry.promptPast': 'What were you grateful for that day?',
+  'entry.placeholder': 'Something that made you smile, a small victory, or a moment of peace...',
+  'entry.hint': 'Keep it simple. One sentence is enough.',
+  'entry.incomplete': "Please write something you're grateful for and rate your day",
+  'entry.saveFailed': 'Failed to save entry',
+  'entry.saving': 'Saving...',
+  'entry.saved': 'Saved!',
+  'entry.update': 'Update Entry',
+  'entry.save': 'Save Entry',
+  'entry.created': 'Created {time}',
+  'entry.addedLater': 'Added later on {time}',
+  'entry.updated': 'Updated {time}',
+  'entry.deleteTitle': 'Delete entry?',
+  'entry.deleteBody': {
+    one: 'This entry will be moved to the trash. You can restore it from Your data within {count} day.',
+    other: 'This entry will be moved to the trash. You can restore it from Your data within {count} days.',
+  },
+  'entry.deleting': 'Deleting...',
+  'entry.textRequired': 'Gratitude text is required',
+  'entry.textTooLong': 'Gratitude text must be {max} characters or less',
+  'entry.ratingRequired': 'Rating is required',
+  'entry.ratingInvalid': 'Rating must be a number between {min} and {max}',
+  'entry.invalidDate': 'Invalid date format (use YYYY-MM-DD)',
+  'entry.futureDate': 'Cannot create entries for future dates',
+  'entry.unreadableDate': 'Could not read the date "{date}"',
+  'entry.duplicate': 'An entry already exists for {date}. Please edit the existing entry instead.',
+  'entry.notFound': 'Entry not found',
+  'entry.loadFailed': 'Failed to load entries',
+  'entry.loadTodayFailed': "Failed to load today's entry",
+  'entry.loadDateFailed': 'Failed to load entry for {date}',
+  'entry.loadOneFailed': 'Failed to load entry',
+  'entry.loadTaggedFailed': 'Failed to load entries tagged "{tag}"',
+  'entry.updateFailed': 'Failed to update entry',
+  'entry.deleteFailed': 'Failed to delete entry',
+  'entry.history': 'History',
+  'entry.historyFailed': 'Failed to load history',
+  'entry.revertFailed': 'Failed to revert entry',
+  'entry.neverEdited': "This entry hasn't been edited.",
+  'entry.versionFrom': 'Version from {time}',
+  'entry.replacedAt': 'Replaced {time}',
+  'entry.revert': 'Revert',
+  'entry.ratingChangedTo': 'changed to',
+
+  // Tags
+  'tags.label': 'Tags',
+  'tags.optional': '(optional)',
+  'tags.placeholder': 'family, work, health...',
+  'tags.limitReached': 'Tag limit reached',
+  'tags.hint': 'Press Enter or comma to add a tag.',
+  'tags.remove': 'Remove tag {tag}',
+  'tags.notList': 'Tags must be a list',
+  'tags.tooMany': 'An entry can have at most {max} tags',
+  'tags.empty': 'Tags cannot be empty',
+  'tags.tooLong': 'Tags must be {max} characters or less',
+  'tags.invalid': 'Tag "{tag}" can only contain letters, numbers, spaces, hyphens and underscores',
+
+  // On this day
+  'onThisDay.title': 'On this day',
+  'onThisDay.hide': 'Hide for today',
+  'onThisDay.monthsAgo': { one: 'A month ago', other: '{count} months ago' },
+  'onThisDay.yearsAgo': { one: 'A year ago', other: '{count} years ago' },
+  'onThisDay.loadFailed': 'Failed to load entries from this day',
+
+  // Calendar and year views
+  'calendar.previousMonth': 'Previous month',
+  'calendar.nextMonth': 'Next month',
+  'calendar.selected': 'Selected',
+  'calendar.ratedEntry': 'Rated entry (hover to preview)',
+  'calendar.addedLater': 'Added later',
+  'calendar.clickHint': 'Click a day to view its entry or fill in a missed one',
+  'calendar.screenReaderHint': 'Hover to preview entry, click to view full details',
+  'calendar.thisYear': 'This year',
+  'calendar.previousYear': 'Previous year',
+  'calendar.nextYear': 'Next year',
+  'calendar.noEntry': 'No entry',
+  'calendar.clickToView': 'Click to view full entry',
+  // History
+  'history.title': 'History',
+  'history.recorded': { one: '{count} entry recorded', other: '{count} entries recorded' },
+  'history.noEntries': 'No entries yet',
+  'history.calendarView': 'Calendar view',
+  'history.listView': 'List view',
+  'history.monthView': 'Month',
+  'history.yearView': 'Year',
+  'history.emptyTitle': 'Your gratitude journey begins today',
+  'history.emptyBody':
+    "Start writing daily entries to build your collection of grateful moments. They'll appear here as a visual timeline.",
+  'history.emptyBackfill': 'Missed a day recently? Pick it on the calendar to fill it in.',
+  'history.writeFirst': 'Write your first entry',
+  'history.selectDay': 'Select a day to view your entry',
+  'history.allEntries': 'All Entries',
+  'history.insights': 'Insights',
+  'history.noEntryFor': 'No entry for {date}',
+  'history.backfillLimit': {
+    one: 'Missed days can be filled in up to {count} day back.',
+    other: 'Missed days can be filled in up to {count} days back.',
+  },
+  'history.changeInSettings': 'Change in Settings',
+  'history.filter': 'Filter',
+  'history.byTag': 'By tag',
+  'history.monthEmpty': 'No entries yet this month. Start writing to see your stats!',
+  'history.statEntries': 'Entries',
+  'history.statEntriesBackfilled': 'Entries ({count} added later)',
+  'history.statAverage': 'Avg Rating',
+  'history.statBestDay': 'Best Day',
+  'history.statComplete': 'Complete',
+  'history.byWeekday': 'By weekday',
+  'history.byMonth': 'By month',
+  'history.averageFrom': '{average} average from {entries}',
+  'history.noEntriesShort': 'No entries',
+  'history.weekendsVsWeekdays': 'Weekends vs. weekdays',
+  'history.aboutTheSame': 'About the same either way',
+  'history.weekendsHigher': 'Weekends are {difference} higher on average',
+  'history.weekendsLower': 'Weekends are {difference} lower on average',
+  'history.distribution': 'Distribution',
+  // Search
+  'search.title': 'Search',
+  'search.found': { one: '{count} entry found', other: '{count} entries found' },
+  'search.subtitle': 'Find moments by words, rating or date',
+  'search.placeholder': 'Search your entries...',
+  'search.label': 'Search entries',
+  'search.prompt': 'Type a word or pick a filter to start searching.',
+  'search.noMatches': 'No entries match your search.',
+  'search.ratingFrom': 'Rating from',
+  'search.ratingTo': 'Rating to',
+  'search.clearFilters': 'Clear filters',
+  'search.rebuildFailed': 'Failed to rebuild search index',
+
+  // Trends
+  'trends.title': 'Trends',
+  'trends.subtitle': 'Are your days getting better? Moving averages smooth out the ups and downs.',
+  'trends.range.30d': '30 days',
+  'trends.range.90d': '90 days',
+  'trends.range.1y': 'Year',
+  'trends.range.all': 'All time',
+  'trends.entries': 'Entries',
+  'trends.average': 'Average',
+  'trends.bestOn': 'Best · {date}',
+  'trends.bestDay': 'Best day',
+  'trends.worstOn': 'Worst · {date}',
+  'trends.worstDay': 'Worst day',
+  'trends.dailyRatings': 'Daily ratings',
+  'trends.noEntries': 'No entries in this range yet.',
+  'trends.chartLabel': 'Daily ratings with 7- and 30-day moving averages',
+  'trends.average7Value': '7-day {value}',
+  'trends.average30Value': '30-day {value}',
+  'trends.best': 'Best',
+  'trends.worst': 'Worst',
+  'trends.dailyRating': 'Daily rating',
+  'trends.average7': '7-day average',
+  'trends.average30': '30-day average',
+  'trends.gaps': 'Gaps mark days without an entry',
+  // Your data
+  'data.title': 'Your data',
+  'data.subtitle': 'Entries live only on this device. Keep a backup somewhere safe.',
+  'data.downloadBackup': 'Download backup',
+  'data.backupDescription': {
+    one: 'Saves all {count} entry to a timestamped JSON file. Encrypted backups can only be opened with their passphrase.',
+    other: 'Saves all {count} entries to a timestamped JSON file. Encrypted backups can only be opened with their passphrase.',
+  },
+  'data.encrypt': 'Encrypt with a passphrase',
+  'data.passphrase': 'Passphrase',
+  'data.confirmPassphrase': 'Confirm passphrase',
+  'data.passphraseTooShort': 'Use at least {count} characters',
+  'data.passphraseMismatch': 'Passphrases do not match',
+  'data.passphraseWarning': 'There is no way to recover the backup if you forget the passphrase.',
+  'data.encrypting': 'Encrypting...',
+  'data.preparing': 'Preparing...',
+  'data.backupFailed': 'Failed to create backup',
+  'data.exportTitle': 'Export for reading',
+  'data.exportDescription':
+    'A CSV file for spreadsheets, or a Markdown journal grouped by month. CSV files can be imported back below.',
+  'data.exportCsv': 'CSV spreadsheet',
+  'data.exportMarkdown': 'Markdown journal',
+  'data.exportFailed': 'Failed to export entries',
+  'data.restoreTitle': 'Restore from file',
+  'data.restoreDescription': 'Replaces everything in your jar with the contents of a backup.',
+  'data.importTitle': 'Import entries',
+  'data.importDescription':
+    'Adds entries from a JSON backup or CSV file to your jar. You choose what happens when a day already has an entry.',
+  'data.externalTitle': 'Import from another app',
+  'data.externalDescription':
+    'Bring your history over from Daylio or Day One. Days that already have an entry are left as they are.',
+  'data.trashTitle': 'Trash',
+  'data.trashDescription': 'Deleted entries are kept here for a while so you can bring them back.',
+  'data.openTrash': 'Open trash',
+  // Trash
+  'trash.backToData': 'Your data',
+  'trash.retention': {
+    one: 'Deleted entries are removed for good after {count} day.',
+    other: 'Deleted entries are removed for good after {count} days.',
+  },
+  'trash.empty': 'Empty trash',
+  'trash.isEmpty': 'The trash is empty.',
+  'trash.purgeOn': 'Deleted for good on {date}',
+  'trash.restore': 'Restore',
+  'trash.deleteForever': 'Delete forever',
+  'trash.confirmEmpty': 'Empty trash?',
+  'trash.confirmDelete': 'Delete forever?',
+  'trash.emptyWarning': {
+    one: 'The {count} entry in the trash will be deleted. This action cannot be undone.',
+    other: 'All {count} entries in the trash will be deleted. This action cannot be undone.',
+  },
+  'trash.deleteWarning': 'This entry will be deleted. This action cannot be undone.',
+  'trash.deleting': 'Deleting...',
+  'trash.loadFailed': 'Failed to load trash',
+  'trash.notFound': 'Entry not found in the trash',
+  'trash.restoreConflict': '{date} already has an entry. Delete it first to restore this one.',
+  'trash.restoreFailed': 'Failed to restore entry',
+  'trash.emptyFailed': 'Failed to empty trash',
+  'trash.purgeFailed': 'Failed to purge trash',
+  'data.readFailed': 'Failed to read file',
+
+  // Encrypted backups
+  'backup.passphraseTooShort': 'Passphrase must be at least {count} characters',
+  'backup.wrongPassphrase': 'Wrong passphrase. Please check it and try again.',
+  'backup.damaged': 'This encrypted backup is damaged and cannot be read.',
+  'backup.newerVersion': 'This backup was made by a newer version of the app. Please update before restoring it.',
+  'backup.unsupported': 'This encrypted backup uses unsupported settings and cannot be read.',
+  'backup.tampered': 'This backup has been modified or corrupted and cannot be restored.',
+  'backup.encryptedNotice': 'This backup is encrypted. Enter the passphrase it was saved with.',
+  'backup.unlock': 'Unlock',
+  'backup.unlocking': 'Unlocking...',
+  'backup.unlockFailed': 'Failed to unlock backup',
+
+  // Restore
+  'restore.title': 'Restore from backup',
+  'restore.choose': 'Choose a backup file. Your jar will be replaced with its contents.',
+  'restore.complete': 'Restore complete.',
+  'restore.pick': 'Click to choose a backup',
+  'restore.made': 'Backup made',
+  'restore.appVersion': 'App version',
+  'restore.format': 'Format',
+  'restore.formatVersion': 'v{version}',
+  'restore.plainList': 'Plain entry list',
+  'restore.inBackup': 'In backup',
+  'restore.inJar': 'In your jar',
+  'restore.invalid': 'Invalid',
+  'restore.warning': {
+    one: 'This will permanently delete the {count} entry in your jar and replace it with {backupCount} from the backup. Download a backup first if you might want it back.',
+    other: 'This will permanently delete the {count} entries in your jar and replace them with {backupCount} from the backup. Download a backup first if you might want them back.',
+  },
+  'restore.removed': 'Removed',
+  'restore.restored': 'Restored',
+  'restore.skipped': 'Skipped',
+  'restore.restore': 'Restore',
+  'restore.restoring': 'Restoring...',
+  'restore.replace': 'Replace my jar',
+  'restore.failed': 'Restore failed',
+  'restore.failedNoChanges': 'Restore failed, no changes were made.',
+  // Importing
+  'import.title': 'Import entries',
+  'import.choose': 'Choose a JSON backup or CSV file. You will see what changes before anything is saved.',
+  'import.complete': 'Import complete.',
+  'import.pick': 'Click to choose a file',
+  'import.new': 'New',
+  'import.identical': 'Identical',
+  'import.conflicts': 'Conflicts',
+  'import.forConflicts': 'For conflicts',
+  'import.strategyFor': 'Strategy for {date}',
+  'import.defaultStrategy': 'Default ({strategy})',
+  'import.local': 'Local',
+  'import.imported': 'Imported',
+  'import.cannotCombine': "Can't combine: {reason}. The local entry will be kept.",
+  'import.updatedAt': 'Updated {time}',
+  'import.willSkip': {
+    one: '{count} record will be skipped',
+    other: '{count} records will be skipped',
+  },
+  'import.added': 'Added',
+  'import.updated': 'Updated',
+  'import.unchanged': 'Unchanged',
+  'import.import': 'Import',
+  'import.importing': 'Importing...',
+  'import.failed': 'Import failed',
+  'import.failedNoChanges': 'Import failed, no changes were made.',
+  'import.strategy.keep_local': 'Keep local',
+  'import.strategy.keep_imported': 'Keep imported',
+  'import.strategy.keep_newer': 'Keep newer',
+  'import.strategy.concatenate': 'Combine both',
+  'import.invalidJson': 'Invalid import file: not valid JSON',
+  'import.encrypted': 'This backup is encrypted. Unlock it with its passphrase first.',
+  'import.notAList': 'Invalid import file: expected a list of entries',
+  'import.notAnObject': 'Record is not an object',
+  'import.dateRequired': 'Entry date is required',
+  'import.textNotText': 'Gratitude text must be text',
+  'import.ratingNotNumber': 'Rating must be a number',
+  'import.duplicateDate': 'Another record in the file is also dated {date}',
+  'import.csvUnclosedQuote': 'Invalid CSV file: a quoted value is never closed',
+  'import.csvEmpty': 'Invalid CSV file: the file is empty',
+  'import.csvMissingColumns': {
+    one: 'Invalid CSV file: missing {columns} column',
+    other: 'Invalid CSV file: missing {columns} columns',
+  },
+  'import.csvBadRating': 'Rating "{value}" is not a number between 1 and 7',
+  'import.csvUnknownRating': 'Unknown rating label "{label}"',
+  'import.csvBadCreatedAt': 'Created at "{value}" is not a valid date and time',
+  'import.csvBadUpdatedAt': 'Updated at "{value}" is not a valid date and time',
+
+  // Jar
+  'jar.title': 'The Jar',
+  'jar.collected': { one: '{count} moment collected', other: '{count} moments collected' },
+  'jar.collectedIn': {
+    one: '{count} moment collected in {period}',
+    other: '{count} moments collected in {period}',
+  },
+  'jar.year': 'Year',
+  'jar.month': 'Month',
+  'jar.allYears': 'All years',
+  'jar.allMonths': 'All months',
+  'jar.hint': 'Tap a marble to read it, or shake the jar for a surprise.',
+  'jar.shake': 'Shake the jar',
+  'jar.nothingToDraw': 'Nothing to draw here yet.',
+  'jar.drawFailed': 'Failed to draw from the jar',
+  'jar.eachMarble': 'Each marble is a day you were grateful for',
+  'jar.ratingOrBetter': '{rating} or better',
+  'jar.empty': 'Your jar is empty. Write your first entry to drop in a marble.',
+  'jar.canvasLabel': { one: 'Jar with {count} entry', other: 'Jar with {count} entries' },
+  'jar.resetFailed': 'Failed to reset jar history',
+  'jar.fromTheJar': 'From the Jar',
+  'jar.drawOptions': 'Draw options',
+  'jar.pullAnother': 'Pull another →',
+  'jar.lastThisRound': 'Last one this round',
+  'jar.leftThisRound': '{remaining} of {total} left this round',
+  'jar.noMatches': 'No entries match these options.',
+  'jar.daysRated': 'Days rated',
+  'jar.draw': 'Draw',
+  'jar.weighting.none': 'Evenly',
+  'jar.weighting.older': 'Favour older entries',
+  'jar.weighting.unseen': 'Favour rarely drawn',
+  'jar.drawFromWholeJar': 'Draw from the whole jar',
+
+  // Importing from other apps
+  'import.moodOnlyNote': 'Mood: {mood}',
+  'import.moodOnlyNoteWithActivities': 'Mood: {mood}. Activities: {activities}',
+  'import.externalTitle': 'Import from another app',
+  'import.externalChoose': 'Choose the app and its export file. Nothing is saved until you confirm.',
+  'import.from': 'Import from',
+  'import.ratings': 'Ratings',
+  'import.ratingFor': 'Rating for {mood}',
+  'import.sameDayNote': 'Several entries on the same day are combined and their ratings averaged.',
+  'import.alreadyInJar': 'Already in jar',
+  'import.andMore': 'and {count} more',
+  'import.daysWillSkip': {
+    one: '{count} day will be skipped',
+    other: '{count} days will be skipped',
+  },
+  'import.failedCount': 'Failed',
+  'import.importEntries': {
+    one: 'Import {count} entry',
+    other: 'Import {count} entries',
+  },
+  'import.previewFailed': 'Failed to build preview',
+  'import.noEntries': 'The file has no entries',
+  'import.source.daylio': 'Daylio (CSV export)',
+  'import.source.dayone': 'Day One (JSON export)',
+  'import.dayoneStarred': 'Starred entries',
+  'import.dayoneOther': 'Other entries',
+  'import.noMood': '(no mood)',
+  'import.unknownDate': 'Unknown date',
+  'import.invalidDate': 'Missing or invalid date',
+  'import.noNote': 'No note to import',
+  'import.saveFailed': 'Failed to save entry',
+  'import.notDaylio': 'This does not look like a Daylio export (missing full_date or mood column)',
+  'import.notDayOneJson': 'This does not look like a Day One export (not valid JSON)',
+  'import.notDayOneList': 'This does not look like a Day One export (no entries list)',
+
+  // Settings
+  'settings.languageAndDates': 'Language & dates',
+  'settings.languageAndDatesDescription': 'The language of the app and how dates are shown',
+  'settings.language': 'Language',
+  'settings.languageHint': 'Dates, ratings and the Today page follow this language',
+  'settings.weekStartsOn': 'Week starts on',
+  'settings.dateFormat': 'Date format',
+  'settings.reminders': 'Reminders',
+  'settings.remindersDescription': 'A nudge when the day has no entry yet',
+  'settings.remindersOpenOnly':
+    "Reminders are only checked while the app is open, in a tab or as an installed app. This browser can't check in the background, so when the app is closed no reminder is shown.",
+  'settings.remindersInBackground':
+    'Reminders are also checked while the app is closed. The browser decides exactly when, so one may arrive a little late.',
+  'settings.remindAt': 'Remind me at',
+  'settings.remindAtHint': { one: 'Up to {count} time a day', other: 'Up to {count} times a day' },
+  'settings.reminderTime': 'Reminder {number}',
+  'settings.removeReminder': 'Remove reminder at {time}',
+  'settings.turnOnReminders': 'Turn on reminders',
+  'settings.addReminderTime': 'Add a time',
+  'settings.quietDays': 'Quiet days',
+  'settings.quietDaysHint': 'No reminders on these days',
+  'settings.notificationsOn': 'Notifications are on.',
+  'settings.notificationsAsk': 'Allow notifications to be reminded while the app is in the background.',
+  'settings.notificationsBlocked':
+    'Notifications are blocked in your browser, so reminders show as a banner in the app.',
+  'settings.notificationsUnsupported':
+    "This browser can't show notifications, so reminders show as a banner in the app.",
+  'settings.allowNotifications': 'Allow notifications',
+  'settings.tryReminder': 'Try the next reminder now',
+  'settings.reminderTestResult': 'Next reminder ({time}): {outcome}',
+  'settings.reminderOutcome.notified': 'a notification was shown',
+  'settings.reminderOutcome.banner': 'notifications are off, so the in-app banner was shown',
+  'settings.reminderOutcome.written': 'that day already has an entry, so nothing was shown',
+  'settings.reminderOutcome.quiet': 'that is a quiet day, so nothing was shown',
+  'settings.reminderOutcome.failed': 'the check failed',
+  'settings.noReminderComing': 'No reminder is coming up',
+  'settings.reminderCheckFailed': 'The reminder check failed',
+  'settings.title': 'Settings',
+  'settings.subtitle': 'Changes are saved on this device automatically',
+  'settings.writing': 'Writing',
+  'settings.writingDescription': 'Limits for entries and how streaks are counted',
+  'settings.maxLength': 'Maximum entry length',
+  'settings.maxLengthHint': '{min}–{max} characters. Existing longer entries are kept as they are.',
+  'settings.backfill': 'Fill in missed days',
+  'settings.backfillHint': 'How far back you can add an entry from the History calendar',
+  'settings.backfillAny': 'Any past day',
+  'settings.backfillDays': { one: 'Up to {count} day back', other: 'Up to {count} days back' },
+  'settings.graceDays': 'Grace days',
+  'settings.graceDaysHint': 'Days you can miss in a row without breaking your streak',
+  'settings.graceNone': 'None',
+  'settings.ratingScale': 'Rating scale',
+  'settings.ratingScaleDescription': 'The levels you rate your days with, lowest first',
+  'settings.levels': 'Levels',
+  'settings.levelsHint':
+    'Past entries keep their rating: each shows as the nearest level, and averages stay the same',
+  'settings.levelCount': { one: '{count} level', other: '{count} levels' },
+  'settings.levelCountBuiltIn': '{levels} (built-in)',
+  'settings.levelColor': 'Color for level {number}',
+  'settings.levelEmoji': 'Emoji for level {number}',
+  'settings.levelLabel': 'Label for level {number}',
+  'settings.customScaleNote': 'Your own scale. Its labels stay the same in every language.',
+  'settings.builtInScaleNote': "The built-in labels follow the app's language. Changing a level saves your own copy.",
+  'settings.useBuiltInScale': 'Use the built-in scale',
+  'settings.sync': 'Sync',
+  'settings.syncDescription': 'Keep entries in step across devices through a sync server',
+  'settings.syncServer': 'Sync server',
+  'settings.syncServerHint': 'Leave empty to keep everything on this device only.',
+  'settings.general': 'General',
+  'settings.landingPage': 'Open the app on',
+  'settings.trashRetention': 'Keep deleted entries for',
+  'settings.trashRetentionHint': 'Entries in the trash are deleted for good after this long',
+  'settings.restoreDefaults': 'Restore defaults',
+  'settings.saveFailed': 'Failed to save settings',
+  'settings.resetFailed': 'Failed to reset settings',
+  'settings.invalid.language': 'Unknown language',
+  'settings.invalid.weekStartsOn': 'Week must start on Sunday, Monday or Saturday',
+  'settings.invalid.dateFormat': 'Unknown date format',
+  'settings.invalid.landingPage': 'Unknown landing page',
+  'settings.invalid.maxTextLength': 'Text limit must be between {min} and {max} characters',
+  'settings.invalid.syncServerUrl': 'Sync server must be an http(s) URL or a path like /api/sync',
+  'settings.invalid.trashRetention': 'Trash retention must be one of {options} days',
+  'settings.invalid.graceDays': 'Grace days must be between 0 and {max}',
+  'settings.invalid.backfillWindow': 'Backfill window must be one of {options} days',
+  'settings.invalid.hiddenOn': 'Hidden date must be a YYYY-MM-DD date',
+  'settings.invalid.reminderTimes': 'Reminders need up to {max} different times like 20:30',
+  'settings.invalid.quietDays': 'Quiet days must be days of the week',
+  'settings.invalid.ratingScale':
+    'A rating scale needs {min} to {max} levels, each with a label of up to {labelLength} characters and a color',
+  'settings.invalid.unknown': 'Unknown setting',
+
+  // Sync
+  'sync.synced': 'Synced',
+  'sync.syncing': 'Syncing',
+  'sync.offline': 'Offline',
+  'sync.failed': 'Sync failed',
+  'sync.lastSynced': 'Last synced {time}',
+  'sync.notYet': 'Not synced yet',
+  'sync.pending': { one: '{count} change waiting', other: '{count} changes waiting' },
+  'sync.syncNow': 'Sync now',
+  'sync.statusAction': '{status}. Sync now',
+  'sync.unreachable': 'Sync server is unreachable',
+  'sync.serverError': 'Sync server error ({status})',
+} satisfies Record<string, Message>
@@ -0,0 +1,580 @@
+import type { Catalog } from '@/lib/i18n'
+
+/**
+ * Spanish messages
+ */
+export const es: Catalog = {
+  // App shell
+  'app.name': 'Tarro de gratitud',
+  'app.openFailed': 'No se pudo abrir tu tarro',
+  'app.openFailedWithReason': 'No se pudo abrir tu tarro: {reason}',
+  'app.newerVersion': 'Tu tarro se guardó con una versión más reciente de la app. Recarga la página para actualizar.',
+  'app.openErrorTitle': 'No pudimos abrir tu tarro',
+  'app.openErrorFallback': 'Algo salió mal al cargar tus entradas.',
+  'app.autoBackupNote': 'Se hizo una copia de seguridad automática de tus entradas el {time}.',
+  'app.tryAgain': 'Intentar de nuevo',
+  'nav.today': 'Hoy',
+  'nav.history': 'Historial',
+  'nav.search': 'Buscar',
+  'nav.trends': 'Tendencias',
+  'nav.jar': 'Tarro',
+  'nav.data': 'Datos',
+  'nav.settings': 'Ajustes',
+  'header.streak': { one: 'Racha de {count} día', other: 'Racha de {count} días' },
+  'header.streakPending': {
+    one: 'Racha de {count} día. Escribe la entrada de hoy para mantenerla',
+    other: 'Racha de {count} días. Escribe la entrada de hoy para mantenerla',
+  },
+  'offline.label': 'Sin conexión',
+  'offline.hint': 'No tienes conexión. Las entradas se guardan en este dispositivo.',
+  'update.ready': 'Hay una nueva versión del tarro.',
+  'update.reload': 'Recargar',
+  'update.dismiss': 'Descartar actualización',
+  'reminder.notWritten': 'Todavía no has escrito hoy.',
+  'reminder.addEntry': 'Añade la entrada de hoy',
+  'reminder.turnOnNotifications': 'Activar notificaciones',
+  'reminder.dismiss': 'Descartar recordatorio',
+  'reminder.notificationBody': '¿Qué salió bien hoy? Aún estás a tiempo de añadirlo a tu tarro.',
+
+  // Shared
+  'common.today': 'Hoy',
+  'common.cancel': 'Cancelar',
+  'common.edit': 'Editar',
+  'common.delete': 'Eliminar',
+  'common.saved': 'Guardado',
+  'common.listSeparator': ', ',
+  'common.any': 'Cualquiera',
+  'common.from': 'Desde',
+  'common.to': 'Hasta',
+  'common.tag': 'Etiqueta',
+  'common.clear': 'Borrar',
+  'common.close': 'Cerrar',
+  'common.done': 'Hecho',
+  'common.unknown': 'Desconocido',
+  'entries.count': { one: '{count} entrada', other: '{count} entradas' },
+  'days.count': { one: '{count} día', other: '{count} días' },
+
+  // Ratings
+  'rating.question': '¿Qué tal tu día?',
+  'rating.1': 'Pesadilla',
+  'rating.2': 'Terrible',
+  'rating.3': 'Malo',
+  'rating.4': 'Normal',
+  'rating.5': 'Bueno',
+  'rating.6': 'Genial',
+  'rating.7': 'El mejor',
+
+  // Dates
+  'date.long': "d 'de' MMMM 'de' yyyy",
+  'date.medium': 'd MMM yyyy',
+  'date.compact': 'd MMM',
+  'date.withDay': "EEEE, d 'de' MMMM",
+  'date.monthYear': "MMMM 'de' yyyy",
+  'date.shortWithDay': 'EEE, d MMM yyyy',
+  'relative.today': 'Hoy',
+  'relative.yesterday': 'Ayer',
+  'relative.tomorrow': 'Mañana',
+  'relative.inDays': { one: 'Dentro de {count} día', other: 'Dentro de {count} días' },
+  'relative.daysAgo': { one: 'Hace {count} día', other: 'Hace {count} días' },
+  'relative.weeksAgo': { one: 'Hace {count} semana', other: 'Hace {count} semanas' },
+  'relative.monthsAgo': { one: 'Hace {count} mes', other: 'Hace {count} meses' },
+  'relative.yearsAgo': { one: 'Hace {count} año', other: 'Hace {count} años' },
+
+  // Today
+  'home.todaysEntry': 'La entrada de hoy',
+  'home.streak': 'Racha',
+  'home.streakCurrent': { one: 'día actual', other: 'días actuales' },
+  'home.streakLongest': { one: 'día como récord', other: 'días como récord' },
+  'home.streakDone': 'Hoy ya está. Nos vemos mañana.',
+  'home.streakKeepGoing': 'Escribe hoy para mantener tu racha.',
+  'home.streakGraceLeft': {
+    one: 'Escribe hoy para mantener tu racha. Te queda {count} día de margen.',
+    other: 'Escribe hoy para mantener tu racha. Te quedan {count} días de margen.',
+  },
+  'home.streakStart': 'Escribe hoy para empezar una nueva racha.',
+  'home.pastStreaks': 'Rachas anteriores',
+  'home.reflection': 'Reflexión',
+  'home.reflectionLead': 'Los pequeños momentos importan.',
+  'home.reflectionBody':
+    'La gratitud no consiste en la perfección, sino en fijarse en lo bueno, incluso en los días difíciles.',
+  'home.ideasTitle': 'Ideas para despertar la gratitud:',
+  'home.idea1': 'Una palabra amable de alguien',
+  'home.idea2': 'Un momento de calma en un día ajetreado',
+  'home.idea3': 'Algo que te hizo reír',
+  'home.idea4': 'Un avance en algo en lo que estás trabajando',
+  'home.welcomeTitle': '¡Bienvenido a tu tarro de gratitud!',
+  'home.welcomeBody':
+    'Dedica 30 segundos al día a anotar algo por lo que estés agradecido. Con el tiempo, reunirás una colección de momentos que vale la pena recordar.',
+
+  // Entries
+  'entry.promptToday': '¿Por qué estás agradecido hoy?',
+  'entry.promptPast': '¿Por qué estabas agradecido ese día?',
+  'entry.placeholder': 'Algo que te hizo sonreír, una pequeña victoria o un momento de paz...',
+  'entry.hint': 'Hazlo sencillo. Basta con una frase.',
+  'entry.incomplete': 'Escribe algo por lo que estés agradecido y valora tu día',
+  'entry.saveFailed': 'No se pudo guardar la entrada',
+  'entry.saving': 'Guardando...',
+  'entry.saved': '¡Guardado!',
+  'entry.update': 'Actualizar entrada',
+  'entry.save': 'Guardar entrada',
+  'entry.created': 'Creada el {time}',
+  'entry.addedLater': 'Añadida más tarde, el {time}',
+  'entry.updated': 'Actualizada el {time}',
+  'entry.deleteTitle': '¿Eliminar la entrada?',
+  'entry.deleteBody': {
+    one: 'La entrada irá a la papelera. Puedes restaurarla desde Tus datos durante {count} día.',
+    other: 'La entrada irá a la papelera. Puedes restaurarla desde Tus datos durante {count} días.',
+  },
+  'entry.deleting': 'Eliminando...',
+  'entry.textRequired': 'El texto de gratitud es obligatorio',
+  'entry.textTooLong': 'El texto de gratitud debe tener {max} caracteres como máximo',
+  'entry.ratingRequired': 'La valoración es obligatoria',
+  'entry.ratingInvalid': 'La valoración debe ser un número entre {min} y {max}',
+  'entry.invalidDate': 'Formato de fecha no válido (usa AAAA-MM-DD)',
+  'entry.futureDate': 'No se pueden crear entradas para fechas futuras',
+  'entry.unreadableDate': 'No se pudo leer la fecha "{date}"',
+  'entry.duplicate': 'Ya existe una entrada para el {date}. Edita la entrada existente.',
+  'entry.notFound': 'No se encontró la entrada',
+  'entry.loadFailed': 'No se pudieron cargar las entradas',
+  'entry.loadTodayFailed': 'No se pudo cargar la entrada de hoy',
+  'entry.loadDateFailed': 'No se pudo cargar la entrada del {date}',
+  'entry.loadOneFailed': 'No se pudo cargar la entrada',
+  'entry.loadTaggedFailed': 'No se pudieron cargar las entradas con la etiqueta "{tag}"',
+  'entry.updateFailed': 'No se pudo actualizar la entrada',
+  'entry.deleteFailed': 'No se pudo eliminar la entrada',
+  'entry.history': 'Historial',
+  'entry.historyFailed': 'No se pudo cargar el historial',
+  'entry.revertFailed': 'No se pudo restaurar la versión',
+  'entry.neverEdited': 'Esta entrada no se ha editado.',
+  'entry.versionFrom': 'Versión del {time}',
+  'entry.replacedAt': 'Sustituida el {time}',
+  'entry.revert': 'Restaurar',
+  'entry.ratingChangedTo': 'cambió a',
+
+  // Tags
+  'tags.label': 'Etiquetas',
+  'tags.optional': '(opcional)',
+  'tags.placeholder': 'familia, trabajo, salud...',
+  'tags.limitReached': 'Límite de etiquetas alcanzado',
+  'tags.hint': 'Pulsa Intro o coma para añadir una etiqueta.',
+  'tags.remove': 'Quitar la etiqueta {tag}',
+  'tags.notList': 'Las etiquetas deben ser una lista',
+  'tags.tooMany': 'Una entrada puede tener como máximo {max} etiquetas',
+  'tags.empty': 'Las etiquetas no pueden estar vacías',
+  'tags.tooLong': 'Las etiquetas deben tener {max} caracteres como máximo',
+  'tags.invalid': 'La etiqueta "{tag}" solo puede contener letras, números, espacios, guiones y guiones bajos',
+
+  // On this day
+  'onThisDay.title': 'Un día como hoy',
+  'onThisDay.hide': 'Ocultar por hoy',
+  'onThisDay.monthsAgo': { one: 'Hace un mes', other: 'Hace {count} meses' },
+  'onThisDay.yearsAgo': { one: 'Hace un año', other: 'Hace {count} años' },
+  'onThisDay.loadFailed': 'No se pudieron cargar las entradas de este día',
+
+  // Calendar and year views
+  'calendar.previousMonth': 'Mes anterior',
+  'calendar.nextMonth': 'Mes siguiente',
+  'calendar.selected': 'Seleccionado',
+  'calendar.ratedEntry': 'Entrada valorada (pasa el cursor para verla)',
+  'calendar.addedLater': 'Añadida más tarde',
+  'calendar.clickHint': 'Haz clic en un día para ver su entrada o completar uno que faltó',
+  'calendar.screenReaderHint': 'Pasa el cursor para ver la entrada, haz clic para ver todos los detalles',
+  'calendar.thisYear': 'Este año',
+  'calendar.previousYear': 'Año anterior',
+  'calendar.nextYear': 'Año siguiente',
+  'calendar.noEntry': 'Sin entrada',
+  'calendar.clickToView': 'Haz clic para ver la entrada completa',
+  // History
+  'history.title': 'Historial',
+  'history.recorded': { one: '{count} entrada registrada', other: '{count} entradas registradas' },
+  'history.noEntries': 'Aún no hay entradas',
+  'history.calendarView': 'Vista de calendario',
+  'history.listView': 'Vista de lista',
+  'history.monthView': 'Mes',
+  'history.yearView': 'Año',
+  'history.emptyTitle': 'Tu camino de gratitud empieza hoy',
+  'history.emptyBody':
+    'Escribe entradas cada día para reunir tu colección de momentos de gratitud. Aparecerán aquí como una línea de tiempo visual.',
+  'history.emptyBackfill': '¿Te saltaste algún día? Elígelo en el calendario para completarlo.',
+  'history.writeFirst': 'Escribe tu primera entrada',
+  'history.selectDay': 'Selecciona un día para ver su entrada',
+  'history.allEntries': 'Todas las entradas',
+  'history.insights': 'Tendencias',
+  'history.noEntryFor': 'No hay entrada para el {date}',
+  'history.backfillLimit': {
+    one: 'Los días pasados se pueden completar hasta {count} día atrás.',
+    other: 'Los días pasados se pueden completar hasta {count} días atrás.',
+  },
+  'history.changeInSettings': 'Cambiar en Ajustes',
+  'history.filter': 'Filtrar',
+  'history.byTag': 'Por etiqueta',
+  'history.monthEmpty': 'Aún no hay entradas este mes. ¡Empieza a escribir para ver tus estadísticas!',
+  'history.statEntries': 'Entradas',
+  'history.statEntriesBackfilled': 'Entradas ({count} añadidas después)',
+  'history.statAverage': 'Valoración media',
+  'history.statBestDay': 'Mejor día',
+  'history.statComplete': 'Completado',
+  'history.byWeekday': 'Por día de la semana',
+  'history.byMonth': 'Por mes',
+  'history.averageFrom': 'Media de {average} en {entries}',
+  'history.noEntriesShort': 'Sin entradas',
+  'history.weekendsVsWeekdays': 'Fines de semana y entre semana',
+  'history.aboutTheSame': 'Más o menos igual',
+  'history.weekendsHigher': 'Los fines de semana tienen de media {difference} más',
+  'history.weekendsLower': 'Los fines de semana tienen de media {difference} menos',
+  'history.distribution': 'Distribución',
+  // Search
+  'search.title': 'Buscar',
+  'search.found': { one: '{count} entrada encontrada', other: '{count} entradas encontradas' },
+  'search.subtitle': 'Encuentra momentos por palabras, valoración o fecha',
+  'search.placeholder': 'Busca en tus entradas...',
+  'search.label': 'Buscar entradas',
+  'search.prompt': 'Escribe una palabra o elige un filtro para empezar a buscar.',
+  'search.noMatches': 'Ninguna entrada coincide con tu búsqueda.',
+  'search.ratingFrom': 'Valoración desde',
+  'search.ratingTo': 'Valoración hasta',
+  'search.clearFilters': 'Quitar filtros',
+  'search.rebuildFailed': 'No se pudo reconstruir el índice de búsqueda',
+
+  // Trends
+  'trends.title': 'Tendencias',
+  'trends.subtitle': '¿Tus días van a mejor? Las medias móviles suavizan los altibajos.',
+  'trends.range.30d': '30 días',
+  'trends.range.90d': '90 días',
+  'trends.range.1y': 'Año',
+  'trends.range.all': 'Todo',
+  'trends.entries': 'Entradas',
+  'trends.average': 'Media',
+  'trends.bestOn': 'Mejor · {date}',
+  'trends.bestDay': 'Mejor día',
+  'trends.worstOn': 'Peor · {date}',
+  'trends.worstDay': 'Peor día',
+  'trends.dailyRatings': 'Valoraciones diarias',
+  'trends.noEntries': 'Aún no hay entradas en este periodo.',
+  'trends.chartLabel': 'Valoraciones diarias con medias móviles de 7 y 30 días',
+  'trends.average7Value': '7 días {value}',
+  'trends.average30Value': '30 días {value}',
+  'trends.best': 'Mejor',
+  'trends.worst': 'Peor',
+  'trends.dailyRating': 'Valoración diaria',
+  'trends.average7': 'Media de 7 días',
+  'trends.average30': 'Media de 30 días',
+  'trends.gaps': 'Los huecos son días sin entrada',
+  // Your data
+  'data.title': 'Tus datos',
+  'data.subtitle': 'Las entradas solo se guardan en este dispositivo. Guarda una copia de seguridad en un lugar seguro.',
+  'data.downloadBackup': 'Descargar copia de seguridad',
+  'data.backupDescription': {
+    one: 'Guarda tu {count} entrada en un archivo JSON con fecha y hora. Las copias cifradas solo se pueden abrir con su contraseña.',
+    other: 'Guarda las {count} entradas en un archivo JSON con fecha y hora. Las copias cifradas solo se pueden abrir con su contraseña.',
+  },
+  'data.encrypt': 'Cifrar con una contraseña',
+  'data.passphrase': 'Contraseña',
+  'data.confirmPassphrase': 'Confirmar contraseña',
+  'data.passphraseTooShort': 'Usa al menos {count} caracteres',
+  'data.passphraseMismatch': 'Las contraseñas no coinciden',
+  'data.passphraseWarning': 'Si olvidas la contraseña, no hay forma de recuperar la copia.',
+  'data.encrypting': 'Cifrando...',
+  'data.preparing': 'Preparando...',
+  'data.backupFailed': 'No se pudo crear la copia de seguridad',
+  'data.exportTitle': 'Exportar para leer',
+  'data.exportDescription':
+    'Un archivo CSV para hojas de cálculo o un diario en Markdown agrupado por meses. Los archivos CSV se pueden volver a importar más abajo.',
+  'data.exportCsv': 'Hoja de cálculo CSV',
+  'data.exportMarkdown': 'Diario en Markdown',
+  'data.exportFailed': 'No se pudieron exportar las entradas',
+  'data.restoreTitle': 'Restaurar desde un archivo',
+  'data.restoreDescription': 'Sustituye todo el contenido de tu tarro por el de una copia de seguridad.',
+  'data.importTitle': 'Importar entradas',
+  'data.importDescription':
+    'Añade a tu tarro entradas de una copia JSON o de un archivo CSV. Tú eliges qué pasa cuando un día ya tiene entrada.',
+  'data.externalTitle': 'Importar desde otra app',
+  'data.externalDescription':
+    'Trae tu historial desde Daylio o Day One. Los días que ya tienen entrada se quedan como están.',
+  'data.trashTitle': 'Papelera',
+  'data.trashDescription': 'Las entradas eliminadas se guardan aquí un tiempo para que puedas recuperarlas.',
+  'data.openTrash': 'Abrir la papelera',
+  // Trash
+  'trash.backToData': 'Tus datos',
+  'trash.retention': {
+    one: 'Las entradas eliminadas se borran definitivamente después de {count} día.',
+    other: 'Las entradas eliminadas se borran definitivamente después de {count} días.',
+  },
+  'trash.empty': 'Vaciar papelera',
+  'trash.isEmpty': 'La papelera está vacía.',
+  'trash.purgeOn': 'Se borrará definitivamente el {date}',
+  'trash.restore': 'Restaurar',
+  'trash.deleteForever': 'Eliminar definitivamente',
+  'trash.confirmEmpty': '¿Vaciar la papelera?',
+  'trash.confirmDelete': '¿Eliminar definitivamente?',
+  'trash.emptyWarning': {
+    one: 'Se eliminará la {count} entrada de la papelera. Esta acción no se puede deshacer.',
+    other: 'Se eliminarán las {count} entradas de la papelera. Esta acción no se puede deshacer.',
+  },
+  'trash.deleteWarning': 'Esta entrada se eliminará. Esta acción no se puede deshacer.',
+  'trash.deleting': 'Eliminando...',
+  'trash.loadFailed': 'No se pudo cargar la papelera',
+  'trash.notFound': 'No se encontró la entrada en la papelera',
+  'trash.restoreConflict': 'El {date} ya tiene una entrada. Elimínala primero para restaurar esta.',
+  'trash.restoreFailed': 'No se pudo restaurar la entrada',
+  'trash.emptyFailed': 'No se pudo vaciar la papelera',
+  'trash.purgeFailed': 'No se pudo limpiar la papelera',
+  'data.readFailed': 'No se pudo leer el archivo',
+
+  // Encrypted backups
+  'backup.passphraseTooShort': 'La contraseña debe tener al menos {count} caracteres',
+  'backup.wrongPassphrase': 'Contraseña incorrecta. Revísala e inténtalo de nuevo.',
+  'backup.damaged': 'Esta copia cifrada está dañada y no se puede leer.',
+  'backup.newerVersion': 'Esta copia se hizo con una versión más reciente de la app. Actualízala antes de restaurarla.',
+  'backup.unsupported': 'Esta copia cifrada usa una configuración no compatible y no se puede leer.',
+  'backup.tampered': 'Esta copia se ha modificado o está dañada y no se puede restaurar.',
+  'backup.encryptedNotice': 'Esta copia está cifrada. Escribe la contraseña con la que se guardó.',
+  'backup.unlock': 'Desbloquear',
+  'backup.unlocking': 'Desbloqueando...',
+  'backup.unlockFailed': 'No se pudo desbloquear la copia',
+
+  // Restore
+  'restore.title': 'Restaurar copia de seguridad',
+  'restore.choose': 'Elige un archivo de copia. Tu tarro se sustituirá por su contenido.',
+  'restore.complete': 'Restauración completada.',
+  'restore.pick': 'Haz clic para elegir una copia',
+  'restore.made': 'Copia hecha',
+  'restore.appVersion': 'Versión de la app',
+  'restore.format': 'Formato',
+  'restore.formatVersion': 'v{version}',
+  'restore.plainList': 'Lista de entradas simple',
+  'restore.inBackup': 'En la copia',
+  'restore.inJar': 'En tu tarro',
+  'restore.invalid': 'No válidas',
+  'restore.warning': {
+    one: 'Se eliminará para siempre la {count} entrada de tu tarro y se sustituirá por las {backupCount} de la copia. Descarga antes una copia si puede que la quieras recuperar.',
+    other: 'Se eliminarán para siempre las {count} entradas de tu tarro y se sustituirán por las {backupCount} de la copia. Descarga antes una copia si puede que las quieras recuperar.',
+  },
+  'restore.removed': 'Eliminadas',
+  'restore.restored': 'Restauradas',
+  'restore.skipped': 'Omitidas',
+  'restore.restore': 'Restaurar',
+  'restore.restoring': 'Restaurando...',
+  'restore.replace': 'Sustituir mi tarro',
+  'restore.failed': 'La restauración falló',
+  'restore.failedNoChanges': 'La restauración falló; no se hizo ningún cambio.',
+  // Importing
+  'import.title': 'Importar entradas',
+  'import.choose': 'Elige una copia JSON o un archivo CSV. Verás qué cambia antes de guardar nada.',
+  'import.complete': 'Importación completada.',
+  'import.pick': 'Haz clic para elegir un archivo',
+  'import.new': 'Nuevas',
+  'import.identical': 'Idénticas',
+  'import.conflicts': 'Conflictos',
+  'import.forConflicts': 'En caso de conflicto',
+  'import.strategyFor': 'Estrategia para {date}',
+  'import.defaultStrategy': 'Predeterminada ({strategy})',
+  'import.local': 'Local',
+  'import.imported': 'Importada',
+  'import.cannotCombine': 'No se pueden combinar: {reason}. Se conservará la entrada local.',
+  'import.updatedAt': 'Actualizada {time}',
+  'import.willSkip': {
+    one: 'Se omitirá {count} registro',
+    other: 'Se omitirán {count} registros',
+  },
+  'import.added': 'Añadidas',
+  'import.updated': 'Actualizadas',
+  'import.unchanged': 'Sin cambios',
+  'import.import': 'Importar',
+  'import.importing': 'Importando...',
+  'import.failed': 'La importación falló',
+  'import.failedNoChanges': 'La importación falló; no se hizo ningún cambio.',
+  'import.strategy.keep_local': 'Conservar la local',
+  'import.strategy.keep_imported': 'Conservar la importada',
+  'import.strategy.keep_newer': 'Conservar la más reciente',
+  'import.strategy.concatenate': 'Combinar ambas',
+  'import.invalidJson': 'Archivo de importación no válido: no es JSON válido',
+  'import.encrypted': 'Esta copia está cifrada. Desbloquéala primero con su contraseña.',
+  'import.notAList': 'Archivo de importación no válido: se esperaba una lista de entradas',
+  'import.notAnObject': 'El registro no es un objeto',
+  'import.dateRequired': 'La fecha de la entrada es obligatoria',
+  'import.textNotText': 'El texto de gratitud debe ser texto',
+  'import.ratingNotNumber': 'La valoración debe ser un número',
+  'import.duplicateDate': 'Otro registro del archivo también tiene la fecha {date}',
+  'import.csvUnclosedQuote': 'Archivo CSV no válido: hay un valor entre comillas sin cerrar',
+  'import.csvEmpty': 'Archivo CSV no válido: el archivo está vacío',
+  'import.csvMissingColumns': {
+    one: 'Archivo CSV no válido: falta la columna {columns}',
+    other: 'Archivo CSV no válido: faltan las columnas {columns}',
+  },
+  'import.csvBadRating': 'La valoración "{value}" no es un número entre 1 y 7',
+  'import.csvUnknownRating': 'Etiqueta de valoración desconocida "{label}"',
+  'import.csvBadCreatedAt': 'La fecha de creación "{value}" no es una fecha y hora válida',
+  'import.csvBadUpdatedAt': 'La fecha de actualización "{value}" no es una fecha y hora válida',
+
+  // Jar
+  'jar.title': 'El tarro',
+  'jar.collected': { one: '{count} momento guardado', other: '{count} momentos guardados' },
+  'jar.collectedIn': {
+    one: '{count} momento guardado en {period}',
+    other: '{count} momentos guardados en {period}',
+  },
+  'jar.year': 'Año',
+  'jar.month': 'Mes',
+  'jar.allYears': 'Todos los años',
+  'jar.allMonths': 'Todos los meses',
+  'jar.hint': 'Toca una canica para leerla o agita el tarro para una sorpresa.',
+  'jar.shake': 'Agitar el tarro',
+  'jar.nothingToDraw': 'Todavía no hay nada que sacar aquí.',
+  'jar.drawFailed': 'No se pudo sacar nada del tarro',
+  'jar.eachMarble': 'Cada canica es un día en el que sentiste gratitud',
+  'jar.ratingOrBetter': '{rating} o mejor',
+  'jar.empty': 'Tu tarro está vacío. Escribe tu primera entrada para añadir una canica.',
+  'jar.canvasLabel': { one: 'Tarro con {count} entrada', other: 'Tarro con {count} entradas' },
+  'jar.resetFailed': 'No se pudo reiniciar el historial del tarro',
+  'jar.fromTheJar': 'Del tarro',
+  'jar.drawOptions': 'Opciones de sorteo',
+  'jar.pullAnother': 'Sacar otra →',
+  'jar.lastThisRound': 'La última de esta ronda',
+  'jar.leftThisRound': 'Quedan {remaining} de {total} en esta ronda',
+  'jar.noMatches': 'Ninguna entrada coincide con estas opciones.',
+  'jar.daysRated': 'Días valorados',
+  'jar.draw': 'Sacar',
+  'jar.weighting.none': 'Por igual',
+  'jar.weighting.older': 'Preferir entradas antiguas',
+  'jar.weighting.unseen': 'Preferir las menos sacadas',
+  'jar.drawFromWholeJar': 'Sacar de todo el tarro',
+
+  // Importing from other apps
+  'import.moodOnlyNote': 'Estado de ánimo: {mood}',
+  'import.moodOnlyNoteWithActivities': 'Estado de ánimo: {mood}. Actividades: {activities}',
+  'import.externalTitle': 'Importar desde otra app',
+  'import.externalChoose': 'Elige la app y su archivo de exportación. No se guarda nada hasta que confirmes.',
+  'import.from': 'Importar desde',
+  'import.ratings': 'Valoraciones',
+  'import.ratingFor': 'Valoración para {mood}',
+  'import.sameDayNote': 'Las entradas del mismo día se combinan y se promedian sus valoraciones.',
+  'import.alreadyInJar': 'Ya en el tarro',
+  'import.andMore': 'y {count} más',
+  'import.daysWillSkip': {
+    one: 'Se omitirá {count} día',
+    other: 'Se omitirán {count} días',
+  },
+  'import.failedCount': 'Fallidas',
+  'import.importEntries': {
+    one: 'Importar {count} entrada',
+    other: 'Importar {count} entradas',
+  },
+  'import.previewFailed': 'No se pudo crear la vista previa',
+  'import.noEntries': 'El archivo no tiene entradas',
+  'import.source.daylio': 'Daylio (exportación CSV)',
+  'import.source.dayone': 'Day One (exportación JSON)',
+  'import.dayoneStarred': 'Entradas destacadas',
+  'import.dayoneOther': 'Otras entradas',
+  'import.noMood': '(sin estado de ánimo)',
+  'import.unknownDate': 'Fecha desconocida',
+  'import.invalidDate': 'Falta la fecha o no es válida',
+  'import.noNote': 'No hay nota que importar',
+  'import.saveFailed': 'No se pudo guardar la entrada',
+  'import.notDaylio': 'No parece una exportación de Daylio (falta la columna full_date o mood)',
+  'import.notDayOneJson': 'No parece una exportación de Day One (no es JSON válido)',
+  'import.notDayOneList': 'No parece una exportación de Day One (no hay lista de entradas)',
+
+  // Settings
+  'settings.languageAndDates': 'Idioma y fechas',
+  'settings.languageAndDatesDescription': 'El idioma de la aplicación y cómo se muestran las fechas',
+  'settings.language': 'Idioma',
+  'settings.languageHint': 'Las fechas, las valoraciones y la página Hoy siguen este idioma',
+  'settings.weekStartsOn': 'La semana empieza el',
+  'settings.dateFormat': 'Formato de fecha',
+  'settings.reminders': 'Recordatorios',
+  'settings.remindersDescription': 'Un aviso cuando el día aún no tiene entrada',
+  'settings.remindersOpenOnly':
+    'Los recordatorios solo se comprueban mientras la app está abierta, en una pestaña o instalada. Este navegador no puede comprobarlos en segundo plano, así que si está cerrada no se muestra ningún recordatorio.',
+  'settings.remindersInBackground':
+    'Los recordatorios también se comprueban con la app cerrada. El navegador decide el momento exacto, así que alguno puede llegar un poco tarde.',
+  'settings.remindAt': 'Recordarme a las',
+  'settings.remindAtHint': { one: 'Hasta {count} vez al día', other: 'Hasta {count} veces al día' },
+  'settings.reminderTime': 'Recordatorio {number}',
+  'settings.removeReminder': 'Quitar el recordatorio de las {time}',
+  'settings.turnOnReminders': 'Activar recordatorios',
+  'settings.addReminderTime': 'Añadir una hora',
+  'settings.quietDays': 'Días sin avisos',
+  'settings.quietDaysHint': 'Sin recordatorios estos días',
+  'settings.notificationsOn': 'Las notificaciones están activadas.',
+  'settings.notificationsAsk': 'Permite las notificaciones para recibir avisos mientras la app está en segundo plano.',
+  'settings.notificationsBlocked':
+    'Tu navegador bloquea las notificaciones, así que los recordatorios se muestran como un aviso en la app.',
+  'settings.notificationsUnsupported':
+    'Este navegador no puede mostrar notificaciones, así que los recordatorios se muestran como un aviso en la app.',
+  'settings.allowNotifications': 'Permitir notificaciones',
+  'settings.tryReminder': 'Probar el próximo recordatorio ahora',
+  'settings.reminderTestResult': 'Próximo recordatorio ({time}): {outcome}',
+  'settings.reminderOutcome.notified': 'se mostró una notificación',
+  'settings.reminderOutcome.banner': 'las notificaciones están desactivadas, así que se mostró el aviso en la app',
+  'settings.reminderOutcome.written': 'ese día ya tiene una entrada, así que no se mostró nada',
+  'settings.reminderOutcome.quiet': 'es un día sin avisos, así que no se mostró nada',
+  'settings.reminderOutcome.failed': 'la comprobación falló',
+  'settings.noReminderComing': 'No hay ningún recordatorio próximo',
+  'settings.reminderCheckFailed': 'La comprobación del recordatorio falló',
+  'settings.title': 'Ajustes',
+  'settings.subtitle': 'Los cambios se guardan automáticamente en este dispositivo',
+  'settings.writing': 'Escritura',
+  'settings.writingDescription': 'Límites de las entradas y cómo se cuentan las rachas',
+  'settings.maxLength': 'Longitud máxima de una entrada',
+  'settings.maxLengthHint': '{min}–{max} caracteres. Las entradas más largas que ya existan se quedan como están.',
+  'settings.backfill': 'Completar días pasados',
+  'settings.backfillHint': 'Hasta cuándo puedes añadir una entrada desde el calendario del Historial',
+  'settings.backfillAny': 'Cualquier día pasado',
+  'settings.backfillDays': { one: 'Hasta {count} día atrás', other: 'Hasta {count} días atrás' },
+  'settings.graceDays': 'Días de gracia',
+  'settings.graceDaysHint': 'Días seguidos que puedes saltarte sin romper tu racha',
+  'settings.graceNone': 'Ninguno',
+  'settings.ratingScale': 'Escala de valoración',
+  'settings.ratingScaleDescription': 'Los niveles con los que valoras tus días, del más bajo al más alto',
+  'settings.levels': 'Niveles',
+  'settings.levelsHint':
+    'Las entradas pasadas conservan su valoración: cada una se muestra en el nivel más cercano y los promedios no cambian',
+  'settings.levelCount': { one: '{count} nivel', other: '{count} niveles' },
+  'settings.levelCountBuiltIn': '{levels} (predeterminada)',
+  'settings.levelColor': 'Color del nivel {number}',
+  'settings.levelEmoji': 'Emoji del nivel {number}',
+  'settings.levelLabel': 'Etiqueta del nivel {number}',
+  'settings.customScaleNote': 'Tu propia escala. Sus etiquetas son las mismas en todos los idiomas.',
+  'settings.builtInScaleNote': 'Las etiquetas predeterminadas siguen el idioma de la app. Al cambiar un nivel se guarda tu propia copia.',
+  'settings.useBuiltInScale': 'Usar la escala predeterminada',
+  'settings.sync': 'Sincronización',
+  'settings.syncDescription': 'Mantén tus entradas al día entre dispositivos con un servidor de sincronización',
+  'settings.syncServer': 'Servidor de sincronización',
+  'settings.syncServerHint': 'Déjalo vacío para guardar todo solo en este dispositivo.',
+  'settings.general': 'General',
+  'settings.landingPage': 'Abrir la app en',
+  'settings.trashRetention': 'Conservar las entradas eliminadas durante',
+  'settings.trashRetentionHint': 'Las entradas de la papelera se borran definitivamente pasado este tiempo',
+  'settings.restoreDefaults': 'Restablecer valores predeterminados',
+  'settings.saveFailed': 'No se pudieron guardar los ajustes',
+  'settings.resetFailed': 'No se pudieron restablecer los ajustes',
+  'settings.invalid.language': 'Idioma desconocido',
+  'settings.invalid.weekStartsOn': 'La semana debe empezar en domingo, lunes o sábado',
+  'settings.invalid.dateFormat': 'Formato de fecha desconocido',
+  'settings.invalid.landingPage': 'Página de inicio desconocida',
+  'settings.invalid.maxTextLength': 'El límite de texto debe estar entre {min} y {max} caracteres',
+  'settings.invalid.syncServerUrl': 'El servidor de sincronización debe ser una URL http(s) o una ruta como /api/sync',
+  'settings.invalid.trashRetention': 'La retención de la papelera debe ser de {options} días',
+  'settings.invalid.graceDays': 'Los días de gracia deben estar entre 0 y {max}',
+  'settings.invalid.backfillWindow': 'El periodo para completar días debe ser de {options} días',
+  'settings.invalid.hiddenOn': 'La fecha oculta debe tener el formato AAAA-MM-DD',
+  'settings.invalid.reminderTimes': 'Los recordatorios necesitan hasta {max} horas distintas, como 20:30',
+  'settings.invalid.quietDays': 'Los días sin recordatorios deben ser días de la semana',
+  'settings.invalid.ratingScale':
+    'Una escala de valoración necesita de {min} a {max} niveles, cada uno con una etiqueta de hasta {labelLength} caracteres y un color',
+  'settings.invalid.unknown': 'Ajuste desconocido',
+
+  // Sync
+  'sync.synced': 'Sincronizado',
+  'sync.syncing': 'Sincronizando',
+  'sync.offline': 'Sin conexión',
+  'sync.failed': 'La sincronización falló',
+  'sync.lastSynced': 'Última sincronización {time}',
+  'sync.notYet': 'Aún no se ha sincronizado',
+  'sync.pending': { one: '{count} cambio pendiente', other: '{count} cambios pendientes' },
+  'sync.syncNow': 'Sincronizar ahora',
+  'sync.statusAction': '{status}. Sincronizar ahora',
+  'sync.unreachable': 'No se puede conectar con el servidor de sincronización',
+  'sync.serverError': 'Error del servidor de sincronización ({status})',
+}
@@ -0,0 +1,186 @@
+import { addDays, format, subDays } from 'date-fns'
+import type { Entry } from '@/types/entry'
+import { getTodayDateString, parseEntryDate } from './dateService'
+import type { MessageKey } from '@/lib/i18n'
+
+/**
+ * Analytics Service - Time series derived from entries
+ *
+ * Pure functions: callers pass the entries they want analysed
+ * (usually the entry store's list) and get plain data back for charts
+ */
+
+/**
+ * Date ranges offered for trend charts
+ */
+export type TrendRange = '30d' | '90d' | '1y' | 'all'
+
+/**
+ * Message keys for trend range labels (for UI)
+ */
+export const TREND_RANGE_LABELS: Record<TrendRange, MessageKey> = {
+  '30d': 'trends.range.30d',
+  '90d': 'trends.range.90d',
+  '1y': 'trends.range.1y',
+  all: 'trends.range.all',
+}
+
+/**
+ * Days covered by each fixed range (including today)
+ */
+const TREND_RANGE_DAYS: Record<Exclude<TrendRange, 'all'>, number> = {
+  '30d': 30,
+  '90d': 90,
+  '1y': 365,
+}
+
+/**
+ * Size of the longer moving average, so its first points have a full window
+ */
+const LONGEST_WINDOW = 30
+
+/**
+ * One calendar day in a rating series
+ */
+export interface DailyRatingPoint {
+  /** Date string (YYYY-MM-DD) */
+  date: string
+  /** Rating that day, or null if there is no entry */
+  rating: number | null
+  /** Mean rating of the entries in the 7 days ending here (null if none) */
+  average7: number | null
+  /** Mean rating of the entries in the 30 days ending here (null if none) */
+  average30: number | null
+}
+
+/**
+ * A day singled out in a series
+ */
+export interface RatingExtreme {
+  date: string
+  rating: number
+}
+
+/**
+ * Everything a trend chart needs
+ */
+export interface RatingTrend {
+  /** First and last day of the series (YYYY-MM-DD) */
+  startDate: string
+  endDate: string
+  /** One point per calendar day, oldest first */
+  points: DailyRatingPoint[]
+  /** Highest-rated day (most recent on a tie), null if the range is empty */
+  best: RatingExtreme | null
+  /** Lowest-rated day (most recent on a tie), null if the range is empty */
+  worst: RatingExtreme | null
+  /** Mean rating over the range, null if the range is empty */
+  average: number | null
+  /** Days in the range with an entry */
+  entryCount: number
+}
+
+/**
+ * Get the first day of a trend range
+ * @param range Range to resolve
+ * @param entries Entries (used for 'all' to find the first entry)
+ * @param today Last day of the range
+ * @returns Date string (YYYY-MM-DD)
+ */
+export function getTrendRangeStart(range: TrendRange, entries: Entry[], today: string): string {
+  if (range === 'all') {
+    const first = entries.reduce<string | null>(
+      (earliest, entry) => (!earliest || entry.entry_date < earliest ? entry.entry_date : earliest),
+      null
+    )
+    return first && first < today ? first : today
+  }
+  return format(subDays(parseEntryDate(today), TREND_RANGE_DAYS[range] - 1), 'yyyy-MM-dd')
+}
+
+/**
+ * Build a daily rating series with moving averages
+ * Entries before startDate still count towards the first averages
+ * @param entries Entries to include (one per day)
+ * @param startDate First day (YYYY-MM-DD)
+ * @param endDate Last day (YYYY-MM-DD)
+ * @returns One point per calendar day, oldest first
+ */
+export function buildDailyRatingSeries(
+  entries: Entry[],
+  startDate: string,
+  endDate: string
+): DailyRatingPoint[] {
+  const ratingsByDate = new Map(entries.map((entry) => [entry.entry_date, entry.rating]))
+
+  // Ratings for every day from the warm-up period to the end
+  const days: { date: string; rating: number | null }[] = []
+  const end = parseEntryDate(endDate)
+  for (
+    let day = subDays(parseEntryDate(startDate), LONGEST_WINDOW - 1);
+    day <= end;
+    day = addDays(day, 1)
+  ) {
+    const date = format(day, 'yyyy-MM-dd')
+    days.push({ date, rating: ratingsByDate.get(date) ?? null })
+  }
+
+  // Running sums and counts give each window's mean in constant time
+  const sums = [0]
+  const counts = [0]
+  for (const { rating } of days) {
+    sums.push(sums[sums.length - 1] + (rating ?? 0))
+    counts.push(counts[counts.length - 1] + (rating === null ? 0 : 1))
+  }
+  const windowMean = (endIndex: number, size: number) => {
+    const from = Math.max(0, endIndex + 1 - size)
+    const count = counts[endIndex + 1] - counts[from]
+    return count === 0 ? null : (sums[endIndex + 1] - sums[from]) / count
+  }
+
+  return days.slice(LONGEST_WINDOW - 1).map((day, index) => {
+    const dayIndex = index + LONGEST_WINDOW - 1
+    return {
+      ...day,
+      average7: windowMean(dayIndex, 7),
+      average30: windowMean(dayIndex, LONGEST_WINDOW),
+    }
+  })
+}
+
+/**
+ * Calculate the rating trend for a range
+ * @param entries All entries
+ * @param range Range to chart
+ * @param today Last day of the range (defaults to the local date)
+ */
+export function calculateRatingTrend(
+  entries: Entry[],
+  range: TrendRange,
+  today: string = getTodayDateString()
+): RatingTrend {
+  const startDate = getTrendRangeStart(range, entries, today)
+  const points = buildDailyRatingSeries(entries, startDate, today)
+
+  let best: RatingExtreme | null = null
+  let worst: RatingExtreme | null = null
+  let sum = 0
+  let entryCount = 0
+  for (const { date, rating } of points) {
+    if (rating === null) continue
+    if (!best || rating >= best.rating) best = { date, rating }
+    if (!worst || rating <= worst.rating) worst = { date, rating }
+    sum += rating
+    entryCount++
+  }
+
+  return {
+    startDate,
+    endDate: today,
+    points,
+    best,
+    worst,
+    average: entryCount > 0 ? sum / entryCount : null,
+    entryCount,
+  }
+}
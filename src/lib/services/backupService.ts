@@ -0,0 +1,144 @@
+import { format } from 'date-fns'
+import { countLiveEntries, db, exportDatabase } from '../db/schema'
+import { isLiveEntry } from '@/types'
+import { translate } from '@/lib/i18n'
+import { getPlanEntries, type ImportPlan, type ImportSummary } from './importService'
+import { indexEntry } from './searchService'
+import { tombstoneReplacedEntries } from './syncService'
+import { encryptBackup } from './encryptionService'
+import { entriesToCsv } from './csvService'
+import { entriesToMarkdown } from './markdownService'
+import { getFileRatingScale } from './ratingScaleService'
+
+/**
+ * Backup Service - Download and restore full backups of the jar
+ *
+ * Merging a file into the jar is handled by the import service;
+ * this service covers full backups, CSV/Markdown exports and
+ * destructive "replace" restores
+ */
+
+/**
+ * Formats for exports meant to be read outside the app
+ */
+export type ExportFormat = 'csv' | 'markdown'
+
+const EXPORT_FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  csv: { extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  markdown: { extension: 'md', mimeType: 'text/markdown;charset=utf-8' },
+}
+
+/**
+ * Result of a replace restore
+ */
+export interface RestoreSummary extends ImportSummary {
+  /** Local entries deleted before the backup was written */
+  removed: number
+}
+
+/**
+ * Options for createBackupFile()
+ */
+export interface BackupFileOptions {
+  /** Encrypt the backup with this passphrase */
+  passphrase?: string
+}
+
+/**
+ * Build a timestamped backup file of every entry
+ * @param options Optional passphrase to encrypt the file with
+ * @returns File name and JSON contents
+ */
+export async function createBackupFile(
+  options: BackupFileOptions = {}
+): Promise<{ filename: string; content: string }> {
+  const plain = await exportDatabase()
+  const timestamp = format(new Date(), 'yyyy-MM-dd-HHmm')
+
+  if (options.passphrase) {
+    return {
+      filename: `gratefulness-jar-backup-${timestamp}-encrypted.json`,
+      content: await encryptBackup(plain, options.passphrase),
+    }
+  }
+
+  return {
+    filename: `gratefulness-jar-backup-${timestamp}.json`,
+    content: plain,
+  }
+}
+
+/**
+ * Build a timestamped CSV (for spreadsheets) or Markdown (journal) export
+ * @param exportFormat File format
+ * @returns File name, contents and MIME type
+ */
+export async function createExportFile(
+  exportFormat: ExportFormat
+): Promise<{ filename: string; content: string; mimeType: string }> {
+  try {
+    const entries = await db.entries.filter(isLiveEntry).toArray()
+    const now = new Date()
+    const { extension, mimeType } = EXPORT_FILE_TYPES[exportFormat]
+    const scale = getFileRatingScale()
+    return {
+      filename: `gratefulness-jar-${format(now, 'yyyy-MM-dd-HHmm')}.${extension}`,
+      content:
+        exportFormat === 'csv' ? entriesToCsv(entries, scale) : entriesToMarkdown(entries, now, scale),
+      mimeType,
+    }
+  } catch (error) {
+    console.error('Failed to export entries:', error)
+    throw new Error(translate('data.exportFailed'))
+  }
+}
+
+/**
+ * Replace every local entry with the entries in an import plan
+ * Revision history and jar draws go with the old entries
+ * Runs in one transaction: if anything fails, the jar is left unchanged
+ * @param plan Plan from analyzeImport()
+ * @param onProgress Called after each entry is written
+ * @returns Summary of what changed
+ */
+export async function restoreBackup(
+  plan: ImportPlan,
+  onProgress?: (done: number, total: number) => void
+): Promise<RestoreSummary> {
+  const entries = getPlanEntries(plan)
+  const summary: RestoreSummary = {
+    added: 0,
+    updated: 0,
+    unchanged: 0,
+    skipped: plan.invalid.length,
+    removed: 0,
+  }
+
+  try {
+    const tables = [db.entries, db.searchIndex, db.revisions, db.jarDraws, db.syncTombstones, db.syncState]
+    await db.transaction('rw', tables, async () => {
+      summary.removed = await countLiveEntries()
+      await tombstoneReplacedEntries(new Set(entries.map((entry) => entry.id)))
+      await db.entries.clear()
+      await db.searchIndex.clear()
+      await db.revisions.clear()
+      await db.jarDraws.clear()
+
+      for (const entry of entries) {
+        await db.entries.add(entry)
+        await indexEntry(entry)
+        summary.added++
+        onProgress?.(summary.added, entries.length)
+      }
+    })
+  } catch (error) {
+    console.error('Failed to restore backup:', error)
+    throw new Error(
+      error instanceof Error
+        ? `${translate('restore.failedNoChanges')} ${error.message}`
+        : translate('restore.failedNoChanges')
+    )
+  }
+
+  return summary
+}
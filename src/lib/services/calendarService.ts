@@ -1,6 +1,7 @@
 import type { Entry } from '@/types/entry'
-import { Rating } from '@/types/rating'
-import { getDatesInMonth } from './dateService'
+import type { WeekStartDay } from '@/types/settings'
+import { getDateString, getDatesInMonth } from './dateService'
+import { getRatingScale, toScaleAverage } from './ratingScaleService'
 
 /**
  * Calendar statistics for a given month
@@ -8,10 +9,12 @@ import { getDatesInMonth } from './dateService'
 export interface MonthStats {
   /** Total number of entries in the month */
   totalEntries: number
-  /** Average rating across all entries (null if no entries) */
+  /** Entries written after their day (missed days filled in) */
+  backfilledEntries: number
+  /** Average rating on the rating scale, from 1 to its level count (null if no entries) */
   averageRating: number | null
-  /** Best day of the month with highest rating */
-  bestDay: { date: string; rating: Rating } | null
+  /** Best day of the month with highest rating (stored 1-7 value) */
+  bestDay: { date: string; rating: number } | null
   /** Percentage of days with entries (0-100) */
   completionRate: number
 }
@@ -21,12 +24,14 @@ export interface MonthStats {
  * @param entries All entries to consider
  * @param year Year (e.g., 2024)
  * @param month Month (1-12)
+ * @param levelCount Levels on the rating scale the average is given on
  * @returns Month statistics
  */
 export function calculateMonthStats(
   entries: Entry[],
   year: number,
-  month: number
+  month: number,
+  levelCount: number = getRatingScale().length
 ): MonthStats {
   // Get all dates in the month
   const datesInMonth = getDatesInMonth(year, month)
@@ -38,16 +43,18 @@ export function calculateMonthStats(
   )
 
   const totalEntries = monthEntries.length
+  const backfilledEntries = monthEntries.filter((entry) => entry.backfilled).length
 
-  // Calculate average rating
+  // Average the stored ratings, then place the result on the scale,
+  // so entries rated on an earlier scale count at their true weight
   let averageRating: number | null = null
   if (totalEntries > 0) {
     const sumRatings = monthEntries.reduce((sum, entry) => sum + entry.rating, 0)
-    averageRating = sumRatings / totalEntries
+    averageRating = toScaleAverage(sumRatings / totalEntries, levelCount)
   }
 
   // Find best day (highest rating)
-  let bestDay: { date: string; rating: Rating } | null = null
+  let bestDay: { date: string; rating: number } | null = null
   if (totalEntries > 0) {
     const sorted = [...monthEntries].sort((a, b) => b.rating - a.rating)
     const best = sorted[0]
@@ -64,6 +71,7 @@ export function calculateMonthStats(
 
   return {
     totalEntries,
+    backfilledEntries,
     averageRating,
     bestDay,
     completionRate,
@@ -71,21 +79,40 @@ export function calculateMonthStats(
 }
 
 /**
- * Get a subtle emoji that represents a rating
- * Uses calm, journal-appropriate emojis
- * @param rating Rating value (1-7)
- * @returns Emoji string
+ * One column of the year heatmap
  */
-export function getRatingEmoji(rating: Rating): string {
-  const emojiMap: Record<Rating, string> = {
-    [Rating.NIGHTMARE]: '😞',
-    [Rating.TERRIBLE]: '😔',
-    [Rating.BAD]: '😕',
-    [Rating.OK]: '😐',
-    [Rating.GOOD]: '🙂',
-    [Rating.GREAT]: '😊',
-    [Rating.THE_BEST]: '✨',
+export interface HeatmapWeek {
+  /** Seven date strings in weekday order; null for days outside the year */
+  days: (string | null)[]
+  /** Month (1-12) that starts in this week, for the column label */
+  monthStart: number | null
+}
+
+/**
+ * Lay out a year as week columns, like a contribution graph
+ * @param year Year (e.g., 2024)
+ * @param weekStartsOn First day of each column (0 = Sunday)
+ * @returns 53 or 54 weeks, oldest first
+ */
+export function getYearWeeks(year: number, weekStartsOn: WeekStartDay): HeatmapWeek[] {
+  const weeks: HeatmapWeek[] = []
+  const firstDay = new Date(year, 0, 1)
+  const padding = (firstDay.getDay() - weekStartsOn + 7) % 7
+  const cursor = new Date(year, 0, 1 - padding)
+
+  while (cursor.getFullYear() <= year) {
+    const week: HeatmapWeek = { days: [], monthStart: null }
+    for (let i = 0; i < 7; i++) {
+      if (cursor.getFullYear() === year) {
+        week.days.push(getDateString(cursor))
+        if (cursor.getDate() === 1) week.monthStart = cursor.getMonth() + 1
+      } else {
+        week.days.push(null)
+      }
+      cursor.setDate(cursor.getDate() + 1)
+    }
+    weeks.push(week)
   }
 
-  return emojiMap[rating] || '·'
+  return weeks
 }
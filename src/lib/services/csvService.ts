@@ -0,0 +1,285 @@
+import type { CreateEntryInput, Entry, RatingLevel } from '@/types'
+import { RATING_LABELS, getAllRatings, isRatingValue } from '@/types'
+import { translate, type MessageKey } from '@/lib/i18n'
+import { getDefaultRatingScale, getRatingLevel, levelToRating } from './ratingScaleService'
+
+/**
+ * CSV Service - Reading and writing entries as CSV (RFC 4180)
+ *
+ * Pure functions only: the import service validates the rows and
+ * decides what to do with them
+ */
+
+/**
+ * Columns written by entriesToCsv(), in order
+ */
+export const ENTRY_CSV_COLUMNS = [
+  'date',
+  'rating',
+  'rating_label',
+  'text',
+  'tags',
+  'created_at',
+  'updated_at',
+] as const
+
+export type EntryCsvColumn = (typeof ENTRY_CSV_COLUMNS)[number]
+
+/**
+ * Other header names accepted on import (e.g. from the JSON field names)
+ */
+const COLUMN_ALIASES: Record<string, EntryCsvColumn> = {
+  entry_date: 'date',
+  gratitude_text: 'text',
+  label: 'rating_label',
+}
+
+/**
+ * Separator between tags in the tags column
+ */
+const TAG_SEPARATOR = ', '
+
+/**
+ * Characters that make spreadsheets treat a cell as a formula
+ */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+/**
+ * Byte order mark so spreadsheet apps open the file as UTF-8
+ */
+const BOM = '\uFEFF'
+
+/**
+ * Entry data read from one CSV row
+ * Not validated yet: fields may be missing or out of range
+ */
+export interface CsvEntryRow {
+  input: Partial<CreateEntryInput> & Partial<Pick<Entry, 'created_at' | 'updated_at'>>
+  /** Problems reading the row's cells */
+  errors: string[]
+}
+
+/**
+ * Parse CSV text into rows of cells
+ * Handles quoted cells with commas, escaped quotes and line breaks
+ * @param text CSV text
+ * @returns Rows of raw cell values (blank lines skipped)
+ * @throws Error if a quoted cell is never closed
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+  let i = text.startsWith(BOM) ? 1 : 0
+
+  const endRow = () => {
+    row.push(cell)
+    if (row.length > 1 || row[0] !== '') rows.push(row)
+    row = []
+    cell = ''
+  }
+
+  for (; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          cell += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        cell += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      endRow()
+    } else {
+      cell += char
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error(translate('import.csvUnclosedQuote'))
+  }
+  if (cell !== '' || row.length > 0) endRow()
+
+  return rows
+}
+
+/**
+ * Quote a cell if it contains a separator, quote or line break
+ */
+function formatCell(value: string): string {
+  return /[",\r\n]/.test(value) || value !== value.trim()
+    ? `"${value.replace(/"/g, '""')}"`
+    : value
+}
+
+/**
+ * Write rows of cells as CSV text (CRLF line endings)
+ * @param rows Rows of cell values
+ * @returns CSV text
+ */
+export function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(formatCell).join(',')).join('\r\n') + '\r\n'
+}
+
+/**
+ * Stop user text from running as a spreadsheet formula
+ * The leading apostrophe is hidden by spreadsheets and removed on import
+ */
+function escapeFormula(value: string): string {
+  return FORMULA_PREFIX.test(value) ? `'${value}` : value
+}
+
+function unescapeFormula(value: string): string {
+  return value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value
+}
+
+/**
+ * Export entries as CSV, oldest first
+ * The rating column keeps the stored value; the label is the nearest level's
+ * @param entries Entries to export
+ * @param scale Rating scale for the labels (defaults to the built-in English one)
+ * @returns CSV text with a header row
+ */
+export function entriesToCsv(entries: Entry[], scale: RatingLevel[] = getDefaultRatingScale('en')): string {
+  const sorted = [...entries].sort((a, b) => a.entry_date.localeCompare(b.entry_date))
+  const rows = sorted.map((entry) => [
+    entry.entry_date,
+    String(entry.rating),
+    getRatingLevel(entry.rating, scale).label,
+    escapeFormula(entry.gratitude_text),
+    (entry.tags ?? []).join(TAG_SEPARATOR),
+    new Date(entry.created_at).toISOString(),
+    new Date(entry.updated_at).toISOString(),
+  ])
+  return BOM + toCsv([[...ENTRY_CSV_COLUMNS], ...rows])
+}
+
+/**
+ * Map a header cell to a known column
+ */
+function toColumn(header: string): EntryCsvColumn | null {
+  const key = header.trim().toLowerCase().replace(/[\s-]+/g, '_')
+  if ((ENTRY_CSV_COLUMNS as readonly string[]).includes(key)) return key as EntryCsvColumn
+  return COLUMN_ALIASES[key] ?? null
+}
+
+/**
+ * Read a rating from the number column, falling back to the label column
+ * Labels are looked up on the scale first, then among the built-in English labels
+ */
+function readRating(
+  value: string,
+  label: string,
+  scale: RatingLevel[],
+  errors: string[]
+): number | undefined {
+  if (value.trim()) {
+    const rating = Number(value)
+    if (!isRatingValue(rating)) {
+      errors.push(translate('import.csvBadRating', { value }))
+      return undefined
+    }
+    return rating
+  }
+
+  if (label.trim()) {
+    const wanted = label.trim().toLowerCase()
+    const level = scale.findIndex((item) => item.label.toLowerCase() === wanted)
+    if (level !== -1) return levelToRating(level + 1, scale.length)
+
+    const match = getAllRatings().find((rating) => RATING_LABELS[rating].toLowerCase() === wanted)
+    if (match === undefined) {
+      errors.push(translate('import.csvUnknownRating', { label }))
+    }
+    return match
+  }
+
+  return undefined
+}
+
+/**
+ * Read an ISO 8601 timestamp (or Unix milliseconds)
+ * @param invalidMessage Message key for a value that isn't a timestamp
+ */
+function readTimestamp(
+  value: string,
+  invalidMessage: MessageKey,
+  errors: string[]
+): number | undefined {
+  if (!value.trim()) return undefined
+  const time = /^\d+$/.test(value.trim()) ? Number(value) : Date.parse(value)
+  if (Number.isNaN(time)) {
+    errors.push(translate(invalidMessage, { value }))
+    return undefined
+  }
+  return time
+}
+
+/**
+ * Read entries from CSV text
+ * Columns are matched by header name, so order and extra columns don't matter
+ * @param text CSV text with a header row
+ * @param scale Rating scale to read labels with (defaults to the built-in English one)
+ * @returns One row per data line, in file order
+ * @throws Error if the file can't be parsed or is missing required columns
+ */
+export function parseEntriesCsv(
+  text: string,
+  scale: RatingLevel[] = getDefaultRatingScale('en')
+): CsvEntryRow[] {
+  const [header, ...rows] = parseCsv(text)
+  if (!header) {
+    throw new Error(translate('import.csvEmpty'))
+  }
+
+  const columns = header.map(toColumn)
+  const missing: string[] = []
+  if (!columns.includes('date')) missing.push('date')
+  if (!columns.includes('text')) missing.push('text')
+  if (!columns.includes('rating') && !columns.includes('rating_label')) missing.push('rating')
+  if (missing.length > 0) {
+    throw new Error(
+      translate('import.csvMissingColumns', {
+        count: missing.length,
+        columns: missing.join(translate('common.listSeparator')),
+      })
+    )
+  }
+
+  return rows.map((cells) => {
+    const get = (column: EntryCsvColumn) => {
+      const index = columns.indexOf(column)
+      return index === -1 ? '' : (cells[index] ?? '')
+    }
+    const errors: string[] = []
+
+    const input: CsvEntryRow['input'] = {
+      entry_date: get('date').trim(),
+      gratitude_text: unescapeFormula(get('text')),
+      rating: readRating(get('rating'), get('rating_label'), scale, errors),
+      tags: get('tags')
+        .split(/[,;]/)
+        .map((tag) => tag.trim())
+        .filter(Boolean),
+      created_at: readTimestamp(get('created_at'), 'import.csvBadCreatedAt', errors),
+      updated_at: readTimestamp(get('updated_at'), 'import.csvBadUpdatedAt', errors),
+    }
+
+    return { input, errors }
+  })
+}
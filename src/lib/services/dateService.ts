@@ -1,12 +1,32 @@
-import { format, startOfDay, parseISO, isValid, differenceInDays } from 'date-fns'
+import { addDays, format, startOfDay, parseISO, isValid, differenceInDays } from 'date-fns'
+import type { DateDisplayFormat } from '@/types/settings'
+import type { Locale } from '@/types/i18n'
+import { DATE_FORMAT_PATTERNS } from '@/types/settings'
+import { getDateLocale, translate, type MessageKey } from '@/lib/i18n'
 
 /**
  * Date Service - Timezone-aware date utilities
  *
  * Key principle: Store dates in user's LOCAL timezone (YYYY-MM-DD)
  * This ensures "today" always means the calendar date in the user's current location
+ *
+ * Stored dates are always yyyy-MM-dd; only the display helpers follow
+ * the active language (month and day names, and word order)
  */
 
+/**
+ * Display formats whose pattern comes from the language catalog
+ */
+const LOCALIZED_DATE_FORMATS: Partial<Record<DateDisplayFormat, MessageKey>> = {
+  long: 'date.long',
+  medium: 'date.medium',
+}
+
+/**
+ * A Sunday, for looking up weekday names
+ */
+const REFERENCE_SUNDAY = new Date(2023, 0, 1)
+
 /**
  * Get today's date string in YYYY-MM-DD format (local timezone)
  * @returns Date string like "2024-12-31"
@@ -33,39 +53,63 @@ export function parseEntryDate(dateString: string): Date {
   try {
     const date = parseISO(dateString)
     if (!isValid(date)) {
-      throw new Error(`Invalid date string: ${dateString}`)
+      throw new Error(translate('entry.unreadableDate', { date: dateString }))
     }
     return startOfDay(date)
   } catch (error) {
-    throw new Error(`Failed to parse date string: ${dateString}`)
+    throw new Error(translate('entry.unreadableDate', { date: dateString }))
   }
 }
 
 /**
- * Format date string for display
+ * Format date string for display, in the active language
  * @param dateString Date string like "2024-12-31"
- * @param formatString Format string (date-fns format)
+ * @param formatString Format string (date-fns format; defaults to the language's long date)
+ * @param locale Language for month and day names (defaults to the active one)
  * @returns Formatted date like "December 31, 2024"
  */
 export function formatDateString(
   dateString: string,
-  formatString: string = 'MMMM d, yyyy'
+  formatString?: string,
+  locale?: Locale
 ): string {
   try {
     const date = parseEntryDate(dateString)
-    return format(date, formatString)
+    return format(date, formatString ?? translate('date.long', undefined, locale), {
+      locale: getDateLocale(locale),
+    })
   } catch (error) {
     return dateString // Fallback to original string if parsing fails
   }
 }
 
+/**
+ * Format date string using one of the user-selectable display formats
+ * @param dateString Date string like "2024-12-31"
+ * @param displayFormat Display format from settings
+ * @param locale Language for month and day names (defaults to the active one)
+ * @returns Formatted date like "December 31, 2024" or "31/12/2024"
+ */
+export function formatDateForDisplay(
+  dateString: string,
+  displayFormat: DateDisplayFormat,
+  locale?: Locale
+): string {
+  const localized = LOCALIZED_DATE_FORMATS[displayFormat]
+  return formatDateString(
+    dateString,
+    localized ? translate(localized, undefined, locale) : DATE_FORMAT_PATTERNS[displayFormat],
+    locale
+  )
+}
+
 /**
  * Format date for display in compact form
  * @param dateString Date string like "2024-12-31"
  * @returns Formatted date like "Dec 31"
  */
 export function formatDateCompact(dateString: string): string {
-  return formatDateString(dateString, 'MMM d')
+  return formatDateString(dateString, translate('date.compact'))
 }
 
 /**
@@ -74,7 +118,48 @@ export function formatDateCompact(dateString: string): string {
  * @returns Formatted date like "Tuesday, December 31"
  */
 export function formatDateWithDay(dateString: string): string {
-  return formatDateString(dateString, 'EEEE, MMMM d')
+  return formatDateString(dateString, translate('date.withDay'))
+}
+
+/**
+ * Format the month a date falls in
+ * @param dateString Date string like "2024-12-31"
+ * @returns Formatted month like "December 2024"
+ */
+export function formatMonthYear(dateString: string): string {
+  return formatDateString(dateString, translate('date.monthYear'))
+}
+
+/**
+ * Format a timestamp (date and time) for display
+ * @param timestamp Milliseconds since the epoch or an ISO string
+ * @returns Formatted time like "Dec 31, 2024, 8:15 PM"
+ */
+export function formatTimestamp(timestamp: number | string): string {
+  const date = new Date(timestamp)
+  return isValid(date) ? format(date, 'PPp', { locale: getDateLocale() }) : String(timestamp)
+}
+
+/**
+ * Weekday names in the active language, Sunday first (matches Date.getDay())
+ * @param width "short" like "Mon" or "long" like "Monday"
+ */
+export function getWeekdayNames(width: 'short' | 'long' = 'short'): string[] {
+  const pattern = width === 'short' ? 'ccc' : 'cccc'
+  return Array.from({ length: 7 }, (_, day) =>
+    format(addDays(REFERENCE_SUNDAY, day), pattern, { locale: getDateLocale() })
+  )
+}
+
+/**
+ * Month names in the active language, January first
+ * @param width "short" like "Jan", "long" like "January" or "narrow" like "J"
+ */
+export function getMonthNames(width: 'short' | 'long' | 'narrow' = 'long'): string[] {
+  const pattern = { short: 'LLL', long: 'LLLL', narrow: 'LLLLL' }[width]
+  return Array.from({ length: 12 }, (_, month) =>
+    format(new Date(2023, month, 1), pattern, { locale: getDateLocale() })
+  )
 }
 
 /**
@@ -120,7 +205,7 @@ export function getDaysBetween(dateString1: string, dateString2: string): number
 /**
  * Get relative time string (e.g., "today", "yesterday", "3 days ago")
  * @param dateString Date string like "2024-12-31"
- * @returns Relative time string
+ * @returns Relative time string in the active language
  */
 export function getRelativeTime(dateString: string): string {
   try {
@@ -128,21 +213,14 @@ export function getRelativeTime(dateString: string): string {
     const today = startOfDay(new Date())
     const days = differenceInDays(today, date)
 
-    if (days === 0) return 'Today'
-    if (days === 1) return 'Yesterday'
-    if (days === -1) return 'Tomorrow'
-    if (days < 0) return `In ${Math.abs(days)} days`
-    if (days < 7) return `${days} days ago`
-    if (days < 30) {
-      const weeks = Math.floor(days / 7)
-      return weeks === 1 ? '1 week ago' : `${weeks} weeks ago`
-    }
-    if (days < 365) {
-      const months = Math.floor(days / 30)
-      return months === 1 ? '1 month ago' : `${months} months ago`
-    }
-    const years = Math.floor(days / 365)
-    return years === 1 ? '1 year ago' : `${years} years ago`
+    if (days === 0) return translate('relative.today')
+    if (days === 1) return translate('relative.yesterday')
+    if (days === -1) return translate('relative.tomorrow')
+    if (days < 0) return translate('relative.inDays', { count: Math.abs(days) })
+    if (days < 7) return translate('relative.daysAgo', { count: days })
+    if (days < 30) return translate('relative.weeksAgo', { count: Math.floor(days / 7) })
+    if (days < 365) return translate('relative.monthsAgo', { count: Math.floor(days / 30) })
+    return translate('relative.yearsAgo', { count: Math.floor(days / 365) })
   } catch (error) {
     return dateString
   }
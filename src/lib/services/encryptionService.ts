@@ -0,0 +1,239 @@
+import type { EncryptedBackupFile } from '@/types'
+import { BACKUP_FORMAT, BACKUP_FORMAT_VERSION } from '@/types'
+import { translate } from '@/lib/i18n'
+
+/**
+ * Encryption Service - Passphrase-protected backup files (Web Crypto)
+ *
+ * PBKDF2-SHA-256 stretches the passphrase into 512 bits: the first half
+ * is the AES-256-GCM key, the second half is stored as a check value so
+ * a wrong passphrase can be told apart from a modified file
+ */
+
+/**
+ * PBKDF2 iterations for new backups (OWASP 2023 recommendation)
+ */
+const PBKDF2_ITERATIONS = 600_000
+
+/**
+ * Lowest iteration count accepted when decrypting
+ */
+const MIN_PBKDF2_ITERATIONS = 100_000
+
+/**
+ * Shortest passphrase accepted for new backups
+ */
+export const MIN_PASSPHRASE_LENGTH = 8
+
+const SALT_BYTES = 16
+const IV_BYTES = 12
+
+/**
+ * Thrown when the passphrase doesn't match the file
+ */
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super(translate('backup.wrongPassphrase'))
+    this.name = 'WrongPassphraseError'
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+/**
+ * Constant-time comparison of two byte arrays
+ */
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i]
+  }
+  return diff === 0
+}
+
+/**
+ * Derive the AES key and check value from a passphrase
+ */
+async function deriveKey(
+  passphrase: string,
+  salt: BufferSource,
+  iterations: number
+): Promise<{ key: CryptoKey; check: Uint8Array }> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  )
+  const bits = new Uint8Array(
+    await crypto.subtle.deriveBits(
+      { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+      baseKey,
+      512
+    )
+  )
+  const key = await crypto.subtle.importKey(
+    'raw',
+    bits.slice(0, 32),
+    'AES-GCM',
+    false,
+    ['encrypt', 'decrypt']
+  )
+  return { key, check: bits.slice(32) }
+}
+
+/**
+ * Header fields bound to the ciphertext as AES-GCM additional data
+ * Listed explicitly so the byte order never depends on JSON key order
+ */
+function getAdditionalData(file: Omit<EncryptedBackupFile, 'ciphertext'>): BufferSource {
+  return new TextEncoder().encode(
+    JSON.stringify([
+      file.format,
+      file.format_version,
+      file.app_version,
+      file.exported_at,
+      file.kdf.iterations,
+      file.kdf.salt,
+      file.kdf.check,
+      file.cipher.iv,
+    ])
+  )
+}
+
+/**
+ * Check whether file contents are an encrypted backup
+ * @param fileData File contents
+ * @returns True if the file has an encrypted backup header
+ */
+export function isEncryptedBackup(fileData: string): boolean {
+  try {
+    const data = JSON.parse(fileData)
+    return data?.format === BACKUP_FORMAT && data?.encrypted === true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Encrypt a plain backup with a passphrase
+ * @param plainBackup Plain backup JSON (from exportDatabase)
+ * @param passphrase Passphrase chosen by the user
+ * @returns Encrypted backup file JSON
+ */
+export async function encryptBackup(plainBackup: string, passphrase: string): Promise<string> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(translate('backup.passphraseTooShort', { count: MIN_PASSPHRASE_LENGTH }))
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES))
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const { key, check } = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS)
+
+  const header: Omit<EncryptedBackupFile, 'ciphertext'> = {
+    format: BACKUP_FORMAT,
+    format_version: BACKUP_FORMAT_VERSION,
+    encrypted: true,
+    app_version: __APP_VERSION__,
+    exported_at: Date.now(),
+    kdf: {
+      name: 'PBKDF2',
+      hash: 'SHA-256',
+      iterations: PBKDF2_ITERATIONS,
+      salt: toBase64(salt),
+      check: toBase64(check),
+    },
+    cipher: {
+      name: 'AES-GCM',
+      iv: toBase64(iv),
+    },
+  }
+
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: getAdditionalData(header) },
+    key,
+    new TextEncoder().encode(plainBackup)
+  )
+
+  const file: EncryptedBackupFile = {
+    ...header,
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  }
+  return JSON.stringify(file, null, 2)
+}
+
+/**
+ * Decrypt an encrypted backup file
+ * @param fileData Encrypted backup file JSON
+ * @param passphrase Passphrase entered by the user
+ * @returns Plain backup JSON, ready for the import service
+ * @throws WrongPassphraseError if the passphrase is wrong
+ * @throws Error if the file is malformed or has been modified
+ */
+export async function decryptBackup(fileData: string, passphrase: string): Promise<string> {
+  let file: EncryptedBackupFile
+  let salt: BufferSource
+  let iv: BufferSource
+  let expectedCheck: Uint8Array
+  let ciphertext: BufferSource
+
+  try {
+    file = JSON.parse(fileData)
+    if (file.format !== BACKUP_FORMAT || file.encrypted !== true) {
+      throw new Error('not an encrypted backup')
+    }
+    salt = fromBase64(file.kdf.salt)
+    iv = fromBase64(file.cipher.iv)
+    expectedCheck = fromBase64(file.kdf.check)
+    ciphertext = fromBase64(file.ciphertext)
+  } catch (error) {
+    throw new Error(translate('backup.damaged'))
+  }
+
+  if (file.format_version > BACKUP_FORMAT_VERSION) {
+    throw new Error(translate('backup.newerVersion'))
+  }
+  if (
+    file.kdf.name !== 'PBKDF2' ||
+    file.kdf.hash !== 'SHA-256' ||
+    file.cipher.name !== 'AES-GCM' ||
+    !Number.isInteger(file.kdf.iterations) ||
+    file.kdf.iterations < MIN_PBKDF2_ITERATIONS
+  ) {
+    throw new Error(translate('backup.unsupported'))
+  }
+
+  const { key, check } = await deriveKey(passphrase, salt, file.kdf.iterations)
+  if (!bytesEqual(check, expectedCheck)) {
+    throw new WrongPassphraseError()
+  }
+
+  try {
+    const plain = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv, additionalData: getAdditionalData(file) },
+      key,
+      ciphertext
+    )
+    return new TextDecoder().decode(plain)
+  } catch (error) {
+    throw new Error(translate('backup.tampered'))
+  }
+}
@@ -1,21 +1,35 @@
 import { v4 as uuidv4 } from 'uuid'
-import { db } from '../db/schema'
+import { countLiveEntries, db } from '../db/schema'
 import type {
   Entry,
   CreateEntryInput,
   UpdateEntryInput,
+  SearchFilters,
+  SearchResult,
   ValidationResult,
   EntryValidationError,
 } from '@/types'
-import { getTodayDateString, isValidDateString, isFuture } from './dateService'
+import { RATING_RANGE, isLiveEntry, isRatingValue } from '@/types'
+import { getDaysBetween, getTodayDateString, isValidDateString, isFuture } from './dateService'
+import { MAX_TAGS_PER_ENTRY, normalizeTags, validateTag } from './tagService'
+import { indexEntry, removeFromIndex, searchIndex } from './searchService'
+import { getSettings } from './settingsService'
+import { hasContentChanged, saveRevision } from './revisionService'
+import { translate } from '@/lib/i18n'
 
 /**
  * Entry Service - Business logic for entry CRUD operations
  *
  * All operations are async and return Promises
  * Validates input before database operations
+ * Queries only see live entries; trashed entries are handled by trashService
  */
 
+/**
+ * Thrown inside the create transaction when the day already has an entry
+ */
+class DuplicateEntryError extends Error {}
+
 /**
  * Validate entry data
  * @param data Entry data to validate
@@ -31,15 +45,16 @@ export function validateEntry(
   // Validate gratitude_text
   if (!isUpdate || data.gratitude_text !== undefined) {
     const text = data.gratitude_text || ''
+    const { maxTextLength } = getSettings()
     if (text.trim().length === 0) {
       errors.push({
         field: 'gratitude_text',
-        message: 'Gratitude text is required',
+        message: translate('entry.textRequired'),
       })
-    } else if (text.length > 1000) {
+    } else if (text.length > maxTextLength) {
       errors.push({
         field: 'gratitude_text',
-        message: 'Gratitude text must be 1000 characters or less',
+        message: translate('entry.textTooLong', { max: maxTextLength }),
       })
     }
   }
@@ -49,27 +64,52 @@ export function validateEntry(
     if (data.rating === undefined || data.rating === null) {
       errors.push({
         field: 'rating',
-        message: 'Rating is required',
+        message: translate('entry.ratingRequired'),
       })
-    } else if (data.rating < 1 || data.rating > 7) {
+    } else if (!isRatingValue(data.rating)) {
       errors.push({
         field: 'rating',
-        message: 'Rating must be between 1 and 7',
+        message: translate('entry.ratingInvalid', RATING_RANGE),
       })
     }
   }
 
+  // Validate tags
+  if (data.tags !== undefined) {
+    if (!Array.isArray(data.tags)) {
+      errors.push({
+        field: 'tags',
+        message: translate('tags.notList'),
+      })
+    } else {
+      const tags = normalizeTags(data.tags)
+      if (tags.length > MAX_TAGS_PER_ENTRY) {
+        errors.push({
+          field: 'tags',
+          message: translate('tags.tooMany', { max: MAX_TAGS_PER_ENTRY }),
+        })
+      }
+      for (const tag of tags) {
+        const message = validateTag(tag)
+        if (message) {
+          errors.push({ field: 'tags', message })
+          break
+        }
+      }
+    }
+  }
+
   // Validate entry_date
   if (!isUpdate && data.entry_date) {
     if (!isValidDateString(data.entry_date)) {
       errors.push({
         field: 'entry_date',
-        message: 'Invalid date format (use YYYY-MM-DD)',
+        message: translate('entry.invalidDate'),
       })
     } else if (isFuture(data.entry_date)) {
       errors.push({
         field: 'entry_date',
-        message: 'Cannot create entries for future dates',
+        message: translate('entry.futureDate'),
       })
     }
   }
@@ -87,11 +127,11 @@ export function validateEntry(
 export async function getTodayEntry(): Promise<Entry | null> {
   try {
     const today = getTodayDateString()
-    const entry = await db.entries.where('entry_date').equals(today).first()
+    const entry = await db.entries.where('entry_date').equals(today).filter(isLiveEntry).first()
     return entry || null
   } catch (error) {
     console.error('Failed to get today\'s entry:', error)
-    throw new Error('Failed to load today\'s entry')
+    throw new Error(translate('entry.loadTodayFailed'))
   }
 }
 
@@ -102,16 +142,20 @@ export async function getTodayEntry(): Promise<Entry | null> {
  */
 export async function getEntryByDate(dateString: string): Promise<Entry | null> {
   try {
-    const entry = await db.entries.where('entry_date').equals(dateString).first()
+    const entry = await db.entries
+      .where('entry_date')
+      .equals(dateString)
+      .filter(isLiveEntry)
+      .first()
     return entry || null
   } catch (error) {
     console.error('Failed to get entry by date:', error)
-    throw new Error(`Failed to load entry for ${dateString}`)
+    throw new Error(translate('entry.loadDateFailed', { date: dateString }))
   }
 }
 
 /**
- * Get entry by ID
+ * Get entry by ID (including trashed entries)
  * @param id Entry ID
  * @returns Entry or null if not found
  */
@@ -121,7 +165,7 @@ export async function getEntryById(id: string): Promise<Entry | null> {
     return entry || null
   } catch (error) {
     console.error('Failed to get entry by ID:', error)
-    throw new Error(`Failed to load entry ${id}`)
+    throw new Error(translate('entry.loadOneFailed'))
   }
 }
 
@@ -134,11 +178,12 @@ export async function getAllEntries(): Promise<Entry[]> {
     const entries = await db.entries
       .orderBy('entry_date')
       .reverse()
+      .filter(isLiveEntry)
       .toArray()
     return entries
   } catch (error) {
     console.error('Failed to get all entries:', error)
-    throw new Error('Failed to load entries')
+    throw new Error(translate('entry.loadFailed'))
   }
 }
 
@@ -156,34 +201,39 @@ export async function getEntriesInRange(
     const entries = await db.entries
       .where('entry_date')
       .between(startDate, endDate, true, true)
+      .filter(isLiveEntry)
       .toArray()
     return entries.sort((a, b) => b.entry_date.localeCompare(a.entry_date))
   } catch (error) {
     console.error('Failed to get entries in range:', error)
-    throw new Error('Failed to load entries')
+    throw new Error(translate('entry.loadFailed'))
   }
 }
 
+/**
+ * Options for createEntry()
+ */
+export interface CreateEntryOptions {
+  /** Mark the entry as a missed day filled in later */
+  backfilled?: boolean
+}
+
 /**
  * Create a new entry
  * @param input Entry data (without id, timestamps)
+ * @param options Set backfilled when the user fills in a missed day
  * @returns Created entry
  * @throws Error if validation fails or entry already exists for this date
  */
-export async function createEntry(input: CreateEntryInput): Promise<Entry> {
+export async function createEntry(
+  input: CreateEntryInput,
+  options: CreateEntryOptions = {}
+): Promise<Entry> {
   // Validate input
   const validation = validateEntry(input)
   if (!validation.valid) {
     throw new Error(
-      validation.errors.map((e) => e.message).join(', ')
-    )
-  }
-
-  // Check if entry already exists for this date
-  const existing = await getEntryByDate(input.entry_date)
-  if (existing) {
-    throw new Error(
-      `An entry already exists for ${input.entry_date}. Please edit the existing entry instead.`
+      validation.errors.map((e) => e.message).join(translate('common.listSeparator'))
     )
   }
 
@@ -194,21 +244,36 @@ export async function createEntry(input: CreateEntryInput): Promise<Entry> {
     entry_date: input.entry_date,
     gratitude_text: input.gratitude_text.trim(),
     rating: input.rating,
+    tags: normalizeTags(input.tags ?? []),
     created_at: now,
     updated_at: now,
+    ...(options.backfilled && { backfilled: true }),
   }
 
   try {
-    await db.entries.add(entry)
+    await db.transaction('rw', db.entries, db.searchIndex, async () => {
+      // Checked inside the transaction: entry_date is not a unique index,
+      // since a trashed entry may share the day
+      const existing = await db.entries
+        .where('entry_date')
+        .equals(entry.entry_date)
+        .filter(isLiveEntry)
+        .first()
+      if (existing) {
+        throw new DuplicateEntryError(
+          translate('entry.duplicate', { date: input.entry_date })
+        )
+      }
+      await db.entries.add(entry)
+      await indexEntry(entry)
+    })
     return entry
   } catch (error) {
-    console.error('Failed to create entry:', error)
-    if (error instanceof Error && error.message.includes('constraint')) {
-      throw new Error(
-        'An entry already exists for this date. Please edit the existing entry instead.'
-      )
+    if (error instanceof DuplicateEntryError) {
+      throw new Error(error.message)
     }
-    throw new Error('Failed to save entry')
+    console.error('Failed to create entry:', error)
+    throw new Error(translate('entry.saveFailed'))
   }
 }
 
@@ -226,6 +291,21 @@ export async function createTodayEntry(
   })
 }
 
+/**
+ * Check whether a missed past day can still be filled in
+ * The window comes from settings; imports are not limited by it
+ * @param dateString Date string like "2024-12-31"
+ * @returns True for past days inside the backfill window
+ */
+export function canBackfillDate(dateString: string): boolean {
+  const today = getTodayDateString()
+  if (!isValidDateString(dateString) || dateString >= today) {
+    return false
+  }
+  const { backfillWindowDays } = getSettings()
+  return backfillWindowDays === 0 || getDaysBetween(dateString, today) <= backfillWindowDays
+}
+
 /**
  * Update an existing entry
  * @param id Entry ID
@@ -241,14 +321,14 @@ export async function updateEntry(
   const validation = validateEntry(updates, true)
   if (!validation.valid) {
     throw new Error(
-      validation.errors.map((e) => e.message).join(', ')
+      validation.errors.map((e) => e.message).join(translate('common.listSeparator'))
     )
   }
 
   // Get existing entry
   const existing = await getEntryById(id)
-  if (!existing) {
-    throw new Error('Entry not found')
+  if (!existing || existing.deleted) {
+    throw new Error(translate('entry.notFound'))
   }
 
   // Prepare updates
@@ -256,34 +336,56 @@ export async function updateEntry(
     ...existing,
     ...updates,
     gratitude_text: updates.gratitude_text?.trim() ?? existing.gratitude_text,
+    tags: updates.tags ? normalizeTags(updates.tags) : existing.tags ?? [],
     updated_at: Date.now(),
   }
 
   try {
-    await db.entries.update(id, updatedEntry)
+    await db.transaction('rw', [db.entries, db.searchIndex, db.revisions], async () => {
+      // Keep the replaced version so it can be reviewed or reverted to
+      if (hasContentChanged(existing, updatedEntry)) {
+        await saveRevision(existing, updatedEntry.updated_at)
+      }
+      await db.entries.put(updatedEntry)
+      if (updatedEntry.gratitude_text !== existing.gratitude_text) {
+        await indexEntry(updatedEntry)
+      }
+    })
     return updatedEntry
   } catch (error) {
     console.error('Failed to update entry:', error)
-    throw new Error('Failed to update entry')
+    throw new Error(translate('entry.updateFailed'))
   }
 }
 
 /**
- * Delete an entry
+ * Move an entry to the trash
+ * It can be restored from the trash until it is purged
  * @param id Entry ID
  * @throws Error if entry not found
  */
 export async function deleteEntry(id: string): Promise<void> {
   const existing = await getEntryById(id)
-  if (!existing) {
-    throw new Error('Entry not found')
+  if (!existing || existing.deleted) {
+    throw new Error(translate('entry.notFound'))
+  }
+
+  const now = Date.now()
+  const trashed: Entry = {
+    ...existing,
+    deleted: true,
+    deleted_at: now,
+    updated_at: now,
   }
 
   try {
-    await db.entries.delete(id)
+    await db.transaction('rw', db.entries, db.searchIndex, async () => {
+      await db.entries.put(trashed)
+      await removeFromIndex(id)
+    })
   } catch (error) {
     console.error('Failed to delete entry:', error)
-    throw new Error('Failed to delete entry')
+    throw new Error(translate('entry.deleteFailed'))
   }
 }
 
@@ -293,7 +395,7 @@ export async function deleteEntry(id: string): Promise<void> {
  */
 export async function getEntryCount(): Promise<number> {
   try {
-    return await db.entries.count()
+    return await countLiveEntries()
   } catch (error) {
     console.error('Failed to get entry count:', error)
     return 0
@@ -301,46 +403,70 @@ export async function getEntryCount(): Promise<number> {
 }
 
 /**
- * Get a random entry (excluding today)
- * Useful for "jar mode" feature
- * @returns Random entry or null if no entries
+ * Get entries that have a given tag (uses the multi-entry tags index)
+ * @param tag Tag to look up
+ * @returns Array of entries, newest first
  */
-export async function getRandomEntry(): Promise<Entry | null> {
+export async function getEntriesByTag(tag: string): Promise<Entry[]> {
   try {
-    const today = getTodayDateString()
     const entries = await db.entries
-      .where('entry_date')
-      .notEqual(today)
+      .where('tags')
+      .equals(normalizeTags([tag])[0] ?? '')
+      .filter(isLiveEntry)
       .toArray()
-
-    if (entries.length === 0) {
-      return null
-    }
-
-    const randomIndex = Math.floor(Math.random() * entries.length)
-    return entries[randomIndex]
+    return entries.sort((a, b) => b.entry_date.localeCompare(a.entry_date))
   } catch (error) {
-    console.error('Failed to get random entry:', error)
-    return null
+    console.error('Failed to get entries by tag:', error)
+    throw new Error(translate('entry.loadTaggedFailed', { tag }))
   }
 }
 
 /**
- * Search entries by text
+ * Check whether an entry passes the given search filters
+ * @param entry Entry to check
+ * @param filters Rating and date bounds (inclusive)
+ * @returns True if the entry matches every filter that is set
+ */
+export function entryMatchesFilters(entry: Entry, filters: SearchFilters): boolean {
+  if (filters.minRating !== undefined && entry.rating < filters.minRating) return false
+  if (filters.maxRating !== undefined && entry.rating > filters.maxRating) return false
+  if (filters.startDate && entry.entry_date < filters.startDate) return false
+  if (filters.endDate && entry.entry_date > filters.endDate) return false
+  return true
+}
+
+/**
+ * Search entries by text using the persisted search index
+ * Supports multiple words (all must match), prefixes, word forms
+ * and accent-insensitive matching
+ * With an empty query, returns every entry that passes the filters
+ * (newest first), or nothing if no filters are set either
  * @param query Search query
- * @returns Array of matching entries
+ * @param filters Optional rating and date bounds
+ * @returns Matching entries ranked by relevance, with highlight offsets
  */
-export async function searchEntries(query: string): Promise<Entry[]> {
+export async function searchEntries(
+  query: string,
+  filters: SearchFilters = {}
+): Promise<SearchResult[]> {
   try {
-    const normalizedQuery = query.toLowerCase().trim()
-    if (!normalizedQuery) {
-      return []
+    if (!query.trim()) {
+      const hasFilters = Object.values(filters).some((value) => value !== undefined)
+      if (!hasFilters) {
+        return []
+      }
+
+      const entries =
+        filters.startDate || filters.endDate
+          ? await getEntriesInRange(filters.startDate || '0000-01-01', filters.endDate || '9999-12-31')
+          : await getAllEntries()
+      return entries
+        .filter((entry) => entryMatchesFilters(entry, filters))
+        .map((entry) => ({ entry, score: 0, matches: [] }))
     }
 
-    const allEntries = await getAllEntries()
-    return allEntries.filter((entry) =>
-      entry.gratitude_text.toLowerCase().includes(normalizedQuery)
-    )
+    const results = await searchIndex(query)
+    return results.filter((result) => entryMatchesFilters(result.entry, filters))
   } catch (error) {
     console.error('Failed to search entries:', error)
     return []
@@ -0,0 +1,417 @@
+import type { CreateEntryInput } from '@/types'
+import { Rating } from '@/types'
+import { createEntry, getAllEntries, validateEntry } from './entryService'
+import { getDateString, isValidDateString } from './dateService'
+import { MAX_TAGS_PER_ENTRY, normalizeTags, validateTag } from './tagService'
+import { parseCsv } from './csvService'
+import { translate, type MessageKey } from '@/lib/i18n'
+import { getRatingScale, snapRating } from './ratingScaleService'
+
+/**
+ * External Import Service - Bring history over from other journaling apps
+ *
+ * Each source file is read into neutral records, the user maps the
+ * source's moods onto the user's rating scale, and the previewed entries are
+ * saved one by one with createEntry()
+ */
+
+/**
+ * Apps we can import from
+ */
+export type ExternalSource = 'daylio' | 'dayone'
+
+/**
+ * Message keys for external source labels (for UI)
+ */
+export const EXTERNAL_SOURCE_LABELS: Record<ExternalSource, MessageKey> = {
+  daylio: 'import.source.daylio',
+  dayone: 'import.source.dayone',
+}
+
+/**
+ * One entry read from another app's export
+ */
+export interface ExternalRecord {
+  /** Day of the entry (YYYY-MM-DD), empty if it couldn't be read */
+  entry_date: string
+  /** Sort key within the day (0 if unknown) */
+  time: number
+  /** Key into the rating mapping, e.g. a Daylio mood name */
+  moodKey: string
+  text: string
+  tags: string[]
+  /** Stand-in text for a record with no note, e.g. its mood and activities */
+  summary?: string
+}
+
+/**
+ * A mood found in the source file
+ */
+export interface ExternalMood {
+  key: string
+  label: string
+  count: number
+}
+
+/**
+ * Source mood key -> stored rating (1-7)
+ */
+export type RatingMapping = Record<string, number>
+
+/**
+ * Entries that would be created, nothing written yet
+ */
+export interface ExternalImportPreview {
+  /** Entries ready to create, one per day, oldest first */
+  entries: CreateEntryInput[]
+  /** Days that already have an entry in the jar (left untouched) */
+  existing: string[]
+  /** Days that can't be imported */
+  invalid: { entry_date: string; errors: string[] }[]
+  /** Source records folded into another record on the same day */
+  merged: number
+}
+
+/**
+ * What committing a preview actually did
+ */
+export interface ExternalImportSummary {
+  added: number
+  failed: { entry_date: string; message: string }[]
+}
+
+/**
+ * Daylio's five built-in moods and where they land on our scale
+ */
+const DAYLIO_DEFAULT_RATINGS: Record<string, Rating> = {
+  rad: Rating.THE_BEST,
+  good: Rating.GOOD,
+  meh: Rating.OK,
+  bad: Rating.BAD,
+  awful: Rating.NIGHTMARE,
+}
+
+/**
+ * Day One has no mood, so starred entries are the only signal
+ */
+const DAYONE_MOODS: Record<string, { label: MessageKey; rating: Rating }> = {
+  starred: { label: 'import.dayoneStarred', rating: Rating.GREAT },
+  other: { label: 'import.dayoneOther', rating: Rating.GOOD },
+}
+
+/**
+ * Rating for moods we don't recognize (custom Daylio moods)
+ */
+const FALLBACK_RATING = Rating.OK
+
+/**
+ * Separator placed between texts of entries merged into one day
+ */
+const MERGE_SEPARATOR = '\n\n'
+
+/**
+ * Turn Daylio's HTML-ish notes into plain text
+ */
+function cleanDaylioNote(note: string): string {
+  return note
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim()
+}
+
+/**
+ * Read Daylio's "8:30 pm" / "20:30" times as minutes since midnight
+ */
+function parseDaylioTime(time: string): number {
+  const match = /^(\d{1,2}):(\d{2})\s*([ap]m)?$/i.exec(time)
+  if (!match) return 0
+  let hours = Number(match[1])
+  if (match[3]) hours = (hours % 12) + (match[3].toLowerCase() === 'pm' ? 12 : 0)
+  return hours * 60 + Number(match[2])
+}
+
+/**
+ * Describe a Daylio entry that has no note by its mood and activities
+ */
+function describeDaylioEntry(mood: string, activities: string[]): string {
+  if (activities.length === 0) {
+    return translate('import.moodOnlyNote', { mood })
+  }
+  return translate('import.moodOnlyNoteWithActivities', {
+    mood,
+    activities: activities.join(translate('common.listSeparator')),
+  })
+}
+
+/**
+ * Read a Daylio CSV export
+ * @param text File contents
+ * @returns One record per Daylio entry
+ * @throws Error if the file isn't a Daylio export
+ */
+export function parseDaylioCsv(text: string): ExternalRecord[] {
+  const [header, ...rows] = parseCsv(text)
+  const columns = (header ?? []).map((cell) => cell.trim().toLowerCase())
+  const dateIndex = columns.indexOf('full_date')
+  const moodIndex = columns.indexOf('mood')
+  if (dateIndex === -1 || moodIndex === -1) {
+    throw new Error(translate('import.notDaylio'))
+  }
+
+  const get = (cells: string[], column: string) => {
+    const index = columns.indexOf(column)
+    return index === -1 ? '' : (cells[index] ?? '').trim()
+  }
+
+  return rows.map((cells) => {
+    const entryDate = get(cells, 'full_date')
+    const text = [get(cells, 'note_title'), get(cells, 'note')]
+      .map(cleanDaylioNote)
+      .filter(Boolean)
+      .join('\n')
+
+    const mood = get(cells, 'mood')
+    const activities = get(cells, 'activities').split('|')
+
+    return {
+      entry_date: entryDate,
+      time: parseDaylioTime(get(cells, 'time')),
+      moodKey: mood.toLowerCase(),
+      text,
+      tags: activities,
+      // Mood-only days keep their rating, with a note made from the mood
+      summary: describeDaylioEntry(
+        mood,
+        activities.map((activity) => activity.trim()).filter(Boolean)
+      ),
+    }
+  })
+}
+
+/**
+ * Get the calendar day of a timestamp in the time zone it was written in
+ */
+function toEntryDate(date: Date, timeZone: unknown): string {
+  if (typeof timeZone === 'string' && timeZone) {
+    try {
+      // en-CA formats dates as YYYY-MM-DD
+      return new Intl.DateTimeFormat('en-CA', {
+        timeZone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+      }).format(date)
+    } catch {
+      // Unknown time zone: fall back to local time
+    }
+  }
+  return getDateString(date)
+}
+
+/**
+ * Turn Day One's Markdown into plain text
+ */
+function cleanDayOneText(text: string): string {
+  return text
+    .replace(/!\[[^\]]*\]\(dayone-moment:[^)]*\)/g, '')
+    .replace(/\\([\\`*_{}[\]()#+\-.!>])/g, '$1')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+/**
+ * Read a Day One JSON export (Journal.json from the export zip)
+ * @param text File contents
+ * @returns One record per Day One entry
+ * @throws Error if the file isn't a Day One export
+ */
+export function parseDayOneJson(text: string): ExternalRecord[] {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch (error) {
+    throw new Error(translate('import.notDayOneJson'))
+  }
+
+  const entries = (data as { entries?: unknown } | null)?.entries
+  if (!Array.isArray(entries)) {
+    throw new Error(translate('import.notDayOneList'))
+  }
+
+  return entries.map((raw) => {
+    const entry = (raw ?? {}) as Record<string, unknown>
+    const created = new Date(typeof entry.creationDate === 'string' ? entry.creationDate : NaN)
+    const isValid = !Number.isNaN(created.getTime())
+
+    return {
+      entry_date: isValid ? toEntryDate(created, entry.timeZone) : '',
+      time: isValid ? created.getTime() : 0,
+      moodKey: entry.starred === true ? 'starred' : 'other',
+      text: typeof entry.text === 'string' ? cleanDayOneText(entry.text) : '',
+      tags: Array.isArray(entry.tags)
+        ? entry.tags.filter((tag): tag is string => typeof tag === 'string')
+        : [],
+    }
+  })
+}
+
+/**
+ * Read an export file from any supported app
+ * @param source App the file came from
+ * @param text File contents
+ * @returns Records in file order
+ */
+export function parseExternalFile(source: ExternalSource, text: string): ExternalRecord[] {
+  return source === 'daylio' ? parseDaylioCsv(text) : parseDayOneJson(text)
+}
+
+/**
+ * List the moods used in a file, most common first
+ * @param source App the file came from
+ * @param records Records from parseExternalFile()
+ */
+export function getExternalMoods(source: ExternalSource, records: ExternalRecord[]): ExternalMood[] {
+  const counts = new Map<string, number>()
+  for (const record of records) {
+    counts.set(record.moodKey, (counts.get(record.moodKey) ?? 0) + 1)
+  }
+
+  return Array.from(counts, ([key, count]) => ({
+    key,
+    label:
+      source === 'dayone' && DAYONE_MOODS[key]
+        ? translate(DAYONE_MOODS[key].label)
+        : key || translate('import.noMood'),
+    count,
+  })).sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+}
+
+/**
+ * Suggested rating for each mood in a file, on the nearest level of the user's scale
+ * @param source App the file came from
+ * @param moods Moods from getExternalMoods()
+ */
+export function getDefaultRatingMapping(
+  source: ExternalSource,
+  moods: ExternalMood[]
+): RatingMapping {
+  const mapping: RatingMapping = {}
+  const levelCount = getRatingScale().length
+  for (const { key } of moods) {
+    const rating =
+      (source === 'dayone' ? DAYONE_MOODS[key]?.rating : DAYLIO_DEFAULT_RATINGS[key]) ??
+      FALLBACK_RATING
+    mapping[key] = snapRating(rating, levelCount)
+  }
+  return mapping
+}
+
+/**
+ * Keep only tags our app accepts, up to the per-entry limit
+ */
+function toValidTags(tags: string[]): string[] {
+  return normalizeTags(tags)
+    .filter((tag) => validateTag(tag) === null)
+    .slice(0, MAX_TAGS_PER_ENTRY)
+}
+
+/**
+ * Dry run: fold records into one entry per day and check them
+ * Several records on the same day are combined; their ratings are averaged
+ * and the average moved onto the nearest level of the user's scale
+ * @param records Records from parseExternalFile()
+ * @param mapping Rating for each mood key
+ * @returns Preview of what would be created
+ */
+export async function previewExternalImport(
+  records: ExternalRecord[],
+  mapping: RatingMapping
+): Promise<ExternalImportPreview> {
+  const preview: ExternalImportPreview = { entries: [], existing: [], invalid: [], merged: 0 }
+
+  const byDate = new Map<string, ExternalRecord[]>()
+  for (const record of records) {
+    if (!isValidDateString(record.entry_date)) {
+      preview.invalid.push({
+        entry_date: record.entry_date || translate('import.unknownDate'),
+        errors: [translate('import.invalidDate')],
+      })
+      continue
+    }
+    const day = byDate.get(record.entry_date) ?? []
+    day.push(record)
+    byDate.set(record.entry_date, day)
+  }
+
+  const localDates = new Set((await getAllEntries()).map((entry) => entry.entry_date))
+  const levelCount = getRatingScale().length
+
+  for (const [entryDate, dayRecords] of Array.from(byDate).sort(([a], [b]) => a.localeCompare(b))) {
+    preview.merged += dayRecords.length - 1
+    if (localDates.has(entryDate)) {
+      preview.existing.push(entryDate)
+      continue
+    }
+
+    dayRecords.sort((a, b) => a.time - b.time)
+    // Use written notes when the day has any, stand-in text otherwise
+    const notes = dayRecords.map((record) => record.text).filter(Boolean)
+    const texts = notes.length > 0 ? notes : dayRecords.map((record) => record.summary ?? '')
+    const ratings = dayRecords.map((record) => mapping[record.moodKey] ?? FALLBACK_RATING)
+    const input: CreateEntryInput = {
+      entry_date: entryDate,
+      gratitude_text: texts.filter(Boolean).join(MERGE_SEPARATOR),
+      rating: snapRating(ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length, levelCount),
+      tags: toValidTags(dayRecords.flatMap((record) => record.tags)),
+    }
+
+    const validation = validateEntry(input)
+    if (!validation.valid) {
+      preview.invalid.push({
+        entry_date: entryDate,
+        errors: input.gratitude_text
+          ? validation.errors.map((e) => e.message)
+          : [translate('import.noNote')],
+      })
+      continue
+    }
+    preview.entries.push(input)
+  }
+
+  return preview
+}
+
+/**
+ * Create the previewed entries with createEntry()
+ * Entries are saved one at a time; a failure skips that day and continues
+ * @param entries Entries from previewExternalImport()
+ * @param onProgress Called after each entry is handled
+ * @returns What was created and what failed
+ */
+export async function commitExternalImport(
+  entries: CreateEntryInput[],
+  onProgress?: (done: number, total: number) => void
+): Promise<ExternalImportSummary> {
+  const summary: ExternalImportSummary = { added: 0, failed: [] }
+
+  for (const [index, input] of entries.entries()) {
+    try {
+      await createEntry(input)
+      summary.added++
+    } catch (error) {
+      summary.failed.push({
+        entry_date: input.entry_date,
+        message: error instanceof Error ? error.message : translate('import.saveFailed'),
+      })
+    }
+    onProgress?.(index + 1, entries.length)
+  }
+
+  return summary
+}
@@ -0,0 +1,449 @@
+import { v4 as uuidv4 } from 'uuid'
+import { db } from '../db/schema'
+import type { BackupInfo, Entry, EntryValidationError } from '@/types'
+import { BACKUP_FORMAT, BACKUP_FORMAT_VERSION, isLiveEntry } from '@/types'
+import { translate, type MessageKey } from '@/lib/i18n'
+import { validateEntry } from './entryService'
+import { parseEntriesCsv } from './csvService'
+import { getFileRatingScale } from './ratingScaleService'
+import { indexEntry } from './searchService'
+import { hasContentChanged, saveRevision } from './revisionService'
+import { normalizeTags } from './tagService'
+
+/**
+ * Import Service - Dry-run analysis and transactional import of entries
+ *
+ * Importing is two steps: analyzeImport() classifies every record
+ * against the local jar without writing anything, then applyImport()
+ * writes the plan in a single transaction using the chosen strategies
+ */
+
+/**
+ * How to resolve an imported entry that differs from the local entry
+ * for the same day
+ */
+export type ConflictStrategy =
+  | 'keep_local'
+  | 'keep_imported'
+  | 'keep_newer'
+  | 'concatenate'
+
+/**
+ * Message keys for conflict strategy labels (for UI)
+ */
+export const CONFLICT_STRATEGY_LABELS: Record<ConflictStrategy, MessageKey> = {
+  keep_local: 'import.strategy.keep_local',
+  keep_imported: 'import.strategy.keep_imported',
+  keep_newer: 'import.strategy.keep_newer',
+  concatenate: 'import.strategy.concatenate',
+}
+
+/**
+ * Separator placed between texts when concatenating
+ */
+const CONCATENATE_SEPARATOR = '\n\n'
+
+/**
+ * Imported record that failed validation
+ */
+export interface InvalidImportRecord {
+  /** Position of the record in the file (0-based) */
+  index: number
+  /** entry_date from the record, if it had a usable one */
+  entry_date: string | null
+  errors: string[]
+}
+
+/**
+ * Imported entry that collides with a different local entry on the same day
+ */
+export interface ImportConflict {
+  local: Entry
+  imported: Entry
+  /** Why the two can't be combined (e.g. the text would be too long); empty if they can */
+  combineErrors: string[]
+}
+
+/**
+ * Result of a dry run: what an import would do, nothing written yet
+ */
+export interface ImportPlan {
+  /** Header of the backup file, or null for a bare list of entries */
+  backupInfo: BackupInfo | null
+  /** Entries for days with no local entry */
+  newEntries: Entry[]
+  /** Entries identical to the local entry for that day */
+  identical: Entry[]
+  /** Entries that differ from the local entry for that day */
+  conflicts: ImportConflict[]
+  /** Records that could not be imported */
+  invalid: InvalidImportRecord[]
+}
+
+/**
+ * Options for applying an import plan
+ */
+export interface ApplyImportOptions {
+  /** Strategy used for every conflict without an override */
+  strategy: ConflictStrategy
+  /** Per-conflict strategies, keyed by entry_date */
+  overrides?: Record<string, ConflictStrategy>
+  /** Called after each entry is written */
+  onProgress?: (done: number, total: number) => void
+}
+
+/**
+ * What an import actually changed
+ */
+export interface ImportSummary {
+  added: number
+  updated: number
+  unchanged: number
+  skipped: number
+}
+
+/**
+ * Parse import JSON into a list of raw records
+ * Accepts a backup file (see exportDatabase), a bare array of entries,
+ * or any object with an `entries` array
+ * @param jsonData File contents
+ * @returns Raw records and the backup header, if any
+ * @throws Error if the file isn't valid JSON, is still encrypted, has no
+ *   entries list, or was written by a newer backup format
+ */
+export function parseImportData(jsonData: string): {
+  records: unknown[]
+  backupInfo: BackupInfo | null
+} {
+  let data: unknown
+  try {
+    data = JSON.parse(jsonData)
+  } catch (error) {
+    throw new Error(translate('import.invalidJson'))
+  }
+
+  if (Array.isArray(data)) {
+    return { records: data, backupInfo: null }
+  }
+  if ((data as { encrypted?: unknown } | null)?.encrypted === true) {
+    throw new Error(translate('import.encrypted'))
+  }
+  if (!data || typeof data !== 'object' || !Array.isArray((data as { entries?: unknown }).entries)) {
+    throw new Error(translate('import.notAList'))
+  }
+
+  const { entries, ...header } = data as { entries: unknown[] } & Partial<BackupInfo>
+  if (header.format !== BACKUP_FORMAT) {
+    return { records: entries, backupInfo: null }
+  }
+  if (typeof header.format_version !== 'number' || header.format_version > BACKUP_FORMAT_VERSION) {
+    throw new Error(translate('backup.newerVersion'))
+  }
+  return { records: entries, backupInfo: header as BackupInfo }
+}
+
+/**
+ * Turn a raw record into an Entry, filling in optional fields
+ * @returns Entry plus any validation errors
+ */
+function normalizeRecord(
+  record: unknown,
+  parseErrors: string[] = []
+): { entry: Entry | null; errors: string[] } {
+  if (!record || typeof record !== 'object') {
+    return { entry: null, errors: [translate('import.notAnObject')] }
+  }
+
+  const raw = record as Partial<Entry>
+  const errors = [...parseErrors]
+
+  if (typeof raw.entry_date !== 'string' || !raw.entry_date) {
+    errors.push(translate('import.dateRequired'))
+  }
+  if (raw.gratitude_text !== undefined && typeof raw.gratitude_text !== 'string') {
+    errors.push(translate('import.textNotText'))
+  }
+  if (raw.rating !== undefined && typeof raw.rating !== 'number') {
+    errors.push(translate('import.ratingNotNumber'))
+  }
+
+  const validation = validateEntry(raw)
+  errors.push(...validation.errors.map((e: EntryValidationError) => e.message))
+  if (errors.length > 0) {
+    return { entry: null, errors }
+  }
+
+  const now = Date.now()
+  const createdAt = typeof raw.created_at === 'number' ? raw.created_at : now
+  const entry: Entry = {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : uuidv4(),
+    entry_date: raw.entry_date!,
+    gratitude_text: raw.gratitude_text!.trim(),
+    rating: raw.rating!,
+    tags: normalizeTags(raw.tags ?? []),
+    created_at: createdAt,
+    updated_at: typeof raw.updated_at === 'number' ? raw.updated_at : createdAt,
+    ...(raw.backfilled === true && { backfilled: true }),
+  }
+  return { entry, errors: [] }
+}
+
+/**
+ * Check whether two entries have the same content
+ */
+function isSameContent(a: Entry, b: Entry): boolean {
+  const tagsA = [...(a.tags ?? [])].sort().join('\u0000')
+  const tagsB = [...(b.tags ?? [])].sort().join('\u0000')
+  return a.gratitude_text === b.gratitude_text && a.rating === b.rating && tagsA === tagsB
+}
+
+/**
+ * Classify parsed records against the local jar
+ * @param records Raw records in file order
+ * @param backupInfo Backup header, if any
+ * @param parseErrors Errors found while reading each record, by index
+ */
+async function analyzeRecords(
+  records: unknown[],
+  backupInfo: BackupInfo | null,
+  parseErrors: string[][] = []
+): Promise<ImportPlan> {
+  const localEntries = await db.entries.filter(isLiveEntry).toArray()
+  const localByDate = new Map(localEntries.map((entry) => [entry.entry_date, entry]))
+
+  const plan: ImportPlan = {
+    backupInfo,
+    newEntries: [],
+    identical: [],
+    conflicts: [],
+    invalid: [],
+  }
+  const seenDates = new Set<string>()
+
+  records.forEach((record, index) => {
+    const { entry, errors } = normalizeRecord(record, parseErrors[index])
+    if (!entry) {
+      const date = (record as Partial<Entry> | null)?.entry_date
+      plan.invalid.push({
+        index,
+        entry_date: typeof date === 'string' ? date : null,
+        errors,
+      })
+      return
+    }
+
+    if (seenDates.has(entry.entry_date)) {
+      plan.invalid.push({
+        index,
+        entry_date: entry.entry_date,
+        errors: [translate('import.duplicateDate', { date: entry.entry_date })],
+      })
+      return
+    }
+    seenDates.add(entry.entry_date)
+
+    const local = localByDate.get(entry.entry_date)
+    if (!local) {
+      plan.newEntries.push(entry)
+    } else if (isSameContent(local, entry)) {
+      plan.identical.push(entry)
+    } else {
+      plan.conflicts.push({ local, imported: entry, combineErrors: getCombineErrors(local, entry) })
+    }
+  })
+
+  return plan
+}
+
+/**
+ * Check the entry the concatenate strategy would write
+ * @returns Validation messages, empty if it can be written
+ */
+function getCombineErrors(local: Entry, imported: Entry): string[] {
+  const combined = resolveConflict({ local, imported }, 'concatenate')
+  return combined ? validateEntry(combined, true).errors.map((e) => e.message) : []
+}
+
+/**
+ * Dry run: classify every record in a JSON import file without writing
+ * @param jsonData File contents
+ * @returns Import plan
+ * @throws Error if the file can't be parsed
+ */
+export async function analyzeImport(jsonData: string): Promise<ImportPlan> {
+  const { records, backupInfo } = parseImportData(jsonData)
+  return analyzeRecords(records, backupInfo)
+}
+
+/**
+ * Dry run for a CSV file (as written by entriesToCsv or a spreadsheet)
+ * Rows that can't be read or fail validation are reported as invalid
+ * @param csvData File contents
+ * @returns Import plan
+ * @throws Error if the file can't be parsed or is missing required columns
+ */
+export async function analyzeCsvImport(csvData: string): Promise<ImportPlan> {
+  const rows = parseEntriesCsv(csvData, getFileRatingScale())
+  return analyzeRecords(
+    rows.map((row) => row.input),
+    null,
+    rows.map((row) => row.errors)
+  )
+}
+
+/**
+ * Work out the entry to store for a conflict
+ * @returns Entry to write, or null to keep the local entry untouched
+ */
+function resolveConflict(
+  { local, imported }: Pick<ImportConflict, 'local' | 'imported'>,
+  strategy: ConflictStrategy
+): Entry | null {
+  switch (strategy) {
+    case 'keep_local':
+      return null
+
+    // Stamped now so sync sees a local change to push
+    case 'keep_imported':
+      return {
+        ...local,
+        ...imported,
+        id: local.id,
+        created_at: local.created_at,
+        updated_at: Date.now(),
+      }
+
+    case 'keep_newer':
+      return imported.updated_at > local.updated_at
+        ? resolveConflict({ local, imported }, 'keep_imported')
+        : null
+
+    case 'concatenate': {
+      const newer = imported.updated_at > local.updated_at ? imported : local
+      return {
+        ...local,
+        gratitude_text: local.gratitude_text + CONCATENATE_SEPARATOR + imported.gratitude_text,
+        rating: newer.rating,
+        tags: normalizeTags([...(local.tags ?? []), ...(imported.tags ?? [])]),
+        updated_at: Date.now(),
+      }
+    }
+  }
+}
+
+/**
+ * Apply an import plan in a single transaction
+ * If anything fails, nothing is written. The plan may be stale: a new
+ * entry whose day has gained a local entry since the dry run is handled
+ * as a conflict, and a conflict that can't be resolved (e.g. combined
+ * text over the length limit) keeps the local entry and counts as skipped
+ * @param plan Plan from analyzeImport()
+ * @param options Conflict strategies
+ * @returns Summary of what changed
+ * @throws Error if the import fails (the jar is left unchanged)
+ */
+export async function applyImport(
+  plan: ImportPlan,
+  options: ApplyImportOptions
+): Promise<ImportSummary> {
+  const summary: ImportSummary = {
+    added: 0,
+    updated: 0,
+    unchanged: plan.identical.length,
+    skipped: plan.invalid.length,
+  }
+  const total = plan.newEntries.length + plan.conflicts.length
+  let done = 0
+
+  const applyConflict = async (conflict: ImportConflict) => {
+    const strategy = options.overrides?.[conflict.local.entry_date] ?? options.strategy
+    const resolved = resolveConflict(conflict, strategy)
+    if (!resolved) {
+      summary.unchanged++
+      return
+    }
+    if (!validateEntry(resolved, true).valid) {
+      summary.skipped++
+      return
+    }
+
+    if (hasContentChanged(conflict.local, resolved)) {
+      await saveRevision(conflict.local, Date.now())
+    }
+    await db.entries.put(resolved)
+    await indexEntry(resolved)
+    summary.updated++
+  }
+
+  try {
+    await db.transaction('rw', [db.entries, db.searchIndex, db.revisions], async () => {
+      for (const entry of plan.newEntries) {
+        // The day may have gained an entry since the dry run
+        const local = await db.entries
+          .where('entry_date')
+          .equals(entry.entry_date)
+          .filter(isLiveEntry)
+          .first()
+        if (local) {
+          if (isSameContent(local, entry)) {
+            summary.unchanged++
+          } else {
+            await applyConflict({ local, imported: entry, combineErrors: [] })
+          }
+          options.onProgress?.(++done, total)
+          continue
+        }
+
+        // Never let an imported ID overwrite an unrelated local entry
+        const idTaken = await db.entries.get(entry.id)
+        const toAdd = idTaken ? { ...entry, id: uuidv4() } : entry
+        await db.entries.add(toAdd)
+        await indexEntry(toAdd)
+        summary.added++
+        options.onProgress?.(++done, total)
+      }
+
+      for (const conflict of plan.conflicts) {
+        await applyConflict(conflict)
+        options.onProgress?.(++done, total)
+      }
+    })
+  } catch (error) {
+    console.error('Failed to import entries:', error)
+    throw new Error(
+      error instanceof Error
+        ? `${translate('import.failedNoChanges')} ${error.message}`
+        : translate('import.failedNoChanges')
+    )
+  }
+
+  return summary
+}
+
+/**
+ * Get every valid imported entry in a plan, whatever its local status
+ * @param plan Plan from analyzeImport()
+ * @returns Imported entries
+ */
+export function getPlanEntries(plan: ImportPlan): Entry[] {
+  return [
+    ...plan.newEntries,
+    ...plan.identical,
+    ...plan.conflicts.map((conflict) => conflict.imported),
+  ]
+}
+
+/**
+ * Import entries from JSON in one step (for restore)
+ * Merges with existing entries using a single conflict strategy
+ * @param jsonData File contents
+ * @param strategy How to resolve conflicts (default: keep local)
+ * @returns Summary of what changed
+ */
+export async function importDatabase(
+  jsonData: string,
+  strategy: ConflictStrategy = 'keep_local'
+): Promise<ImportSummary> {
+  const plan = await analyzeImport(jsonData)
+  return applyImport(plan, { strategy })
+}
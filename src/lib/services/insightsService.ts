@@ -0,0 +1,124 @@
+import type { Entry } from '@/types/entry'
+import { parseEntryDate } from './dateService'
+import { ratingToLevel } from './ratingScaleService'
+
+/**
+ * Insights Service - Rating patterns across the calendar
+ *
+ * Pure functions: callers pass the entries they want analysed and get
+ * averages by weekday, month and weekend back, plus how ratings spread
+ * over the levels of the rating scale
+ */
+
+/**
+ * Average rating of a group of entries
+ */
+export interface RatingAverage {
+  /** Entries in the group */
+  count: number
+  /** Mean rating (null if the group is empty) */
+  average: number | null
+}
+
+/**
+ * Average for one day of the week
+ */
+export interface WeekdayAverage extends RatingAverage {
+  /** Day of the week (0 = Sunday, matches Date.getDay()) */
+  weekday: number
+}
+
+/**
+ * Average for one month of the year, across all years
+ */
+export interface MonthOfYearAverage extends RatingAverage {
+  /** Month (1-12) */
+  month: number
+}
+
+/**
+ * How many entries show as one level of the rating scale
+ */
+export interface RatingShare {
+  /** Level (1 = lowest) */
+  level: number
+  count: number
+  /** Share of all entries (0-100) */
+  percentage: number
+}
+
+/**
+ * Rating patterns for a set of entries
+ */
+export interface RatingInsights {
+  /** Total entries analysed */
+  totalEntries: number
+  /** Sunday first, always seven items */
+  byWeekday: WeekdayAverage[]
+  /** January first, always twelve items */
+  byMonth: MonthOfYearAverage[]
+  /** Saturdays and Sundays */
+  weekend: RatingAverage
+  /** Monday to Friday */
+  weekdays: RatingAverage
+  /** Lowest level first, one item per level of the scale */
+  distribution: RatingShare[]
+}
+
+/**
+ * Running total for a group
+ */
+interface Tally {
+  count: number
+  sum: number
+}
+
+function toAverage({ count, sum }: Tally): RatingAverage {
+  return { count, average: count > 0 ? sum / count : null }
+}
+
+/**
+ * Calculate rating patterns
+ * Averages are on the stored 1-7 range; the distribution is by level
+ * @param entries Entries to analyse
+ * @param levelCount Levels on the rating scale
+ * @returns Averages by weekday, month and weekend, and the rating distribution
+ */
+export function calculateRatingInsights(
+  entries: Entry[],
+  levelCount: number
+): RatingInsights {
+  const weekdayTallies: Tally[] = Array.from({ length: 7 }, () => ({ count: 0, sum: 0 }))
+  const monthTallies: Tally[] = Array.from({ length: 12 }, () => ({ count: 0, sum: 0 }))
+  const levelCounts: number[] = Array.from({ length: levelCount }, () => 0)
+
+  for (const entry of entries) {
+    const date = parseEntryDate(entry.entry_date)
+    const weekday = weekdayTallies[date.getDay()]
+    weekday.count++
+    weekday.sum += entry.rating
+    const month = monthTallies[date.getMonth()]
+    month.count++
+    month.sum += entry.rating
+    levelCounts[ratingToLevel(entry.rating, levelCount) - 1]++
+  }
+
+  const combine = (tallies: Tally[]): Tally =>
+    tallies.reduce((total, tally) => ({ count: total.count + tally.count, sum: total.sum + tally.sum }), {
+      count: 0,
+      sum: 0,
+    })
+
+  return {
+    totalEntries: entries.length,
+    byWeekday: weekdayTallies.map((tally, weekday) => ({ weekday, ...toAverage(tally) })),
+    byMonth: monthTallies.map((tally, index) => ({ month: index + 1, ...toAverage(tally) })),
+    weekend: toAverage(combine([weekdayTallies[0], weekdayTallies[6]])),
+    weekdays: toAverage(combine(weekdayTallies.slice(1, 6))),
+    distribution: levelCounts.map((count, index) => ({
+      level: index + 1,
+      count,
+      percentage: entries.length > 0 ? Math.round((count / entries.length) * 100) : 0,
+    })),
+  }
+}
@@ -0,0 +1,143 @@
+import { differenceInCalendarDays } from 'date-fns'
+import { db } from '../db/schema'
+import type { Entry, JarDraw, JarDrawOptions, JarDrawRecord, JarWeighting } from '@/types'
+import { isLiveEntry } from '@/types'
+import { getTodayDateString, parseEntryDate } from './dateService'
+import { translate, type MessageKey } from '@/lib/i18n'
+
+/**
+ * Jar Service - Drawing past entries from the jar
+ *
+ * Draws work like a shuffle bag: an entry that has been drawn stays out
+ * until every entry matching the current options has had its turn, then
+ * the bag is refilled. Draw history lives in the jarDraws table, so the
+ * bag survives reloads. Today's entry is never drawn
+ */
+
+/**
+ * Message keys for jar weighting labels (for UI)
+ */
+export const JAR_WEIGHTING_LABELS: Record<JarWeighting, MessageKey> = {
+  none: 'jar.weighting.none',
+  older: 'jar.weighting.older',
+  unseen: 'jar.weighting.unseen',
+}
+
+/**
+ * Check an entry against the draw options
+ */
+function matchesDrawOptions(entry: Entry, options: JarDrawOptions, today: string): boolean {
+  if (entry.entry_date === today) return false
+  if (options.minRating && entry.rating < options.minRating) return false
+  if (options.tag && !entry.tags?.includes(options.tag)) return false
+  if (options.startDate && entry.entry_date < options.startDate) return false
+  if (options.endDate && entry.entry_date > options.endDate) return false
+  return true
+}
+
+/**
+ * Relative chance of drawing an entry
+ */
+function drawWeight(
+  entry: Entry,
+  record: JarDrawRecord | undefined,
+  weighting: JarWeighting,
+  today: string
+): number {
+  switch (weighting) {
+    case 'older':
+      return Math.max(1, differenceInCalendarDays(parseEntryDate(today), parseEntryDate(entry.entry_date)))
+    case 'unseen':
+      return 1 / (1 + (record?.draw_count ?? 0))
+    default:
+      return 1
+  }
+}
+
+/**
+ * Pick an index at random, in proportion to the weights
+ */
+function pickWeighted(weights: number[]): number {
+  const total = weights.reduce((sum, weight) => sum + weight, 0)
+  let target = Math.random() * total
+  for (let i = 0; i < weights.length; i++) {
+    target -= weights[i]
+    if (target < 0) return i
+  }
+  return weights.length - 1
+}
+
+/**
+ * Draw an entry from the jar
+ * @param options Which entries to draw from and how to weight them
+ * @param today Today's date string (defaults to the local date)
+ * @returns Drawn entry (null if nothing matches) and how many are left this round
+ */
+export async function drawFromJar(
+  options: JarDrawOptions = {},
+  today: string = getTodayDateString()
+): Promise<JarDraw> {
+  try {
+    return await db.transaction('rw', db.entries, db.jarDraws, async () => {
+      const source = options.tag
+        ? db.entries.where('tags').equals(options.tag)
+        : db.entries.toCollection()
+      const candidates = await source
+        .filter((entry) => isLiveEntry(entry) && matchesDrawOptions(entry, options, today))
+        .toArray()
+      if (candidates.length === 0) {
+        return { entry: null, remaining: 0, total: 0 }
+      }
+
+      const records = await db.jarDraws.bulkGet(candidates.map((entry) => entry.id))
+      const recordById = new Map<string, JarDrawRecord>()
+      records.forEach((record) => record && recordById.set(record.entry_id, record))
+
+      let bag = candidates.filter((entry) => !recordById.get(entry.id)?.drawn_this_round)
+      let undrawn = bag.length
+      if (bag.length === 0) {
+        // Everything has had its turn: refill, but don't repeat the last draw
+        const refilled = Array.from(recordById.values()).map((record) => ({
+          ...record,
+          drawn_this_round: false,
+        }))
+        await db.jarDraws.bulkPut(refilled)
+        refilled.forEach((record) => recordById.set(record.entry_id, record))
+
+        const last = refilled.reduce((latest, record) =>
+          record.last_drawn_at > latest.last_drawn_at ? record : latest
+        )
+        bag = candidates.length > 1 ? candidates.filter((entry) => entry.id !== last.entry_id) : candidates
+        undrawn = candidates.length
+      }
+
+      const weighting = options.weighting ?? 'none'
+      const entry =
+        bag[pickWeighted(bag.map((e) => drawWeight(e, recordById.get(e.id), weighting, today)))]
+
+      await db.jarDraws.put({
+        entry_id: entry.id,
+        draw_count: (recordById.get(entry.id)?.draw_count ?? 0) + 1,
+        last_drawn_at: Date.now(),
+        drawn_this_round: true,
+      })
+
+      return { entry, remaining: undrawn - 1, total: candidates.length }
+    })
+  } catch (error) {
+    console.error('Failed to draw from the jar:', error)
+    throw new Error(translate('jar.drawFailed'))
+  }
+}
+
+/**
+ * Forget all draw history (every entry goes back in the bag)
+ */
+export async function resetJarHistory(): Promise<void> {
+  try {
+    await db.jarDraws.clear()
+  } catch (error) {
+    console.error('Failed to reset jar history:', error)
+    throw new Error(translate('jar.resetFailed'))
+  }
+}
@@ -0,0 +1,68 @@
+import type { Entry, Locale, RatingLevel } from '@/types'
+import { formatDateString } from './dateService'
+import { getDefaultRatingScale, ratingToLevel } from './ratingScaleService'
+
+/**
+ * Markdown Service - Export the jar as a readable journal document
+ *
+ * One document, oldest entry first, with a heading per month and per day
+ */
+
+/**
+ * Language of the document, so it reads the same whatever the interface
+ * language (like the rating labels from getFileRatingScale())
+ */
+const FILE_LOCALE: Locale = 'en'
+
+/**
+ * Keep entry text from being read as Markdown headings, quotes or rules
+ */
+function escapeBlockSyntax(text: string): string {
+  return text.replace(/^(\s*)(#{1,6}\s|>|---+\s*$|===+\s*$)/gm, '$1\\$2')
+}
+
+/**
+ * Format entries as a Markdown journal grouped by month
+ * @param entries Entries to include
+ * @param exportedAt When the export was made
+ * @param scale Rating scale for the labels (defaults to the built-in English one)
+ * @returns Markdown document
+ */
+export function entriesToMarkdown(
+  entries: Entry[],
+  exportedAt: Date = new Date(),
+  scale: RatingLevel[] = getDefaultRatingScale('en')
+): string {
+  const sorted = [...entries].sort((a, b) => a.entry_date.localeCompare(b.entry_date))
+  const lines: string[] = [
+    '# Gratefulness Jar',
+    '',
+    `_${sorted.length} ${sorted.length === 1 ? 'entry' : 'entries'}, exported ${exportedAt.toLocaleDateString(FILE_LOCALE)}_`,
+  ]
+
+  let currentMonth: string | null = null
+  for (const entry of sorted) {
+    const month = entry.entry_date.slice(0, 7)
+    if (month !== currentMonth) {
+      currentMonth = month
+      lines.push('', `## ${formatDateString(entry.entry_date, 'MMMM yyyy', FILE_LOCALE)}`)
+    }
+
+    const level = ratingToLevel(entry.rating, scale.length)
+    lines.push(
+      '',
+      `### ${formatDateString(entry.entry_date, 'EEEE, MMMM d', FILE_LOCALE)}`,
+      '',
+      `**${scale[level - 1].label}** (${level}/${scale.length})`,
+      '',
+      // Trailing double space keeps single line breaks as written
+      escapeBlockSyntax(entry.gratitude_text.trim()).replace(/([^\n])\n(?!\n)/g, '$1  \n')
+    )
+
+    if (entry.tags?.length) {
+      lines.push('', entry.tags.map((tag) => `\`#${tag}\``).join(' '))
+    }
+  }
+
+  return lines.join('\n') + '\n'
+}
@@ -0,0 +1,125 @@
+import { endOfMonth, format, isLastDayOfMonth, subMonths } from 'date-fns'
+import { db } from '../db/schema'
+import type { Entry } from '@/types'
+import { isLiveEntry } from '@/types'
+import { getTodayDateString, parseEntryDate } from './dateService'
+import { getEntriesInRange, getEntryByDate } from './entryService'
+import { translate } from '@/lib/i18n'
+
+/**
+ * On This Day Service - Entries from the same date in the past
+ *
+ * Looks back one month, six months, one year and every whole year
+ * before that. Dates that don't exist in a shorter month (like Feb 29
+ * or Mar 31) are skipped on their own day and picked up on the last
+ * day of the month instead, so every past entry comes round once
+ */
+
+/**
+ * Months looked back before switching to whole years
+ */
+const FIXED_OFFSETS = [1, 6] as const
+
+/**
+ * Days of the past covered by one look-back
+ */
+export interface OnThisDayRange {
+  /** How far back (in months) */
+  monthsAgo: number
+  /** First and last day (YYYY-MM-DD), equal unless the range covers a month end */
+  startDate: string
+  endDate: string
+}
+
+/**
+ * Entries found for one look-back
+ */
+export interface OnThisDayMemory extends OnThisDayRange {
+  /** Newest first (more than one only at a month end) */
+  entries: Entry[]
+}
+
+/**
+ * Label for a look-back in the active language (for UI)
+ */
+export function formatMonthsAgo(monthsAgo: number): string {
+  return monthsAgo % 12 === 0
+    ? translate('onThisDay.yearsAgo', { count: monthsAgo / 12 })
+    : translate('onThisDay.monthsAgo', { count: monthsAgo })
+}
+
+/**
+ * Work out the date range for one look-back
+ * @param today Today's date string
+ * @param monthsAgo Months to look back
+ * @returns Range, or null if today's day of the month doesn't exist back then
+ */
+export function getOnThisDayRange(today: string, monthsAgo: number): OnThisDayRange | null {
+  const todayDate = parseEntryDate(today)
+  const past = subMonths(todayDate, monthsAgo)
+
+  // subMonths clamps to the month's last day; those days were shown already
+  if (past.getDate() !== todayDate.getDate()) return null
+
+  // On the last day of a month, also cover the longer month's extra days
+  const end = isLastDayOfMonth(todayDate) ? endOfMonth(past) : past
+
+  return {
+    monthsAgo,
+    startDate: format(past, 'yyyy-MM-dd'),
+    endDate: format(end, 'yyyy-MM-dd'),
+  }
+}
+
+/**
+ * Work out every look-back range from today back to a first date
+ * @param today Today's date string
+ * @param firstDate Earliest date worth looking at (YYYY-MM-DD)
+ * @returns Ranges, most recent first
+ */
+export function getOnThisDayRanges(today: string, firstDate: string): OnThisDayRange[] {
+  const ranges: OnThisDayRange[] = []
+  const add = (monthsAgo: number) => {
+    const range = getOnThisDayRange(today, monthsAgo)
+    if (range && range.endDate >= firstDate) ranges.push(range)
+    return range
+  }
+
+  FIXED_OFFSETS.forEach(add)
+  for (let years = 1; ; years++) {
+    const monthsAgo = years * 12
+    add(monthsAgo)
+    if (format(subMonths(parseEntryDate(today), monthsAgo), 'yyyy-MM-dd') < firstDate) break
+  }
+
+  return ranges
+}
+
+/**
+ * Get entries from the same date in past months and years
+ * @param today Today's date string (defaults to the local date)
+ * @returns Look-backs that have entries, most recent first
+ */
+export async function getOnThisDayMemories(
+  today: string = getTodayDateString()
+): Promise<OnThisDayMemory[]> {
+  try {
+    const first = await db.entries.orderBy('entry_date').filter(isLiveEntry).first()
+    if (!first || first.entry_date >= today) return []
+
+    const memories = await Promise.all(
+      getOnThisDayRanges(today, first.entry_date).map(async (range) => {
+        if (range.startDate === range.endDate) {
+          const entry = await getEntryByDate(range.startDate)
+          return { ...range, entries: entry ? [entry] : [] }
+        }
+        return { ...range, entries: await getEntriesInRange(range.startDate, range.endDate) }
+      })
+    )
+
+    return memories.filter((memory) => memory.entries.length > 0)
+  } catch (error) {
+    console.error('Failed to get on this day entries:', error)
+    throw new Error(translate('onThisDay.loadFailed'))
+  }
+}
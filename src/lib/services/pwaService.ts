@@ -0,0 +1,82 @@
+/**
+ * PWA Service - Service worker registration and updates
+ *
+ * The worker (public/sw.js) precaches the app shell in production builds
+ * and shows reminders. A new build installs in the background and waits;
+ * applyUpdate() tells it to take over and reloads the page
+ */
+
+/**
+ * Script registered as the service worker (served from /public)
+ */
+const SERVICE_WORKER_URL = '/sw.js'
+
+/**
+ * How often an open app checks for a new build
+ */
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000
+
+let registrationPromise: Promise<ServiceWorkerRegistration | null> | null = null
+
+/**
+ * Register the service worker (once per page load)
+ * @returns Registration, or null if service workers are unavailable
+ */
+export function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!registrationPromise) {
+    registrationPromise =
+      'serviceWorker' in navigator
+        ? navigator.serviceWorker.register(SERVICE_WORKER_URL).catch((error) => {
+            console.error('Failed to register service worker:', error)
+            registrationPromise = null
+            return null
+          })
+        : Promise.resolve(null)
+  }
+  return registrationPromise
+}
+
+/**
+ * Watch for a new build being installed
+ * Only reports updates that replace a running worker, not the first install
+ * @param onUpdateReady Called with a function that switches to the new build
+ * @returns Function that stops watching
+ */
+export function watchForUpdates(
+  registration: ServiceWorkerRegistration,
+  onUpdateReady: (applyUpdate: () => void) => void
+): () => void {
+  let applying = false
+
+  const offer = (worker: ServiceWorker) => {
+    onUpdateReady(() => {
+      applying = true
+      worker.postMessage({ type: 'SKIP_WAITING' })
+    })
+  }
+
+  // The new worker took over: reload so the page runs the new build
+  const handleControllerChange = () => {
+    if (applying) window.location.reload()
+  }
+
+  const handleUpdateFound = () => {
+    const worker = registration.installing
+    worker?.addEventListener('statechange', () => {
+      if (worker.state === 'installed' && navigator.serviceWorker.controller) offer(worker)
+    })
+  }
+
+  if (registration.waiting && navigator.serviceWorker.controller) offer(registration.waiting)
+  registration.addEventListener('updatefound', handleUpdateFound)
+  navigator.serviceWorker.addEventListener('controllerchange', handleControllerChange)
+  const interval = window.setInterval(() => {
+    registration.update().catch(() => {})
+  }, UPDATE_CHECK_INTERVAL_MS)
+
+  return () => {
+    registration.removeEventListener('updatefound', handleUpdateFound)
+    navigator.serviceWorker.removeEventListener('controllerchange', handleControllerChange)
+    window.clearInterval(interval)
+  }
+}
@@ -0,0 +1,140 @@
+import type { Locale, RatingLevel } from '@/types'
+import { RATING_COLORS, RATING_EMOJIS, RATING_RANGE, getAllRatings } from '@/types'
+import { getRatingLabel } from '@/lib/i18n'
+import { getSettings } from './settingsService'
+
+/**
+ * Rating Scale Service - The levels days are rated with
+ *
+ * Days are rated on the built-in seven levels or on the user's own
+ * scale of 2-10 levels. Whatever the scale, ratings are stored on the
+ * 1-7 range: level k of an n-level scale sits at
+ * 1 + (k - 1) * 6 / (n - 1). Changing the scale never rewrites entries;
+ * older ratings show as the nearest level, and averages are taken on
+ * the stored values before being placed on the current scale
+ */
+
+/**
+ * Width of the storage range
+ */
+const RATING_SPAN = RATING_RANGE.max - RATING_RANGE.min
+
+/**
+ * Stored ratings are rounded to this many decimals
+ */
+const RATING_PRECISION = 1000
+
+/**
+ * The built-in seven levels, labelled in a language
+ */
+export function getDefaultRatingScale(locale?: Locale): RatingLevel[] {
+  return getAllRatings().map((rating) => ({
+    label: getRatingLabel(rating, locale),
+    color: RATING_COLORS[rating],
+    emoji: RATING_EMOJIS[rating],
+  }))
+}
+
+/**
+ * Scale to rate with, given the ratingScale setting
+ * @param custom The user's levels (empty for the built-in scale)
+ * @param locale Language for the built-in labels
+ */
+export function resolveRatingScale(custom: RatingLevel[], locale?: Locale): RatingLevel[] {
+  return custom.length > 0 ? custom : getDefaultRatingScale(locale)
+}
+
+/**
+ * Scale from the current settings
+ */
+export function getRatingScale(): RatingLevel[] {
+  const { ratingScale, language } = getSettings()
+  return resolveRatingScale(ratingScale, language)
+}
+
+/**
+ * Scale used for labels in exported and imported files
+ * The user's own levels, or the built-in ones in English so files read
+ * the same whatever the interface language
+ */
+export function getFileRatingScale(): RatingLevel[] {
+  return resolveRatingScale(getSettings().ratingScale, 'en')
+}
+
+/**
+ * Stored rating for a level
+ * @param level Level (1 = lowest)
+ * @param levelCount Levels on the scale
+ */
+export function levelToRating(level: number, levelCount: number): number {
+  const rating = RATING_RANGE.min + ((level - 1) * RATING_SPAN) / (levelCount - 1)
+  return Math.round(rating * RATING_PRECISION) / RATING_PRECISION
+}
+
+/**
+ * Nearest level to a stored rating
+ * @param rating Stored rating (1-7)
+ * @param levelCount Levels on the scale
+ * @returns Level (1 = lowest)
+ */
+export function ratingToLevel(rating: number, levelCount: number): number {
+  const position = ((rating - RATING_RANGE.min) * (levelCount - 1)) / RATING_SPAN
+  // Nudge past floating-point error so a halfway rating always rounds up
+  const level = Math.round(position + 1e-9) + 1
+  return Math.min(levelCount, Math.max(1, level))
+}
+
+/**
+ * Move a stored rating onto the nearest level of a scale
+ */
+export function snapRating(rating: number, levelCount: number): number {
+  return levelToRating(ratingToLevel(rating, levelCount), levelCount)
+}
+
+/**
+ * Level a stored rating shows as
+ * @param scale Scale to look in (defaults to the current one)
+ */
+export function getRatingLevel(rating: number, scale: RatingLevel[] = getRatingScale()): RatingLevel {
+  return scale[ratingToLevel(rating, scale.length) - 1]
+}
+
+/**
+ * Place an average of stored ratings on a scale
+ * @param average Mean of stored ratings (1-7)
+ * @param levelCount Levels on the scale
+ * @returns Average from 1 to levelCount, e.g. 3.5 on a 5-level scale
+ */
+export function toScaleAverage(average: number, levelCount: number): number {
+  return 1 + ((average - RATING_RANGE.min) * (levelCount - 1)) / RATING_SPAN
+}
+
+/**
+ * Stored ratings that show as a level, for filters
+ * @returns Inclusive bounds on the 1-7 range
+ */
+export function getLevelRange(level: number, levelCount: number): { min: number; max: number } {
+  const step = RATING_SPAN / (levelCount - 1)
+  const halfStep = step / 2
+  const center = RATING_RANGE.min + (level - 1) * step
+  return {
+    min: level === 1 ? RATING_RANGE.min : center - halfStep,
+    // Ratings halfway between two levels round up, so stop just short
+    max: level === levelCount ? RATING_RANGE.max : center + halfStep - 1e-6,
+  }
+}
+
+/**
+ * Build a scale with a number of levels from another scale
+ * Each new level copies the nearest level of the old one
+ * @param levelCount Levels on the new scale
+ * @param from Scale to start from (defaults to the built-in one)
+ */
+export function createRatingScale(
+  levelCount: number,
+  from: RatingLevel[] = getDefaultRatingScale()
+): RatingLevel[] {
+  return Array.from({ length: levelCount }, (_, index) => ({
+    ...getRatingLevel(levelToRating(index + 1, levelCount), from),
+  }))
+}
@@ -0,0 +1,304 @@
+import { addDays, set } from 'date-fns'
+import type { ReminderClock, ReminderOutcome, ReminderPermission } from '@/types'
+import { getDateString } from './dateService'
+import { getEntryByDate } from './entryService'
+import { getSettings } from './settingsService'
+import { registerServiceWorker } from './pwaService'
+import { translate } from '@/lib/i18n'
+
+/**
+ * Reminder Service - Daily nudges to write
+ *
+ * While the app is open, a scheduler waits for the next reminder time
+ * and checks whether that day has an entry yet. If not, the service
+ * worker shows a notification; when notifications are blocked the
+ * caller shows an in-app banner instead. All timing goes through a
+ * ReminderClock so the logic can be run against a fake clock
+ *
+ * Where the browser offers Periodic Background Sync, the service worker
+ * also runs the check while the app is closed (see public/sw.js)
+ */
+
+/**
+ * Notification tag, so a new reminder replaces an unread one
+ * Also tags the service worker's background check
+ */
+const REMINDER_TAG = 'daily-reminder'
+
+/**
+ * Shortest gap between background checks (the browser picks the actual times)
+ */
+const BACKGROUND_CHECK_INTERVAL_MS = 60 * 60 * 1000
+
+/**
+ * Periodic Background Sync (Chromium, installed apps; not in the DOM typings)
+ */
+interface PeriodicSyncManager {
+  register(tag: string, options?: { minInterval: number }): Promise<void>
+  unregister(tag: string): Promise<void>
+}
+
+/**
+ * The real clock
+ */
+export const systemClock: ReminderClock = {
+  now: () => new Date(),
+  setTimeout: (callback, ms) => window.setTimeout(callback, ms),
+  clearTimeout: (handle) => window.clearTimeout(handle),
+}
+
+/**
+ * Clock that only moves when told to, for trying reminders out
+ */
+export interface FakeClock extends ReminderClock {
+  /**
+   * Move time forward, running any timers that come due in order
+   * Resolves once every callback (including async ones) has finished
+   */
+  advance(ms: number): Promise<void>
+}
+
+/**
+ * Create a fake clock
+ * @param start Time the clock starts at
+ */
+export function createFakeClock(start: Date): FakeClock {
+  let current = start.getTime()
+  let nextHandle = 1
+  const timers = new Map<number, { at: number; callback: () => unknown }>()
+
+  return {
+    now: () => new Date(current),
+    setTimeout: (callback, ms) => {
+      const handle = nextHandle++
+      timers.set(handle, { at: current + Math.max(0, ms), callback })
+      return handle
+    },
+    clearTimeout: (handle) => {
+      timers.delete(handle)
+    },
+    async advance(ms) {
+      const target = current + ms
+      for (;;) {
+        let due: [number, { at: number; callback: () => unknown }] | null = null
+        for (const timer of timers) {
+          if (timer[1].at <= target && (!due || timer[1].at < due[1].at)) due = timer
+        }
+        if (!due) break
+        timers.delete(due[0])
+        current = due[1].at
+        await due[1].callback()
+      }
+      current = target
+    },
+  }
+}
+
+/**
+ * Reminder moments on a given day, earliest first
+ * @param day Any time on the day
+ * @param times Reminder times ("HH:mm")
+ */
+export function getReminderTimesOn(day: Date, times: string[]): Date[] {
+  return times
+    .map((time) => {
+      const [hours, minutes] = time.split(':').map(Number)
+      return set(day, { hours, minutes, seconds: 0, milliseconds: 0 })
+    })
+    .sort((a, b) => a.getTime() - b.getTime())
+}
+
+/**
+ * Check whether a day is a quiet day
+ */
+export function isQuietDay(day: Date, quietDays: number[]): boolean {
+  return quietDays.includes(day.getDay())
+}
+
+/**
+ * Find the next reminder after a moment
+ * @param now Current time
+ * @param times Reminder times ("HH:mm")
+ * @param quietDays Days of the week without reminders
+ * @returns Next reminder, or null if reminders are off
+ */
+export function getNextReminder(now: Date, times: string[], quietDays: number[]): Date | null {
+  for (let offset = 0; offset <= 7; offset++) {
+    const day = addDays(now, offset)
+    if (isQuietDay(day, quietDays)) continue
+    const next = getReminderTimesOn(day, times).find((time) => time > now)
+    if (next) return next
+  }
+  return null
+}
+
+/**
+ * Find the most recent reminder earlier the same day
+ * @returns Reminder time, or null if none has passed today
+ */
+export function getLastReminderToday(now: Date, times: string[], quietDays: number[]): Date | null {
+  if (isQuietDay(now, quietDays)) return null
+  const passed = getReminderTimesOn(now, times).filter((time) => time <= now)
+  return passed[passed.length - 1] ?? null
+}
+
+/**
+ * Current notification permission
+ */
+export function getNotificationPermission(): ReminderPermission {
+  if (typeof Notification === 'undefined' || !('serviceWorker' in navigator)) {
+    return 'unsupported'
+  }
+  return Notification.permission
+}
+
+/**
+ * Ask for permission to show notifications
+ * @returns Permission after asking
+ */
+export async function requestNotificationPermission(): Promise<ReminderPermission> {
+  if (getNotificationPermission() === 'unsupported') return 'unsupported'
+  try {
+    return await Notification.requestPermission()
+  } catch (error) {
+    console.error('Failed to request notification permission:', error)
+    return getNotificationPermission()
+  }
+}
+
+/**
+ * Show the reminder notification through the service worker
+ * @returns Whether a notification was shown
+ */
+async function showReminderNotification(): Promise<boolean> {
+  if (getNotificationPermission() !== 'granted') return false
+  const registration = await registerServiceWorker()
+  if (!registration) return false
+  try {
+    await registration.showNotification(translate('app.name'), {
+      body: translate('reminder.notificationBody'),
+      tag: REMINDER_TAG,
+      data: { url: '/' },
+    })
+    return true
+  } catch (error) {
+    console.error('Failed to show reminder:', error)
+    return false
+  }
+}
+
+/**
+ * Turn the service worker's background check on or off to match the settings
+ * Needs reminder times, notification permission and Periodic Background
+ * Sync; without these reminders are only checked while the app is open
+ * @returns Whether the background check is on
+ */
+export async function updateBackgroundReminders(): Promise<boolean> {
+  const registration = await registerServiceWorker()
+  const periodicSync = (registration as { periodicSync?: PeriodicSyncManager } | null)?.periodicSync
+  if (!periodicSync) return false
+
+  try {
+    if (getSettings().reminderTimes.length === 0 || getNotificationPermission() !== 'granted') {
+      await periodicSync.unregister(REMINDER_TAG)
+      return false
+    }
+    const { state } = await navigator.permissions.query({
+      name: 'periodic-background-sync' as PermissionName,
+    })
+    if (state !== 'granted') return false
+
+    // The worker can't read the message catalogs, so it gets the text in the current language
+    const { active } = await navigator.serviceWorker.ready
+    active?.postMessage({
+      type: 'REMINDER_TEXT',
+      title: translate('app.name'),
+      body: translate('reminder.notificationBody'),
+    })
+    await periodicSync.register(REMINDER_TAG, { minInterval: BACKGROUND_CHECK_INTERVAL_MS })
+    return true
+  } catch (error) {
+    console.error('Failed to set up background reminders:', error)
+    return false
+  }
+}
+
+/**
+ * Run the reminder check for a moment
+ * Same as checking getTodayEntry(), but for the day `now` falls on, so
+ * a fake clock can check other days
+ * @param now Time of the reminder
+ * @returns What the check did
+ */
+export async function runReminderCheck(now: Date): Promise<ReminderOutcome> {
+  const { reminderQuietDays } = getSettings()
+  if (isQuietDay(now, reminderQuietDays)) return 'quiet'
+
+  const entry = await getEntryByDate(getDateString(now))
+  if (entry) return 'written'
+
+  return (await showReminderNotification()) ? 'notified' : 'banner'
+}
+
+/**
+ * Start scheduling reminders from the current settings
+ * @param onOutcome Called after every reminder check
+ * @param clock Time source (defaults to the real clock)
+ * @returns Function that stops the scheduler
+ */
+export function startReminderScheduler(
+  onOutcome: (outcome: ReminderOutcome) => void,
+  clock: ReminderClock = systemClock
+): () => void {
+  let handle: number | null = null
+  let stopped = false
+
+  // `after` is the reminder that just ran, in case the timer fired early
+  const scheduleNext = (after?: Date) => {
+    const { reminderTimes, reminderQuietDays } = getSettings()
+    const now = clock.now()
+    const next = getNextReminder(after && after > now ? after : now, reminderTimes, reminderQuietDays)
+    if (!next || stopped) return
+
+    handle = clock.setTimeout(async () => {
+      handle = null
+      try {
+        onOutcome(await runReminderCheck(clock.now()))
+      } catch (error) {
+        console.error('Reminder check failed:', error)
+      }
+      scheduleNext(next)
+    }, next.getTime() - now.getTime())
+  }
+
+  scheduleNext()
+
+  return () => {
+    stopped = true
+    if (handle !== null) clock.clearTimeout(handle)
+  }
+}
+
+/**
+ * Run the scheduler on a fake clock up to the next reminder
+ * Tries the reminder out right away instead of waiting for it
+ * @param from Time the fake clock starts at (defaults to now)
+ * @returns The reminder time and what its check did, or null if reminders are off
+ */
+export async function simulateNextReminder(
+  from: Date = new Date()
+): Promise<{ at: Date; outcome: ReminderOutcome | null } | null> {
+  const { reminderTimes, reminderQuietDays } = getSettings()
+  const next = getNextReminder(from, reminderTimes, reminderQuietDays)
+  if (!next) return null
+
+  const clock = createFakeClock(from)
+  let outcome: ReminderOutcome | null = null
+  const stop = startReminderScheduler((result) => {
+    outcome ??= result
+  }, clock)
+  await clock.advance(next.getTime() - from.getTime())
+  stop()
+
+  return { at: next, outcome }
+}
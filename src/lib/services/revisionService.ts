@@ -0,0 +1,119 @@
+import { v4 as uuidv4 } from 'uuid'
+import { db } from '../db/schema'
+import type { DiffPart, Entry, EntryRevision } from '@/types'
+import { translate } from '@/lib/i18n'
+
+/**
+ * Revision Service - Earlier versions of edited entries
+ *
+ * updateEntry() snapshots the version it replaces; revisions are deleted
+ * together with their entry when it is permanently deleted
+ */
+
+/**
+ * Check whether an edit changed anything worth keeping a revision of
+ */
+export function hasContentChanged(before: Entry, after: Entry): boolean {
+  const tagsBefore = (before.tags ?? []).join('\u0000')
+  const tagsAfter = (after.tags ?? []).join('\u0000')
+  return (
+    before.gratitude_text !== after.gratitude_text ||
+    before.rating !== after.rating ||
+    tagsBefore !== tagsAfter
+  )
+}
+
+/**
+ * Store an entry's current version before it is overwritten
+ * Call inside a transaction that includes db.revisions
+ * @param entry Version being replaced
+ * @param revisedAt When the edit happened (Unix milliseconds)
+ */
+export async function saveRevision(entry: Entry, revisedAt: number): Promise<void> {
+  const revision: EntryRevision = {
+    id: uuidv4(),
+    entry_id: entry.id,
+    gratitude_text: entry.gratitude_text,
+    rating: entry.rating,
+    tags: entry.tags ?? [],
+    edited_at: entry.updated_at,
+    revised_at: revisedAt,
+  }
+  await db.revisions.add(revision)
+}
+
+/**
+ * Delete every revision of an entry
+ * Call inside a transaction that includes db.revisions
+ * @param entryId Entry ID
+ */
+export async function deleteRevisions(entryId: string): Promise<void> {
+  await db.revisions.where('entry_id').equals(entryId).delete()
+}
+
+/**
+ * Get an entry's earlier versions, most recent first
+ * @param entryId Entry ID
+ */
+export async function getRevisions(entryId: string): Promise<EntryRevision[]> {
+  try {
+    const revisions = await db.revisions.where('entry_id').equals(entryId).toArray()
+    return revisions.sort((a, b) => b.revised_at - a.revised_at)
+  } catch (error) {
+    console.error('Failed to get revisions:', error)
+    throw new Error(translate('entry.historyFailed'))
+  }
+}
+
+/**
+ * Compare two texts word by word (longest common subsequence)
+ * Words are compared without their surrounding whitespace, which
+ * stays attached to the word in the output
+ * @param before Older text
+ * @param after Newer text
+ * @returns Runs of unchanged, removed and added words, in reading order
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.match(/\s*\S+\s*/g) ?? []
+  const b = after.match(/\s*\S+\s*/g) ?? []
+  const same = (i: number, j: number) => a[i].trim() === b[j].trim()
+
+  // lengths[i * (b.length + 1) + j] = LCS length of a[i..] and b[j..]
+  const width = b.length + 1
+  const lengths = new Uint32Array((a.length + 1) * width)
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = same(i, j)
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+    }
+  }
+
+  const parts: DiffPart[] = []
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1]
+    if (last && last.type === type) {
+      last.text += text
+    } else {
+      parts.push({ type, text })
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (same(i, j)) {
+      push('same', b[j])
+      i++
+      j++
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      push('removed', a[i++])
+    } else {
+      push('added', b[j++])
+    }
+  }
+  while (i < a.length) push('removed', a[i++])
+  while (j < b.length) push('added', b[j++])
+
+  return parts
+}
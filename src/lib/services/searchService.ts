@@ -0,0 +1,174 @@
+import { countLiveEntries, db } from '../db/schema'
+import type { Entry, SearchPosting, SearchResult, TextMatch } from '@/types'
+import { isLiveEntry } from '@/types'
+import { translate } from '@/lib/i18n'
+import { buildPostings, normalizeText, stemTerm, tokenize } from './textAnalysis'
+
+/**
+ * Search Service - Persisted inverted index over gratitude_text
+ *
+ * The index lives in the searchIndex table (one row per term per entry)
+ * and is kept in sync by the entry service. Queries never scan entries.
+ */
+
+/**
+ * Relative weight of each kind of term match
+ */
+const MATCH_WEIGHTS = {
+  exact: 1,
+  stem: 0.8,
+  prefix: 0.5,
+} as const
+
+/**
+ * Add or replace an entry's rows in the search index
+ * Call inside a transaction that includes db.searchIndex
+ * @param entry Entry to index
+ */
+export async function indexEntry(entry: Pick<Entry, 'id' | 'gratitude_text'>): Promise<void> {
+  await db.searchIndex.where('entry_id').equals(entry.id).delete()
+  await db.searchIndex.bulkPut(buildPostings(entry))
+}
+
+/**
+ * Remove an entry's rows from the search index
+ * Call inside a transaction that includes db.searchIndex
+ * @param entryId Entry ID
+ */
+export async function removeFromIndex(entryId: string): Promise<void> {
+  await db.searchIndex.where('entry_id').equals(entryId).delete()
+}
+
+/**
+ * Rebuild the whole search index from the entries table
+ * Useful after bulk imports or if the index is suspected to be stale
+ */
+export async function rebuildSearchIndex(): Promise<void> {
+  try {
+    await db.transaction('rw', db.entries, db.searchIndex, async () => {
+      const entries = await db.entries.filter(isLiveEntry).toArray()
+      await db.searchIndex.clear()
+      await db.searchIndex.bulkPut(entries.flatMap(buildPostings))
+    })
+  } catch (error) {
+    console.error('Failed to rebuild search index:', error)
+    throw new Error(translate('search.rebuildFailed'))
+  }
+}
+
+/**
+ * Per-entry accumulator for one query term
+ */
+interface TermHit {
+  weight: number
+  offsets: [number, number][]
+}
+
+/**
+ * Find index rows for one query term (prefix and stem matches)
+ * @returns Best hit per entry ID
+ */
+async function lookupTerm(term: string): Promise<Map<string, TermHit>> {
+  const stem = stemTerm(term)
+  const [prefixRows, stemRows] = await Promise.all([
+    db.searchIndex.where('term').startsWith(term).toArray(),
+    db.searchIndex.where('stem').equals(stem).toArray(),
+  ])
+
+  const hits = new Map<string, TermHit>()
+  const addRow = (row: SearchPosting, weight: number) => {
+    const hit = hits.get(row.entry_id)
+    if (!hit) {
+      hits.set(row.entry_id, { weight, offsets: [...row.offsets] })
+      return
+    }
+    hit.weight = Math.max(hit.weight, weight)
+    hit.offsets.push(...row.offsets)
+  }
+
+  for (const row of prefixRows) {
+    addRow(row, row.term === term ? MATCH_WEIGHTS.exact : MATCH_WEIGHTS.prefix)
+  }
+  for (const row of stemRows) {
+    // Rows matched both ways were already counted above
+    if (!row.term.startsWith(term)) {
+      addRow(row, MATCH_WEIGHTS.stem)
+    }
+  }
+
+  return hits
+}
+
+/**
+ * Sort ranges and merge overlapping ones
+ */
+function mergeMatches(offsets: [number, number][]): TextMatch[] {
+  const sorted = [...offsets].sort((a, b) => a[0] - b[0] || a[1] - b[1])
+  const merged: TextMatch[] = []
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && start <= last.end) {
+      last.end = Math.max(last.end, end)
+    } else {
+      merged.push({ start, end })
+    }
+  }
+  return merged
+}
+
+/**
+ * Search entries using the inverted index
+ *
+ * Every query word must match (AND). A word matches a term that starts
+ * with it ("grat" → "grateful") or shares its stem ("walked" → "walking").
+ * Matching ignores case and diacritics. Results are ranked by TF-IDF,
+ * newest first on ties.
+ *
+ * @param query Search query
+ * @returns Ranked results with highlight offsets
+ */
+export async function searchIndex(query: string): Promise<SearchResult[]> {
+  const terms = Array.from(
+    new Set(tokenize(normalizeText(query)).map((token) => token.term))
+  )
+  if (terms.length === 0) {
+    return []
+  }
+
+  const totalEntries = await countLiveEntries()
+  const termHits = await Promise.all(terms.map(lookupTerm))
+
+  // AND: keep entries matched by every term, rarest term first
+  termHits.sort((a, b) => a.size - b.size)
+  let candidateIds = Array.from(termHits[0].keys())
+  for (const hits of termHits.slice(1)) {
+    candidateIds = candidateIds.filter((id) => hits.has(id))
+  }
+  if (candidateIds.length === 0) {
+    return []
+  }
+
+  const entries = await db.entries.bulkGet(candidateIds)
+  const results: SearchResult[] = []
+
+  entries.forEach((entry, i) => {
+    // Trashed entries are unindexed, but skip them in case the index is stale
+    if (!entry || !isLiveEntry(entry)) return
+    const id = candidateIds[i]
+
+    let score = 0
+    const offsets: [number, number][] = []
+    for (const hits of termHits) {
+      const hit = hits.get(id)!
+      const idf = Math.log(1 + totalEntries / hits.size)
+      score += hit.weight * (1 + Math.log(hit.offsets.length)) * idf
+      offsets.push(...hit.offsets)
+    }
+
+    results.push({ entry, score, matches: mergeMatches(offsets) })
+  })
+
+  return results.sort(
+    (a, b) => b.score - a.score || b.entry.entry_date.localeCompare(a.entry.entry_date)
+  )
+}
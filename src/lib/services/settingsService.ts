@@ -0,0 +1,227 @@
+import { db } from '../db/schema'
+import type { Settings, SettingRecord } from '@/types'
+import {
+  DEFAULT_SETTINGS,
+  DATE_FORMAT_PATTERNS,
+  TEXT_LENGTH_LIMITS,
+  TRASH_RETENTION_OPTIONS,
+  STREAK_GRACE_DAY_OPTIONS,
+  BACKFILL_WINDOW_OPTIONS,
+  MAX_REMINDER_TIMES,
+  SUPPORTED_LOCALES,
+  RATING_LEVEL_LIMITS,
+  MAX_RATING_LABEL_LENGTH,
+} from '@/types'
+import { setActiveLocale, translate } from '@/lib/i18n'
+import { isValidDateString } from './dateService'
+
+/**
+ * Settings Service - Load and persist user preferences
+ *
+ * Keeps an in-memory snapshot so synchronous code (like validateEntry)
+ * can read the current preferences without touching the database
+ */
+
+let currentSettings: Settings = { ...DEFAULT_SETTINGS }
+
+/**
+ * Replace the snapshot and switch the interface to its language
+ */
+function setCurrentSettings(settings: Settings): Settings {
+  currentSettings = settings
+  setActiveLocale(settings.language)
+  return settings
+}
+
+/**
+ * Accept absolute http(s) URLs and same-origin paths
+ */
+function isSyncServerUrl(value: string): boolean {
+  if (value.startsWith('/')) return !value.startsWith('//')
+  try {
+    const url = new URL(value)
+    return url.protocol === 'https:' || url.protocol === 'http:'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Accept a list of distinct values that each pass a check
+ */
+function isDistinctList(value: unknown, check: (item: unknown) => boolean): boolean {
+  return Array.isArray(value) && value.every(check) && new Set(value).size === value.length
+}
+
+/**
+ * Accept a 24-hour local time like "08:05" or "20:30"
+ */
+function isReminderTime(value: unknown): boolean {
+  return typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value)
+}
+
+/**
+ * Accept a rating level with a short label, a hex color and an optional emoji
+ */
+function isRatingLevel(value: unknown): boolean {
+  if (typeof value !== 'object' || value === null) return false
+  const { label, color, emoji } = value as Record<string, unknown>
+  return (
+    typeof label === 'string' &&
+    label.trim().length > 0 &&
+    label.length <= MAX_RATING_LABEL_LENGTH &&
+    typeof color === 'string' &&
+    /^#[0-9a-f]{6}$/i.test(color) &&
+    typeof emoji === 'string' &&
+    emoji.length <= 16
+  )
+}
+
+/**
+ * Check a single setting value
+ * @returns Error message, or null if valid
+ */
+function validateSetting<K extends keyof Settings>(key: K, value: unknown): string | null {
+  switch (key) {
+    case 'language':
+      return (SUPPORTED_LOCALES as readonly unknown[]).includes(value)
+        ? null
+        : translate('settings.invalid.language')
+    case 'weekStartsOn':
+      return value === 0 || value === 1 || value === 6
+        ? null
+        : translate('settings.invalid.weekStartsOn')
+    case 'dateFormat':
+      return typeof value === 'string' && value in DATE_FORMAT_PATTERNS
+        ? null
+        : translate('settings.invalid.dateFormat')
+    case 'defaultLandingPage':
+      return value === '/' || value === '/history' || value === '/search'
+        ? null
+        : translate('settings.invalid.landingPage')
+    case 'maxTextLength':
+      return Number.isInteger(value) &&
+        (value as number) >= TEXT_LENGTH_LIMITS.min &&
+        (value as number) <= TEXT_LENGTH_LIMITS.max
+        ? null
+        : translate('settings.invalid.maxTextLength', TEXT_LENGTH_LIMITS)
+    case 'syncServerUrl':
+      return value === '' || (typeof value === 'string' && isSyncServerUrl(value))
+        ? null
+        : translate('settings.invalid.syncServerUrl')
+    case 'trashRetentionDays':
+      return (TRASH_RETENTION_OPTIONS as readonly unknown[]).includes(value)
+        ? null
+        : translate('settings.invalid.trashRetention', {
+            options: TRASH_RETENTION_OPTIONS.join(translate('common.listSeparator')),
+          })
+    case 'streakGraceDays':
+      return (STREAK_GRACE_DAY_OPTIONS as readonly unknown[]).includes(value)
+        ? null
+        : translate('settings.invalid.graceDays', {
+            max: STREAK_GRACE_DAY_OPTIONS[STREAK_GRACE_DAY_OPTIONS.length - 1],
+          })
+    case 'backfillWindowDays':
+      return (BACKFILL_WINDOW_OPTIONS as readonly unknown[]).includes(value)
+        ? null
+        : translate('settings.invalid.backfillWindow', {
+            options: BACKFILL_WINDOW_OPTIONS.join(translate('common.listSeparator')),
+          })
+    case 'onThisDayHiddenOn':
+      return value === '' || (typeof value === 'string' && isValidDateString(value))
+        ? null
+        : translate('settings.invalid.hiddenOn')
+    case 'reminderTimes':
+      return isDistinctList(value, isReminderTime) && (value as string[]).length <= MAX_REMINDER_TIMES
+        ? null
+        : translate('settings.invalid.reminderTimes', { max: MAX_REMINDER_TIMES })
+    case 'reminderQuietDays':
+      return isDistinctList(value, (day) => Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6)
+        ? null
+        : translate('settings.invalid.quietDays')
+    case 'ratingScale':
+      return Array.isArray(value) &&
+        (value.length === 0 ||
+          (value.length >= RATING_LEVEL_LIMITS.min && value.length <= RATING_LEVEL_LIMITS.max)) &&
+        value.every(isRatingLevel)
+        ? null
+        : translate('settings.invalid.ratingScale', {
+            ...RATING_LEVEL_LIMITS,
+            labelLength: MAX_RATING_LABEL_LENGTH,
+          })
+    default:
+      return translate('settings.invalid.unknown')
+  }
+}
+
+/**
+ * Get the current settings (synchronous snapshot)
+ * Returns defaults until loadSettings() has run
+ */
+export function getSettings(): Settings {
+  return currentSettings
+}
+
+/**
+ * Load settings from the database
+ * Missing or invalid stored values fall back to defaults
+ * @returns Loaded settings
+ */
+export async function loadSettings(): Promise<Settings> {
+  try {
+    const records = await db.settings.toArray()
+    const loaded: Settings = { ...DEFAULT_SETTINGS }
+
+    for (const record of records) {
+      if (record.key in DEFAULT_SETTINGS && !validateSetting(record.key, record.value)) {
+        Object.assign(loaded, { [record.key]: record.value })
+      }
+    }
+
+    return setCurrentSettings(loaded)
+  } catch (error) {
+    console.error('Failed to load settings:', error)
+    return currentSettings
+  }
+}
+
+/**
+ * Save one or more settings
+ * @param updates Settings to change
+ * @returns Full settings after the change
+ * @throws Error if a value is invalid or saving fails
+ */
+export async function saveSettings(updates: Partial<Settings>): Promise<Settings> {
+  const keys = Object.keys(updates) as (keyof Settings)[]
+  const errors = keys
+    .map((key) => validateSetting(key, updates[key]))
+    .filter((message): message is string => message !== null)
+  if (errors.length > 0) {
+    throw new Error(errors.join(translate('common.listSeparator')))
+  }
+
+  try {
+    const records: SettingRecord[] = keys.map((key) => ({ key, value: updates[key]! }))
+    await db.settings.bulkPut(records)
+  } catch (error) {
+    console.error('Failed to save settings:', error)
+    throw new Error(translate('settings.saveFailed'))
+  }
+
+  return setCurrentSettings({ ...currentSettings, ...updates })
+}
+
+/**
+ * Reset every setting to its default
+ * @returns Default settings
+ */
+export async function resetSettings(): Promise<Settings> {
+  try {
+    await db.settings.clear()
+  } catch (error) {
+    console.error('Failed to reset settings:', error)
+    throw new Error(translate('settings.resetFailed'))
+  }
+
+  return setCurrentSettings({ ...DEFAULT_SETTINGS })
+}
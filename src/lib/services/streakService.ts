@@ -0,0 +1,75 @@
+import { differenceInCalendarDays } from 'date-fns'
+import type { Streak, StreakSummary } from '@/types'
+import { getTodayDateString, parseEntryDate } from './dateService'
+
+/**
+ * Streak Service - Consecutive days with entries
+ *
+ * Pure functions over entry_date values. Two days with entries belong
+ * to the same streak when at most graceDays days without an entry lie
+ * between them; a streak's length counts only the days with entries.
+ */
+
+/**
+ * Number of days without an entry strictly between two dates
+ */
+function missedDaysBetween(earlier: string, later: string): number {
+  return differenceInCalendarDays(parseEntryDate(later), parseEntryDate(earlier)) - 1
+}
+
+/**
+ * Split entry dates into streaks
+ * @param dates Entry dates (YYYY-MM-DD), any order, duplicates allowed
+ * @param graceDays Missed days in a row that don't break a streak
+ * @returns Streaks in date order, oldest first (including single days)
+ */
+export function findStreaks(dates: string[], graceDays: number = 0): Streak[] {
+  const sorted = Array.from(new Set(dates)).sort()
+  const streaks: Streak[] = []
+
+  for (const date of sorted) {
+    const last = streaks[streaks.length - 1]
+    if (last && missedDaysBetween(last.end_date, date) <= graceDays) {
+      last.end_date = date
+      last.length++
+    } else {
+      streaks.push({ start_date: date, end_date: date, length: 1 })
+    }
+  }
+
+  return streaks
+}
+
+/**
+ * Calculate current and longest streaks and streak history
+ * Today counts as not missed yet, so a streak that ended yesterday is
+ * still current until the day is over
+ * @param dates Entry dates (YYYY-MM-DD)
+ * @param graceDays Missed days in a row that don't break a streak
+ * @param today Today's date string (defaults to the local date)
+ */
+export function calculateStreaks(
+  dates: string[],
+  graceDays: number = 0,
+  today: string = getTodayDateString()
+): StreakSummary {
+  const streaks = findStreaks(dates.filter((date) => date <= today), graceDays)
+
+  const last = streaks[streaks.length - 1]
+  const loggedToday = last?.end_date === today
+  const missed = last ? Math.max(0, missedDaysBetween(last.end_date, today)) : 0
+  const current = last && (loggedToday || missed <= graceDays) ? last : null
+
+  let longest: Streak | null = null
+  for (const streak of streaks) {
+    if (!longest || streak.length >= longest.length) longest = streak
+  }
+
+  return {
+    current,
+    longest,
+    history: streaks.filter((streak) => streak.length > 1).reverse(),
+    loggedToday,
+    graceDaysLeft: current ? graceDays - missed : 0,
+  }
+}
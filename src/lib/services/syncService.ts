@@ -0,0 +1,333 @@
+import { db } from '../db/schema'
+import type { Entry, RemoteEntry, SyncRecord, SyncState, SyncStateRecord } from '@/types'
+import { isLiveEntry, isRatingValue } from '@/types'
+import type { SyncAdapter } from '../sync/adapter'
+import { HttpSyncAdapter } from '../sync/httpAdapter'
+import { isValidDateString } from './dateService'
+import { indexEntry, removeFromIndex } from './searchService'
+import { hasContentChanged, saveRevision } from './revisionService'
+import { normalizeTags } from './tagService'
+
+/**
+ * Sync Service - Two-way sync of entries with a remote server
+ *
+ * An entry needs pushing when it has never been synced or was updated
+ * after synced_at. Trashed entries are pushed as records with deleted: true;
+ * entries purged from the trash before that push leave a tombstone
+ * instead. Each sync pulls first, then
+ * pushes; conflicts go to whichever side has the later updated_at.
+ */
+
+/**
+ * What a sync did
+ */
+export interface SyncResult {
+  /** Remote changes written to this device */
+  pulled: number
+  /** Local changes sent to the server */
+  pushed: number
+  /** Records changed on both sides (resolved by updated_at) */
+  conflicts: number
+}
+
+const EMPTY_SYNC_STATE: SyncState = {
+  server: null,
+  cursor: null,
+  lastSyncedAt: null,
+}
+
+/**
+ * Create the adapter for a configured server URL
+ * @param serverUrl Base URL from settings
+ */
+export function createSyncAdapter(serverUrl: string): SyncAdapter {
+  return new HttpSyncAdapter(serverUrl)
+}
+
+/**
+ * Load sync bookkeeping
+ */
+export async function getSyncState(): Promise<SyncState> {
+  const records = await db.syncState.toArray()
+  const state: SyncState = { ...EMPTY_SYNC_STATE }
+  for (const record of records) {
+    Object.assign(state, { [record.key]: record.value })
+  }
+  return state
+}
+
+async function saveSyncState(updates: Partial<SyncState>): Promise<void> {
+  const records = (Object.keys(updates) as (keyof SyncState)[]).map(
+    (key): SyncStateRecord => ({ key, value: updates[key] ?? null })
+  )
+  await db.syncState.bulkPut(records)
+}
+
+/**
+ * Check whether an entry has changes the server hasn't seen
+ */
+function needsPush(entry: Entry): boolean {
+  return !entry.synced_at || entry.updated_at > entry.synced_at
+}
+
+/**
+ * Count local changes waiting to be pushed
+ */
+export async function getPendingChangeCount(): Promise<number> {
+  const [entries, tombstones] = await Promise.all([
+    db.entries.filter(needsPush).count(),
+    db.syncTombstones.count(),
+  ])
+  return entries + tombstones
+}
+
+/**
+ * Turn a remote record into a local entry, or null if it's unusable
+ */
+function toLocalEntry(record: RemoteEntry, syncedAt: number): Entry | null {
+  if (
+    !isValidDateString(record.entry_date) ||
+    typeof record.gratitude_text !== 'string' ||
+    !isRatingValue(record.rating)
+  ) {
+    return null
+  }
+  return {
+    id: record.id,
+    entry_date: record.entry_date,
+    gratitude_text: record.gratitude_text,
+    rating: record.rating,
+    tags: normalizeTags(Array.isArray(record.tags) ? record.tags : []),
+    created_at: record.created_at,
+    updated_at: record.updated_at,
+    ...(record.backfilled === true && { backfilled: true }),
+    // Another device's clock may run ahead of ours
+    synced_at: Math.max(syncedAt, record.updated_at),
+  }
+}
+
+/**
+ * Move a local entry to the trash
+ * @param syncedAt Set when the deletion came from the server
+ */
+async function trashLocal(entry: Entry, deletedAt: number, syncedAt?: number): Promise<void> {
+  await db.entries.put({
+    ...entry,
+    deleted: true,
+    deleted_at: entry.deleted ? entry.deleted_at : deletedAt,
+    updated_at: deletedAt,
+    synced_at: syncedAt === undefined ? entry.synced_at : Math.max(syncedAt, deletedAt),
+  })
+  await removeFromIndex(entry.id)
+}
+
+/**
+ * Write pulled records to this device in one transaction
+ * @returns Number of records written and conflicts resolved
+ */
+async function applyRemoteChanges(
+  changes: SyncRecord[]
+): Promise<{ applied: number; conflicts: number }> {
+  let applied = 0
+  let conflicts = 0
+  const now = Date.now()
+
+  await db.transaction('rw', [db.entries, db.searchIndex, db.syncTombstones, db.revisions], async () => {
+    for (const remote of changes) {
+      const local = await db.entries.get(remote.id)
+      const tombstone = await db.syncTombstones.get(remote.id)
+
+      if (remote.deleted) {
+        if (local && local.updated_at > remote.updated_at) {
+          // Edited here after it was deleted elsewhere: the edit wins
+          conflicts++
+          continue
+        }
+        if (local && local.updated_at < remote.updated_at) {
+          await trashLocal(local, remote.updated_at, now)
+          applied++
+        } else if (local && needsPush(local)) {
+          // Our own deletion coming back
+          await db.entries.put({ ...local, synced_at: Math.max(now, local.updated_at) })
+        }
+        if (tombstone) await db.syncTombstones.delete(remote.id)
+        continue
+      }
+
+      if (tombstone) {
+        if (tombstone.deleted_at >= remote.updated_at) {
+          // Deleted here after it was edited elsewhere: the deletion wins
+          conflicts++
+          continue
+        }
+        await db.syncTombstones.delete(remote.id)
+      }
+
+      const entry = toLocalEntry(remote, now)
+      if (!entry) {
+        console.warn('Skipping malformed entry from sync server:', remote.id)
+        continue
+      }
+
+      if (local) {
+        if (local.updated_at > remote.updated_at) {
+          conflicts++
+          continue
+        }
+        if (local.updated_at === remote.updated_at) {
+          // Our own change coming back: nothing to write
+          if (needsPush(local)) await db.entries.put({ ...local, synced_at: Math.max(now, local.updated_at) })
+          continue
+        }
+        if (needsPush(local)) conflicts++
+      }
+
+      // Another device wrote the same day under a different id
+      const sameDay = await db.entries
+        .where('entry_date')
+        .equals(entry.entry_date)
+        .filter((other) => isLiveEntry(other) && other.id !== entry.id)
+        .first()
+      if (sameDay) {
+        conflicts++
+        if (sameDay.updated_at > entry.updated_at) {
+          // Ours wins: ask the server to drop theirs
+          if (local) {
+            await trashLocal({ ...entry, synced_at: local.synced_at }, now)
+          } else {
+            await db.syncTombstones.put({ id: entry.id, entry_date: entry.entry_date, deleted_at: now })
+          }
+          continue
+        }
+        await trashLocal(sameDay, now)
+      }
+
+      // Edited on another device: keep our version in the history
+      if (local && isLiveEntry(local) && hasContentChanged(local, entry)) {
+        await saveRevision(local, now)
+      }
+
+      await db.entries.put(entry)
+      await indexEntry(entry)
+      applied++
+    }
+  })
+
+  return { applied, conflicts }
+}
+
+/**
+ * Send local changes and mark them as synced
+ * @returns Number of records pushed
+ */
+async function pushLocalChanges(adapter: SyncAdapter): Promise<number> {
+  const [entries, tombstones] = await Promise.all([
+    db.entries.filter(needsPush).toArray(),
+    db.syncTombstones.toArray(),
+  ])
+  const records: SyncRecord[] = [
+    ...entries.map(({ synced_at: _syncedAt, deleted, deleted_at: _deletedAt, ...entry }): SyncRecord =>
+      deleted
+        ? { id: entry.id, entry_date: entry.entry_date, updated_at: entry.updated_at, deleted: true }
+        : entry
+    ),
+    ...tombstones.map((tombstone): SyncRecord => ({
+      id: tombstone.id,
+      entry_date: tombstone.entry_date,
+      updated_at: tombstone.deleted_at,
+      deleted: true,
+    })),
+  ]
+  if (records.length === 0) return 0
+
+  await adapter.push(records)
+
+  // Rejected records lost to a newer server copy, which the next pull brings in
+  const now = Date.now()
+  await db.transaction('rw', db.entries, db.syncTombstones, async () => {
+    for (const pushed of entries) {
+      const current = await db.entries.get(pushed.id)
+      // Skip entries edited while the push was in flight
+      if (current && current.updated_at === pushed.updated_at) {
+        await db.entries.put({ ...current, synced_at: Math.max(now, current.updated_at) })
+      }
+    }
+    for (const pushed of tombstones) {
+      const current = await db.syncTombstones.get(pushed.id)
+      if (current && current.deleted_at === pushed.deleted_at) {
+        await db.syncTombstones.delete(pushed.id)
+      }
+    }
+  })
+
+  return records.length
+}
+
+/**
+ * Forget what was synced with a previous server so everything is sent again
+ */
+async function resetSyncState(serverId: string): Promise<void> {
+  await db.transaction('rw', [db.entries, db.syncTombstones, db.syncState], async () => {
+    await db.entries.toCollection().modify((entry) => {
+      delete entry.synced_at
+    })
+    await db.syncTombstones.clear()
+    await saveSyncState({ server: serverId, cursor: null, lastSyncedAt: null })
+  })
+}
+
+/**
+ * Keep sync in step when every entry is about to be replaced
+ * Entries the server still holds as live get tombstones so the removal
+ * reaches other devices, and the cursor is reset so the next sync
+ * pulls everything again
+ * Call inside a transaction that includes db.entries, db.syncTombstones and db.syncState
+ * @param keptIds IDs of the entries that replace them
+ */
+export async function tombstoneReplacedEntries(keptIds: Set<string>): Promise<void> {
+  const now = Date.now()
+  // Never-synced entries and deletions already pushed need nothing more
+  const removed = await db.entries
+    .filter((entry) => !keptIds.has(entry.id) && !!entry.synced_at && (isLiveEntry(entry) || needsPush(entry)))
+    .toArray()
+  await db.syncTombstones.bulkPut(
+    removed.map((entry) => ({ id: entry.id, entry_date: entry.entry_date, deleted_at: now }))
+  )
+  await db.syncTombstones.bulkDelete(Array.from(keptIds))
+  await saveSyncState({ cursor: null })
+}
+
+/**
+ * Run one sync: pull remote changes, then push local ones
+ * @param adapter Server to sync with
+ * @returns What changed
+ * @throws SyncNetworkError if the server can't be reached
+ * @throws Error if the server rejects a request
+ */
+export async function syncNow(adapter: SyncAdapter): Promise<SyncResult> {
+  const result: SyncResult = { pulled: 0, pushed: 0, conflicts: 0 }
+
+  let state = await getSyncState()
+  if (state.server !== adapter.id) {
+    await resetSyncState(adapter.id)
+    state = await getSyncState()
+  }
+
+  // Pull page by page, saving the cursor after each page is applied
+  let cursor = state.cursor
+  let hasMore = true
+  while (hasMore) {
+    const page = await adapter.pull(cursor)
+    const { applied, conflicts } = await applyRemoteChanges(page.changes)
+    result.pulled += applied
+    result.conflicts += conflicts
+    cursor = page.cursor
+    hasMore = page.hasMore && page.changes.length > 0
+    await saveSyncState({ cursor })
+  }
+
+  result.pushed = await pushLocalChanges(adapter)
+  await saveSyncState({ lastSyncedAt: Date.now() })
+
+  return result
+}
@@ -0,0 +1,139 @@
+import type { Entry } from '@/types/entry'
+import { getDatesInMonth } from './dateService'
+import { translate } from '@/lib/i18n'
+
+/**
+ * Tag Service - Helpers for normalizing, validating and summarizing tags
+ *
+ * Tags are stored lowercase and trimmed so "Family" and "family " match
+ */
+
+/**
+ * Maximum number of tags on a single entry
+ */
+export const MAX_TAGS_PER_ENTRY = 10
+
+/**
+ * Maximum length of a single tag
+ */
+export const MAX_TAG_LENGTH = 24
+
+/**
+ * Letters and numbers, optionally joined by single spaces, hyphens or underscores
+ */
+const TAG_PATTERN = /^[\p{L}\p{N}]+(?:[ _-][\p{L}\p{N}]+)*$/u
+
+/**
+ * Normalize a tag for storage and comparison
+ * @param tag Raw tag as typed by the user
+ * @returns Lowercase tag with surrounding/duplicate whitespace removed
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, '').replace(/\s+/g, ' ').toLowerCase()
+}
+
+/**
+ * Normalize a list of tags, dropping empties and duplicates
+ * @param tags Raw tags
+ * @returns Normalized, de-duplicated tags in original order
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>()
+  for (const tag of tags) {
+    const normalized = normalizeTag(tag)
+    if (normalized) seen.add(normalized)
+  }
+  return Array.from(seen)
+}
+
+/**
+ * Validate a single (normalized) tag
+ * @param tag Tag to validate
+ * @returns Error message, or null if valid
+ */
+export function validateTag(tag: string): string | null {
+  if (tag.length === 0) {
+    return translate('tags.empty')
+  }
+  if (tag.length > MAX_TAG_LENGTH) {
+    return translate('tags.tooLong', { max: MAX_TAG_LENGTH })
+  }
+  if (!TAG_PATTERN.test(tag)) {
+    return translate('tags.invalid', { tag })
+  }
+  return null
+}
+
+/**
+ * Check whether an entry has at least one of the given tags
+ * @param entry Entry to check
+ * @param tags Tags to match (empty matches everything)
+ * @returns True if the entry matches
+ */
+export function entryMatchesTags(entry: Entry, tags: string[]): boolean {
+  if (tags.length === 0) return true
+  const entryTags = entry.tags ?? []
+  return tags.some((tag) => entryTags.includes(tag))
+}
+
+/**
+ * Count how many entries use each tag
+ * @param entries Entries to scan
+ * @returns Tags with counts, most used first (ties sorted alphabetically)
+ */
+export function getTagCounts(entries: Entry[]): { tag: string; count: number }[] {
+  const counts = new Map<string, number>()
+  for (const entry of entries) {
+    for (const tag of entry.tags ?? []) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1)
+    }
+  }
+
+  return Array.from(counts, ([tag, count]) => ({ tag, count })).sort(
+    (a, b) => b.count - a.count || a.tag.localeCompare(b.tag)
+  )
+}
+
+/**
+ * Per-tag statistics for a given month
+ */
+export interface TagStats {
+  /** Tag name */
+  tag: string
+  /** Number of entries with this tag */
+  totalEntries: number
+  /** Average rating of entries with this tag */
+  averageRating: number
+}
+
+/**
+ * Calculate per-tag statistics for entries in a given month
+ * @param entries All entries to consider
+ * @param year Year (e.g., 2024)
+ * @param month Month (1-12)
+ * @returns Stats for every tag used that month, most used first
+ */
+export function calculateTagStats(
+  entries: Entry[],
+  year: number,
+  month: number
+): TagStats[] {
+  const datesInMonth = new Set(getDatesInMonth(year, month))
+  const monthEntries = entries.filter((entry) => datesInMonth.has(entry.entry_date))
+
+  const totals = new Map<string, { count: number; sum: number }>()
+  for (const entry of monthEntries) {
+    for (const tag of entry.tags ?? []) {
+      const total = totals.get(tag) ?? { count: 0, sum: 0 }
+      total.count++
+      total.sum += entry.rating
+      totals.set(tag, total)
+    }
+  }
+
+  return Array.from(totals, ([tag, { count, sum }]) => ({
+    tag,
+    totalEntries: count,
+    averageRating: sum / count,
+  })).sort((a, b) => b.totalEntries - a.totalEntries || a.tag.localeCompare(b.tag))
+}
@@ -0,0 +1,123 @@
+import type { Entry, SearchPosting } from '@/types'
+
+/**
+ * Text Analysis - Tokenizing and normalizing text for the search index
+ *
+ * Pure functions only (no database access) so the same rules can be
+ * used by schema migrations, the entry service and search queries
+ */
+
+/**
+ * A token found in a piece of text
+ */
+export interface Token {
+  /** Normalized form used for indexing */
+  term: string
+  /** Start offset in the original text (inclusive) */
+  start: number
+  /** End offset in the original text (exclusive) */
+  end: number
+}
+
+/**
+ * Letters/digits, allowing inner apostrophes ("don't", "mom's")
+ */
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu
+
+/**
+ * Lowercase and strip diacritics so "Café" matches "cafe"
+ * @param text Text to normalize
+ * @returns Normalized text
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/’/g, "'")
+    .toLowerCase()
+}
+
+/**
+ * Split text into normalized tokens, keeping offsets into the original
+ * @param text Original text
+ * @returns Tokens in order of appearance
+ */
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const start = match.index ?? 0
+    tokens.push({
+      term: normalizeText(match[0]),
+      start,
+      end: start + match[0].length,
+    })
+  }
+  return tokens
+}
+
+/**
+ * Reduce a normalized English word to a rough stem
+ * Deliberately light: catches plurals, -ing, -ed and -ly forms
+ * ("walks", "walking", "walked" → "walk") without a dictionary
+ * @param term Normalized term
+ * @returns Stem
+ */
+export function stemTerm(term: string): string {
+  let stem = term.replace(/'s$/, '')
+  if (stem.length <= 3) return stem
+
+  if (stem.endsWith('ies') && stem.length > 4) {
+    stem = stem.slice(0, -3) + 'y'
+  } else if (stem.endsWith('ing') && stem.length > 5) {
+    stem = undoubleConsonant(stem.slice(0, -3))
+  } else if (stem.endsWith('ed') && stem.length > 4) {
+    stem = undoubleConsonant(stem.slice(0, -2))
+  } else if (stem.endsWith('ly') && stem.length > 4) {
+    stem = stem.slice(0, -2)
+  } else if (/(?:s|x|z|ch|sh)es$/.test(stem)) {
+    stem = stem.slice(0, -2)
+  } else if (stem.endsWith('s') && !stem.endsWith('ss')) {
+    stem = stem.slice(0, -1)
+  }
+
+  // Drop a trailing silent "e" so "love" and "loved" share a stem
+  if (stem.length > 3 && stem.endsWith('e')) {
+    stem = stem.slice(0, -1)
+  }
+
+  return stem
+}
+
+/**
+ * "runn" → "run", "stopp" → "stop"
+ */
+function undoubleConsonant(stem: string): string {
+  return /([b-df-hj-np-tv-z])\1$/.test(stem) && !/(?:ll|ss|zz)$/.test(stem)
+    ? stem.slice(0, -1)
+    : stem
+}
+
+/**
+ * Build inverted-index rows for an entry
+ * @param entry Entry to index
+ * @returns One posting per distinct term in the entry's text
+ */
+export function buildPostings(entry: Pick<Entry, 'id' | 'gratitude_text'>): SearchPosting[] {
+  const postings = new Map<string, SearchPosting>()
+
+  for (const token of tokenize(entry.gratitude_text)) {
+    let posting = postings.get(token.term)
+    if (!posting) {
+      posting = {
+        term: token.term,
+        stem: stemTerm(token.term),
+        entry_id: entry.id,
+        offsets: [],
+      }
+      postings.set(token.term, posting)
+    }
+    posting.offsets.push([token.start, token.end])
+  }
+
+  return Array.from(postings.values())
+}
@@ -0,0 +1,168 @@
+import { addDays, format } from 'date-fns'
+import { db } from '../db/schema'
+import type { Entry } from '@/types'
+import { isLiveEntry } from '@/types'
+import { translate } from '@/lib/i18n'
+import { indexEntry } from './searchService'
+import { deleteRevisions } from './revisionService'
+
+/**
+ * Trash Service - Restore or permanently delete trashed entries
+ *
+ * deleteEntry() only flags an entry as deleted. Trashed entries stay in
+ * the entries table until they are restored, deleted by hand, or purged
+ * once they are older than the retention period from settings.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Thrown inside the restore transaction when the day already has an entry
+ */
+class RestoreConflictError extends Error {}
+
+/**
+ * Get all trashed entries, most recently deleted first
+ */
+export async function getTrashedEntries(): Promise<Entry[]> {
+  try {
+    const entries = await db.entries.where('deleted_at').above(0).reverse().toArray()
+    return entries.filter((entry) => !isLiveEntry(entry))
+  } catch (error) {
+    console.error('Failed to get trashed entries:', error)
+    throw new Error(translate('trash.loadFailed'))
+  }
+}
+
+/**
+ * Get the day a trashed entry will be purged
+ * @param entry Trashed entry
+ * @param retentionDays Days entries are kept in the trash
+ * @returns Purge date string (YYYY-MM-DD)
+ */
+export function getPurgeDate(entry: Entry, retentionDays: number): string {
+  return format(addDays(entry.deleted_at ?? entry.updated_at, retentionDays), 'yyyy-MM-dd')
+}
+
+/**
+ * Permanently remove a trashed entry
+ * Call inside a transaction that includes db.entries, db.revisions and db.syncTombstones
+ */
+async function purgeEntry(entry: Entry): Promise<void> {
+  await db.entries.delete(entry.id)
+  await deleteRevisions(entry.id)
+  // The server still has the live copy if the deletion was never pushed
+  if (entry.synced_at && entry.synced_at < entry.updated_at) {
+    await db.syncTombstones.put({
+      id: entry.id,
+      entry_date: entry.entry_date,
+      deleted_at: entry.updated_at,
+    })
+  }
+}
+
+/**
+ * Move a trashed entry back into the jar
+ * @param id Entry ID
+ * @returns Restored entry
+ * @throws Error if the entry isn't in the trash or its day already has an entry
+ */
+export async function restoreEntry(id: string): Promise<Entry> {
+  const existing = await db.entries.get(id)
+  if (!existing || isLiveEntry(existing)) {
+    throw new Error(translate('trash.notFound'))
+  }
+
+  const restored: Entry = { ...existing, updated_at: Date.now() }
+  delete restored.deleted
+  delete restored.deleted_at
+
+  try {
+    await db.transaction('rw', db.entries, db.searchIndex, async () => {
+      const sameDay = await db.entries
+        .where('entry_date')
+        .equals(existing.entry_date)
+        .filter(isLiveEntry)
+        .first()
+      if (sameDay) {
+        throw new RestoreConflictError(
+          translate('trash.restoreConflict', { date: existing.entry_date })
+        )
+      }
+      await db.entries.put(restored)
+      await indexEntry(restored)
+    })
+    return restored
+  } catch (error) {
+    if (error instanceof RestoreConflictError) {
+      throw new Error(error.message)
+    }
+    console.error('Failed to restore entry:', error)
+    throw new Error(translate('trash.restoreFailed'))
+  }
+}
+
+/**
+ * Permanently delete a trashed entry
+ * @param id Entry ID
+ * @throws Error if the entry isn't in the trash
+ */
+export async function deleteEntryPermanently(id: string): Promise<void> {
+  const existing = await db.entries.get(id)
+  if (!existing || isLiveEntry(existing)) {
+    throw new Error(translate('trash.notFound'))
+  }
+
+  try {
+    await db.transaction('rw', [db.entries, db.revisions, db.syncTombstones], async () => {
+      await purgeEntry(existing)
+    })
+  } catch (error) {
+    console.error('Failed to delete entry:', error)
+    throw new Error(translate('entry.deleteFailed'))
+  }
+}
+
+/**
+ * Permanently delete every trashed entry
+ * @returns Number of entries deleted
+ */
+export async function emptyTrash(): Promise<number> {
+  try {
+    return await db.transaction('rw', [db.entries, db.revisions, db.syncTombstones], async () => {
+      const trashed = await getTrashedEntries()
+      for (const entry of trashed) {
+        await purgeEntry(entry)
+      }
+      return trashed.length
+    })
+  } catch (error) {
+    console.error('Failed to empty trash:', error)
+    throw new Error(translate('trash.emptyFailed'))
+  }
+}
+
+/**
+ * Permanently delete entries that have been in the trash too long
+ * @param retentionDays Days entries are kept in the trash
+ * @returns Number of entries purged
+ */
+export async function purgeExpiredTrash(retentionDays: number): Promise<number> {
+  const cutoff = Date.now() - retentionDays * DAY_MS
+  try {
+    return await db.transaction('rw', [db.entries, db.revisions, db.syncTombstones], async () => {
+      const expired = await db.entries
+        .where('deleted_at')
+        .between(0, cutoff, false, true)
+        .filter((entry) => !isLiveEntry(entry))
+        .toArray()
+      for (const entry of expired) {
+        await purgeEntry(entry)
+      }
+      return expired.length
+    })
+  } catch (error) {
+    console.error('Failed to purge trash:', error)
+    throw new Error(translate('trash.purgeFailed'))
+  }
+}
@@ -0,0 +1,35 @@
+import type { PullResult, PushResult, SyncRecord } from '@/types'
+import { translate } from '@/lib/i18n'
+
+/**
+ * Sync Adapter - Transport between the sync engine and a server
+ *
+ * The engine only talks to this interface, so a different backend
+ * needs a new adapter, not changes to the engine
+ */
+export interface SyncAdapter {
+  /** Identifies the server; switching servers starts a fresh sync */
+  readonly id: string
+
+  /**
+   * Fetch records changed on the server since a cursor
+   * @param cursor Cursor from the previous pull, or null for everything
+   */
+  pull(cursor: string | null): Promise<PullResult>
+
+  /**
+   * Send local changes; the server keeps the later updated_at
+   * @param records Changed entries and tombstones
+   */
+  push(records: SyncRecord[]): Promise<PushResult>
+}
+
+/**
+ * Thrown when the server can't be reached (as opposed to an error reply)
+ */
+export class SyncNetworkError extends Error {
+  constructor(message = translate('sync.unreachable')) {
+    super(message)
+    this.name = 'SyncNetworkError'
+  }
+}
@@ -0,0 +1,48 @@
+import type { PullResult, PushResult, SyncRecord } from '@/types'
+import { SyncNetworkError, type SyncAdapter } from './adapter'
+import { translate } from '@/lib/i18n'
+
+/**
+ * Adapter for the HTTP sync protocol
+ *
+ *   GET  {baseUrl}/pull?cursor=<cursor>  -> PullResult
+ *   POST {baseUrl}/push  { records }     -> PushResult
+ */
+export class HttpSyncAdapter implements SyncAdapter {
+  readonly id: string
+  private readonly baseUrl: string
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '')
+    this.id = this.baseUrl
+  }
+
+  async pull(cursor: string | null): Promise<PullResult> {
+    const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : ''
+    return this.request<PullResult>(`/pull${query}`, { method: 'GET' })
+  }
+
+  async push(records: SyncRecord[]): Promise<PushResult> {
+    return this.request<PushResult>('/push', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ records }),
+    })
+  }
+
+  private async request<T>(path: string, init: RequestInit): Promise<T> {
+    let response: Response
+    try {
+      response = await fetch(this.baseUrl + path, init)
+    } catch (error) {
+      throw new SyncNetworkError()
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '')
+      const message = translate('sync.serverError', { status: response.status })
+      throw new Error(detail ? `${message}: ${detail}` : message)
+    }
+    return (await response.json()) as T
+  }
+}
@@ -0,0 +1,27 @@
+import type { PullResult, PushResult, SyncRecord } from '@/types'
+import type { SyncAdapter } from './adapter'
+import { SyncServer } from './server'
+
+/**
+ * In-process adapter backed by a SyncServer
+ * Lets two engines share one server without any network
+ */
+export class MemorySyncAdapter implements SyncAdapter {
+  readonly id: string
+
+  constructor(
+    private readonly server: SyncServer = new SyncServer(),
+    id: string = 'memory'
+  ) {
+    this.id = id
+  }
+
+  async pull(cursor: string | null): Promise<PullResult> {
+    // Copy so the caller and the server never share objects
+    return structuredClone(this.server.pull(cursor))
+  }
+
+  async push(records: SyncRecord[]): Promise<PushResult> {
+    return this.server.push(structuredClone(records))
+  }
+}
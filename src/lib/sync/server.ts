@@ -0,0 +1,95 @@
+import type { PullResult, PushResult, SyncRecord } from '../../types/sync'
+
+/**
+ * Sync Server - In-memory reference implementation of the sync protocol
+ *
+ * Keeps the latest version of every record plus a change sequence number;
+ * the cursor handed to clients is the last sequence number they have seen.
+ * Served over HTTP by the dev server (see vite-sync-server.ts) so the
+ * protocol can be tested end to end without a real backend.
+ *
+ * Uses relative imports only so the Vite config can load it
+ */
+
+/**
+ * Most records returned by a single pull
+ */
+export const PULL_PAGE_SIZE = 200
+
+/**
+ * Thrown for malformed requests (HTTP 400)
+ */
+export class SyncProtocolError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SyncProtocolError'
+  }
+}
+
+/**
+ * Check the shape of a record sent by a client
+ */
+function isSyncRecord(value: unknown): value is SyncRecord {
+  if (!value || typeof value !== 'object') return false
+  const record = value as Record<string, unknown>
+  if (typeof record.id !== 'string' || !record.id) return false
+  if (typeof record.entry_date !== 'string') return false
+  if (typeof record.updated_at !== 'number') return false
+  if (record.deleted === true) return true
+  return (
+    typeof record.gratitude_text === 'string' &&
+    typeof record.rating === 'number' &&
+    Array.isArray(record.tags) &&
+    typeof record.created_at === 'number'
+  )
+}
+
+export class SyncServer {
+  private records = new Map<string, { record: SyncRecord; seq: number }>()
+  private seq = 0
+
+  /**
+   * Records changed after a cursor
+   * A cursor from before a server restart starts over from the beginning
+   * @param cursor Cursor from the previous pull, or null for everything
+   * @param limit Page size
+   */
+  pull(cursor: string | null, limit: number = PULL_PAGE_SIZE): PullResult {
+    let after = cursor ? Number(cursor) : 0
+    if (!Number.isInteger(after) || after < 0) {
+      throw new SyncProtocolError('Invalid cursor')
+    }
+    if (after > this.seq) after = 0
+
+    const changed = Array.from(this.records.values())
+      .filter((item) => item.seq > after)
+      .sort((a, b) => a.seq - b.seq)
+    const page = changed.slice(0, limit)
+
+    return {
+      changes: page.map((item) => item.record),
+      cursor: String(page.length > 0 ? page[page.length - 1].seq : after),
+      hasMore: changed.length > limit,
+    }
+  }
+
+  /**
+   * Store records, keeping whichever version has the later updated_at
+   * @param records Records sent by a client
+   * @throws SyncProtocolError if a record is malformed (nothing is stored)
+   */
+  push(records: unknown): PushResult {
+    if (!Array.isArray(records) || !records.every(isSyncRecord)) {
+      throw new SyncProtocolError('Expected a list of entries or tombstones')
+    }
+
+    const accepted: string[] = []
+    for (const record of records) {
+      const existing = this.records.get(record.id)
+      if (existing && existing.record.updated_at >= record.updated_at) continue
+      this.records.set(record.id, { record, seq: ++this.seq })
+      accepted.push(record.id)
+    }
+    return { accepted }
+  }
+}
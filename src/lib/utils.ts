@@ -20,3 +20,86 @@ export function truncateText(text: string, maxLength: number = 150): string {
 
   return (lastSpace > 0 ? truncated.slice(0, lastSpace) : truncated) + '...'
 }
+
+/**
+ * Trigger a browser download for in-memory content
+ * @param filename Suggested file name
+ * @param content File contents
+ * @param mimeType MIME type (default: application/json)
+ */
+export function downloadFile(
+  filename: string,
+  content: BlobPart,
+  mimeType: string = 'application/json'
+): void {
+  const blob = new Blob([content], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * A piece of text that is either a search hit or plain context
+ */
+export interface TextSegment {
+  text: string
+  highlighted: boolean
+}
+
+/**
+ * Cut a snippet around the first highlighted range and split it into
+ * highlighted/plain segments for rendering
+ * @param text Full text
+ * @param matches Sorted, non-overlapping [start, end) ranges
+ * @param maxLength Approximate maximum snippet length (default: 160)
+ * @returns Segments in order; ellipses mark trimmed ends
+ */
+export function getHighlightSegments(
+  text: string,
+  matches: { start: number; end: number }[],
+  maxLength: number = 160
+): TextSegment[] {
+  let from = 0
+  let to = text.length
+
+  if (text.length > maxLength) {
+    // Center the window on the first hit, then snap to word boundaries
+    const anchor = matches[0]?.start ?? 0
+    from = Math.max(0, Math.min(anchor - Math.floor(maxLength / 3), text.length - maxLength))
+    to = Math.min(text.length, from + maxLength)
+    if (from > 0) {
+      const space = text.indexOf(' ', from)
+      if (space !== -1 && space < anchor) from = space + 1
+    }
+    if (to < text.length) {
+      const space = text.lastIndexOf(' ', to)
+      if (space > from) to = space
+    }
+  }
+
+  const segments: TextSegment[] = []
+  const push = (segment: string, highlighted: boolean) => {
+    if (segment) segments.push({ text: segment, highlighted })
+  }
+
+  let cursor = from
+  for (const match of matches) {
+    if (match.end <= from || match.start >= to) continue
+    const start = Math.max(match.start, from)
+    const end = Math.min(match.end, to)
+    push(text.slice(cursor, start), false)
+    push(text.slice(start, end), true)
+    cursor = end
+  }
+  push(text.slice(cursor, to), false)
+
+  if (from > 0) segments.unshift({ text: '...', highlighted: false })
+  if (to < text.length) segments.push({ text: '...', highlighted: false })
+
+  return segments
+}
@@ -0,0 +1,268 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useEntries } from '@/hooks/useEntries'
+import { useTranslation } from '@/hooks/useTranslation'
+import { createBackupFile, createExportFile, type ExportFormat } from '@/lib/services/backupService'
+import { MIN_PASSPHRASE_LENGTH } from '@/lib/services/encryptionService'
+import { ImportDialog } from '@/components/data/ImportDialog'
+import { ExternalImportDialog } from '@/components/data/ExternalImportDialog'
+import { RestoreDialog } from '@/components/data/RestoreDialog'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { ArrowRightLeft, Download, FileText, FileUp, History, Loader2, Trash2 } from 'lucide-react'
+import { downloadFile } from '@/lib/utils'
+import type { MessageKey } from '@/lib/i18n'
+
+const EXPORT_OPTIONS: { value: ExportFormat; label: MessageKey }[] = [
+  { value: 'csv', label: 'data.exportCsv' },
+  { value: 'markdown', label: 'data.exportMarkdown' },
+]
+
+/**
+ * DataPage - Back up, restore and import entries
+ *
+ * Design: Single column of cards, safest action first
+ */
+export function DataPage() {
+  const { entries, loadEntries, loadTodayEntry } = useEntries()
+  const { t } = useTranslation()
+  const [isExporting, setIsExporting] = useState(false)
+  const [exportError, setExportError] = useState<string | null>(null)
+  const [encrypt, setEncrypt] = useState(false)
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmPassphrase, setConfirmPassphrase] = useState('')
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null)
+  const [formatExportError, setFormatExportError] = useState<string | null>(null)
+  const [showRestoreDialog, setShowRestoreDialog] = useState(false)
+  const [showImportDialog, setShowImportDialog] = useState(false)
+  const [showExternalImportDialog, setShowExternalImportDialog] = useState(false)
+
+  const passphraseError = !encrypt
+    ? null
+    : passphrase.length < MIN_PASSPHRASE_LENGTH
+      ? t('data.passphraseTooShort', { count: MIN_PASSPHRASE_LENGTH })
+      : passphrase !== confirmPassphrase
+        ? t('data.passphraseMismatch')
+        : null
+
+  const handleDownload = async () => {
+    if (passphraseError) return
+    setIsExporting(true)
+    setExportError(null)
+    try {
+      const { filename, content } = await createBackupFile(
+        encrypt ? { passphrase } : {}
+      )
+      downloadFile(filename, content)
+      setPassphrase('')
+      setConfirmPassphrase('')
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : t('data.backupFailed'))
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    setExportingFormat(exportFormat)
+    setFormatExportError(null)
+    try {
+      const { filename, content, mimeType } = await createExportFile(exportFormat)
+      downloadFile(filename, content, mimeType)
+    } catch (error) {
+      setFormatExportError(error instanceof Error ? error.message : t('data.exportFailed'))
+    } finally {
+      setExportingFormat(null)
+    }
+  }
+
+  const reload = () => {
+    loadEntries()
+    loadTodayEntry()
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-semibold text-stone-900">{t('data.title')}</h1>
+          <p className="text-sm text-stone-600 mt-1">{t('data.subtitle')}</p>
+        </div>
+
+        {/* Backup */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Download className="w-5 h-5 text-amber-600" />
+              {t('data.downloadBackup')}
+            </CardTitle>
+            <CardDescription>
+              {t('data.backupDescription', { count: entries.length })}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Label className="flex items-center gap-2 font-normal text-stone-700">
+              <input
+                type="checkbox"
+                checked={encrypt}
+                onChange={(e) => setEncrypt(e.target.checked)}
+                className="w-4 h-4 accent-amber-600"
+              />
+              {t('data.encrypt')}
+            </Label>
+
+            {encrypt && (
+              <div className="space-y-2">
+                <div className="grid gap-2 sm:grid-cols-2">
+                  <Input
+                    type="password"
+                    autoComplete="new-password"
+                    placeholder={t('data.passphrase')}
+                    aria-label={t('data.passphrase')}
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                  />
+                  <Input
+                    type="password"
+                    autoComplete="new-password"
+                    placeholder={t('data.confirmPassphrase')}
+                    aria-label={t('data.confirmPassphrase')}
+                    value={confirmPassphrase}
+                    onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  />
+                </div>
+                <p className="text-xs text-stone-500">
+                  {passphrase && passphraseError
+                    ? passphraseError
+                    : t('data.passphraseWarning')}
+                </p>
+              </div>
+            )}
+
+            <Button onClick={handleDownload} disabled={isExporting || !!passphraseError}>
+              {isExporting ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  {encrypt ? t('data.encrypting') : t('data.preparing')}
+                </>
+              ) : (
+                t('data.downloadBackup')
+              )}
+            </Button>
+            {exportError && <p className="text-sm text-red-800">{exportError}</p>}
+          </CardContent>
+        </Card>
+
+        {/* Readable exports */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <FileText className="w-5 h-5 text-amber-600" />
+              {t('data.exportTitle')}
+            </CardTitle>
+            <CardDescription>{t('data.exportDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              {EXPORT_OPTIONS.map((option) => (
+                <Button
+                  key={option.value}
+                  variant="outline"
+                  onClick={() => handleExport(option.value)}
+                  disabled={exportingFormat !== null}
+                >
+                  {exportingFormat === option.value && <Loader2 className="w-4 h-4 animate-spin" />}
+                  {t(option.label)}
+                </Button>
+              ))}
+            </div>
+            {formatExportError && <p className="text-sm text-red-800">{formatExportError}</p>}
+          </CardContent>
+        </Card>
+
+        {/* Restore */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <History className="w-5 h-5 text-amber-600" />
+              {t('data.restoreTitle')}
+            </CardTitle>
+            <CardDescription>{t('data.restoreDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" onClick={() => setShowRestoreDialog(true)}>
+              {t('data.restoreTitle')}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Merge */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <FileUp className="w-5 h-5 text-amber-600" />
+              {t('data.importTitle')}
+            </CardTitle>
+            <CardDescription>{t('data.importDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" onClick={() => setShowImportDialog(true)}>
+              {t('data.importTitle')}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Other apps */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <ArrowRightLeft className="w-5 h-5 text-amber-600" />
+              {t('data.externalTitle')}
+            </CardTitle>
+            <CardDescription>{t('data.externalDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" onClick={() => setShowExternalImportDialog(true)}>
+              {t('data.externalTitle')}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Trash */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Trash2 className="w-5 h-5 text-amber-600" />
+              {t('data.trashTitle')}
+            </CardTitle>
+            <CardDescription>{t('data.trashDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" asChild>
+              <Link to="/trash">{t('data.openTrash')}</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+
+      <RestoreDialog
+        open={showRestoreDialog}
+        onOpenChange={setShowRestoreDialog}
+        onRestored={reload}
+      />
+      <ImportDialog
+        open={showImportDialog}
+        onOpenChange={setShowImportDialog}
+        onImported={reload}
+      />
+      <ExternalImportDialog
+        open={showExternalImportDialog}
+        onOpenChange={setShowExternalImportDialog}
+        onImported={reload}
+      />
+    </div>
+  )
+}
@@ -1,20 +1,32 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
+import { Link } from 'react-router-dom'
 import { useEntries } from '@/hooks/useEntries'
+import { useSetting } from '@/store/settingsStore'
+import { useTranslation } from '@/hooks/useTranslation'
 import { CalendarView } from '@/components/history/CalendarView'
+import { YearHeatmap } from '@/components/history/YearHeatmap'
 import { EntryCard } from '@/components/entry/EntryCard'
 import { EntryDetail } from '@/components/entry/EntryDetail'
+import { EntryForm } from '@/components/entry/EntryForm'
+import { TagFilter } from '@/components/history/TagFilter'
+import { RatingInsights } from '@/components/history/RatingInsights'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Calendar, List } from 'lucide-react'
 import { Button } from '@/components/ui/button'
+import { entryMatchesTags } from '@/lib/services/tagService'
+import { canBackfillDate } from '@/lib/services/entryService'
+import { formatDateWithDay, getTodayDateString } from '@/lib/services/dateService'
 import { cn } from '@/lib/utils'
+import type { CreateEntryInput, UpdateEntryInput } from '@/types'
 
 /**
  * HistoryPage - View all past entries with three-column layout
  *
  * Design Philosophy:
  * - Left (20%): Month picker & filters
- * - Center (40%): Calendar grid
+ * - Center (40%): Month calendar or year heatmap
  * - Right (40%): Entry detail
+ * - Below: Rating insights by weekday, month and weekend
  * - Mobile: Tabs for different views
  */
 export function HistoryPage() {
@@ -22,12 +34,22 @@ export function HistoryPage() {
     entries,
     selectedEntry,
     selectEntry,
+    createEntry,
     updateEntry,
     deleteEntry,
   } = useEntries()
+  const backfillWindowDays = useSetting('backfillWindowDays')
+  const { t } = useTranslation()
 
   const [selectedDate, setSelectedDate] = useState<string | null>(null)
   const [view, setView] = useState<'calendar' | 'list'>('calendar')
+  const [calendarMode, setCalendarMode] = useState<'month' | 'year'>('month')
+  const [selectedTags, setSelectedTags] = useState<string[]>([])
+
+  const filteredEntries = useMemo(
+    () => entries.filter((entry) => entryMatchesTags(entry, selectedTags)),
+    [entries, selectedTags]
+  )
 
   // Auto-select entry when date is clicked
   useEffect(() => {
@@ -41,19 +63,134 @@ export function HistoryPage() {
     setSelectedDate(dateString)
   }
 
+  const handleUpdate = async (id: string, data: UpdateEntryInput) => {
+    await updateEntry(id, data)
+  }
+
+  // Any day other than today is a missed day being filled in
+  const handleCreate = async (data: CreateEntryInput | UpdateEntryInput) => {
+    const input = data as CreateEntryInput
+    await createEntry(input, { backfilled: input.entry_date !== getTodayDateString() })
+  }
+
+  // Today, or a missed day inside the backfill window
+  const canAddDate = (dateString: string) =>
+    dateString === getTodayDateString() || canBackfillDate(dateString)
+
+  // Month calendar or year heatmap, with a toggle between them
+  const calendarPanel = (
+    <div className="space-y-4">
+      <div className="inline-flex rounded-md border border-stone-200 bg-white p-0.5">
+        {(['month', 'year'] as const).map((mode) => (
+          <button
+            key={mode}
+            onClick={() => setCalendarMode(mode)}
+            className={cn(
+              'px-3 py-1 rounded text-sm font-medium transition-colors',
+              calendarMode === mode
+                ? 'bg-amber-50 text-amber-900'
+                : 'text-stone-600 hover:text-stone-900'
+            )}
+            aria-pressed={calendarMode === mode}
+          >
+            {mode === 'month' ? t('history.monthView') : t('history.yearView')}
+          </button>
+        ))}
+      </div>
+      {calendarMode === 'month' ? (
+        <CalendarView
+          entries={entries}
+          onSelectDate={handleSelectDate}
+          selectedDate={selectedDate}
+          filterTags={selectedTags}
+          canAddDate={canAddDate}
+        />
+      ) : (
+        <YearHeatmap
+          entries={entries}
+          onSelectDate={handleSelectDate}
+          selectedDate={selectedDate}
+          filterTags={selectedTags}
+        />
+      )}
+    </div>
+  )
+
+  // Entry for the selected day, or a form to fill the day in
+  const selectedDayPanel = selectedEntry ? (
+    <Card>
+      <CardContent className="p-6">
+        <EntryDetail entry={selectedEntry} onUpdate={handleUpdate} onDelete={deleteEntry} />
+      </CardContent>
+    </Card>
+  ) : selectedDate && canAddDate(selectedDate) ? (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{formatDateWithDay(selectedDate)}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <EntryForm key={selectedDate} dateString={selectedDate} onSave={handleCreate} />
+      </CardContent>
+    </Card>
+  ) : selectedDate ? (
+    <Card>
+      <CardContent className="p-12 text-center space-y-1">
+        <p className="text-sm text-stone-500">
+          {t('history.noEntryFor', { date: formatDateWithDay(selectedDate) })}
+        </p>
+        {selectedDate < getTodayDateString() && (
+          <p className="text-xs text-stone-400">
+            {t('history.backfillLimit', { count: backfillWindowDays })}{' '}
+            <Link to="/settings" className="underline hover:text-stone-600">
+              {t('history.changeInSettings')}
+            </Link>
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  ) : null
+
   const hasEntries = entries.length > 0
 
+  // With no entries yet, the calendar stays up so missed days can be filled in
+  const emptyState = (
+    <Card>
+      <CardContent className="p-12 text-center space-y-4">
+        <div className="w-16 h-16 mx-auto rounded-full bg-amber-100 flex items-center justify-center">
+          <Calendar className="w-8 h-8 text-amber-600" />
+        </div>
+        <div className="space-y-2">
+          <h3 className="text-lg font-semibold text-stone-900">
+            {t('history.emptyTitle')}
+          </h3>
+          <p className="text-sm text-stone-600 max-w-md mx-auto">
+            {t('history.emptyBody')}
+          </p>
+          <p className="text-xs text-stone-500 max-w-md mx-auto">
+            {t('history.emptyBackfill')}
+          </p>
+        </div>
+        <Button
+          onClick={() => (window.location.href = '/')}
+          className="mt-4"
+        >
+          {t('history.writeFirst')}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       <div className="space-y-6">
         {/* Header */}
         <div className="flex items-center justify-between">
           <div>
-            <h1 className="text-3xl font-semibold text-stone-900">History</h1>
+            <h1 className="text-3xl font-semibold text-stone-900">{t('history.title')}</h1>
             <p className="text-sm text-stone-600 mt-1">
               {hasEntries
-                ? `${entries.length} ${entries.length === 1 ? 'entry' : 'entries'} recorded`
-                : 'No entries yet'}
+                ? t('history.recorded', { count: entries.length })
+                : t('history.noEntries')}
             </p>
           </div>
 
@@ -63,6 +200,7 @@ export function HistoryPage() {
               variant={view === 'calendar' ? 'default' : 'outline'}
               size="sm"
               onClick={() => setView('calendar')}
+              aria-label={t('history.calendarView')}
             >
               <Calendar className="w-4 h-4" />
             </Button>
@@ -70,115 +208,74 @@ export function HistoryPage() {
               variant={view === 'list' ? 'default' : 'outline'}
               size="sm"
               onClick={() => setView('list')}
+              aria-label={t('history.listView')}
             >
               <List className="w-4 h-4" />
             </Button>
           </div>
         </div>
 
-        {!hasEntries ? (
-          /* Empty state */
-          <Card>
-            <CardContent className="p-12 text-center space-y-4">
-              <div className="w-16 h-16 mx-auto rounded-full bg-amber-100 flex items-center justify-center">
-                <Calendar className="w-8 h-8 text-amber-600" />
-              </div>
-              <div className="space-y-2">
-                <h3 className="text-lg font-semibold text-stone-900">
-                  Your gratitude journey begins today
-                </h3>
-                <p className="text-sm text-stone-600 max-w-md mx-auto">
-                  Start writing daily entries to build your collection of grateful moments.
-                  They'll appear here as a visual timeline.
-                </p>
-              </div>
-              <Button
-                onClick={() => (window.location.href = '/')}
-                className="mt-4"
-              >
-                Write your first entry
-              </Button>
-            </CardContent>
-          </Card>
-        ) : (
-          /* Desktop: Three-column layout, Mobile: Single column with tabs */
-          <>
-            {/* Desktop layout */}
-            <div className="hidden lg:grid lg:grid-cols-5 gap-6">
-              {/* CENTER: Calendar (3 cols / 60%) */}
-              <div className="lg:col-span-3">
-                <CalendarView
-                  entries={entries}
-                  onSelectDate={handleSelectDate}
-                  selectedDate={selectedDate}
+        {/* Tag filter */}
+        <TagFilter
+          entries={entries}
+          selectedTags={selectedTags}
+          onChange={setSelectedTags}
+        />
+
+        {/* Desktop layout */}
+        <div className="hidden lg:grid lg:grid-cols-5 gap-6">
+          {/* CENTER: Calendar (3 cols / 60%) */}
+          <div className="lg:col-span-3">{calendarPanel}</div>
+
+          {/* RIGHT: Entry detail (2 cols / 40%) */}
+          <div className="lg:col-span-2">
+            {selectedDayPanel ?? (hasEntries ? (
+              <Card>
+                <CardContent className="p-12 text-center">
+                  <p className="text-sm text-stone-500">
+                    {t('history.selectDay')}
+                  </p>
+                </CardContent>
+              </Card>
+            ) : emptyState)}
+          </div>
+        </div>
+
+        {/* Mobile layout */}
+        <div className="lg:hidden space-y-6">
+          {view === 'calendar' ? (
+            <div className="space-y-4">
+              {calendarPanel}
+              {selectedDayPanel ?? (!hasEntries && emptyState)}
+            </div>
+          ) : !hasEntries ? (
+            emptyState
+          ) : (
+            <div className="space-y-4">
+              <CardHeader className="px-0">
+                <CardTitle>{t('history.allEntries')}</CardTitle>
+              </CardHeader>
+              {filteredEntries.map((entry) => (
+                <EntryCard
+                  key={entry.id}
+                  entry={entry}
+                  onClick={() => {
+                    selectEntry(entry)
+                    setSelectedDate(entry.entry_date)
+                    setView('calendar')
+                  }}
                 />
-              </div>
-
-              {/* RIGHT: Entry detail (2 cols / 40%) */}
-              <div className="lg:col-span-2">
-                {selectedEntry ? (
-                  <Card>
-                    <CardContent className="p-6">
-                      <EntryDetail
-                        entry={selectedEntry}
-                        onUpdate={updateEntry}
-                        onDelete={deleteEntry}
-                      />
-                    </CardContent>
-                  </Card>
-                ) : (
-                  <Card>
-                    <CardContent className="p-12 text-center">
-                      <p className="text-sm text-stone-500">
-                        Select a day to view your entry
-                      </p>
-                    </CardContent>
-                  </Card>
-                )}
-              </div>
+              ))}
             </div>
+          )}
+        </div>
 
-            {/* Mobile layout */}
-            <div className="lg:hidden space-y-6">
-              {view === 'calendar' ? (
-                <div className="space-y-4">
-                  <CalendarView
-                    entries={entries}
-                    onSelectDate={handleSelectDate}
-                    selectedDate={selectedDate}
-                  />
-                  {selectedEntry && (
-                    <Card>
-                      <CardContent className="p-6">
-                        <EntryDetail
-                          entry={selectedEntry}
-                          onUpdate={updateEntry}
-                          onDelete={deleteEntry}
-                        />
-                      </CardContent>
-                    </Card>
-                  )}
-                </div>
-              ) : (
-                <div className="space-y-4">
-                  <CardHeader className="px-0">
-                    <CardTitle>All Entries</CardTitle>
-                  </CardHeader>
-                  {entries.map((entry) => (
-                    <EntryCard
-                      key={entry.id}
-                      entry={entry}
-                      onClick={() => {
-                        selectEntry(entry)
-                        setSelectedDate(entry.entry_date)
-                        setView('calendar')
-                      }}
-                    />
-                  ))}
-                </div>
-              )}
-            </div>
-          </>
+        {/* Rating patterns (follow the tag filter) */}
+        {filteredEntries.length > 0 && (
+          <div className="space-y-3">
+            <h2 className="text-lg font-semibold text-stone-900">{t('history.insights')}</h2>
+            <RatingInsights entries={filteredEntries} />
+          </div>
         )}
       </div>
     </div>
@@ -1,38 +1,59 @@
 import { useEffect, useState } from 'react'
 import { useEntryStore } from '@/store/entryStore'
-import { getTodayDateString } from '@/lib/services/dateService'
-import { getRandomEntry } from '@/lib/services/entryService'
+import { formatDateCompact, getTodayDateString } from '@/lib/services/dateService'
 import { EntryForm } from '@/components/entry/EntryForm'
 import { EntryDetail } from '@/components/entry/EntryDetail'
-import { RatingBadge } from '@/components/common/RatingSelector'
+import { OnThisDayCard } from '@/components/entry/OnThisDayCard'
+import { JarCard } from '@/components/jar/JarCard'
+import { useFormatDate } from '@/hooks/useSettings'
+import { useStreaks } from '@/hooks/useStreaks'
+import { useTranslation } from '@/hooks/useTranslation'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { Sparkles, TrendingUp } from 'lucide-react'
-import type { Entry } from '@/types'
+import { Flame, TrendingUp } from 'lucide-react'
+import type { MessageKey } from '@/lib/i18n'
+
+/**
+ * Past streaks listed in the streak card
+ */
+const STREAK_HISTORY_LIMIT = 3
+
+/**
+ * Prompts listed in the reflection card
+ */
+const IDEA_KEYS: MessageKey[] = ['home.idea1', 'home.idea2', 'home.idea3', 'home.idea4']
 
 /**
  * HomePage - Today's entry with intelligent two-column layout
  *
  * Design Philosophy:
  * - Left (60%): Entry form/detail - the primary action
- * - Right (40%): Context panel - past entry, streak, motivation
+ * - Right (40%): Context panel - streak, past entries, motivation
  * - Mobile: Stack vertically
  * - NO centered narrow column - use full horizontal space
  */
 export function HomePage() {
-  const { todayEntry, createTodayEntry, updateEntry, deleteEntry, loadTodayEntry } = useEntryStore()
-  const [randomEntry, setRandomEntry] = useState<Entry | null>(null)
+  const {
+    entries,
+    todayEntry,
+    createTodayEntry,
+    updateEntry,
+    deleteEntry,
+    loadEntries,
+    loadTodayEntry,
+  } = useEntryStore()
   const [isEditing, setIsEditing] = useState(false)
+  const formatDate = useFormatDate()
+  const streaks = useStreaks()
+  const { t } = useTranslation()
+  const pastStreaks = streaks.history
+    .filter((streak) => streak !== streaks.current)
+    .slice(0, STREAK_HISTORY_LIMIT)
 
-  // Load today's entry and a random past entry
+  // Load entries (for streaks and jar tags) and today's entry
   useEffect(() => {
+    loadEntries()
     loadTodayEntry()
-    loadRandomEntry()
-  }, [loadTodayEntry])
-
-  const loadRandomEntry = async () => {
-    const entry = await getRandomEntry()
-    setRandomEntry(entry)
-  }
+  }, [loadEntries, loadTodayEntry])
 
   const handleCreate = async (data: any) => {
     await createTodayEntry(data)
@@ -60,10 +81,10 @@ export function HomePage() {
             {/* Header */}
             <div>
               <h1 className="text-3xl font-semibold text-stone-900 mb-1">
-                {hasEntry && !isEditing ? "Today's Entry" : 'What are you grateful for today?'}
+                {hasEntry && !isEditing ? t('home.todaysEntry') : t('entry.promptToday')}
               </h1>
               <p className="text-sm text-stone-600 font-mono">
-                {getTodayDateString()}
+                {formatDate(getTodayDateString())}
               </p>
             </div>
 
@@ -90,89 +111,115 @@ export function HomePage() {
 
         {/* RIGHT COLUMN: Context Panel (40% / 2 cols) */}
         <div className="lg:col-span-2 space-y-6">
-          {/* Random past entry */}
-          {randomEntry && (
+          {/* Streak */}
+          {streaks.longest && (
             <Card>
               <CardHeader>
                 <CardTitle className="text-lg flex items-center gap-2">
-                  <Sparkles className="w-5 h-5 text-amber-600" />
-                  From the Jar
+                  <Flame className="w-5 h-5 text-amber-600" />
+                  {t('home.streak')}
                 </CardTitle>
               </CardHeader>
-              <CardContent className="space-y-3">
-                <div className="flex items-center justify-between">
-                  <time className="text-sm font-medium text-stone-700">
-                    {new Date(randomEntry.entry_date).toLocaleDateString('en-US', {
-                      month: 'long',
-                      day: 'numeric',
-                      year: 'numeric',
-                    })}
-                  </time>
-                  <RatingBadge rating={randomEntry.rating} size="sm" showLabel={false} />
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <p className="text-3xl font-semibold text-stone-900">
+                      {streaks.current?.length ?? 0}
+                    </p>
+                    <p className="text-xs text-stone-500">
+                      {t('home.streakCurrent', { count: streaks.current?.length ?? 0 })}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-3xl font-semibold text-stone-900">
+                      {streaks.longest.length}
+                    </p>
+                    <p className="text-xs text-stone-500">
+                      {t('home.streakLongest', { count: streaks.longest.length })}
+                    </p>
+                  </div>
                 </div>
-                <p className="text-sm font-serif leading-relaxed text-stone-700">
-                  {randomEntry.gratitude_text}
+
+                <p className="text-sm text-stone-600">
+                  {streaks.loggedToday
+                    ? t('home.streakDone')
+                    : streaks.current
+                      ? streaks.graceDaysLeft > 0
+                        ? t('home.streakGraceLeft', { count: streaks.graceDaysLeft })
+                        : t('home.streakKeepGoing')
+                      : t('home.streakStart')}
                 </p>
-                <button
-                  onClick={loadRandomEntry}
-                  className="text-xs text-amber-600 hover:text-amber-700 font-medium"
-                >
-                  Pull another →
-                </button>
+
+                {pastStreaks.length > 0 && (
+                  <div className="pt-4 border-t border-stone-200 space-y-2">
+                    <p className="text-xs font-medium text-stone-600 uppercase tracking-wide">
+                      {t('home.pastStreaks')}
+                    </p>
+                    <ul className="space-y-1 text-sm text-stone-600">
+                      {pastStreaks.map((streak) => (
+                        <li key={streak.start_date} className="flex justify-between gap-2">
+                          <span>
+                            {formatDateCompact(streak.start_date)} – {formatDateCompact(streak.end_date)}
+                          </span>
+                          <span className="font-mono text-stone-500">
+                            {t('days.count', { count: streak.length })}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </CardContent>
             </Card>
           )}
 
+          {/* Random past entry */}
+          <JarCard />
+
+          {/* Same date in past months and years */}
+          <OnThisDayCard />
+
           {/* Motivation / Tips */}
           <Card>
             <CardHeader>
               <CardTitle className="text-lg flex items-center gap-2">
                 <TrendingUp className="w-5 h-5 text-amber-600" />
-                Reflection
+                {t('home.reflection')}
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="space-y-2">
                 <p className="text-sm text-stone-700 leading-relaxed">
-                  <strong className="text-stone-900">Small moments matter.</strong> Gratitude isn't about perfection—it's about noticing what's good, even on difficult days.
+                  <strong className="text-stone-900">{t('home.reflectionLead')}</strong>{' '}
+                  {t('home.reflectionBody')}
                 </p>
               </div>
 
               <div className="pt-4 border-t border-stone-200 space-y-2">
                 <p className="text-xs font-medium text-stone-600 uppercase tracking-wide">
-                  Ideas to spark gratitude:
+                  {t('home.ideasTitle')}
                 </p>
                 <ul className="space-y-1.5 text-sm text-stone-600">
-                  <li className="flex gap-2">
-                    <span className="text-amber-600">•</span>
-                    <span>A kind word from someone</span>
-                  </li>
-                  <li className="flex gap-2">
-                    <span className="text-amber-600">•</span>
-                    <span>A moment of calm in a busy day</span>
-                  </li>
-                  <li className="flex gap-2">
-                    <span className="text-amber-600">•</span>
-                    <span>Something that made you laugh</span>
-                  </li>
-                  <li className="flex gap-2">
-                    <span className="text-amber-600">•</span>
-                    <span>Progress on something you're working on</span>
-                  </li>
+                  {IDEA_KEYS.map((key) => (
+                    <li key={key} className="flex gap-2">
+                      <span className="text-amber-600">•</span>
+                      <span>{t(key)}</span>
+                    </li>
+                  ))}
                 </ul>
               </div>
             </CardContent>
           </Card>
 
           {/* Empty state for first-time users */}
-          {!hasEntry && !randomEntry && (
+          {!hasEntry && entries.length === 0 && (
             <Card className="bg-amber-50 border-amber-200">
               <CardContent className="p-6 space-y-2">
                 <p className="text-sm font-medium text-amber-900">
-                  Welcome to your Gratefulness Jar!
+                  {t('home.welcomeTitle')}
                 </p>
                 <p className="text-sm text-amber-800 leading-relaxed">
-                  Take 30 seconds each day to capture one thing you're grateful for. Over time, you'll build a collection of moments worth remembering.
+                  {t('home.welcomeBody')}
                 </p>
               </CardContent>
             </Card>
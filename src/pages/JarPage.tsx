@@ -0,0 +1,203 @@
+import { useMemo, useState } from 'react'
+import { useEntries } from '@/hooks/useEntries'
+import { useTranslation } from '@/hooks/useTranslation'
+import { drawFromJar } from '@/lib/services/jarService'
+import { formatMonthYear, getMonthNames } from '@/lib/services/dateService'
+import { JarCanvas } from '@/components/jar/JarCanvas'
+import { EntryDetail } from '@/components/entry/EntryDetail'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { NativeSelect } from '@/components/ui/native-select'
+import { Label } from '@/components/ui/label'
+import { Sparkles } from 'lucide-react'
+import type { Entry, JarDrawOptions, UpdateEntryInput } from '@/types'
+
+/**
+ * Date range for a year (and optionally a month) filter
+ */
+function getFilterRange(year: number | null, month: number | null): JarDrawOptions {
+  if (year === null) return {}
+  if (month === null) return { startDate: `${year}-01-01`, endDate: `${year}-12-31` }
+  const mm = String(month).padStart(2, '0')
+  return { startDate: `${year}-${mm}-01`, endDate: `${year}-${mm}-31` }
+}
+
+/**
+ * JarPage - The whole collection as marbles in a jar
+ *
+ * Design Philosophy:
+ * - Left (60%): The jar, filterable by year and month
+ * - Right (40%): The entry of the tapped or drawn marble
+ * - Clicking the glass (or shaking the phone) draws a random entry
+ */
+export function JarPage() {
+  const { entries, updateEntry, deleteEntry } = useEntries()
+  const [year, setYear] = useState<number | null>(null)
+  const [month, setMonth] = useState<number | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [shakeCount, setShakeCount] = useState(0)
+  const [drawMessage, setDrawMessage] = useState<string | null>(null)
+  const { t } = useTranslation()
+  const monthNames = getMonthNames()
+
+  const years = useMemo(
+    () =>
+      Array.from(new Set(entries.map((entry) => Number(entry.entry_date.slice(0, 4))))).sort(
+        (a, b) => b - a
+      ),
+    [entries]
+  )
+
+  const range = getFilterRange(year, month)
+
+  // Oldest first, so the jar fills from the bottom
+  const jarEntries = useMemo(
+    () =>
+      entries
+        .filter(
+          (entry) =>
+            (!range.startDate || entry.entry_date >= range.startDate) &&
+            (!range.endDate || entry.entry_date <= range.endDate)
+        )
+        .sort((a, b) => a.entry_date.localeCompare(b.entry_date)),
+    [entries, range.startDate, range.endDate]
+  )
+
+  const selectedEntry = entries.find((entry) => entry.id === selectedId) ?? null
+
+  const handleSelectEntry = (entry: Entry) => {
+    setSelectedId(entry.id)
+    setDrawMessage(null)
+  }
+
+  const handleShake = async () => {
+    setShakeCount((count) => count + 1)
+    try {
+      const { entry } = await drawFromJar(range)
+      setSelectedId(entry?.id ?? null)
+      setDrawMessage(entry ? null : t('jar.nothingToDraw'))
+    } catch (error) {
+      setDrawMessage(error instanceof Error ? error.message : t('jar.drawFailed'))
+    }
+  }
+
+  const handleUpdate = async (id: string, data: UpdateEntryInput) => {
+    await updateEntry(id, data)
+  }
+
+  const handleDelete = async (id: string) => {
+    await deleteEntry(id)
+    setSelectedId(null)
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-semibold text-stone-900">{t('jar.title')}</h1>
+            <p className="text-sm text-stone-600 mt-1">
+              {year === null
+                ? t('jar.collected', { count: jarEntries.length })
+                : t('jar.collectedIn', {
+                    count: jarEntries.length,
+                    period: month !== null && range.startDate ? formatMonthYear(range.startDate) : year,
+                  })}
+            </p>
+          </div>
+
+          {/* Filters */}
+          <div className="flex items-end gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="jar-year" className="text-xs text-stone-600">
+                {t('jar.year')}
+              </Label>
+              <NativeSelect
+                id="jar-year"
+                value={year ?? ''}
+                onChange={(e) => {
+                  setYear(e.target.value ? Number(e.target.value) : null)
+                  if (!e.target.value) setMonth(null)
+                }}
+                className="w-32"
+              >
+                <option value="">{t('jar.allYears')}</option>
+                {years.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </NativeSelect>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="jar-month" className="text-xs text-stone-600">
+                {t('jar.month')}
+              </Label>
+              <NativeSelect
+                id="jar-month"
+                value={month ?? ''}
+                onChange={(e) => setMonth(e.target.value ? Number(e.target.value) : null)}
+                disabled={year === null}
+                className="w-36"
+              >
+                <option value="">{t('jar.allMonths')}</option>
+                {monthNames.map((name, index) => (
+                  <option key={name} value={index + 1}>
+                    {name}
+                  </option>
+                ))}
+              </NativeSelect>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+          {/* Jar */}
+          <div className="lg:col-span-3 space-y-3">
+            <Card>
+              <CardContent className="p-6">
+                <JarCanvas
+                  entries={jarEntries}
+                  selectedId={selectedId}
+                  onSelectEntry={handleSelectEntry}
+                  onShake={handleShake}
+                  shakeCount={shakeCount}
+                  className="max-w-md mx-auto"
+                />
+              </CardContent>
+            </Card>
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-xs text-stone-500">
+                {t('jar.hint')}
+              </p>
+              <Button variant="outline" size="sm" onClick={handleShake}>
+                <Sparkles className="w-4 h-4" />
+                {t('jar.shake')}
+              </Button>
+            </div>
+          </div>
+
+          {/* Selected entry */}
+          <div className="lg:col-span-2">
+            {selectedEntry ? (
+              <Card>
+                <CardContent className="p-6">
+                  <EntryDetail entry={selectedEntry} onUpdate={handleUpdate} onDelete={handleDelete} />
+                </CardContent>
+              </Card>
+            ) : (
+              <Card>
+                <CardContent className="p-12 text-center">
+                  <p className="text-sm text-stone-500">
+                    {drawMessage ?? (entries.length > 0 ? t('jar.eachMarble') : t('jar.empty'))}
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,208 @@
+import { useState, useEffect, useMemo } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { useEntryStore } from '@/store/entryStore'
+import { useTranslation } from '@/hooks/useTranslation'
+import { searchEntries } from '@/lib/services/entryService'
+import { isValidDateString } from '@/lib/services/dateService'
+import { EntryCard } from '@/components/entry/EntryCard'
+import { EntryDetail } from '@/components/entry/EntryDetail'
+import { SearchFilterPanel } from '@/components/search/SearchFilterPanel'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Loader2, Search } from 'lucide-react'
+import { isRatingValue } from '@/types'
+import type { SearchFilters, SearchResult, UpdateEntryInput } from '@/types'
+
+/**
+ * Delay before running a search while the user is typing
+ */
+const SEARCH_DEBOUNCE_MS = 200
+
+/**
+ * Read the query and filters from the URL (?q=&min=&max=&from=&to=)
+ * Invalid values are ignored
+ */
+function parseSearchParams(params: URLSearchParams): {
+  query: string
+  filters: SearchFilters
+} {
+  const rating = (key: string) => {
+    const value = params.get(key)
+    return value && isRatingValue(Number(value)) ? Number(value) : undefined
+  }
+  const date = (key: string) => {
+    const value = params.get(key)
+    return value && isValidDateString(value) ? value : undefined
+  }
+
+  return {
+    query: params.get('q') ?? '',
+    filters: {
+      minRating: rating('min'),
+      maxRating: rating('max'),
+      startDate: date('from'),
+      endDate: date('to'),
+    },
+  }
+}
+
+/**
+ * Write the query and filters back to URL params, omitting empty ones
+ */
+function toSearchParams(query: string, filters: SearchFilters): URLSearchParams {
+  const params = new URLSearchParams()
+  if (query) params.set('q', query)
+  if (filters.minRating !== undefined) params.set('min', String(filters.minRating))
+  if (filters.maxRating !== undefined) params.set('max', String(filters.maxRating))
+  if (filters.startDate) params.set('from', filters.startDate)
+  if (filters.endDate) params.set('to', filters.endDate)
+  return params
+}
+
+/**
+ * SearchPage - Full-text search with rating and date filters
+ *
+ * Design Philosophy:
+ * - Query and filters live in the URL so searches can be bookmarked
+ * - Left (60%): Ranked results with highlighted snippets
+ * - Right (40%): Selected entry detail
+ */
+export function SearchPage() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const { query, filters } = useMemo(
+    () => parseSearchParams(searchParams),
+    [searchParams]
+  )
+  const { updateEntry, deleteEntry } = useEntryStore()
+  const { t } = useTranslation()
+
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [refreshKey, setRefreshKey] = useState(0)
+
+  const hasCriteria =
+    query.trim().length > 0 ||
+    Object.values(filters).some((value) => value !== undefined)
+
+  // Run the search whenever the URL changes (debounced while typing)
+  useEffect(() => {
+    let cancelled = false
+    setIsSearching(true)
+
+    const timeout = setTimeout(async () => {
+      const found = await searchEntries(query, filters)
+      if (!cancelled) {
+        setResults(found)
+        setIsSearching(false)
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [query, filters, refreshKey])
+
+  const updateParams = (nextQuery: string, nextFilters: SearchFilters) => {
+    setSearchParams(toSearchParams(nextQuery, nextFilters), { replace: true })
+  }
+
+  const handleUpdate = async (id: string, data: UpdateEntryInput) => {
+    await updateEntry(id, data)
+    setRefreshKey((key) => key + 1)
+  }
+
+  const handleDelete = async (id: string) => {
+    await deleteEntry(id)
+    setSelectedId(null)
+    setRefreshKey((key) => key + 1)
+  }
+
+  const selectedEntry =
+    results.find((result) => result.entry.id === selectedId)?.entry ?? null
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-semibold text-stone-900">{t('search.title')}</h1>
+          <p className="text-sm text-stone-600 mt-1">
+            {hasCriteria && !isSearching
+              ? t('search.found', { count: results.length })
+              : t('search.subtitle')}
+          </p>
+        </div>
+
+        {/* Query + filters */}
+        <Card>
+          <CardContent className="p-4 space-y-4">
+            <div className="relative">
+              <Search className="absolute start-3 top-1/2 -translate-y-1/2 w-4 h-4 text-stone-400" />
+              <Input
+                type="search"
+                value={query}
+                onChange={(e) => updateParams(e.target.value, filters)}
+                placeholder={t('search.placeholder')}
+                className="ps-9"
+                aria-label={t('search.label')}
+                autoFocus
+              />
+            </div>
+            <SearchFilterPanel
+              filters={filters}
+              onChange={(nextFilters) => updateParams(query, nextFilters)}
+            />
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+          {/* Results */}
+          <div className="lg:col-span-3 space-y-3">
+            {isSearching && hasCriteria ? (
+              <div className="flex justify-center py-12 text-stone-400">
+                <Loader2 className="w-5 h-5 animate-spin" />
+              </div>
+            ) : !hasCriteria ? (
+              <p className="py-12 text-center text-sm text-stone-500">
+                {t('search.prompt')}
+              </p>
+            ) : results.length === 0 ? (
+              <p className="py-12 text-center text-sm text-stone-500">
+                {t('search.noMatches')}
+              </p>
+            ) : (
+              results.map((result) => (
+                <EntryCard
+                  key={result.entry.id}
+                  entry={result.entry}
+                  matches={result.matches}
+                  onClick={() => setSelectedId(result.entry.id)}
+                  className={
+                    result.entry.id === selectedId ? 'border-amber-600' : undefined
+                  }
+                />
+              ))
+            )}
+          </div>
+
+          {/* Selected entry */}
+          <div className="lg:col-span-2">
+            {selectedEntry && (
+              <Card className="lg:sticky lg:top-24">
+                <CardContent className="p-6">
+                  <EntryDetail
+                    entry={selectedEntry}
+                    onUpdate={handleUpdate}
+                    onDelete={handleDelete}
+                  />
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
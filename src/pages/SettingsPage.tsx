@@ -0,0 +1,638 @@
+import { useState, useEffect } from 'react'
+import { useSettings } from '@/hooks/useSettings'
+import { useSync } from '@/hooks/useSync'
+import { useReminders } from '@/hooks/useReminders'
+import { useTranslation } from '@/hooks/useTranslation'
+import type { MessageKey } from '@/lib/i18n'
+import { useRatingScale } from '@/hooks/useRatingScale'
+import { simulateNextReminder } from '@/lib/services/reminderService'
+import { createRatingScale } from '@/lib/services/ratingScaleService'
+import {
+  formatDateForDisplay,
+  formatTimestamp,
+  getTodayDateString,
+  getWeekdayNames,
+} from '@/lib/services/dateService'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { NativeSelect } from '@/components/ui/native-select'
+import { Bell, Check, Loader2, Plus, RefreshCw, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import {
+  DATE_FORMAT_PATTERNS,
+  LOCALE_NAMES,
+  SUPPORTED_LOCALES,
+  TEXT_LENGTH_LIMITS,
+  TRASH_RETENTION_OPTIONS,
+  STREAK_GRACE_DAY_OPTIONS,
+  BACKFILL_WINDOW_OPTIONS,
+  MAX_REMINDER_TIMES,
+  MAX_RATING_LABEL_LENGTH,
+  RATING_LEVEL_LIMITS,
+  type BackfillWindowDays,
+  type DateDisplayFormat,
+  type LandingPage,
+  type Locale,
+  type RatingLevel,
+  type ReminderOutcome,
+  type Settings,
+  type StreakGraceDays,
+  type TrashRetentionDays,
+  type WeekStartDay,
+} from '@/types'
+
+const WEEK_START_OPTIONS: WeekStartDay[] = [0, 1, 6]
+
+const LANDING_PAGE_OPTIONS: { value: LandingPage; label: MessageKey }[] = [
+  { value: '/', label: 'nav.today' },
+  { value: '/history', label: 'nav.history' },
+  { value: '/search', label: 'nav.search' },
+]
+
+/**
+ * Times offered when a reminder is added (the first one not in use)
+ */
+const REMINDER_TIME_SUGGESTIONS = ['20:00', '12:00', '08:00']
+
+/**
+ * Level counts offered for a custom rating scale
+ */
+const RATING_LEVEL_OPTIONS = Array.from(
+  { length: RATING_LEVEL_LIMITS.max - RATING_LEVEL_LIMITS.min + 1 },
+  (_, index) => RATING_LEVEL_LIMITS.min + index
+)
+
+const REMINDER_OUTCOME_LABELS: Record<ReminderOutcome, MessageKey> = {
+  notified: 'settings.reminderOutcome.notified',
+  banner: 'settings.reminderOutcome.banner',
+  written: 'settings.reminderOutcome.written',
+  quiet: 'settings.reminderOutcome.quiet',
+}
+
+/**
+ * SettingsPage - User preferences
+ *
+ * Design: Single column of grouped cards; each change saves immediately
+ */
+export function SettingsPage() {
+  const { settings, error, updateSettings, resetSettings } = useSettings()
+  const [maxTextDraft, setMaxTextDraft] = useState(String(settings.maxTextLength))
+  const [syncUrlDraft, setSyncUrlDraft] = useState(settings.syncServerUrl)
+  const [savedKey, setSavedKey] = useState<keyof Settings | null>(null)
+  const sync = useSync()
+  const reminders = useReminders()
+  const [reminderTest, setReminderTest] = useState<string | null>(null)
+  const { locale, t } = useTranslation()
+  const ratingScale = useRatingScale()
+
+  // Keep the text limit field in sync after a reset
+  useEffect(() => {
+    setMaxTextDraft(String(settings.maxTextLength))
+  }, [settings.maxTextLength])
+
+  useEffect(() => {
+    setSyncUrlDraft(settings.syncServerUrl)
+  }, [settings.syncServerUrl])
+
+  const save = async (updates: Partial<Settings>) => {
+    try {
+      await updateSettings(updates)
+      setSavedKey(Object.keys(updates)[0] as keyof Settings)
+      setTimeout(() => setSavedKey(null), 1500)
+    } catch {
+      // Error is shown from the store
+    }
+  }
+
+  const today = getTodayDateString()
+  const weekdayNames = getWeekdayNames('long')
+  const weekdayLabels = getWeekdayNames()
+
+  const reminderTimes = settings.reminderTimes
+  const weekdays = Array.from({ length: 7 }, (_, index) => (index + settings.weekStartsOn) % 7)
+
+  const toggleQuietDay = (day: number) => {
+    const quietDays = settings.reminderQuietDays
+    save({
+      reminderQuietDays: quietDays.includes(day)
+        ? quietDays.filter((quietDay) => quietDay !== day)
+        : [...quietDays, day].sort(),
+    })
+  }
+
+  // Editing any level of the built-in scale saves a copy as the user's own
+  const updateRatingLevel = (index: number, changes: Partial<RatingLevel>) => {
+    const level = ratingScale.levels[index]
+    const changed = (Object.keys(changes) as (keyof RatingLevel)[]).some(
+      (key) => changes[key] !== level[key]
+    )
+    if (!changed) return
+    save({
+      ratingScale: ratingScale.levels.map((item, i) => (i === index ? { ...item, ...changes } : item)),
+    })
+  }
+
+  const handleTestReminder = async () => {
+    setReminderTest(null)
+    try {
+      const result = await simulateNextReminder()
+      setReminderTest(
+        result
+          ? t('settings.reminderTestResult', {
+              time: result.at.toLocaleString(locale, {
+                weekday: 'short',
+                hour: 'numeric',
+                minute: '2-digit',
+              }),
+              outcome: t(result.outcome ? REMINDER_OUTCOME_LABELS[result.outcome] : 'settings.reminderOutcome.failed'),
+            })
+          : t('settings.noReminderComing')
+      )
+    } catch {
+      setReminderTest(t('settings.reminderCheckFailed'))
+    }
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-semibold text-stone-900">{t('settings.title')}</h1>
+          <p className="text-sm text-stone-600 mt-1">{t('settings.subtitle')}</p>
+        </div>
+
+        {error && (
+          <div className="p-3 rounded-md bg-red-50 border border-red-200">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        {/* Language & dates */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">{t('settings.languageAndDates')}</CardTitle>
+            <CardDescription>{t('settings.languageAndDatesDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-5">
+            <SettingRow
+              id="setting-language"
+              label={t('settings.language')}
+              hint={t('settings.languageHint')}
+              saved={savedKey === 'language'}
+            >
+              <NativeSelect
+                id="setting-language"
+                value={settings.language}
+                onChange={(e) => save({ language: e.target.value as Locale })}
+              >
+                {SUPPORTED_LOCALES.map((locale) => (
+                  <option key={locale} value={locale} lang={locale}>
+                    {LOCALE_NAMES[locale]}
+                  </option>
+                ))}
+              </NativeSelect>
+            </SettingRow>
+
+            <SettingRow
+              id="setting-week-start"
+              label={t('settings.weekStartsOn')}
+              saved={savedKey === 'weekStartsOn'}
+            >
+              <NativeSelect
+                id="setting-week-start"
+                value={settings.weekStartsOn}
+                onChange={(e) => save({ weekStartsOn: Number(e.target.value) as WeekStartDay })}
+              >
+                {WEEK_START_OPTIONS.map((day) => (
+                  <option key={day} value={day}>{weekdayNames[day]}</option>
+                ))}
+              </NativeSelect>
+            </SettingRow>
+
+            <SettingRow
+              id="setting-date-format"
+              label={t('settings.dateFormat')}
+              saved={savedKey === 'dateFormat'}
+            >
+              <NativeSelect
+                id="setting-date-format"
+                value={settings.dateFormat}
+                onChange={(e) => save({ dateFormat: e.target.value as DateDisplayFormat })}
+              >
+                {(Object.keys(DATE_FORMAT_PATTERNS) as DateDisplayFormat[]).map((format) => (
+                  <option key={format} value={format}>
+                    {formatDateForDisplay(today, format)}
+                  </option>
+                ))}
+              </NativeSelect>
+            </SettingRow>
+          </CardContent>
+        </Card>
+
+        {/* Writing */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">{t('settings.writing')}</CardTitle>
+            <CardDescription>{t('settings.writingDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-5">
+            <SettingRow
+              id="setting-max-text"
+              label={t('settings.maxLength')}
+              hint={t('settings.maxLengthHint', TEXT_LENGTH_LIMITS)}
+              saved={savedKey === 'maxTextLength'}
+            >
+              <Input
+                id="setting-max-text"
+                type="number"
+                min={TEXT_LENGTH_LIMITS.min}
+                max={TEXT_LENGTH_LIMITS.max}
+                step={50}
+                value={maxTextDraft}
+                onChange={(e) => setMaxTextDraft(e.target.value)}
+                onBlur={() => {
+                  const value = Number(maxTextDraft)
+                  if (value !== settings.maxTextLength) save({ maxTextLength: value })
+                }}
+              />
+            </SettingRow>
+
+            <SettingRow
+              id="setting-backfill-window"
+              label={t('settings.backfill')}
+              hint={t('settings.backfillHint')}
+              saved={savedKey === 'backfillWindowDays'}
+            >
+              <NativeSelect
+                id="setting-backfill-window"
+                value={settings.backfillWindowDays}
+                onChange={(e) =>
+                  save({ backfillWindowDays: Number(e.target.value) as BackfillWindowDays })
+                }
+              >
+                {BACKFILL_WINDOW_OPTIONS.map((days) => (
+                  <option key={days} value={days}>
+                    {days === 0 ? t('settings.backfillAny') : t('settings.backfillDays', { count: days })}
+                  </option>
+                ))}
+              </NativeSelect>
+            </SettingRow>
+
+            <SettingRow
+              id="setting-streak-grace"
+              label={t('settings.graceDays')}
+              hint={t('settings.graceDaysHint')}
+              saved={savedKey === 'streakGraceDays'}
+            >
+              <NativeSelect
+                id="setting-streak-grace"
+                value={settings.streakGraceDays}
+                onChange={(e) =>
+                  save({ streakGraceDays: Number(e.target.value) as StreakGraceDays })
+                }
+              >
+                {STREAK_GRACE_DAY_OPTIONS.map((days) => (
+                  <option key={days} value={days}>
+                    {days === 0 ? t('settings.graceNone') : t('days.count', { count: days })}
+                  </option>
+                ))}
+              </NativeSelect>
+            </SettingRow>
+          </CardContent>
+        </Card>
+
+        {/* Rating scale */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">{t('settings.ratingScale')}</CardTitle>
+            <CardDescription>{t('settings.ratingScaleDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-5">
+            <SettingRow
+              id="setting-rating-levels"
+              label={t('settings.levels')}
+              hint={t('settings.levelsHint')}
+              saved={savedKey === 'ratingScale'}
+            >
+              <NativeSelect
+                id="setting-rating-levels"
+                value={ratingScale.levelCount}
+                onChange={(e) =>
+                  save({ ratingScale: createRatingScale(Number(e.target.value), ratingScale.levels) })
+                }
+              >
+                {RATING_LEVEL_OPTIONS.map((count) => (
+                  <option key={count} value={count}>
+                    {count === 7 && !ratingScale.isCustom
+                      ? t('settings.levelCountBuiltIn', { levels: t('settings.levelCount', { count }) })
+                      : t('settings.levelCount', { count })}
+                  </option>
+                ))}
+              </NativeSelect>
+            </SettingRow>
+
+            <div className="space-y-2">
+              {ratingScale.levels.map((level, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="w-5 shrink-0 text-end font-mono text-xs text-stone-500">{index + 1}</span>
+                  <input
+                    key={`color-${level.color}`}
+                    type="color"
+                    aria-label={t('settings.levelColor', { number: index + 1 })}
+                    defaultValue={level.color}
+                    onBlur={(e) => updateRatingLevel(index, { color: e.target.value })}
+                    className="h-9 w-10 shrink-0 cursor-pointer rounded-md border border-stone-200 bg-white p-1"
+                  />
+                  <Input
+                    key={`emoji-${level.emoji}`}
+                    aria-label={t('settings.levelEmoji', { number: index + 1 })}
+                    defaultValue={level.emoji}
+                    maxLength={8}
+                    onBlur={(e) => updateRatingLevel(index, { emoji: e.target.value.trim() })}
+                    className="w-14 shrink-0 text-center"
+                  />
+                  <Input
+                    key={`label-${level.label}`}
+                    aria-label={t('settings.levelLabel', { number: index + 1 })}
+                    defaultValue={level.label}
+                    maxLength={MAX_RATING_LABEL_LENGTH}
+                    onBlur={(e) => updateRatingLevel(index, { label: e.target.value.trim() })}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-4 pt-4 border-t border-stone-200">
+              <p className="text-xs text-stone-500">
+                {ratingScale.isCustom ? t('settings.customScaleNote') : t('settings.builtInScaleNote')}
+              </p>
+              {ratingScale.isCustom && (
+                <Button variant="outline" size="sm" onClick={() => save({ ratingScale: [] })}>
+                  {t('settings.useBuiltInScale')}
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Reminders */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">{t('settings.reminders')}</CardTitle>
+            <CardDescription>{t('settings.remindersDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-5">
+            <p className="text-sm text-stone-600">
+              {t(reminders.backgroundChecks ? 'settings.remindersInBackground' : 'settings.remindersOpenOnly')}
+            </p>
+            <div className="grid gap-2 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label className="flex items-center gap-2 text-stone-900">
+                  {t('settings.remindAt')}
+                  {savedKey === 'reminderTimes' && (
+                    <Check className="w-3.5 h-3.5 text-green-700" aria-label={t('common.saved')} />
+                  )}
+                </Label>
+                <p className="text-xs text-stone-500">
+                  {t('settings.remindAtHint', { count: MAX_REMINDER_TIMES })}
+                </p>
+              </div>
+              <div className="space-y-2">
+                {reminderTimes.map((time, index) => (
+                  <div key={time} className="flex items-center gap-2">
+                    <Input
+                      type="time"
+                      aria-label={t('settings.reminderTime', { number: index + 1 })}
+                      defaultValue={time}
+                      onBlur={(e) => {
+                        const value = e.target.value
+                        if (value && value !== time) {
+                          save({
+                            reminderTimes: reminderTimes.map((other) => (other === time ? value : other)).sort(),
+                          })
+                        }
+                      }}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => save({ reminderTimes: reminderTimes.filter((other) => other !== time) })}
+                      aria-label={t('settings.removeReminder', { time })}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                {reminderTimes.length < MAX_REMINDER_TIMES && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      const time =
+                        REMINDER_TIME_SUGGESTIONS.find((other) => !reminderTimes.includes(other)) ?? '20:00'
+                      save({ reminderTimes: [...reminderTimes, time].sort() })
+                    }}
+                  >
+                    <Plus className="w-4 h-4" />
+                    {reminderTimes.length === 0 ? t('settings.turnOnReminders') : t('settings.addReminderTime')}
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {reminderTimes.length > 0 && (
+              <>
+                <div className="grid gap-2 sm:grid-cols-2 sm:items-center">
+                  <div className="space-y-1">
+                    <Label className="flex items-center gap-2 text-stone-900">
+                      {t('settings.quietDays')}
+                      {savedKey === 'reminderQuietDays' && (
+                        <Check className="w-3.5 h-3.5 text-green-700" aria-label={t('common.saved')} />
+                      )}
+                    </Label>
+                    <p className="text-xs text-stone-500">{t('settings.quietDaysHint')}</p>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {weekdays.map((day) => {
+                      const isQuiet = settings.reminderQuietDays.includes(day)
+                      return (
+                        <button
+                          key={day}
+                          onClick={() => toggleQuietDay(day)}
+                          className={cn(
+                            'px-2.5 py-1 rounded-md border text-xs font-medium transition-colors',
+                            isQuiet
+                              ? 'bg-stone-800 border-stone-800 text-white'
+                              : 'border-stone-200 text-stone-600 hover:bg-stone-100'
+                          )}
+                          aria-pressed={isQuiet}
+                        >
+                          {weekdayLabels[day]}
+                        </button>
+                      )
+                    })}
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-center justify-between gap-4 pt-4 border-t border-stone-200">
+                  <p className="text-sm text-stone-600">
+                    {reminders.permission === 'granted'
+                      ? t('settings.notificationsOn')
+                      : reminders.permission === 'default'
+                        ? t('settings.notificationsAsk')
+                        : reminders.permission === 'denied'
+                          ? t('settings.notificationsBlocked')
+                          : t('settings.notificationsUnsupported')}
+                  </p>
+                  <div className="flex gap-2">
+                    {reminders.permission === 'default' && (
+                      <Button variant="outline" size="sm" onClick={() => reminders.requestPermission()}>
+                        <Bell className="w-4 h-4" />
+                        {t('settings.allowNotifications')}
+                      </Button>
+                    )}
+                    <Button variant="outline" size="sm" onClick={handleTestReminder}>
+                      {t('settings.tryReminder')}
+                    </Button>
+                  </div>
+                </div>
+                {reminderTest && <p className="text-xs text-stone-500">{reminderTest}</p>}
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Sync */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">{t('settings.sync')}</CardTitle>
+            <CardDescription>{t('settings.syncDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-5">
+            <SettingRow
+              id="setting-sync-url"
+              label={t('settings.syncServer')}
+              hint={t('settings.syncServerHint')}
+              saved={savedKey === 'syncServerUrl'}
+            >
+              <Input
+                id="setting-sync-url"
+                type="url"
+                placeholder="https://example.com/api/sync"
+                value={syncUrlDraft}
+                onChange={(e) => setSyncUrlDraft(e.target.value)}
+                onBlur={() => {
+                  const value = syncUrlDraft.trim()
+                  if (value !== settings.syncServerUrl) save({ syncServerUrl: value })
+                }}
+              />
+            </SettingRow>
+
+            {settings.syncServerUrl && (
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-sm text-stone-600">
+                  {sync.status === 'error' || sync.status === 'offline'
+                    ? sync.error
+                    : sync.lastSyncedAt
+                      ? t('sync.lastSynced', { time: formatTimestamp(sync.lastSyncedAt) })
+                      : t('sync.notYet')}
+                  {sync.pendingCount > 0 && ` · ${t('sync.pending', { count: sync.pendingCount })}`}
+                </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => sync.sync()}
+                  disabled={sync.status === 'syncing'}
+                >
+                  {sync.status === 'syncing' ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <RefreshCw className="w-4 h-4" />
+                  )}
+                  {t('sync.syncNow')}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* General */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">{t('settings.general')}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-5">
+            <SettingRow
+              id="setting-landing-page"
+              label={t('settings.landingPage')}
+              saved={savedKey === 'defaultLandingPage'}
+            >
+              <NativeSelect
+                id="setting-landing-page"
+                value={settings.defaultLandingPage}
+                onChange={(e) => save({ defaultLandingPage: e.target.value as LandingPage })}
+              >
+                {LANDING_PAGE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{t(option.label)}</option>
+                ))}
+              </NativeSelect>
+            </SettingRow>
+
+            <SettingRow
+              id="setting-trash-retention"
+              label={t('settings.trashRetention')}
+              hint={t('settings.trashRetentionHint')}
+              saved={savedKey === 'trashRetentionDays'}
+            >
+              <NativeSelect
+                id="setting-trash-retention"
+                value={settings.trashRetentionDays}
+                onChange={(e) =>
+                  save({ trashRetentionDays: Number(e.target.value) as TrashRetentionDays })
+                }
+              >
+                {TRASH_RETENTION_OPTIONS.map((days) => (
+                  <option key={days} value={days}>{t('days.count', { count: days })}</option>
+                ))}
+              </NativeSelect>
+            </SettingRow>
+
+            <div className="pt-4 border-t border-stone-200">
+              <Button variant="outline" size="sm" onClick={() => resetSettings().catch(() => {})}>
+                {t('settings.restoreDefaults')}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
+
+interface SettingRowProps {
+  id: string
+  label: string
+  hint?: string
+  saved?: boolean
+  children: React.ReactNode
+}
+
+function SettingRow({ id, label, hint, saved = false, children }: SettingRowProps) {
+  const { t } = useTranslation()
+
+  return (
+    <div className="grid gap-2 sm:grid-cols-2 sm:items-center">
+      <div className="space-y-1">
+        <Label htmlFor={id} className="flex items-center gap-2 text-stone-900">
+          {label}
+          {saved && <Check className="w-3.5 h-3.5 text-green-700" aria-label={t('common.saved')} />}
+        </Label>
+        {hint && <p className="text-xs text-stone-500">{hint}</p>}
+      </div>
+      {children}
+    </div>
+  )
+}
@@ -0,0 +1,223 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import type { Entry } from '@/types'
+import { useEntryStore } from '@/store/entryStore'
+import { useFormatDate, useSettings } from '@/hooks/useSettings'
+import { useTranslation } from '@/hooks/useTranslation'
+import {
+  deleteEntryPermanently,
+  emptyTrash,
+  getPurgeDate,
+  getTrashedEntries,
+  restoreEntry,
+} from '@/lib/services/trashService'
+import { RatingBadge } from '@/components/common/RatingSelector'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { ArrowLeft, Loader2, RotateCcw, Trash2 } from 'lucide-react'
+import { truncateText } from '@/lib/utils'
+
+/**
+ * What the confirmation dialog is about to delete
+ */
+type PendingDelete = { kind: 'entry'; entry: Entry } | { kind: 'all' }
+
+/**
+ * TrashPage - Restore or permanently delete trashed entries
+ *
+ * Design: Same single column as the data page, newest deletion first
+ */
+export function TrashPage() {
+  const { settings } = useSettings()
+  const formatDate = useFormatDate()
+  const { t } = useTranslation()
+  const [entries, setEntries] = useState<Entry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [pendingDelete, setPendingDelete] = useState<PendingDelete | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setEntries(await getTrashedEntries())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('trash.loadFailed'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadTrash()
+  }, [loadTrash])
+
+  const reloadJar = () => {
+    const { loadEntries, loadTodayEntry } = useEntryStore.getState()
+    loadEntries()
+    loadTodayEntry()
+  }
+
+  const handleRestore = async (entry: Entry) => {
+    setBusyId(entry.id)
+    setError(null)
+    try {
+      await restoreEntry(entry.id)
+      reloadJar()
+      await loadTrash()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('trash.restoreFailed'))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleConfirmDelete = async () => {
+    if (!pendingDelete) return
+    setIsDeleting(true)
+    setError(null)
+    try {
+      if (pendingDelete.kind === 'all') {
+        await emptyTrash()
+      } else {
+        await deleteEntryPermanently(pendingDelete.entry.id)
+      }
+      await loadTrash()
+      setPendingDelete(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('entry.deleteFailed'))
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <Link
+              to="/data"
+              className="inline-flex items-center gap-1 text-sm text-stone-500 hover:text-stone-700"
+            >
+              <ArrowLeft className="w-4 h-4 rtl:-scale-x-100" />
+              {t('trash.backToData')}
+            </Link>
+            <h1 className="text-3xl font-semibold text-stone-900 mt-2">{t('data.trashTitle')}</h1>
+            <p className="text-sm text-stone-600 mt-1">
+              {t('trash.retention', { count: settings.trashRetentionDays })}
+            </p>
+          </div>
+          {entries.length > 0 && (
+            <Button variant="outline" onClick={() => setPendingDelete({ kind: 'all' })}>
+              {t('trash.empty')}
+            </Button>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-red-800">{error}</p>}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16 text-stone-500">
+            <Loader2 className="w-5 h-5 animate-spin" />
+          </div>
+        ) : entries.length === 0 ? (
+          <Card>
+            <CardContent className="p-8 text-center text-sm text-stone-500">
+              {t('trash.isEmpty')}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {entries.map((entry) => (
+              <Card key={entry.id}>
+                <CardContent className="p-5 space-y-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="flex items-center gap-3">
+                      <span className="text-sm font-medium text-stone-900">
+                        {formatDate(entry.entry_date)}
+                      </span>
+                      <RatingBadge rating={entry.rating} size="sm" />
+                    </div>
+                    <span className="text-xs text-stone-500">
+                      {t('trash.purgeOn', {
+                        date: formatDate(getPurgeDate(entry, settings.trashRetentionDays)),
+                      })}
+                    </span>
+                  </div>
+                  <p className="text-sm text-stone-700 leading-relaxed">
+                    {truncateText(entry.gratitude_text, 200)}
+                  </p>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleRestore(entry)}
+                      disabled={busyId !== null}
+                    >
+                      {busyId === entry.id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <RotateCcw className="w-4 h-4" />
+                      )}
+                      {t('trash.restore')}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setPendingDelete({ kind: 'entry', entry })}
+                      disabled={busyId !== null}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      {t('trash.deleteForever')}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Permanent delete confirmation */}
+      <Dialog
+        open={pendingDelete !== null}
+        onOpenChange={(open) => !open && !isDeleting && setPendingDelete(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {pendingDelete?.kind === 'all' ? t('trash.confirmEmpty') : t('trash.confirmDelete')}
+            </DialogTitle>
+            <DialogDescription>
+              {pendingDelete?.kind === 'all'
+                ? t('trash.emptyWarning', { count: entries.length })
+                : t('trash.deleteWarning')}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setPendingDelete(null)}
+              disabled={isDeleting}
+            >
+              {t('common.cancel')}
+            </Button>
+            <Button variant="destructive" onClick={handleConfirmDelete} disabled={isDeleting}>
+              {isDeleting ? t('trash.deleting') : t('trash.deleteForever')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,112 @@
+import { useMemo, useState } from 'react'
+import { useEntries } from '@/hooks/useEntries'
+import { useFormatDate } from '@/hooks/useSettings'
+import { useRatingScale } from '@/hooks/useRatingScale'
+import { useTranslation } from '@/hooks/useTranslation'
+import {
+  TREND_RANGE_LABELS,
+  calculateRatingTrend,
+  type TrendRange,
+} from '@/lib/services/analyticsService'
+import { RatingTrendChart } from '@/components/trends/RatingTrendChart'
+import { RatingBadge } from '@/components/common/RatingSelector'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { LineChart } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+/**
+ * TrendsPage - How ratings change over time
+ *
+ * Design: Range picker, summary numbers, then the chart
+ */
+export function TrendsPage() {
+  const { entries } = useEntries()
+  const formatDate = useFormatDate()
+  const { levelCount, scaleAverage } = useRatingScale()
+  const { t } = useTranslation()
+  const [range, setRange] = useState<TrendRange>('90d')
+
+  const trend = useMemo(() => calculateRatingTrend(entries, range), [entries, range])
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-semibold text-stone-900">{t('trends.title')}</h1>
+            <p className="text-sm text-stone-600 mt-1">{t('trends.subtitle')}</p>
+          </div>
+
+          <div className="inline-flex rounded-md border border-stone-200 bg-white p-0.5">
+            {(Object.keys(TREND_RANGE_LABELS) as TrendRange[]).map((option) => (
+              <button
+                key={option}
+                onClick={() => setRange(option)}
+                className={cn(
+                  'px-3 py-1 rounded text-sm font-medium transition-colors',
+                  range === option
+                    ? 'bg-amber-50 text-amber-900'
+                    : 'text-stone-600 hover:text-stone-900'
+                )}
+                aria-pressed={range === option}
+              >
+                {t(TREND_RANGE_LABELS[option])}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          <SummaryCard label={t('trends.entries')} value={String(trend.entryCount)} />
+          <SummaryCard
+            label={t('trends.average')}
+            value={trend.average !== null ? `${scaleAverage(trend.average).toFixed(1)} / ${levelCount}` : '-'}
+          />
+          <SummaryCard
+            label={trend.best ? t('trends.bestOn', { date: formatDate(trend.best.date) }) : t('trends.bestDay')}
+            value={trend.best ? <RatingBadge rating={trend.best.rating} size="sm" /> : '-'}
+          />
+          <SummaryCard
+            label={trend.worst ? t('trends.worstOn', { date: formatDate(trend.worst.date) }) : t('trends.worstDay')}
+            value={trend.worst ? <RatingBadge rating={trend.worst.rating} size="sm" /> : '-'}
+          />
+        </div>
+
+        {/* Chart */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <LineChart className="w-5 h-5 text-amber-600" />
+              {t('trends.dailyRatings')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {trend.entryCount === 0 ? (
+              <p className="py-12 text-center text-sm text-stone-500">
+                {t('trends.noEntries')}
+              </p>
+            ) : (
+              <RatingTrendChart trend={trend} />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
+
+interface SummaryCardProps {
+  label: string
+  value: React.ReactNode
+}
+
+function SummaryCard({ label, value }: SummaryCardProps) {
+  return (
+    <div className="flex flex-col items-center gap-1 p-3 rounded-md border border-stone-200 bg-white">
+      <div className="text-lg font-bold text-stone-900">{value}</div>
+      <div className="text-xs text-stone-600 text-center">{label}</div>
+    </div>
+  )
+}
@@ -1,7 +1,9 @@
 import { create } from 'zustand'
 import type { Entry, CreateEntryInput, UpdateEntryInput } from '@/types'
 import * as entryService from '@/lib/services/entryService'
+import type { CreateEntryOptions } from '@/lib/services/entryService'
 import { getTodayDateString } from '@/lib/services/dateService'
+import { translate } from '@/lib/i18n'
 
 /**
  * Entry Store State
@@ -19,7 +21,7 @@ interface EntryState {
   // Actions
   loadEntries: () => Promise<void>
   loadTodayEntry: () => Promise<void>
-  createEntry: (input: CreateEntryInput) => Promise<Entry>
+  createEntry: (input: CreateEntryInput, options?: CreateEntryOptions) => Promise<Entry>
   createTodayEntry: (input: Omit<CreateEntryInput, 'entry_date'>) => Promise<Entry>
   updateEntry: (id: string, updates: UpdateEntryInput) => Promise<Entry>
   deleteEntry: (id: string) => Promise<void>
@@ -51,7 +53,7 @@ export const useEntryStore = create<EntryState>((set, get) => ({
       set({ entries, isLoading: false })
     } catch (error) {
       set({
-        error: error instanceof Error ? error.message : 'Failed to load entries',
+        error: error instanceof Error ? error.message : translate('entry.loadFailed'),
         isLoading: false,
       })
     }
@@ -67,7 +69,7 @@ export const useEntryStore = create<EntryState>((set, get) => ({
       set({ todayEntry })
     } catch (error) {
       set({
-        error: error instanceof Error ? error.message : 'Failed to load today\'s entry',
+        error: error instanceof Error ? error.message : translate('entry.loadTodayFailed'),
       })
     }
   },
@@ -76,10 +78,10 @@ export const useEntryStore = create<EntryState>((set, get) => ({
    * Create a new entry
    * Uses optimistic update for instant UI feedback
    */
-  createEntry: async (input: CreateEntryInput) => {
+  createEntry: async (input: CreateEntryInput, options?: CreateEntryOptions) => {
     set({ error: null })
     try {
-      const entry = await entryService.createEntry(input)
+      const entry = await entryService.createEntry(input, options)
 
       // Optimistic update
       set((state) => ({
@@ -95,7 +97,7 @@ export const useEntryStore = create<EntryState>((set, get) => ({
       return entry
     } catch (error) {
       const message =
-        error instanceof Error ? error.message : 'Failed to create entry'
+        error instanceof Error ? error.message : translate('entry.saveFailed')
       set({ error: message })
       throw error
     }
@@ -130,7 +132,7 @@ export const useEntryStore = create<EntryState>((set, get) => ({
       return updatedEntry
     } catch (error) {
       const message =
-        error instanceof Error ? error.message : 'Failed to update entry'
+        error instanceof Error ? error.message : translate('entry.updateFailed')
       set({ error: message })
       throw error
     }
@@ -154,7 +156,7 @@ export const useEntryStore = create<EntryState>((set, get) => ({
       }))
     } catch (error) {
       const message =
-        error instanceof Error ? error.message : 'Failed to delete entry'
+        error instanceof Error ? error.message : translate('entry.deleteFailed')
       set({ error: message })
       throw error
     }
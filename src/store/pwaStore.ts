@@ -0,0 +1,60 @@
+import { create } from 'zustand'
+
+/**
+ * PWA Store State
+ */
+interface PwaState {
+  // Data
+  isOnline: boolean
+  /** Switches to the waiting build (null = no update waiting) */
+  pendingUpdate: (() => void) | null
+
+  // UI State
+  updateDismissed: boolean
+
+  // Actions
+  setOnline: (isOnline: boolean) => void
+  setPendingUpdate: (applyUpdate: () => void) => void
+  applyUpdate: () => void
+  dismissUpdate: () => void
+}
+
+/**
+ * Zustand store for the installable app
+ *
+ * Tracks connectivity and whether a new build is waiting to take over
+ */
+export const usePwaStore = create<PwaState>((set, get) => ({
+  // Initial state
+  isOnline: navigator.onLine,
+  pendingUpdate: null,
+  updateDismissed: false,
+
+  /**
+   * Record a connectivity change
+   */
+  setOnline: (isOnline: boolean) => {
+    set({ isOnline })
+  },
+
+  /**
+   * Offer a newly installed build
+   */
+  setPendingUpdate: (applyUpdate: () => void) => {
+    set({ pendingUpdate: applyUpdate, updateDismissed: false })
+  },
+
+  /**
+   * Switch to the new build (the page reloads once it takes over)
+   */
+  applyUpdate: () => {
+    get().pendingUpdate?.()
+  },
+
+  /**
+   * Hide the update prompt; the new build loads on the next visit
+   */
+  dismissUpdate: () => {
+    set({ updateDismissed: true })
+  },
+}))
@@ -0,0 +1,94 @@
+import { create } from 'zustand'
+import type { ReminderOutcome, ReminderPermission } from '@/types'
+import * as reminderService from '@/lib/services/reminderService'
+import { getTodayDateString } from '@/lib/services/dateService'
+import { getTodayEntry } from '@/lib/services/entryService'
+import { getSettings } from '@/lib/services/settingsService'
+
+/**
+ * Reminder Store State
+ */
+interface ReminderState {
+  // Data
+  permission: ReminderPermission
+  /** Whether the service worker also checks while the app is closed */
+  backgroundChecks: boolean
+
+  // UI State
+  /** Day the in-app reminder banner is showing for (null = hidden) */
+  bannerDate: string | null
+
+  // Actions
+  refreshPermission: () => void
+  requestPermission: () => Promise<void>
+  handleOutcome: (outcome: ReminderOutcome) => void
+  checkMissedReminder: () => Promise<void>
+  updateBackgroundChecks: () => Promise<void>
+  dismissBanner: () => void
+}
+
+/**
+ * Zustand store for reminders
+ *
+ * Tracks notification permission and the in-app banner used when
+ * notifications can't be shown
+ */
+export const useReminderStore = create<ReminderState>((set) => ({
+  // Initial state
+  permission: reminderService.getNotificationPermission(),
+  backgroundChecks: false,
+  bannerDate: null,
+
+  /**
+   * Re-read the permission (it can change in browser settings)
+   */
+  refreshPermission: () => {
+    set({ permission: reminderService.getNotificationPermission() })
+  },
+
+  /**
+   * Ask the browser for notification permission
+   */
+  requestPermission: async () => {
+    const permission = await reminderService.requestNotificationPermission()
+    set({ permission })
+  },
+
+  /**
+   * React to a reminder check
+   */
+  handleOutcome: (outcome: ReminderOutcome) => {
+    if (outcome === 'banner') set({ bannerDate: getTodayDateString() })
+  },
+
+  /**
+   * Show the banner if a reminder passed earlier today (while the app
+   * was closed) and there is no entry yet
+   * Only when notifications are off; otherwise the notification did the job
+   */
+  checkMissedReminder: async () => {
+    if (reminderService.getNotificationPermission() === 'granted') return
+    const { reminderTimes, reminderQuietDays } = getSettings()
+    if (!reminderService.getLastReminderToday(new Date(), reminderTimes, reminderQuietDays)) return
+    try {
+      if (!(await getTodayEntry())) set({ bannerDate: getTodayDateString() })
+    } catch {
+      // Reminders are best effort
+    }
+  },
+
+  /**
+   * Turn the service worker's background check on or off to match
+   * the settings and permission
+   */
+  updateBackgroundChecks: async () => {
+    set({ backgroundChecks: await reminderService.updateBackgroundReminders() })
+  },
+
+  /**
+   * Hide the banner until the next reminder
+   */
+  dismissBanner: () => {
+    set({ bannerDate: null })
+  },
+}))
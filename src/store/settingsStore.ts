@@ -0,0 +1,85 @@
+import { create } from 'zustand'
+import type { Settings } from '@/types'
+import { DEFAULT_SETTINGS } from '@/types'
+import * as settingsService from '@/lib/services/settingsService'
+import { translate } from '@/lib/i18n'
+
+/**
+ * Settings Store State
+ */
+interface SettingsState {
+  // Data
+  settings: Settings
+
+  // UI State
+  isLoaded: boolean
+  error: string | null
+
+  // Actions
+  loadSettings: () => Promise<void>
+  updateSettings: (updates: Partial<Settings>) => Promise<void>
+  resetSettings: () => Promise<void>
+}
+
+/**
+ * Zustand store for user preferences
+ *
+ * Mirrors the settings table; components read from here so a change
+ * on the settings page is reflected everywhere immediately
+ */
+export const useSettingsStore = create<SettingsState>((set) => ({
+  // Initial state
+  settings: DEFAULT_SETTINGS,
+  isLoaded: false,
+  error: null,
+
+  /**
+   * Load settings from the database
+   */
+  loadSettings: async () => {
+    const settings = await settingsService.loadSettings()
+    set({ settings, isLoaded: true })
+  },
+
+  /**
+   * Change one or more settings
+   */
+  updateSettings: async (updates: Partial<Settings>) => {
+    set({ error: null })
+    try {
+      const settings = await settingsService.saveSettings(updates)
+      set({ settings })
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : translate('settings.saveFailed')
+      set({ error: message })
+      throw error
+    }
+  },
+
+  /**
+   * Restore default settings
+   */
+  resetSettings: async () => {
+    set({ error: null })
+    try {
+      const settings = await settingsService.resetSettings()
+      set({ settings })
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : translate('settings.resetFailed')
+      set({ error: message })
+      throw error
+    }
+  },
+}))
+
+/**
+ * Selector hooks for common settings
+ */
+
+/**
+ * Get a single setting
+ */
+export const useSetting = <K extends keyof Settings>(key: K): Settings[K] =>
+  useSettingsStore((state) => state.settings[key])
@@ -0,0 +1,94 @@
+import { create } from 'zustand'
+import type { SyncStatus } from '@/types'
+import * as syncService from '@/lib/services/syncService'
+import { SyncNetworkError } from '@/lib/sync/adapter'
+import { translate } from '@/lib/i18n'
+import { useSettingsStore } from './settingsStore'
+import { useEntryStore } from './entryStore'
+
+/**
+ * Sync Store State
+ */
+interface SyncState {
+  // Data
+  status: SyncStatus
+  lastSyncedAt: number | null
+  pendingCount: number
+  lastResult: syncService.SyncResult | null
+
+  // UI State
+  error: string | null
+
+  // Actions
+  sync: () => Promise<void>
+  refresh: () => Promise<void>
+}
+
+/**
+ * Zustand store for sync status
+ *
+ * Runs syncs against the server from settings and reloads entries when
+ * a sync brought in remote changes
+ */
+export const useSyncStore = create<SyncState>((set, get) => ({
+  // Initial state
+  status: 'disabled',
+  lastSyncedAt: null,
+  pendingCount: 0,
+  lastResult: null,
+  error: null,
+
+  /**
+   * Sync now (no-op if sync is off or already running)
+   */
+  sync: async () => {
+    const { syncServerUrl } = useSettingsStore.getState().settings
+    if (!syncServerUrl) {
+      set({ status: 'disabled', error: null })
+      return
+    }
+    if (get().status === 'syncing') return
+
+    set({ status: 'syncing', error: null })
+    try {
+      const result = await syncService.syncNow(syncService.createSyncAdapter(syncServerUrl))
+      if (result.pulled > 0) {
+        const { loadEntries, loadTodayEntry } = useEntryStore.getState()
+        await Promise.all([loadEntries(), loadTodayEntry()])
+      }
+      set({ status: 'idle', lastResult: result })
+    } catch (error) {
+      console.error('Sync failed:', error)
+      const offline = error instanceof SyncNetworkError || !navigator.onLine
+      set({
+        status: offline ? 'offline' : 'error',
+        error: error instanceof Error ? error.message : translate('sync.failed'),
+      })
+    }
+    await get().refresh()
+  },
+
+  /**
+   * Reload pending changes and last sync time from the database
+   */
+  refresh: async () => {
+    try {
+      const [pendingCount, state] = await Promise.all([
+        syncService.getPendingChangeCount(),
+        syncService.getSyncState(),
+      ])
+      const { syncServerUrl } = useSettingsStore.getState().settings
+      set((current) => ({
+        pendingCount,
+        // The last sync only counts if it was with the current server
+        lastSyncedAt:
+          syncServerUrl && state.server === syncService.createSyncAdapter(syncServerUrl).id
+            ? state.lastSyncedAt
+            : null,
+        status: !syncServerUrl ? 'disabled' : current.status === 'disabled' ? 'idle' : current.status,
+      }))
+    } catch (error) {
+      console.error('Failed to load sync status:', error)
+    }
+  },
+}))
@@ -0,0 +1,72 @@
+import type { Entry } from './entry'
+
+/**
+ * Identifies a file as a Gratefulness Jar backup
+ */
+export const BACKUP_FORMAT = 'gratefulness-jar-backup'
+
+/**
+ * Current backup file format version
+ * Bump when the file layout changes in a way older builds can't read
+ */
+export const BACKUP_FORMAT_VERSION = 1
+
+/**
+ * Contents of a backup file
+ */
+export interface BackupFile {
+  /** Always BACKUP_FORMAT */
+  format: typeof BACKUP_FORMAT
+  /** File layout version */
+  format_version: number
+  /** App version that wrote the file */
+  app_version: string
+  /** Schema version of the database that was exported */
+  schema_version: number
+  /** When the backup was made (Unix milliseconds) */
+  exported_at: number
+  /** Number of entries in the file */
+  entry_count: number
+  entries: Entry[]
+}
+
+/**
+ * Backup metadata shown before restoring (everything but the entries)
+ */
+export type BackupInfo = Omit<BackupFile, 'entries'>
+
+/**
+ * Backup file whose entries are encrypted with a passphrase
+ * Everything except ciphertext is readable without the passphrase and is
+ * authenticated as additional data, so tampering with it is detected
+ */
+export interface EncryptedBackupFile {
+  /** Always BACKUP_FORMAT */
+  format: typeof BACKUP_FORMAT
+  /** File layout version */
+  format_version: number
+  /** Marks the file as encrypted */
+  encrypted: true
+  /** App version that wrote the file */
+  app_version: string
+  /** When the backup was made (Unix milliseconds) */
+  exported_at: number
+  /** Key derivation parameters */
+  kdf: {
+    name: 'PBKDF2'
+    hash: 'SHA-256'
+    iterations: number
+    /** Base64 salt */
+    salt: string
+    /** Base64 passphrase check value, used to tell a wrong passphrase from a damaged file */
+    check: string
+  }
+  /** Cipher parameters */
+  cipher: {
+    name: 'AES-GCM'
+    /** Base64 initialization vector */
+    iv: string
+  }
+  /** Base64 AES-GCM output (encrypted plain backup JSON + auth tag) */
+  ciphertext: string
+}
@@ -1,5 +1,3 @@
-import { Rating } from './rating'
-
 /**
  * Entry interface representing a single gratitude journal entry
  * Stored in IndexedDB for offline-first functionality
@@ -19,14 +17,21 @@ export interface Entry {
 
   /**
    * User's gratitude text
-   * Min: 1 character, Max: 1000 characters
+   * Min: 1 character, Max: settings.maxTextLength (default 1000)
    */
   gratitude_text: string
 
   /**
-   * Day rating (1-7 scale)
+   * Day rating on the 1-7 storage range (see RATING_RANGE)
+   * Levels of a custom scale land between whole numbers, e.g. 2.5
+   */
+  rating: number
+
+  /**
+   * Free-form labels like "family" or "work" (lowercase, de-duplicated)
+   * Max: 10 tags, 24 characters each
    */
-  rating: Rating
+  tags: string[]
 
   /**
    * Creation timestamp (Unix milliseconds)
@@ -38,6 +43,12 @@ export interface Entry {
    */
   updated_at: number
 
+  /**
+   * Written on a later day than entry_date (a missed day filled in)
+   * Set once when the entry is created
+   */
+  backfilled?: boolean
+
   /**
    * Last sync timestamp (Unix milliseconds)
    * Optional - only used if cloud sync is enabled
@@ -45,23 +56,30 @@ export interface Entry {
   synced_at?: number
 
   /**
-   * Soft delete flag for cloud sync
-   * Optional - only used if cloud sync is enabled
+   * Soft delete flag: the entry is in the trash
+   * Trashed entries are hidden from every query except the trash
    */
   deleted?: boolean
+
+  /**
+   * When the entry was moved to the trash (Unix milliseconds)
+   * Only set on trashed entries; used for auto-purge
+   */
+  deleted_at?: number
 }
 
 /**
- * Partial entry for creating new entries
- * id, created_at, updated_at will be auto-generated
+ * id, created_at and updated_at are generated; backfilled is set through createEntry() options
+ * tags defaults to an empty list
  */
-export type CreateEntryInput = Omit<Entry, 'id' | 'created_at' | 'updated_at' | 'synced_at' | 'deleted'>
+export type CreateEntryInput = Omit<Entry, 'id' | 'created_at' | 'updated_at' | 'backfilled' | 'synced_at' | 'deleted' | 'deleted_at' | 'tags'> &
+  Partial<Pick<Entry, 'tags'>>
 
 /**
  * Partial entry for updating existing entries
- * Only gratitude_text and rating can be updated
+ * Only gratitude_text, rating and tags can be updated
  */
-export type UpdateEntryInput = Partial<Pick<Entry, 'gratitude_text' | 'rating'>>
+export type UpdateEntryInput = Partial<Pick<Entry, 'gratitude_text' | 'rating' | 'tags'>>
 
 /**
  * Entry validation error
@@ -78,3 +96,10 @@ export interface ValidationResult {
   valid: boolean
   errors: EntryValidationError[]
 }
+
+/**
+ * Check whether an entry is in the jar (not in the trash)
+ */
+export function isLiveEntry(entry: Entry): boolean {
+  return !entry.deleted
+}
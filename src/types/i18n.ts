@@ -0,0 +1,34 @@
+/**
+ * Languages the interface is translated into
+ */
+export type Locale = 'en' | 'es' | 'ar'
+
+export const SUPPORTED_LOCALES: readonly Locale[] = ['en', 'es', 'ar']
+
+/**
+ * Each language's name in that language (for the language picker)
+ */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+  ar: 'العربية',
+}
+
+/**
+ * Languages written right to left
+ */
+export const RTL_LOCALES: readonly Locale[] = ['ar']
+
+export type TextDirection = 'ltr' | 'rtl'
+
+/**
+ * Message with a form per plural category (Intl.PluralRules)
+ * Categories a language doesn't use fall back to `other`
+ * @example { one: '{count} entry', other: '{count} entries' }
+ */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string }
+
+/**
+ * Catalog message; `{name}` placeholders are filled in when translating
+ */
+export type Message = string | PluralMessage
@@ -10,11 +10,106 @@ export type {
   ValidationResult,
 } from './entry'
 
+export { isLiveEntry } from './entry'
+
+export type {
+  EntryRevision,
+  DiffPart,
+} from './revision'
+
+export type {
+  JarWeighting,
+  JarDrawOptions,
+  JarDrawRecord,
+  JarDraw,
+} from './jar'
+
+export type {
+  TextMatch,
+  SearchResult,
+  SearchPosting,
+  SearchFilters,
+} from './search'
+
 export {
   Rating,
   RATING_LABELS,
   RATING_COLORS,
   RATING_BG_COLORS,
-  getRatingFromValue,
+  RATING_EMOJIS,
+  RATING_RANGE,
+  RATING_LEVEL_LIMITS,
+  MAX_RATING_LABEL_LENGTH,
+  isRatingValue,
   getAllRatings,
 } from './rating'
+
+export type { RatingLevel } from './rating'
+
+export type {
+  WeekStartDay,
+  DateDisplayFormat,
+  LandingPage,
+  TrashRetentionDays,
+  StreakGraceDays,
+  BackfillWindowDays,
+  Settings,
+  SettingRecord,
+} from './settings'
+
+export {
+  DEFAULT_SETTINGS,
+  TEXT_LENGTH_LIMITS,
+  DATE_FORMAT_PATTERNS,
+  TRASH_RETENTION_OPTIONS,
+  STREAK_GRACE_DAY_OPTIONS,
+  BACKFILL_WINDOW_OPTIONS,
+  MAX_REMINDER_TIMES,
+} from './settings'
+
+export type {
+  Locale,
+  TextDirection,
+  PluralMessage,
+  Message,
+} from './i18n'
+
+export {
+  SUPPORTED_LOCALES,
+  LOCALE_NAMES,
+  RTL_LOCALES,
+} from './i18n'
+
+export type {
+  ReminderPermission,
+  ReminderOutcome,
+  ReminderClock,
+} from './reminder'
+
+export type {
+  Streak,
+  StreakSummary,
+} from './streak'
+
+export type {
+  BackupFile,
+  BackupInfo,
+  EncryptedBackupFile,
+} from './backup'
+
+export {
+  BACKUP_FORMAT,
+  BACKUP_FORMAT_VERSION,
+} from './backup'
+
+export type {
+  RemoteEntry,
+  RemoteTombstone,
+  SyncRecord,
+  PullResult,
+  PushResult,
+  SyncTombstone,
+  SyncState,
+  SyncStateRecord,
+  SyncStatus,
+} from './sync'
@@ -0,0 +1,50 @@
+import type { Entry } from './entry'
+
+/**
+ * How jar draws favour some entries over others
+ * - none: every entry is equally likely
+ * - older: the older the entry, the likelier
+ * - unseen: entries drawn less often are likelier
+ */
+export type JarWeighting = 'none' | 'older' | 'unseen'
+
+/**
+ * Which entries a jar draw picks from
+ */
+export interface JarDrawOptions {
+  /** Only entries rated at least this */
+  minRating?: number
+  /** Only entries with this tag */
+  tag?: string
+  /** Only entries on or after this date (YYYY-MM-DD) */
+  startDate?: string
+  /** Only entries on or before this date (YYYY-MM-DD) */
+  endDate?: string
+  weighting?: JarWeighting
+}
+
+/**
+ * Draw history for one entry, kept so draws survive reloads
+ */
+export interface JarDrawRecord {
+  /** ID of the drawn entry */
+  entry_id: string
+  /** Times the entry has been drawn */
+  draw_count: number
+  /** Last time it was drawn (Unix milliseconds) */
+  last_drawn_at: number
+  /** Drawn since the bag was last refilled (it won't come up again until then) */
+  drawn_this_round: boolean
+}
+
+/**
+ * Result of a jar draw
+ */
+export interface JarDraw {
+  /** Drawn entry, or null if no entry matches the options */
+  entry: Entry | null
+  /** Matching entries not drawn yet in this round */
+  remaining: number
+  /** Matching entries */
+  total: number
+}
@@ -53,11 +53,64 @@ export const RATING_BG_COLORS: Record<Rating, string> = {
 }
 
 /**
- * Helper function to get rating from numeric value
+ * Emoji for each rating on the built-in scale
+ * Uses calm, journal-appropriate emojis
  */
-export function getRatingFromValue(value: number): Rating | null {
-  if (value < 1 || value > 7) return null
-  return value as Rating
+export const RATING_EMOJIS: Record<Rating, string> = {
+  [Rating.NIGHTMARE]: '😞',
+  [Rating.TERRIBLE]: '😔',
+  [Rating.BAD]: '😕',
+  [Rating.OK]: '😐',
+  [Rating.GOOD]: '🙂',
+  [Rating.GREAT]: '😊',
+  [Rating.THE_BEST]: '✨',
+}
+
+/**
+ * Range every rating is stored on, whatever scale the user rates with
+ * Each level of a scale is stored at its place along this range, so
+ * averages stay comparable when the scale changes
+ */
+export const RATING_RANGE = {
+  min: 1,
+  max: 7,
+} as const
+
+/**
+ * Bounds for the number of levels on a custom scale
+ */
+export const RATING_LEVEL_LIMITS = {
+  min: 2,
+  max: 10,
+} as const
+
+/**
+ * Longest label a custom level can have
+ */
+export const MAX_RATING_LABEL_LENGTH = 24
+
+/**
+ * One step of a rating scale, lowest first
+ */
+export interface RatingLevel {
+  /** Word for the level, e.g. "Glowing" */
+  label: string
+  /** Hex color, e.g. "#15803d" */
+  color: string
+  /** Emoji shown in calendars (empty for none) */
+  emoji: string
+}
+
+/**
+ * Check that a value is a stored rating (a number within RATING_RANGE)
+ */
+export function isRatingValue(value: unknown): value is number {
+  return (
+    typeof value === 'number' &&
+    Number.isFinite(value) &&
+    value >= RATING_RANGE.min &&
+    value <= RATING_RANGE.max
+  )
 }
 
 /**
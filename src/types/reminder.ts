@@ -0,0 +1,24 @@
+/**
+ * Whether the browser will show reminder notifications
+ * 'unsupported' when notifications or service workers are unavailable
+ */
+export type ReminderPermission = NotificationPermission | 'unsupported'
+
+/**
+ * What a reminder check did
+ * - notified: a notification was shown
+ * - banner: notifications are unavailable, so the in-app banner should show
+ * - written: the day already has an entry
+ * - quiet: the day is a quiet day
+ */
+export type ReminderOutcome = 'notified' | 'banner' | 'written' | 'quiet'
+
+/**
+ * Source of time for the reminder scheduler
+ * Swap in a fake clock to run reminders without waiting
+ */
+export interface ReminderClock {
+  now(): Date
+  setTimeout(callback: () => void, ms: number): number
+  clearTimeout(handle: number): void
+}
@@ -0,0 +1,28 @@
+import type { Entry } from './entry'
+
+/**
+ * Snapshot of an entry as it was before an edit
+ * One is stored every time updateEntry() changes an entry's content
+ */
+export interface EntryRevision {
+  /** Unique identifier (UUID) */
+  id: string
+  /** ID of the entry this version belongs to */
+  entry_id: string
+  gratitude_text: Entry['gratitude_text']
+  rating: Entry['rating']
+  tags: string[]
+  /** When this version was written (its updated_at, Unix milliseconds) */
+  edited_at: number
+  /** When this version was replaced by an edit (Unix milliseconds) */
+  revised_at: number
+}
+
+/**
+ * One run of words in a word-level diff
+ */
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed'
+  /** The words, including the whitespace between them */
+  text: string
+}
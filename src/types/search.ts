@@ -0,0 +1,48 @@
+import type { Entry } from './entry'
+
+/**
+ * Character range of a search hit inside gratitude_text
+ * start is inclusive, end is exclusive (like String.prototype.slice)
+ */
+export interface TextMatch {
+  start: number
+  end: number
+}
+
+/**
+ * A single entry returned by a search, with its relevance and hit offsets
+ */
+export interface SearchResult {
+  entry: Entry
+  /** Relevance score (higher is better, only comparable within one query) */
+  score: number
+  /** Sorted, non-overlapping ranges to highlight */
+  matches: TextMatch[]
+}
+
+/**
+ * Row in the persisted inverted index: one per (term, entry) pair
+ */
+export interface SearchPosting {
+  /** Normalized token (lowercase, diacritics removed) */
+  term: string
+  /** Stemmed form of the term, for matching other word forms */
+  stem: string
+  /** ID of the entry containing the term */
+  entry_id: string
+  /** Where the term occurs in the entry's text, as [start, end] pairs */
+  offsets: [number, number][]
+}
+
+/**
+ * Optional filters applied on top of a text search
+ * All bounds are inclusive
+ */
+export interface SearchFilters {
+  minRating?: number
+  maxRating?: number
+  /** Earliest entry_date (YYYY-MM-DD) */
+  startDate?: string
+  /** Latest entry_date (YYYY-MM-DD) */
+  endDate?: string
+}
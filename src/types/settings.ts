@@ -0,0 +1,146 @@
+import type { Locale } from './i18n'
+import type { RatingLevel } from './rating'
+
+/**
+ * Day the calendar week starts on (date-fns convention: 0 = Sunday)
+ */
+export type WeekStartDay = 0 | 1 | 6
+
+/**
+ * How full dates are displayed
+ */
+export type DateDisplayFormat = 'long' | 'medium' | 'iso' | 'day-month-year' | 'month-day-year'
+
+/**
+ * Page shown when the app is opened at "/"
+ */
+export type LandingPage = '/' | '/history' | '/search'
+
+/**
+ * How long deleted entries are kept in the trash
+ */
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90, 365] as const
+
+export type TrashRetentionDays = (typeof TRASH_RETENTION_OPTIONS)[number]
+
+/**
+ * Missed days in a row that don't break a streak
+ */
+export const STREAK_GRACE_DAY_OPTIONS = [0, 1, 2, 3] as const
+
+export type StreakGraceDays = (typeof STREAK_GRACE_DAY_OPTIONS)[number]
+
+/**
+ * How far back missed days can be filled in (0 = no limit)
+ */
+export const BACKFILL_WINDOW_OPTIONS = [0, 7, 30, 365] as const
+
+export type BackfillWindowDays = (typeof BACKFILL_WINDOW_OPTIONS)[number]
+
+/**
+ * Most reminder times a day
+ */
+export const MAX_REMINDER_TIMES = 3
+
+/**
+ * User preferences, persisted in the settings table
+ */
+export interface Settings {
+  /** Interface language (also sets the text direction) */
+  language: Locale
+
+  /** First day of the week in calendars */
+  weekStartsOn: WeekStartDay
+
+  /** Format used for full dates */
+  dateFormat: DateDisplayFormat
+
+  /** Page to open when the app starts */
+  defaultLandingPage: LandingPage
+
+  /**
+   * Maximum length of gratitude text
+   * Min: 100, Max: 5000
+   */
+  maxTextLength: number
+
+  /**
+   * Base URL of the sync server (empty turns sync off)
+   * @example "https://example.com/api/sync"
+   */
+  syncServerUrl: string
+
+  /** Days a deleted entry stays in the trash before it is removed for good */
+  trashRetentionDays: TrashRetentionDays
+
+  /** Missed days in a row allowed before a streak is broken */
+  streakGraceDays: StreakGraceDays
+
+  /** Days back an entry can be added for a missed day (0 = any past day) */
+  backfillWindowDays: BackfillWindowDays
+
+  /** Day the "On this day" card was hidden (YYYY-MM-DD, empty = shown) */
+  onThisDayHiddenOn: string
+
+  /**
+   * Times to be reminded to write, local time (empty turns reminders off)
+   * @example ["20:30"]
+   */
+  reminderTimes: string[]
+
+  /** Days of the week without reminders (0 = Sunday) */
+  reminderQuietDays: number[]
+
+  /**
+   * Levels to rate days with, lowest first (empty = the built-in 7 levels)
+   * Min: 2 levels, Max: 10
+   */
+  ratingScale: RatingLevel[]
+}
+
+/**
+ * Settings used until the user changes anything
+ */
+export const DEFAULT_SETTINGS: Settings = {
+  language: 'en',
+  weekStartsOn: 0,
+  dateFormat: 'long',
+  defaultLandingPage: '/',
+  maxTextLength: 1000,
+  syncServerUrl: '',
+  trashRetentionDays: 30,
+  streakGraceDays: 0,
+  backfillWindowDays: 0,
+  onThisDayHiddenOn: '',
+  reminderTimes: [],
+  reminderQuietDays: [],
+  ratingScale: [],
+}
+
+/**
+ * Bounds for the configurable text limit
+ */
+export const TEXT_LENGTH_LIMITS = {
+  min: 100,
+  max: 5000,
+} as const
+
+/**
+ * date-fns patterns for each date display format
+ * `long` and `medium` are replaced by the language's own patterns (see dateService)
+ */
+export const DATE_FORMAT_PATTERNS: Record<DateDisplayFormat, string> = {
+  long: 'MMMM d, yyyy',
+  medium: 'MMM d, yyyy',
+  iso: 'yyyy-MM-dd',
+  'day-month-year': 'dd/MM/yyyy',
+  'month-day-year': 'MM/dd/yyyy',
+}
+
+/**
+ * Row in the settings table (one per setting)
+ */
+export interface SettingRecord {
+  key: keyof Settings
+  value: Settings[keyof Settings]
+}
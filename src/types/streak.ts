@@ -0,0 +1,27 @@
+/**
+ * A run of days with entries, allowing for grace days
+ */
+export interface Streak {
+  /** First day with an entry (YYYY-MM-DD) */
+  start_date: string
+  /** Last day with an entry (YYYY-MM-DD) */
+  end_date: string
+  /** Number of days with an entry */
+  length: number
+}
+
+/**
+ * Streak statistics for the whole jar
+ */
+export interface StreakSummary {
+  /** Streak that can still be extended today, or null if it was broken */
+  current: Streak | null
+  /** Longest streak ever (the most recent one on a tie) */
+  longest: Streak | null
+  /** Every streak of two or more days, most recent first */
+  history: Streak[]
+  /** Whether today already has an entry */
+  loggedToday: boolean
+  /** Missed days left before the current streak breaks (0 if there is none) */
+  graceDaysLeft: number
+}
@@ -0,0 +1,79 @@
+import type { Entry } from './entry'
+
+/**
+ * Live entry as sent to and received from the sync server
+ * synced_at is device-local and never leaves the device
+ */
+export type RemoteEntry = Omit<Entry, 'synced_at' | 'deleted' | 'deleted_at'> & { deleted?: false }
+
+/**
+ * Deletion as sent to and received from the sync server
+ * updated_at is when the entry was deleted
+ */
+export interface RemoteTombstone {
+  id: string
+  entry_date: string
+  updated_at: number
+  deleted: true
+}
+
+/**
+ * A change exchanged with the sync server
+ */
+export type SyncRecord = RemoteEntry | RemoteTombstone
+
+/**
+ * Server response to a pull
+ */
+export interface PullResult {
+  /** Records changed after the requested cursor, oldest change first */
+  changes: SyncRecord[]
+  /** Opaque position to pull from next time */
+  cursor: string
+  /** More changes are waiting; pull again from the new cursor */
+  hasMore: boolean
+}
+
+/**
+ * Server response to a push
+ */
+export interface PushResult {
+  /** IDs the server stored; the rest were older than the server's copy */
+  accepted: string[]
+}
+
+/**
+ * Local record of an entry deleted after it was synced
+ * Kept until the deletion has been pushed
+ */
+export interface SyncTombstone {
+  id: string
+  entry_date: string
+  /** When the entry was deleted (Unix milliseconds) */
+  deleted_at: number
+}
+
+/**
+ * Sync bookkeeping, persisted in the syncState table
+ */
+export interface SyncState {
+  /** Server the cursor belongs to */
+  server: string | null
+  /** Position of the last pull */
+  cursor: string | null
+  /** When the last successful sync finished (Unix milliseconds) */
+  lastSyncedAt: number | null
+}
+
+/**
+ * Row in the syncState table (one per SyncState field)
+ */
+export interface SyncStateRecord {
+  key: keyof SyncState
+  value: SyncState[keyof SyncState]
+}
+
+/**
+ * What the sync indicator shows
+ */
+export type SyncStatus = 'disabled' | 'idle' | 'syncing' | 'offline' | 'error'
@@ -0,0 +1,68 @@
+import { createHash } from 'crypto'
+import { readdirSync, readFileSync, writeFileSync } from 'fs'
+import path from 'path'
+import type { Plugin, ResolvedConfig } from 'vite'
+
+/**
+ * Service worker script (copied from /public into the build)
+ */
+const SERVICE_WORKER_FILE = 'sw.js'
+
+/**
+ * Routes cached so they open offline, relative to the base URL
+ * (each serves index.html)
+ */
+const PRECACHE_ROUTES = ['', 'history']
+
+/**
+ * List every file under a directory, relative to it, with / separators
+ */
+function listFiles(dir: string, prefix = ''): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((item) =>
+    item.isDirectory()
+      ? listFiles(path.join(dir, item.name), `${prefix}${item.name}/`)
+      : [`${prefix}${item.name}`]
+  )
+}
+
+/**
+ * Precache manifest for the service worker
+ *
+ * After a production build, prepends the list of built files and a
+ * version hash to dist/sw.js. The hash changes whenever any file does,
+ * which makes browsers install the new worker and the app show its
+ * update prompt.
+ */
+export function precacheManifest(): Plugin {
+  let config: ResolvedConfig
+
+  return {
+    name: 'gratefulness-precache-manifest',
+    apply: 'build',
+    configResolved(resolved) {
+      config = resolved
+    },
+    closeBundle() {
+      const outDir = path.resolve(config.root, config.build.outDir)
+      const files = listFiles(outDir)
+        .filter((file) => file !== SERVICE_WORKER_FILE && file !== 'index.html' && !file.endsWith('.map'))
+        .sort()
+
+      const hash = createHash('sha256')
+      for (const file of [...files, 'index.html']) {
+        hash.update(file)
+        hash.update(readFileSync(path.join(outDir, file)))
+      }
+
+      const manifest = {
+        version: hash.digest('hex').slice(0, 12),
+        urls: [...PRECACHE_ROUTES, ...files].map((url) => `${config.base}${url}`),
+      }
+      const workerPath = path.join(outDir, SERVICE_WORKER_FILE)
+      writeFileSync(
+        workerPath,
+        `self.__PRECACHE_MANIFEST = ${JSON.stringify(manifest)}\n\n${readFileSync(workerPath, 'utf8')}`
+      )
+    },
+  }
+}
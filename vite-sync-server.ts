@@ -0,0 +1,66 @@
+import type { Connect, Plugin } from 'vite'
+import { SyncServer, SyncProtocolError } from './src/lib/sync/server'
+
+/**
+ * Stand-in sync server for development
+ *
+ * Serves the HTTP sync protocol from `vite` and `vite preview` using the
+ * in-memory SyncServer, so two browser profiles pointed at
+ * http://localhost:5173/api/sync can sync with each other. Data lives
+ * only as long as the dev server process.
+ */
+export function syncServer(basePath: string = '/api/sync'): Plugin {
+  const server = new SyncServer()
+
+  const handler: Connect.NextHandleFunction = (req, res, next) => {
+    const url = new URL(req.url ?? '/', 'http://localhost')
+
+    const send = (status: number, body: unknown) => {
+      res.statusCode = status
+      res.setHeader('Content-Type', 'application/json')
+      res.end(JSON.stringify(body))
+    }
+    const fail = (error: unknown) => {
+      if (error instanceof SyncProtocolError || error instanceof SyntaxError) {
+        send(400, { error: error.message })
+      } else {
+        next(error)
+      }
+    }
+
+    if (req.method === 'GET' && url.pathname === '/pull') {
+      try {
+        send(200, server.pull(url.searchParams.get('cursor')))
+      } catch (error) {
+        fail(error)
+      }
+      return
+    }
+
+    if (req.method === 'POST' && url.pathname === '/push') {
+      let body = ''
+      req.setEncoding('utf8')
+      req.on('data', (chunk: string) => (body += chunk))
+      req.on('end', () => {
+        try {
+          send(200, server.push(JSON.parse(body).records))
+        } catch (error) {
+          fail(error)
+        }
+      })
+      return
+    }
+
+    send(404, { error: 'Not found' })
+  }
+
+  return {
+    name: 'gratefulness-sync-server',
+    configureServer(devServer) {
+      devServer.middlewares.use(basePath, handler)
+    },
+    configurePreviewServer(previewServer) {
+      previewServer.middlewares.use(basePath, handler)
+    },
+  }
+}
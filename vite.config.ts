@@ -1,10 +1,16 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'
+import { syncServer } from './vite-sync-server'
+import { precacheManifest } from './vite-pwa'
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), syncServer(), precacheManifest()],
+  define: {
+    // Recorded in backup files so restores know which build wrote them
+    __APP_VERSION__: JSON.stringify(process.env.npm_package_version ?? '0.0.0'),
+  },
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),